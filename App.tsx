@@ -10,7 +10,7 @@
 
 import { StatusBar } from 'expo-status-bar';
 import React, { useCallback, useEffect, useState } from 'react';
-import { SafeAreaView, StyleSheet, View, Text, ActivityIndicator } from 'react-native';
+import { SafeAreaView, StyleSheet, View, Text, ActivityIndicator, Linking } from 'react-native';
 
 // Screens
 import GameScreen from './src/screens/GameScreen';
@@ -21,6 +21,8 @@ import StageSelectScreen from './src/screens/StageSelectScreen';
 import VehicleSelectScreen from './src/screens/VehicleSelectScreen';
 import ShopScreen from './src/screens/ShopScreen';
 import AchievementsScreen from './src/screens/AchievementsScreen';
+import ReplayScreen from './src/screens/ReplayScreen';
+import DailyChallengeScreen from './src/screens/DailyChallengeScreen';
 
 // Components
 import { EulaModal } from './src/components/EulaModal';
@@ -32,15 +34,27 @@ import { getAudioManager } from './src/audio/AudioManager';
 import { getProgressionManager } from './src/game/progression/upgrades';
 import { DailyRewardSystem } from './src/systems/DailyRewardSystem';
 import { SeasonPassSystem } from './src/systems/SeasonPassSystem';
+import { InventorySystem } from './src/systems/InventorySystem';
+import { CosmeticsSystem } from './src/systems/CosmeticsSystem';
+import { QuestBoardSystem } from './src/systems/QuestBoardSystem';
+import { LoadoutItem } from './src/game/simulation/loadout';
 import { LeaderboardSystem } from './src/systems/LeaderboardSystem';
 import { SecurityService } from './src/services/SecurityService';
+import { SeasonScheduleService } from './src/services/SeasonScheduleService';
+import { accelerometerTiltSource } from './src/services/TiltService';
 import { IAPManager } from './src/iap/IAPManager';
 import { initializePurchaseHandler } from './src/iap/purchaseHandler';
 import { AdService } from './src/ads/AdService';
+import { migrateGhostRuns } from './src/game/systems/ghostStore';
+import { migrateLegacyCoins } from './src/game/progression/coinMigration';
+import { claimEndedSeasonRewards } from './src/game/progression/rewards';
+import { payPendingRunRewards } from './src/game/progression/runRewards';
+import { isGhostLink } from './src/game/systems/ghostCode';
+import { DailyChallenge, getChallengeSeed } from './src/game/systems/dailyChallenge';
 
 // Types
 import type { VehicleId } from './src/game/config/vehicles';
-import type { StageId } from './src/game/config/stages';
+import { getCourse, StageId } from './src/game/config/stages';
 
 type Screen =
   | 'home'
@@ -52,7 +66,8 @@ type Screen =
   | 'shop'
   | 'achievements'
   | 'leaderboard'
-  | 'dailyChallenge';
+  | 'dailyChallenge'
+  | 'replays';
 
 export default function App() {
   const { hasAccepted, isLoading: eulaLoading, acceptEula } = useEulaAcceptance();
@@ -66,7 +81,12 @@ export default function App() {
   const [selectedVehicle, setSelectedVehicle] = useState<VehicleId>('jeep');
   const [selectedStage, setSelectedStage] = useState<StageId>('countryside');
   const [gameSeed, setGameSeed] = useState(Date.now());
+  const [activeChallenge, setActiveChallenge] = useState<DailyChallenge | null>(null);
+  const [activeCourse, setActiveCourse] = useState<string | null>(null);
+  const [isTimeTrial, setIsTimeTrial] = useState(false);
+  const [runLoadout, setRunLoadout] = useState<LoadoutItem[]>([]);
   const [bestDistance, setBestDistance] = useState(0);
+  const [pendingGhostCode, setPendingGhostCode] = useState<string | undefined>(undefined);
 
   // Initialize all services
   useEffect(() => {
@@ -78,8 +98,16 @@ export default function App() {
           console.log('Recovered from previous crash');
         }
 
-        // Initialize security service
+        // Initialize security service; suspicious coin credits are reported
         await SecurityService.load();
+        getProgressionManager()
+          .getCoinLedger()
+          .setCreditReporter((flag, details) => {
+            SecurityService.reportCoinCredit(flag, details);
+          });
+
+        // Fold the old coin balances into the coin ledger
+        await migrateLegacyCoins();
 
         // Initialize progression manager
         const progressionManager = getProgressionManager();
@@ -91,8 +119,24 @@ export default function App() {
         // Initialize engagement systems
         await DailyRewardSystem.load();
         await SeasonPassSystem.load();
+        await InventorySystem.load();
+        await CosmeticsSystem.load();
+        await QuestBoardSystem.load();
         await LeaderboardSystem.load();
 
+        // Pay a run the app was closed on before its rewards were paid
+        await payPendingRunRewards();
+
+        // Pay out what players left unclaimed in ended seasons, then check
+        // the live schedule without holding up startup
+        await claimEndedSeasonRewards();
+        SeasonScheduleService.sync()
+          .then((synced) => (synced ? claimEndedSeasonRewards() : undefined))
+          .catch((error) => console.warn('Season schedule sync failed:', error));
+
+        // Rewrite ghosts saved in the old JSON format
+        await migrateGhostRuns();
+
         // Initialize audio
         const audioManager = getAudioManager();
         await audioManager.init();
@@ -116,18 +160,61 @@ export default function App() {
     initializeServices();
   }, []);
 
+  // Open the ghost import flow from shared ghost links
+  useEffect(() => {
+    const handleUrl = (url: string | null) => {
+      if (url && isGhostLink(url)) {
+        setPendingGhostCode(url);
+        setCurrentScreen('replays');
+      }
+    };
+
+    Linking.getInitialURL().then(handleUrl);
+    const subscription = Linking.addEventListener('url', (event) => handleUrl(event.url));
+    return () => subscription.remove();
+  }, []);
+
   // Screen navigation handlers
   const navigateTo = useCallback((screen: Screen) => {
     setCurrentScreen(screen);
   }, []);
 
-  const handlePlay = useCallback(() => {
-    setGameSeed(Date.now());
-    navigateTo('game');
-  }, [navigateTo]);
+  const handlePlay = useCallback(
+    async (loadout: LoadoutItem[] = []) => {
+      // Equipped items are used up as the run starts
+      const equipped = await InventorySystem.consumeLoadout(loadout);
+      setRunLoadout(equipped);
+      setActiveChallenge(null);
+      setActiveCourse(null);
+      setIsTimeTrial(false);
+      setGameSeed(Date.now());
+      navigateTo('game');
+    },
+    [navigateTo]
+  );
+
+  const handlePlayChallenge = useCallback(
+    (challenge: DailyChallenge) => {
+      // Everyone races the same course on a given day
+      setActiveChallenge(challenge);
+      setRunLoadout([]);
+      setActiveCourse(null);
+      setIsTimeTrial(false);
+      setGameSeed(getChallengeSeed(challenge));
+      navigateTo('game');
+    },
+    [navigateTo]
+  );
 
   const handleRunEnd = useCallback(
-    async (stats: { distance: number; coins: number; trickPoints: number; maxCombo: number }) => {
+    async (stats: {
+      distance: number;
+      coins: number;
+      timeElapsed: number;
+      trickPoints: number;
+      maxCombo: number;
+      finishTime?: number;
+    }) => {
       // Update best distance
       if (stats.distance > bestDistance) {
         setBestDistance(stats.distance);
@@ -141,18 +228,15 @@ export default function App() {
         coins: stats.coins,
         trickPoints: stats.trickPoints,
         maxCombo: stats.maxCombo,
-        timeElapsed: 0,
+        timeElapsed: stats.timeElapsed,
+        ...(activeCourse ? { courseId: activeCourse } : {}),
+        finishTime: stats.finishTime,
       });
 
-      // Add XP to season pass
-      await SeasonPassSystem.addXP('distance', Math.floor(stats.distance / 100));
-      await SeasonPassSystem.addXP('coins_collected', Math.floor(stats.coins / 10));
-      await SeasonPassSystem.addXP('tricks', stats.trickPoints);
-
       // Record game played for ad frequency
       AdService.recordGamePlayed();
     },
-    [bestDistance, selectedVehicle, selectedStage]
+    [bestDistance, selectedVehicle, selectedStage, activeCourse]
   );
 
   const handleQuitToMenu = useCallback(() => {
@@ -171,6 +255,22 @@ export default function App() {
     manager.selectStage(stageId);
   }, []);
 
+  const handlePlayCourse = useCallback(
+    (stageId: StageId, courseId: string, timeTrial: boolean) => {
+      const course = getCourse(stageId, courseId);
+      if (!course) return;
+      // Courses are the same terrain every time
+      handleStageSelect(stageId);
+      setRunLoadout([]);
+      setActiveChallenge(null);
+      setActiveCourse(course.id);
+      setIsTimeTrial(timeTrial);
+      setGameSeed(course.seed);
+      navigateTo('game');
+    },
+    [handleStageSelect, navigateTo]
+  );
+
   // Loading screen
   if (eulaLoading || !isInitialized) {
     return (
@@ -203,6 +303,7 @@ export default function App() {
             onAchievements={() => navigateTo('achievements')}
             onLeaderboard={() => navigateTo('leaderboard')}
             onDailyChallenge={() => navigateTo('dailyChallenge')}
+            onReplays={() => navigateTo('replays')}
           />
         );
 
@@ -211,6 +312,15 @@ export default function App() {
           <GameErrorBoundary>
             <GameScreen
               seed={gameSeed}
+              stageId={(activeChallenge?.requiredStage as StageId | null) ?? selectedStage}
+              courseId={activeCourse ?? undefined}
+              timeTrial={isTimeTrial}
+              vehicleId={
+                (activeChallenge?.requiredVehicle as VehicleId | null) ?? selectedVehicle
+              }
+              challenge={activeChallenge ?? undefined}
+              loadout={runLoadout}
+              tiltSource={accelerometerTiltSource}
               onRunEnd={handleRunEnd}
               onQuit={handleQuitToMenu}
               bestDistance={bestDistance}
@@ -236,6 +346,7 @@ export default function App() {
               handleStageSelect(stageId);
               navigateTo('home');
             }}
+            onPlayCourse={handlePlayCourse}
             onBack={() => navigateTo('home')}
           />
         );
@@ -258,16 +369,29 @@ export default function App() {
       case 'achievements':
         return <AchievementsScreen onBack={() => navigateTo('home')} />;
 
+      case 'replays':
+        return (
+          <ReplayScreen
+            initialGhostCode={pendingGhostCode}
+            onBack={() => {
+              setPendingGhostCode(undefined);
+              navigateTo('home');
+            }}
+          />
+        );
+
       case 'leaderboard':
         // Fall back to home for now - leaderboard screen to be implemented
         navigateTo('home');
         return null;
 
       case 'dailyChallenge':
-        // Start game with daily challenge modifier
-        setGameSeed(Date.now());
-        navigateTo('game');
-        return null;
+        return (
+          <DailyChallengeScreen
+            onPlay={handlePlayChallenge}
+            onBack={() => navigateTo('home')}
+          />
+        );
 
       default:
         return (
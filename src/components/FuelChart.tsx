@@ -0,0 +1,118 @@
+/**
+ * FuelChart - Fuel left against distance, with throttle and idling figures
+ */
+
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import type { FuelSample, FuelTelemetryReport } from '../game/systems/fuelTelemetry';
+
+/**
+ * Most bars drawn; longer curves are thinned out evenly
+ */
+const MAX_BARS = 40;
+
+const CHART_HEIGHT = 48;
+
+export type FuelChartProps = {
+  /** Fuel telemetry of the run */
+  telemetry: FuelTelemetryReport;
+};
+
+/**
+ * Pick at most `count` samples spread evenly along the curve, keeping the last
+ */
+function thinSamples(samples: FuelSample[], count: number): FuelSample[] {
+  if (samples.length <= count) return samples;
+  const step = (samples.length - 1) / (count - 1);
+  return Array.from({ length: count }, (_, i) => samples[Math.round(i * step)]);
+}
+
+function getBarColor(fuel: number): string {
+  if (fuel <= 20) return '#FF4444';
+  if (fuel <= 50) return '#FF8800';
+  return '#4CAF50';
+}
+
+export function FuelChart({ telemetry }: FuelChartProps) {
+  const bars = thinSamples(telemetry.samples, MAX_BARS);
+  if (bars.length < 2) return null;
+
+  const endDistance = bars[bars.length - 1].distance;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>FUEL</Text>
+
+      <View style={styles.chart}>
+        {bars.map((sample, i) => (
+          <View
+            key={i}
+            style={[
+              styles.bar,
+              {
+                height: Math.max(1, (sample.fuel / 100) * CHART_HEIGHT),
+                backgroundColor: getBarColor(sample.fuel),
+              },
+            ]}
+          />
+        ))}
+      </View>
+      <View style={styles.axis}>
+        <Text style={styles.axisLabel}>0m</Text>
+        <Text style={styles.axisLabel}>{Math.floor(endDistance)}m</Text>
+      </View>
+
+      <View style={styles.figures}>
+        <Text style={styles.figure}>
+          Throttle {Math.round(telemetry.throttleDutyCycle * 100)}%
+        </Text>
+        <Text style={styles.figure}>
+          Idling {telemetry.idleFuel.toFixed(1)} fuel
+        </Text>
+        <Text style={styles.figure}>
+          {telemetry.efficiency.toFixed(1)} m/fuel
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    marginBottom: 15,
+  },
+  title: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 4,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  bar: {
+    flex: 1,
+    marginHorizontal: 0.5,
+  },
+  axis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  axisLabel: {
+    fontSize: 10,
+    color: '#666',
+  },
+  figures: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  figure: {
+    fontSize: 12,
+    color: '#CCC',
+  },
+});
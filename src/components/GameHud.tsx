@@ -5,14 +5,39 @@
  * - Distance and coins
  * - Fuel bar
  * - Boost bar
+ * - Damage bar
+ * - Power-ups running, with time left
  * - Combo counter and multiplier
  * - Tier labels
+ * - Ghost ahead/behind readout
+ * - Daily challenge progress
  */
 
 import React from 'react';
 import { StyleSheet, Text, View } from 'react-native';
 import { ComboState, ComboTier, getComboTierColor } from '../game/systems/combo';
 import { BoostState, getBoostBarColor } from '../game/systems/boost';
+import { DamageState, getDamageBarColor } from '../game/systems/damage';
+import { formatTimeDelta } from '../game/systems/ghost';
+import { formatRaceTime, formatSplitDelta, Split } from '../game/systems/timeTrial';
+import { POWER_UP_ICONS, PowerUpState } from '../game/systems/powerUps';
+
+export type GhostDelta = {
+  /** Ghost label (e.g. "Personal Best") */
+  name: string;
+  /** Player time minus ghost time at the same point (ms, negative = ahead) */
+  timeDelta: number;
+  /** Player distance minus ghost distance (meters, positive = ahead) */
+  distanceDelta: number;
+};
+
+export type ChallengeHudState = {
+  /** Goal description (e.g. "Reach 500m") */
+  label: string;
+  /** Progress toward the goal (0-1) */
+  fraction: number;
+  completed: boolean;
+};
 
 export type GameHudProps = {
   /** Distance traveled in meters */
@@ -27,12 +52,24 @@ export type GameHudProps = {
   bestDistance?: number;
   /** Time elapsed in seconds */
   timeElapsed?: number;
+  /** Racing the clock (time shown to the millisecond) */
+  isTimeTrial?: boolean;
+  /** Last time trial split taken */
+  lastSplit?: Split;
   /** Combo state */
   comboState?: ComboState;
   /** Boost state */
   boostState?: BoostState;
+  /** Vehicle damage */
+  damageState?: DamageState;
+  /** Power-ups running and the shield */
+  powerUpState?: PowerUpState;
   /** Total trick points */
   trickPoints?: number;
+  /** Gap to the ghost being raced */
+  ghostDelta?: GhostDelta;
+  /** Daily challenge being played */
+  challenge?: ChallengeHudState;
 };
 
 export function GameHud({
@@ -42,9 +79,15 @@ export function GameHud({
   coins,
   bestDistance,
   timeElapsed,
+  isTimeTrial = false,
+  lastSplit,
   comboState,
   boostState,
+  damageState,
+  powerUpState,
   trickPoints = 0,
+  ghostDelta,
+  challenge,
 }: GameHudProps) {
   const isNewBest = bestDistance !== undefined && distance > bestDistance;
 
@@ -58,10 +101,21 @@ export function GameHud({
           {isNewBest && <Text style={styles.newBest}>NEW BEST!</Text>}
         </View>
         {timeElapsed !== undefined && (
-          <Text style={styles.timeValue}>{formatTime(timeElapsed)}</Text>
+          <Text style={styles.timeValue}>
+            {isTimeTrial ? formatRaceTime(timeElapsed * 1000) : formatTime(timeElapsed)}
+          </Text>
         )}
       </View>
 
+      {/* Last time trial split */}
+      {lastSplit && <SplitRow split={lastSplit} />}
+
+      {/* Ghost gap */}
+      {ghostDelta && <GhostGap ghostDelta={ghostDelta} />}
+
+      {/* Challenge progress */}
+      {challenge && <ChallengeBar challenge={challenge} />}
+
       {/* Fuel bar */}
       <View style={styles.barContainer}>
         <Text style={styles.barLabel}>FUEL</Text>
@@ -100,6 +154,28 @@ export function GameHud({
         </View>
       )}
 
+      {/* Damage bar (once the vehicle has taken a hit) */}
+      {damageState && damageState.total > 0 && (
+        <View style={styles.barContainer}>
+          <Text style={styles.barLabel}>DMG</Text>
+          <View style={styles.barOuter}>
+            <View
+              style={[
+                styles.barInner,
+                {
+                  width: `${Math.min(100, damageState.total)}%`,
+                  backgroundColor: getDamageBarColor(damageState),
+                },
+              ]}
+            />
+          </View>
+          {damageState.isSmoking && <Text style={styles.warning}>SMOKING!</Text>}
+        </View>
+      )}
+
+      {/* Power-ups */}
+      {powerUpState && <PowerUpIcons powerUpState={powerUpState} />}
+
       {/* Coins and Trick Points Row */}
       <View style={styles.statsRow}>
         <View style={styles.coinsContainer}>
@@ -122,6 +198,104 @@ export function GameHud({
   );
 }
 
+/**
+ * Power-Up Icons Component
+ */
+function PowerUpIcons({ powerUpState }: { powerUpState: PowerUpState }) {
+  if (!powerUpState.hasShield && powerUpState.active.length === 0) return null;
+
+  return (
+    <View style={styles.powerUpRow}>
+      {powerUpState.hasShield && (
+        <View style={styles.powerUpIcon}>
+          <Text style={styles.powerUpSymbol}>{POWER_UP_ICONS.shield}</Text>
+        </View>
+      )}
+      {powerUpState.active.map((powerUp) => (
+        <View key={powerUp.type} style={styles.powerUpIcon}>
+          <Text style={styles.powerUpSymbol}>{POWER_UP_ICONS[powerUp.type]}</Text>
+          <Text style={styles.powerUpTime}>{Math.ceil(powerUp.remaining / 1000)}s</Text>
+          <View style={styles.powerUpTimerOuter}>
+            <View
+              style={[
+                styles.powerUpTimerInner,
+                { width: `${(powerUp.remaining / powerUp.duration) * 100}%` },
+              ]}
+            />
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+/**
+ * Split Row Component
+ */
+function SplitRow({ split }: { split: Split }) {
+  const color =
+    split.delta === null ? '#FFFFFF' : split.delta <= 0 ? '#4CAF50' : '#FF4444';
+
+  return (
+    <View style={styles.ghostRow}>
+      <Text style={styles.ghostName}>{split.distance}m</Text>
+      <Text style={[styles.ghostValue, { color: '#FFFFFF' }]}>
+        {formatRaceTime(split.time)}
+      </Text>
+      {split.delta !== null && (
+        <Text style={[styles.ghostValue, { color }]}>{formatSplitDelta(split.delta)}</Text>
+      )}
+    </View>
+  );
+}
+
+/**
+ * Ghost Gap Component
+ */
+function GhostGap({ ghostDelta }: { ghostDelta: GhostDelta }) {
+  const isAhead = ghostDelta.distanceDelta >= 0;
+  const color = isAhead ? '#4CAF50' : '#FF4444';
+  const meters = Math.round(Math.abs(ghostDelta.distanceDelta));
+
+  return (
+    <View style={styles.ghostRow}>
+      <Text style={styles.ghostName}>vs {ghostDelta.name}</Text>
+      <Text style={[styles.ghostValue, { color }]}>
+        {formatTimeDelta(ghostDelta.timeDelta)}
+      </Text>
+      <Text style={[styles.ghostValue, { color }]}>
+        {isAhead ? '+' : '-'}
+        {meters}m
+      </Text>
+    </View>
+  );
+}
+
+/**
+ * Challenge Progress Component
+ */
+function ChallengeBar({ challenge }: { challenge: ChallengeHudState }) {
+  return (
+    <View style={styles.barContainer}>
+      <Text style={styles.barLabel}>GOAL</Text>
+      <View style={styles.barOuter}>
+        <View
+          style={[
+            styles.barInner,
+            {
+              width: `${Math.min(1, challenge.fraction) * 100}%`,
+              backgroundColor: challenge.completed ? '#FFD700' : '#9B59B6',
+            },
+          ]}
+        />
+      </View>
+      <Text style={[styles.challengeLabel, challenge.completed && styles.challengeDone]}>
+        {challenge.completed ? 'DONE!' : challenge.label}
+      </Text>
+    </View>
+  );
+}
+
 /**
  * Combo Display Component
  */
@@ -242,6 +416,59 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 1, height: 1 },
     textShadowRadius: 2,
   },
+  ghostRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+    gap: 10,
+  },
+  ghostName: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: 'rgba(255, 255, 255, 0.8)',
+    textShadowColor: '#000',
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 1,
+  },
+  ghostValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    textShadowColor: '#000',
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 2,
+  },
+  powerUpRow: {
+    flexDirection: 'row',
+    marginTop: 8,
+    gap: 8,
+  },
+  powerUpIcon: {
+    alignItems: 'center',
+    minWidth: 36,
+    padding: 4,
+    borderRadius: 6,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  powerUpSymbol: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFF',
+  },
+  powerUpTime: {
+    fontSize: 10,
+    fontWeight: 'bold',
+    color: '#FFF',
+  },
+  powerUpTimerOuter: {
+    width: '100%',
+    height: 3,
+    marginTop: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  powerUpTimerInner: {
+    height: '100%',
+    backgroundColor: '#FFD700',
+  },
   barContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -269,6 +496,18 @@ const styles = StyleSheet.create({
     height: '100%',
     borderRadius: 6,
   },
+  challengeLabel: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#FFF',
+    marginLeft: 8,
+    textShadowColor: '#000',
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 1,
+  },
+  challengeDone: {
+    color: '#FFD700',
+  },
   warning: {
     fontSize: 12,
     fontWeight: 'bold',
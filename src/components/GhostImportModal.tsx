@@ -0,0 +1,180 @@
+/**
+ * GhostImportModal - Paste a friend's ghost code to race it
+ *
+ * Validates the code before adding the ghost to the raceable list.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { GhostRun } from '../game/systems/ghost';
+import { GHOST_CODE_ERROR_MESSAGES, parseGhostCode } from '../game/systems/ghostCode';
+import { saveImportedGhost } from '../game/systems/ghostStore';
+
+export type GhostImportModalProps = {
+  /** Whether the modal is visible */
+  visible: boolean;
+  /** Code to prefill (e.g. from a deep link) */
+  initialCode?: string;
+  /** Callback when modal is closed */
+  onClose: () => void;
+  /** Callback after a ghost was imported */
+  onImported: (ghost: GhostRun) => void;
+};
+
+export function GhostImportModal({
+  visible,
+  initialCode = '',
+  onClose,
+  onImported,
+}: GhostImportModalProps) {
+  const [code, setCode] = useState(initialCode);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset when opened
+  useEffect(() => {
+    if (visible) {
+      setCode(initialCode);
+      setError(null);
+    }
+  }, [visible, initialCode]);
+
+  const handleImport = async () => {
+    const result = parseGhostCode(code);
+    if (!result.valid) {
+      setError(GHOST_CODE_ERROR_MESSAGES[result.reason]);
+      return;
+    }
+
+    await saveImportedGhost(result.ghost);
+    onImported(result.ghost);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      statusBarTranslucent
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>Import Ghost</Text>
+          <Text style={styles.subtitle}>
+            Paste a ghost code or link from a friend to race them.
+          </Text>
+
+          <TextInput
+            style={styles.input}
+            value={code}
+            onChangeText={(text) => {
+              setCode(text);
+              setError(null);
+            }}
+            placeholder="SW-..."
+            placeholderTextColor="#666"
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+          />
+
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={onClose}
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.importButton]}
+              onPress={handleImport}
+              disabled={code.trim().length === 0}
+            >
+              <Text style={styles.buttonText}>Import</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.85)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modal: {
+    backgroundColor: '#1A1A2E',
+    borderRadius: 20,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    borderWidth: 2,
+    borderColor: '#9B59B6',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFF',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#AAA',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  input: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 10,
+    padding: 12,
+    minHeight: 80,
+    maxHeight: 140,
+    color: '#FFF',
+    fontSize: 13,
+    textAlignVertical: 'top',
+  },
+  error: {
+    fontSize: 14,
+    color: '#FF4444',
+    marginTop: 10,
+    textAlign: 'center',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    width: '100%',
+    marginTop: 20,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 25,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#444',
+  },
+  importButton: {
+    backgroundColor: '#9B59B6',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#FFF',
+  },
+});
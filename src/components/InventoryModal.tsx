@@ -0,0 +1,222 @@
+/**
+ * Inventory Modal - Items the player holds
+ *
+ * Features:
+ * - Item stacks with counts
+ * - Mystery box opening, with the drop table odds shown up front
+ * - XP boost activation
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Dimensions, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { InventorySystem, ItemStack, ITEMS } from '../systems/InventorySystem';
+import {
+  activateXpBoost,
+  getMysteryBoxOdds,
+  MysteryBoxDrop,
+  openMysteryBox,
+} from '../game/progression/rewards';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+
+type InventoryModalProps = {
+  visible: boolean;
+  onClose: () => void;
+  /** Called after an item was used (coins may have changed) */
+  onChange?: () => void;
+};
+
+export function InventoryModal({ visible, onClose, onChange }: InventoryModalProps) {
+  const [stacks, setStacks] = useState<ItemStack[]>([]);
+  const [lastDrop, setLastDrop] = useState<MysteryBoxDrop | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setLastDrop(null);
+      setStacks(InventorySystem.getStacks());
+    }
+  }, [visible]);
+
+  const handleOpenBox = async () => {
+    if (isBusy) return;
+    setIsBusy(true);
+    const drop = await openMysteryBox();
+    setLastDrop(drop);
+    setStacks(InventorySystem.getStacks());
+    setIsBusy(false);
+    onChange?.();
+  };
+
+  const handleXpBoost = async () => {
+    if (isBusy) return;
+    setIsBusy(true);
+    await activateXpBoost();
+    setStacks(InventorySystem.getStacks());
+    setIsBusy(false);
+    onChange?.();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade">
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>ITEMS</Text>
+
+          {stacks.length === 0 && (
+            <Text style={styles.empty}>No items yet. Claim daily rewards to earn some!</Text>
+          )}
+
+          {stacks.map(({ itemId, count }) => (
+            <View key={itemId} style={styles.item}>
+              <Text style={styles.itemIcon}>{ITEMS[itemId].icon}</Text>
+              <View style={styles.itemInfo}>
+                <Text style={styles.itemName}>{ITEMS[itemId].name}</Text>
+                <Text style={styles.itemDescription}>{ITEMS[itemId].description}</Text>
+              </View>
+              <Text style={styles.itemCount}>x{count}</Text>
+              {itemId === 'mystery_box' && (
+                <TouchableOpacity style={styles.useButton} onPress={handleOpenBox}>
+                  <Text style={styles.useButtonText}>OPEN</Text>
+                </TouchableOpacity>
+              )}
+              {itemId === 'xp_boost' && (
+                <TouchableOpacity style={styles.useButton} onPress={handleXpBoost}>
+                  <Text style={styles.useButtonText}>USE</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+
+          {lastDrop && (
+            <Text style={styles.dropResult}>You got: {lastDrop.label}</Text>
+          )}
+
+          {/* Odds are shown before any box is opened */}
+          <View style={styles.odds}>
+            <Text style={styles.oddsTitle}>Mystery box odds</Text>
+            {getMysteryBoxOdds().map(({ drop, chance }) => (
+              <View key={drop.id} style={styles.oddsRow}>
+                <Text style={styles.oddsLabel}>{drop.label}</Text>
+                <Text style={styles.oddsChance}>{(chance * 100).toFixed(1)}%</Text>
+              </View>
+            ))}
+          </View>
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    width: Math.min(SCREEN_WIDTH - 40, 420),
+    backgroundColor: '#1A1A2E',
+    borderRadius: 20,
+    padding: 20,
+    borderWidth: 2,
+    borderColor: '#FF6B35',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#FF6B35',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  empty: {
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2A2A4E',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  itemIcon: {
+    fontSize: 28,
+    marginRight: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#FFF',
+  },
+  itemDescription: {
+    fontSize: 12,
+    color: '#AAA',
+  },
+  itemCount: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFD700',
+  },
+  useButton: {
+    backgroundColor: '#FF6B35',
+    borderRadius: 15,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginLeft: 10,
+  },
+  useButtonText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#FFF',
+  },
+  dropResult: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  odds: {
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+    paddingTop: 10,
+  },
+  oddsTitle: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 4,
+  },
+  oddsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  oddsLabel: {
+    fontSize: 12,
+    color: '#CCC',
+  },
+  oddsChance: {
+    fontSize: 12,
+    color: '#CCC',
+  },
+  closeButton: {
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginTop: 5,
+  },
+  closeButtonText: {
+    fontSize: 14,
+    color: '#888',
+  },
+});
@@ -0,0 +1,172 @@
+/**
+ * Loadout Picker - Equip consumables before a run
+ *
+ * Features:
+ * - One toggle per loadout item, with how many are held
+ * - Equipped items are used up when the run starts
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Dimensions, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { LOADOUT_ITEMS, LoadoutItem } from '../game/simulation/loadout';
+import { InventorySystem, ITEMS } from '../systems/InventorySystem';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+
+type LoadoutPickerProps = {
+  visible: boolean;
+  onClose: () => void;
+  onStart: (loadout: LoadoutItem[]) => void;
+};
+
+export function LoadoutPicker({ visible, onClose, onStart }: LoadoutPickerProps) {
+  const [equipped, setEquipped] = useState<LoadoutItem[]>([]);
+
+  useEffect(() => {
+    if (visible) {
+      setEquipped([]);
+    }
+  }, [visible]);
+
+  const toggle = (item: LoadoutItem) => {
+    setEquipped((current) =>
+      current.includes(item) ? current.filter((i) => i !== item) : [...current, item]
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade">
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>LOADOUT</Text>
+          <Text style={styles.subtitle}>Equipped items are used up when the run starts</Text>
+
+          {LOADOUT_ITEMS.map((item) => {
+            const count = InventorySystem.getCount(item);
+            const isEquipped = equipped.includes(item);
+            return (
+              <TouchableOpacity
+                key={item}
+                style={[
+                  styles.item,
+                  isEquipped && styles.itemEquipped,
+                  count === 0 && styles.itemEmpty,
+                ]}
+                onPress={() => toggle(item)}
+                disabled={count === 0}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.itemIcon}>{ITEMS[item].icon}</Text>
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemName}>{ITEMS[item].name}</Text>
+                  <Text style={styles.itemDescription}>{ITEMS[item].description}</Text>
+                </View>
+                <Text style={styles.itemCount}>x{count}</Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          <TouchableOpacity
+            style={styles.startButton}
+            onPress={() => onStart(equipped)}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.startButtonText}>
+              {equipped.length > 0 ? 'START WITH LOADOUT' : 'START'}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>Back</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    width: Math.min(SCREEN_WIDTH - 40, 420),
+    backgroundColor: '#1A1A2E',
+    borderRadius: 20,
+    padding: 20,
+    borderWidth: 2,
+    borderColor: '#FF6B35',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#FF6B35',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#888',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2A2A4E',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  itemEquipped: {
+    borderColor: '#4CAF50',
+  },
+  itemEmpty: {
+    opacity: 0.4,
+  },
+  itemIcon: {
+    fontSize: 28,
+    marginRight: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#FFF',
+  },
+  itemDescription: {
+    fontSize: 12,
+    color: '#AAA',
+  },
+  itemCount: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFD700',
+  },
+  startButton: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 25,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 5,
+  },
+  startButtonText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFF',
+  },
+  closeButton: {
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  closeButtonText: {
+    fontSize: 14,
+    color: '#888',
+  },
+});
@@ -19,6 +19,7 @@ import {
   Dimensions,
 } from 'react-native';
 import { DailyRewardSystem, SPIN_PRIZES, SpinPrize } from '../systems/DailyRewardSystem';
+import { spinLuckyWheel } from '../game/progression/rewards';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const WHEEL_SIZE = Math.min(SCREEN_WIDTH - 80, 300);
@@ -27,6 +28,7 @@ const SEGMENT_COUNT = SPIN_PRIZES.length;
 type LuckySpinModalProps = {
   visible: boolean;
   onClose: () => void;
+  /** Prize collected (already paid out when the wheel stopped on it) */
   onPrizeWon: (prize: SpinPrize) => void;
   coinBalance: number;
   onBuySpin?: () => void;
@@ -79,8 +81,8 @@ export function LuckySpinModal({
     setShowResult(false);
     setCurrentPrize(null);
 
-    // Get the prize
-    const prize = await DailyRewardSystem.spin(!hasFreeSpin);
+    // Get the prize and pay it out
+    const prize = await spinLuckyWheel(!hasFreeSpin);
 
     if (!prize) {
       setIsSpinning(false);
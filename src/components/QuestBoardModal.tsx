@@ -0,0 +1,192 @@
+/**
+ * Quest Board Modal - This week's season pass quests
+ *
+ * Features:
+ * - Progress and rewards for every quest
+ * - Premium quests shown locked without the premium pass
+ * - Rerolls, with how many are left this week
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Dimensions, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { QuestBoardEntry, QuestBoardSystem } from '../systems/QuestBoardSystem';
+import { formatQuestValue, getWeekEndTime } from '../game/systems/weeklyQuests';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+
+type QuestBoardModalProps = {
+  visible: boolean;
+  onClose: () => void;
+};
+
+/**
+ * Time left on a week's board, e.g. "3d 4h"
+ */
+function formatTimeLeft(weekId: string): string {
+  const hours = Math.max(0, Math.floor((getWeekEndTime(weekId) - Date.now()) / (60 * 60 * 1000)));
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+export function QuestBoardModal({ visible, onClose }: QuestBoardModalProps) {
+  const [board, setBoard] = useState<QuestBoardEntry[]>([]);
+  const [rerollsLeft, setRerollsLeft] = useState(0);
+  const [weekId, setWeekId] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refresh = () => {
+    setBoard(QuestBoardSystem.getBoard());
+    setRerollsLeft(QuestBoardSystem.getRerollsLeft());
+    setWeekId(QuestBoardSystem.getState().weekId);
+  };
+
+  useEffect(() => {
+    if (visible) {
+      QuestBoardSystem.load().then(refresh);
+    }
+  }, [visible]);
+
+  const handleReroll = async (slot: number) => {
+    if (isBusy) return;
+    setIsBusy(true);
+    await QuestBoardSystem.reroll(slot);
+    refresh();
+    setIsBusy(false);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade">
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>WEEKLY QUESTS</Text>
+          {weekId !== '' && (
+            <Text style={styles.subtitle}>
+              New quests in {formatTimeLeft(weekId)} | {rerollsLeft} rerolls left
+            </Text>
+          )}
+
+          {board.map(({ quest, progress, completed, locked }) => (
+            <View key={quest.id} style={[styles.quest, locked && styles.questLocked]}>
+              <View style={styles.questInfo}>
+                <Text style={styles.questDescription}>{quest.description}</Text>
+                <Text style={styles.questProgress}>
+                  {formatQuestValue(quest.goal, progress)} /{' '}
+                  {formatQuestValue(quest.goal, quest.target)}
+                </Text>
+                <Text style={styles.questReward}>
+                  +{quest.rewardXP} XP  +{quest.rewardCoins} coins
+                </Text>
+              </View>
+              {completed ? (
+                <Text style={styles.questDone}>DONE</Text>
+              ) : locked ? (
+                <Text style={styles.questPremium}>PREMIUM</Text>
+              ) : (
+                rerollsLeft > 0 && (
+                  <TouchableOpacity
+                    style={styles.rerollButton}
+                    onPress={() => handleReroll(quest.slot)}
+                  >
+                    <Text style={styles.rerollButtonText}>REROLL</Text>
+                  </TouchableOpacity>
+                )
+              )}
+            </View>
+          ))}
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    width: Math.min(SCREEN_WIDTH - 40, 420),
+    backgroundColor: '#1A1A2E',
+    borderRadius: 20,
+    padding: 20,
+    borderWidth: 2,
+    borderColor: '#9C27B0',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#9C27B0',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#888',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  quest: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2A2A4E',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  questLocked: {
+    opacity: 0.5,
+  },
+  questInfo: {
+    flex: 1,
+  },
+  questDescription: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#FFF',
+  },
+  questProgress: {
+    fontSize: 12,
+    color: '#AAA',
+  },
+  questReward: {
+    fontSize: 12,
+    color: '#FFD700',
+  },
+  questDone: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+    marginLeft: 10,
+  },
+  questPremium: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#FFD700',
+    marginLeft: 10,
+  },
+  rerollButton: {
+    backgroundColor: '#9C27B0',
+    borderRadius: 15,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginLeft: 10,
+  },
+  rerollButtonText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#FFF',
+  },
+  closeButton: {
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginTop: 5,
+  },
+  closeButtonText: {
+    fontSize: 14,
+    color: '#888',
+  },
+});
@@ -4,6 +4,24 @@
 
 import React from 'react';
 import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { ReviveOption, RevivePayment } from '../game/systems/revive';
+import { CourseRating, MAX_COURSE_STARS } from '../game/systems/courseStars';
+import type { Split } from '../game/systems/timeTrial';
+import type { FuelTelemetryReport } from '../game/systems/fuelTelemetry';
+import { SplitTable } from './SplitTable';
+import { FuelChart } from './FuelChart';
+
+const REVIVE_LABELS: Record<RevivePayment, string> = {
+  coins: 'coins',
+  ad: 'Watch Ad',
+  summitPass: 'Summit Pass',
+};
+
+const STAR_TARGETS: { key: 'time' | 'coins' | 'fuel'; label: string }[] = [
+  { key: 'time', label: 'Time' },
+  { key: 'coins', label: 'Coins' },
+  { key: 'fuel', label: 'Fuel' },
+];
 
 export type RunEndModalProps = {
   /** Distance traveled in meters */
@@ -17,17 +35,27 @@ export type RunEndModalProps = {
   /** Time elapsed in seconds */
   timeElapsed: number;
   /** Reason for run end */
-  endReason: 'crash' | 'outOfFuel' | 'manual' | undefined;
+  endReason: 'crash' | 'outOfFuel' | 'manual' | 'finish' | undefined;
   /** Callback for restart button */
   onRestart: () => void;
   /** Callback for home button */
   onHome?: () => void;
   /** Callback for double coins (ad) */
   onDoubleCoins?: () => void;
-  /** Callback for revive (ad) */
-  onRevive?: () => void;
-  /** Whether revive is available */
-  canRevive?: boolean;
+  /** Callback for revive, with the chosen payment */
+  onRevive?: (payment: RevivePayment) => void;
+  /** Ways to pay for a revive (none = revive not offered) */
+  reviveOptions?: ReviveOption[];
+  /** Revives left this run */
+  revivesLeft?: number;
+  /** Stars earned on a course (null for an endless run) */
+  courseRating?: CourseRating | null;
+  /** Time trial splits (omitted outside time trials) */
+  splits?: Split[];
+  /** Time trial finish time (ms, null if the finish was not reached) */
+  finishTime?: number | null;
+  /** How the run spent its fuel */
+  fuelTelemetry?: FuelTelemetryReport | null;
   /** Total trick points earned */
   trickPoints?: number;
   /** Maximum combo achieved */
@@ -45,7 +73,12 @@ export function RunEndModal({
   onHome,
   onDoubleCoins,
   onRevive,
-  canRevive = false,
+  reviveOptions = [],
+  revivesLeft = 0,
+  courseRating = null,
+  splits,
+  finishTime = null,
+  fuelTelemetry = null,
   trickPoints = 0,
   maxCombo = 0,
 }: RunEndModalProps) {
@@ -55,6 +88,8 @@ export function RunEndModal({
         return 'CRASHED!';
       case 'outOfFuel':
         return 'OUT OF FUEL!';
+      case 'finish':
+        return 'FINISHED!';
       default:
         return 'RUN OVER';
     }
@@ -66,6 +101,8 @@ export function RunEndModal({
         return '#FF4444';
       case 'outOfFuel':
         return '#FF8800';
+      case 'finish':
+        return '#4CAF50';
       default:
         return '#FFFFFF';
     }
@@ -79,6 +116,25 @@ export function RunEndModal({
           {getTitle()}
         </Text>
 
+        {/* Course stars */}
+        {courseRating && (
+          <View style={styles.starsContainer}>
+            <Text style={styles.stars}>
+              {Array.from({ length: MAX_COURSE_STARS }, (_, i) =>
+                i < courseRating.stars ? '★' : '☆'
+              ).join(' ')}
+            </Text>
+            <Text style={styles.starTargets}>
+              {STAR_TARGETS.map(
+                ({ key, label }) => `${courseRating[key] ? '✓' : '✗'} ${label}`
+              ).join('   ')}
+            </Text>
+          </View>
+        )}
+
+        {/* Time trial results */}
+        {splits && <SplitTable splits={splits} finishTime={finishTime} />}
+
         {/* New best banner */}
         {isNewBest && (
           <View style={styles.newBestBanner}>
@@ -136,15 +192,37 @@ export function RunEndModal({
           )}
         </View>
 
-        {/* Revive button (if available) */}
-        {canRevive && onRevive && (
-          <TouchableOpacity
-            style={[styles.button, styles.reviveButton]}
-            onPress={onRevive}
-          >
-            <Text style={styles.buttonText}>REVIVE</Text>
-            <Text style={styles.adLabel}>Watch Ad</Text>
-          </TouchableOpacity>
+        {/* Fuel usage */}
+        {fuelTelemetry && <FuelChart telemetry={fuelTelemetry} />}
+
+        {/* Revive from the last checkpoint */}
+        {onRevive && reviveOptions.length > 0 && (
+          <View style={styles.reviveContainer}>
+            <Text style={styles.reviveTitle}>
+              REVIVE AT CHECKPOINT ({revivesLeft} left)
+            </Text>
+            <View style={styles.buttonRow}>
+              {reviveOptions.map((option) => (
+                <TouchableOpacity
+                  key={option.payment}
+                  style={[
+                    styles.button,
+                    styles.reviveButton,
+                    !option.available && styles.reviveButtonDisabled,
+                  ]}
+                  onPress={() => onRevive(option.payment)}
+                  disabled={!option.available}
+                >
+                  <Text style={styles.buttonText}>REVIVE</Text>
+                  <Text style={styles.adLabel}>
+                    {option.payment === 'coins'
+                      ? `${option.cost} ${REVIVE_LABELS.coins}`
+                      : REVIVE_LABELS[option.payment]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
         )}
 
         {/* Double coins button */}
@@ -215,6 +293,19 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 2, height: 2 },
     textShadowRadius: 3,
   },
+  starsContainer: {
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  stars: {
+    fontSize: 36,
+    color: '#FFD700',
+  },
+  starTargets: {
+    fontSize: 13,
+    color: '#AAA',
+    marginTop: 4,
+  },
   newBestBanner: {
     backgroundColor: '#FFD700',
     paddingHorizontal: 20,
@@ -263,9 +354,24 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginTop: 10,
   },
+  reviveContainer: {
+    width: '100%',
+    marginBottom: 10,
+  },
+  reviveTitle: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+    textAlign: 'center',
+  },
   reviveButton: {
+    flex: 1,
+    marginHorizontal: 4,
     backgroundColor: '#4CAF50',
   },
+  reviveButtonDisabled: {
+    opacity: 0.4,
+  },
   doubleButton: {
     backgroundColor: '#9C27B0',
   },
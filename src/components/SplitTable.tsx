@@ -0,0 +1,87 @@
+/**
+ * SplitTable - Time trial results: every split and the finish time
+ */
+
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { formatRaceTime, formatSplitDelta, Split } from '../game/systems/timeTrial';
+
+export type SplitTableProps = {
+  /** Splits taken this run */
+  splits: Split[];
+  /** Time at the finish line (ms, null if the finish was not reached) */
+  finishTime: number | null;
+};
+
+export function SplitTable({ splits, finishTime }: SplitTableProps) {
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.finishTime, finishTime === null && styles.didNotFinish]}>
+        {finishTime === null ? 'DID NOT FINISH' : formatRaceTime(finishTime)}
+      </Text>
+
+      <View style={[styles.row, styles.headerRow]}>
+        <Text style={[styles.cell, styles.header]}>Split</Text>
+        <Text style={[styles.cell, styles.header]}>Time</Text>
+        <Text style={[styles.cell, styles.header]}>vs Best</Text>
+      </View>
+
+      {splits.map((split) => (
+        <View key={split.index} style={styles.row}>
+          <Text style={styles.cell}>{split.distance}m</Text>
+          <Text style={styles.cell}>{formatRaceTime(split.time)}</Text>
+          <Text
+            style={[
+              styles.cell,
+              split.delta !== null && (split.delta <= 0 ? styles.ahead : styles.behind),
+            ]}
+          >
+            {split.delta === null ? '—' : formatSplitDelta(split.delta)}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    marginBottom: 15,
+  },
+  finishTime: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#FFD700',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  didNotFinish: {
+    fontSize: 20,
+    color: '#FF4444',
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 3,
+  },
+  headerRow: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  cell: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FFF',
+    textAlign: 'center',
+  },
+  header: {
+    fontSize: 12,
+    color: '#888',
+  },
+  ahead: {
+    color: '#4CAF50',
+  },
+  behind: {
+    color: '#FF4444',
+  },
+});
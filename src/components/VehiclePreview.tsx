@@ -0,0 +1,75 @@
+/**
+ * Vehicle Preview - A vehicle drawn in a skin's colours
+ *
+ * Used wherever a vehicle or skin is picked, so players see the paint
+ * before taking it out on a run.
+ */
+
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { VehicleDefinition } from '../game/config/vehicles';
+import { VehiclePalette } from '../game/config/cosmetics';
+
+type VehiclePreviewProps = {
+  vehicle: VehicleDefinition;
+  palette: VehiclePalette;
+  /** Size relative to the vehicle in the game */
+  scale?: number;
+};
+
+export function VehiclePreview({ vehicle, palette, scale = 1.5 }: VehiclePreviewProps) {
+  const { bodyWidth, bodyHeight, wheelRadius } = vehicle.visual;
+  const wheelStyle = {
+    backgroundColor: palette.wheels,
+    width: wheelRadius * 2,
+    height: wheelRadius * 2,
+    borderRadius: wheelRadius,
+  };
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={[
+          styles.body,
+          {
+            backgroundColor: palette.body,
+            width: bodyWidth * scale,
+            height: bodyHeight * scale,
+          },
+        ]}
+      >
+        {palette.decal && (
+          <View style={[styles.decal, { backgroundColor: palette.decal }]} />
+        )}
+      </View>
+      <View style={styles.wheels}>
+        <View style={[styles.wheel, wheelStyle]} />
+        <View style={[styles.wheel, wheelStyle]} />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  body: {
+    borderRadius: 10,
+    marginBottom: 10,
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+  decal: {
+    height: '20%',
+  },
+  wheels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    width: 100,
+  },
+  wheel: {
+    borderWidth: 3,
+    borderColor: '#555',
+  },
+});
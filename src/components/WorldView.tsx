@@ -0,0 +1,531 @@
+/**
+ * WorldView - Draws a rendered simulation frame
+ *
+ * Shared by the live game and replays so both show the same world:
+ * bodies (car, terrain, pickups), particles, floating texts, an
+ * optional ghost car, a course's finish line, weather and fog.
+ */
+
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import {
+  getPolygonBands,
+  isBodyVisible,
+  RenderableBody,
+  RenderState,
+  worldToScreen,
+} from '../game/renderer/GameRenderer';
+import { isPickupLabel } from '../game/pickups/spawn';
+import { Particle } from '../game/systems/particles';
+import { FloatingText } from '../game/systems/floatingText';
+import { WeatherParticle } from '../game/systems/weather';
+
+export type GhostCarMarker = {
+  /** World position of the ghost car's center */
+  x: number;
+  y: number;
+  angle: number;
+  /** Car body size */
+  width: number;
+  height: number;
+  isBoosting: boolean;
+  /** Body colour of the ghost's vehicle and skin (plain white when absent) */
+  color?: string;
+};
+
+export type SnowCap = {
+  /** World x of the left edge */
+  x: number;
+  width: number;
+  /** World y of the terrain top */
+  y: number;
+  /** Snow depth (px) */
+  depth: number;
+};
+
+export type WeatherLayer = {
+  /** Weather particles (screen space) */
+  particles: WeatherParticle[];
+  /** Atmosphere tint over the world */
+  tint: { opacity: number; color: string };
+  /** Snow settled on terrain */
+  snowCaps: SnowCap[];
+  /** Pickup opacity at a world x */
+  getPickupOpacity: (x: number) => number;
+};
+
+export type FogEffect = {
+  /** World x the fog is measured from (usually the car) */
+  originX: number;
+  /** Clear distance ahead of the origin (px) */
+  distance: number;
+};
+
+/**
+ * Hull band (of the eight drawn) a skin's decal stripe is painted on
+ */
+const DECAL_BAND = 4;
+
+/**
+ * Fog bands beyond the clear distance, thickening with range
+ */
+/**
+ * Finish line: a checkered banner across the whole screen height
+ */
+const FINISH_LINE_WIDTH = 12;
+const FINISH_CHECKER_SIZE = FINISH_LINE_WIDTH / 2;
+
+const FOG_BANDS = [
+  { offset: 0, opacity: 0.35 },
+  { offset: 80, opacity: 0.6 },
+  { offset: 180, opacity: 0.85 },
+];
+
+export type WorldViewProps = {
+  /** Bodies and camera for this frame */
+  renderState: RenderState;
+  /** Particles to draw over the world */
+  particles?: Particle[];
+  /** Floating texts to draw over the world */
+  floatingTexts?: FloatingText[];
+  /** Ghost car to draw behind the world bodies */
+  ghost?: GhostCarMarker | null;
+  /** World x of the course finish line (null for an endless run) */
+  finishX?: number | null;
+  /** Fog that hides the world ahead */
+  fog?: FogEffect | null;
+  /** Weather drawn over the world */
+  weather?: WeatherLayer | null;
+  /** Viewport width */
+  screenWidth: number;
+  /** Viewport height */
+  screenHeight: number;
+};
+
+export function WorldView({
+  renderState,
+  particles = [],
+  floatingTexts = [],
+  ghost,
+  finishX = null,
+  fog,
+  weather,
+  screenWidth,
+  screenHeight,
+}: WorldViewProps) {
+  /**
+   * Render a single body
+   */
+  const renderBody = (body: RenderableBody) => {
+    const screenPos = worldToScreen(
+      body.x,
+      body.y,
+      renderState.cameraX,
+      renderState.cameraY
+    );
+
+    if (
+      !isBodyVisible(
+        body,
+        renderState.cameraX,
+        renderState.cameraY,
+        screenWidth,
+        screenHeight
+      )
+    ) {
+      return null;
+    }
+
+    // Ash hides pickups
+    const isPickup = isPickupLabel(body.label);
+    const opacity = isPickup && weather ? weather.getPickupOpacity(body.x) : 1;
+
+    if (body.type === 'circle') {
+      return (
+        <View
+          key={body.id}
+          style={[
+            styles.body,
+            {
+              position: 'absolute',
+              left: screenPos.x - (body.radius ?? 0),
+              top: screenPos.y - (body.radius ?? 0),
+              width: (body.radius ?? 0) * 2,
+              height: (body.radius ?? 0) * 2,
+              borderRadius: body.radius ?? 0,
+              backgroundColor: body.color,
+              opacity,
+              transform: [{ rotate: `${body.angle}rad` }],
+            },
+          ]}
+        />
+      );
+    }
+
+    if (body.type === 'rectangle') {
+      return (
+        <View
+          key={body.id}
+          style={[
+            styles.body,
+            {
+              position: 'absolute',
+              left: screenPos.x - (body.width ?? 0) / 2,
+              top: screenPos.y - (body.height ?? 0) / 2,
+              width: body.width ?? 0,
+              height: body.height ?? 0,
+              backgroundColor: body.color,
+              opacity,
+              transform: [{ rotate: `${body.angle}rad` }],
+            },
+          ]}
+        />
+      );
+    }
+
+    if (body.type === 'polygon' && body.vertices) {
+      // Bands are drawn in the body's own frame inside a square rotated
+      // around the body position
+      const extent = Math.max(
+        ...body.vertices.map((v) => Math.hypot(v.x - body.x, v.y - body.y))
+      );
+
+      return (
+        <View
+          key={body.id}
+          style={{
+            position: 'absolute',
+            left: screenPos.x - extent,
+            top: screenPos.y - extent,
+            width: extent * 2,
+            height: extent * 2,
+            opacity,
+            transform: [{ rotate: `${body.angle}rad` }],
+          }}
+        >
+          {getPolygonBands(body).map((band, index) => (
+            <View
+              key={index}
+              style={{
+                position: 'absolute',
+                left: extent + band.x,
+                top: extent + band.y,
+                width: band.width,
+                height: band.height,
+                backgroundColor: body.decal && index === DECAL_BAND ? body.decal : body.color,
+              }}
+            />
+          ))}
+        </View>
+      );
+    }
+
+    return null;
+  };
+
+  /**
+   * Render the translucent ghost car
+   */
+  const renderGhost = () => {
+    if (!ghost) return null;
+
+    const screenPos = worldToScreen(
+      ghost.x,
+      ghost.y,
+      renderState.cameraX,
+      renderState.cameraY
+    );
+
+    if (
+      screenPos.x < -ghost.width ||
+      screenPos.x > screenWidth + ghost.width ||
+      screenPos.y < -ghost.width ||
+      screenPos.y > screenHeight + ghost.width
+    ) {
+      return null;
+    }
+
+    return (
+      <View
+        style={[
+          styles.ghost,
+          ghost.isBoosting && styles.ghostBoosting,
+          ghost.color !== undefined && { backgroundColor: ghost.color, opacity: 0.45 },
+          {
+            left: screenPos.x - ghost.width / 2,
+            top: screenPos.y - ghost.height / 2,
+            width: ghost.width,
+            height: ghost.height,
+            transform: [{ rotate: `${ghost.angle}rad` }],
+          },
+        ]}
+      />
+    );
+  };
+
+  /**
+   * Render floating texts
+   */
+  const renderFloatingTexts = () => {
+    return floatingTexts.map((text) => {
+      const screenPos = worldToScreen(
+        text.x,
+        text.y,
+        renderState.cameraX,
+        renderState.cameraY
+      );
+
+      if (
+        screenPos.x < -100 ||
+        screenPos.x > screenWidth + 100 ||
+        screenPos.y < -100 ||
+        screenPos.y > screenHeight + 100
+      ) {
+        return null;
+      }
+
+      return (
+        <Text
+          key={text.id}
+          style={{
+            position: 'absolute',
+            left: screenPos.x,
+            top: screenPos.y,
+            fontSize: text.fontSize,
+            fontWeight: 'bold',
+            color: text.color,
+            opacity: text.alpha,
+            textShadowColor: '#000',
+            textShadowOffset: { width: 1, height: 1 },
+            textShadowRadius: 2,
+            transform: [{ translateX: -20 }], // Center the text
+          }}
+        >
+          {text.text}
+        </Text>
+      );
+    });
+  };
+
+  /**
+   * Render particles
+   */
+  const renderParticles = () => {
+    return particles.map((particle) => {
+      const screenPos = worldToScreen(
+        particle.x,
+        particle.y,
+        renderState.cameraX,
+        renderState.cameraY
+      );
+
+      if (
+        screenPos.x < -50 ||
+        screenPos.x > screenWidth + 50 ||
+        screenPos.y < -50 ||
+        screenPos.y > screenHeight + 50
+      ) {
+        return null;
+      }
+
+      return (
+        <View
+          key={particle.id}
+          style={{
+            position: 'absolute',
+            left: screenPos.x - particle.size / 2,
+            top: screenPos.y - particle.size / 2,
+            width: particle.size,
+            height: particle.size,
+            borderRadius: particle.size / 2,
+            backgroundColor: particle.color,
+            opacity: particle.alpha,
+            transform: [{ rotate: `${particle.rotation}rad` }],
+          }}
+        />
+      );
+    });
+  };
+
+  /**
+   * Render snow on terrain and the weather particles and tint
+   */
+  const renderSnowCaps = () => {
+    if (!weather) return null;
+
+    return weather.snowCaps.map((cap) => {
+      const screenPos = worldToScreen(cap.x, cap.y, renderState.cameraX, renderState.cameraY);
+      if (screenPos.x > screenWidth || screenPos.x + cap.width < 0) return null;
+
+      return (
+        <View
+          key={`snow_${cap.x}`}
+          style={[
+            styles.snowCap,
+            {
+              left: screenPos.x,
+              top: screenPos.y - cap.depth / 2,
+              width: cap.width,
+              height: cap.depth,
+            },
+          ]}
+        />
+      );
+    });
+  };
+
+  const renderWeather = () => {
+    if (!weather) return null;
+
+    return (
+      <>
+        {weather.particles.map((particle) => (
+          <View
+            key={particle.id}
+            style={{
+              position: 'absolute',
+              left: particle.x - particle.size / 2,
+              top: particle.y - particle.size / 2,
+              width: particle.size,
+              height: particle.size,
+              borderRadius: particle.size / 2,
+              backgroundColor: particle.color,
+              opacity: particle.alpha,
+              transform: [{ rotate: `${particle.rotation}rad` }],
+            }}
+          />
+        ))}
+        {weather.tint.opacity > 0 && (
+          <View
+            pointerEvents="none"
+            style={[
+              styles.fog,
+              { backgroundColor: weather.tint.color, opacity: weather.tint.opacity },
+            ]}
+          />
+        )}
+      </>
+    );
+  };
+
+  /**
+   * Render the finish line of a course
+   */
+  const renderFinishLine = () => {
+    if (finishX === null) return null;
+
+    const left =
+      worldToScreen(finishX, 0, renderState.cameraX, renderState.cameraY).x -
+      FINISH_LINE_WIDTH / 2;
+    if (left < -FINISH_LINE_WIDTH || left > screenWidth) return null;
+
+    const rows = Math.ceil(screenHeight / FINISH_CHECKER_SIZE);
+    return (
+      <View style={[styles.finishLine, { left, height: screenHeight }]} pointerEvents="none">
+        {Array.from({ length: rows }, (_, row) => (
+          <View
+            key={row}
+            style={[
+              styles.finishChecker,
+              { top: row * FINISH_CHECKER_SIZE, left: (row % 2) * FINISH_CHECKER_SIZE },
+            ]}
+          />
+        ))}
+      </View>
+    );
+  };
+
+  /**
+   * Render fog over everything past the clear distance
+   */
+  const renderFog = () => {
+    if (!fog) return null;
+
+    const fogStart = worldToScreen(
+      fog.originX + fog.distance,
+      0,
+      renderState.cameraX,
+      renderState.cameraY
+    ).x;
+
+    return (
+      <>
+        <View style={[styles.fog, styles.fogVeil]} pointerEvents="none" />
+        {FOG_BANDS.map((band) => (
+          <View
+            key={band.offset}
+            pointerEvents="none"
+            style={[
+              styles.fog,
+              {
+                left: Math.max(0, Math.min(screenWidth, fogStart + band.offset)),
+                opacity: band.opacity,
+              },
+            ]}
+          />
+        ))}
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.gameWorld}>
+      {renderGhost()}
+      {renderFinishLine()}
+      {renderState.bodies.map(renderBody)}
+      {renderSnowCaps()}
+      {renderParticles()}
+      {renderWeather()}
+      {renderFog()}
+      {renderFloatingTexts()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  gameWorld: {
+    flex: 1,
+    overflow: 'hidden',
+  },
+  body: {
+    position: 'absolute',
+  },
+  ghost: {
+    position: 'absolute',
+    backgroundColor: 'rgba(255, 255, 255, 0.35)',
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+    borderRadius: 6,
+  },
+  ghostBoosting: {
+    borderColor: 'rgba(255, 107, 53, 0.8)',
+  },
+  finishLine: {
+    position: 'absolute',
+    top: 0,
+    width: FINISH_LINE_WIDTH,
+    backgroundColor: '#FFFFFF',
+  },
+  finishChecker: {
+    position: 'absolute',
+    width: FINISH_CHECKER_SIZE,
+    height: FINISH_CHECKER_SIZE,
+    backgroundColor: '#111111',
+  },
+  snowCap: {
+    position: 'absolute',
+    backgroundColor: '#F5F9FF',
+    borderRadius: 4,
+  },
+  fog: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#C8CCD2',
+  },
+  fogVeil: {
+    opacity: 0.15,
+  },
+});
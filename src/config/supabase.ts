@@ -134,17 +134,37 @@ export const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY || '';
  *
  * CREATE INDEX idx_daily_metrics_date ON daily_metrics(date);
  *
+ * -- Seasons Table (global season schedule, read by the app)
+ * -- Ids follow the bundled schedule (season_1, season_2, ...) so players
+ * -- who were offline land in the same season.
+ * CREATE TABLE seasons (
+ *   id VARCHAR(50) PRIMARY KEY,
+ *   name VARCHAR(100) NOT NULL,
+ *   theme JSONB DEFAULT '{}',
+ *   starts_at TIMESTAMPTZ NOT NULL,
+ *   ends_at TIMESTAMPTZ NOT NULL,
+ *   rewards JSONB,
+ *   created_at TIMESTAMPTZ DEFAULT NOW(),
+ *   CHECK (ends_at > starts_at)
+ * );
+ *
+ * CREATE INDEX idx_seasons_starts_at ON seasons(starts_at);
+ *
  * -- Enable Row Level Security
  * ALTER TABLE analytics_events ENABLE ROW LEVEL SECURITY;
  * ALTER TABLE analytics_users ENABLE ROW LEVEL SECURITY;
  * ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
  * ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
  * ALTER TABLE daily_metrics ENABLE ROW LEVEL SECURITY;
+ * ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
  *
  * -- Policies for analytics_events (allow insert from app)
  * CREATE POLICY "Allow insert for all" ON analytics_events FOR INSERT WITH CHECK (true);
  * CREATE POLICY "Allow select for authenticated" ON analytics_events FOR SELECT USING (auth.role() = 'authenticated');
  *
+ * -- Policies for seasons (anyone can read the schedule)
+ * CREATE POLICY "Allow select for all" ON seasons FOR SELECT USING (true);
+ *
  * -- Policies for admin access (service key bypasses RLS)
  * CREATE POLICY "Admin full access" ON admin_users FOR ALL USING (auth.role() = 'service_role');
  * CREATE POLICY "Admin read reports" ON reports FOR SELECT USING (is_public = true OR auth.role() = 'authenticated');
@@ -0,0 +1,152 @@
+/**
+ * Tests for vehicle chassis geometry
+ */
+
+import Matter from 'matter-js';
+import { createCar, addCarToWorld } from '../physics/car';
+import { DEFAULT_CHASSIS, getWheelbase } from '../physics/chassis';
+import { createPhysicsWorld } from '../physics/world';
+import { createFlatGround } from '../terrain/terrain';
+import { getVehicle, VehicleId } from '../config/vehicles';
+import { createRenderState, getPolygonBands } from '../renderer/GameRenderer';
+import { getVehiclePalette } from '../config/cosmetics';
+
+function createVehicle(id: VehicleId) {
+  const vehicle = getVehicle(id);
+  return createCar({
+    x: 300,
+    y: 300,
+    bodyWidth: vehicle.visual.bodyWidth,
+    bodyHeight: vehicle.visual.bodyHeight,
+    wheelRadius: vehicle.visual.wheelRadius,
+    chassis: vehicle.chassis,
+  });
+}
+
+describe('Chassis', () => {
+  describe('createCar', () => {
+    it('should keep the default car a box on two wheels', () => {
+      const car = createCar({ x: 200, y: 300 });
+
+      expect(car.wheels).toEqual([car.rearWheel, car.frontWheel]);
+      expect(car.trailer).toBeNull();
+      expect(car.body.position.x).toBeCloseTo(200);
+      expect(car.body.position.y).toBeCloseTo(300);
+      expect(car.frontWheel.position.x - car.rearWheel.position.x).toBeCloseTo(
+        getWheelbase(DEFAULT_CHASSIS, 80)
+      );
+    });
+
+    it('should build one wheel per layout entry', () => {
+      const tank = createVehicle('tank');
+
+      expect(tank.wheels).toHaveLength(5);
+      expect(tank.wheels.map((w) => w.label)).toEqual([
+        'rearWheel',
+        'midWheel',
+        'midWheel',
+        'midWheel',
+        'frontWheel',
+      ]);
+      expect(tank.getAllBodies()).toHaveLength(6);
+    });
+
+    it('should give vehicles distinct wheelbases and centres of mass', () => {
+      const jeep = createVehicle('jeep');
+      const truck = createVehicle('monster_truck');
+      const tank = createVehicle('tank');
+
+      const wheelbase = (car: typeof jeep) => car.frontWheel.position.x - car.rearWheel.position.x;
+      expect(wheelbase(truck)).toBeGreaterThan(wheelbase(jeep));
+
+      // Sloped tops put the weight low in the frame
+      expect(truck.body.position.y).toBeGreaterThan(300);
+      expect(tank.body.position.y).toBeGreaterThan(300);
+      expect(tank.body.mass).toBeGreaterThan(jeep.body.mass);
+    });
+
+    it('should hitch a trailer behind the vehicle', () => {
+      const rover = createVehicle('moon_rover');
+
+      expect(rover.trailer).not.toBeNull();
+      expect(rover.trailer!.position.x).toBeLessThan(rover.rearWheel.position.x);
+      expect(rover.getAllBodies()).toContain(rover.trailer);
+      expect(rover.getAllBodies().filter((b) => b.label === 'trailerWheel')).toHaveLength(1);
+    });
+
+    it('should turn tracked wheels together', () => {
+      const tank = createVehicle('tank');
+      Matter.Body.setAngularVelocity(tank.wheels[0], 0.2);
+
+      tank.applyGas(1);
+
+      const speeds = tank.wheels.map((w) => w.angularVelocity);
+      speeds.forEach((speed) => expect(speed).toBeCloseTo(speeds[0]));
+    });
+
+    it('should drive every tracked vehicle forward', () => {
+      (['tank', 'monster_truck', 'moon_rover'] as VehicleId[]).forEach((id) => {
+        const world = createPhysicsWorld();
+        const car = createVehicle(id);
+        addCarToWorld(world, car);
+        world.add(createFlatGround(0, 3000, 50, 600));
+
+        for (let i = 0; i < 90; i++) {
+          car.applyGas(1);
+          world.step(1000 / 60);
+        }
+
+        expect(car.getPosition().x).toBeGreaterThan(330);
+        expect(car.isFlipped()).toBe(false);
+      });
+    });
+  });
+
+  describe('rendering', () => {
+    it('should draw vehicle hulls as polygons', () => {
+      const tank = createVehicle('tank');
+      const hull = createRenderState(tank.getAllBodies(), 0, 0).bodies[0];
+
+      expect(hull.type).toBe('polygon');
+      expect(hull.vertices).toHaveLength(6);
+    });
+
+    it('should slice a hull into bands inside its outline', () => {
+      const tank = createVehicle('tank');
+      const hull = createRenderState([tank.body], 0, 0).bodies[0];
+      const bands = getPolygonBands(hull, 4);
+
+      expect(bands).toHaveLength(4);
+      // Sloped top: the top band is narrower than the widest band
+      expect(bands[0].width).toBeLessThan(Math.max(...bands.map((b) => b.width)));
+      bands.forEach((band) => expect(band.width).toBeLessThanOrEqual(100 + 1e-6));
+    });
+
+    it('should slice in the body frame regardless of rotation', () => {
+      const car = createCar({ x: 200, y: 300 });
+      Matter.Body.setAngle(car.body, Math.PI / 3);
+      const hull = createRenderState([car.body], 0, 0).bodies[0];
+
+      getPolygonBands(hull, 3).forEach((band) => {
+        expect(band.width).toBeCloseTo(80);
+        expect(band.height).toBeCloseTo(10);
+      });
+    });
+
+    it('should paint the vehicle in its skin palette', () => {
+      const car = createVehicle('jeep');
+      const bodies = createRenderState(
+        car.getAllBodies(),
+        0,
+        0,
+        getVehiclePalette('jeep', 'skin_jeep_gold')
+      ).bodies;
+      const hull = bodies.find((b) => b.label === 'carBody');
+      const wheel = bodies.find((b) => b.label === 'rearWheel');
+
+      expect(hull?.color).toBe('#FFC107');
+      expect(hull?.decal).toBe('#FFF8E1');
+      expect(wheel?.color).toBe('#3E2723');
+    });
+  });
+});
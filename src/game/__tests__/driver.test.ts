@@ -0,0 +1,113 @@
+/**
+ * Tests for the driver ragdoll and head-contact crashes
+ */
+
+import Matter from 'matter-js';
+import { createCar, addCarToWorld } from '../physics/car';
+import { addDriverToWorld, createDriver, isHeadOnGround } from '../physics/driver';
+import { createPhysicsWorld } from '../physics/world';
+import { createFlatGround } from '../terrain/terrain';
+import { createSimulation, NEUTRAL_INPUT } from '../simulation/simulation';
+import { buildRunConfig } from '../simulation/runConfig';
+
+const NO_UPGRADES = { engine: 0, tires: 0, suspension: 0, fuelTank: 0 };
+
+describe('Driver', () => {
+  describe('createDriver', () => {
+    it('should seat the head above the car body', () => {
+      const car = createCar({ x: 200, y: 300 });
+      const driver = createDriver(car);
+
+      expect(driver.isSeated()).toBe(true);
+      expect(driver.torso.position.y).toBeLessThan(car.body.bounds.min.y);
+      expect(driver.head.position.y).toBeLessThan(driver.torso.position.y);
+    });
+
+    it('should ride along with the car', () => {
+      const world = createPhysicsWorld();
+      const car = createCar({ x: 200, y: 500 });
+      const driver = createDriver(car);
+      addCarToWorld(world, car);
+      addDriverToWorld(world, driver);
+      world.add(createFlatGround(0, 3000, 50, 600));
+
+      for (let i = 0; i < 60; i++) {
+        car.applyGas(1);
+        world.step(1000 / 60);
+      }
+
+      expect(Math.abs(driver.torso.position.x - car.body.position.x)).toBeLessThan(30);
+      expect(isHeadOnGround(world, driver)).toBe(false);
+    });
+
+    it('should drop its seat straps when released', () => {
+      const world = createPhysicsWorld();
+      const car = createCar({ x: 200, y: 300 });
+      const driver = createDriver(car);
+      addCarToWorld(world, car);
+      addDriverToWorld(world, driver);
+
+      driver.release(world);
+
+      expect(driver.isSeated()).toBe(false);
+      expect(driver.getAllConstraints()).toHaveLength(1);
+      expect(Matter.Composite.allConstraints(world.world)).toHaveLength(
+        car.getAllConstraints().length + 1
+      );
+    });
+  });
+
+  describe('in the simulation', () => {
+    it('should seat drivers only in vehicles that have one', () => {
+      const jeep = createSimulation(
+        buildRunConfig({ seed: 1, stageId: 'countryside', vehicleId: 'jeep', upgrades: NO_UPGRADES })
+      );
+      const tank = createSimulation(
+        buildRunConfig({ seed: 1, stageId: 'countryside', vehicleId: 'tank', upgrades: NO_UPGRADES })
+      );
+
+      expect(jeep.driver).not.toBeNull();
+      expect(tank.driver).toBeNull();
+      expect(jeep.getBodies()).toContain(jeep.driver!.head);
+    });
+
+    it('should end the run when the head hits the ground', () => {
+      const simulation = createSimulation({ seed: 42, hasDriver: true });
+      simulation.start();
+      Matter.Body.setAngle(simulation.car.body, Math.PI);
+
+      const types: string[] = [];
+      for (let i = 0; i < 50 && !simulation.isFinished(); i++) {
+        types.push(...simulation.step(NEUTRAL_INPUT).map((e) => e.type));
+      }
+
+      // Well before the driverless flip timeout
+      expect(types).toContain('crash');
+      expect(simulation.getTick()).toBeLessThan(60);
+    });
+
+    it('should let the driver ragdoll loose on a crash', () => {
+      const simulation = createSimulation({ seed: 42, hasDriver: true });
+      simulation.start();
+      Matter.Body.setAngle(simulation.car.body, Math.PI);
+
+      while (!simulation.isFinished() && simulation.getTick() < 50) {
+        simulation.step(NEUTRAL_INPUT);
+      }
+
+      expect(simulation.driver!.isSeated()).toBe(false);
+    });
+
+    it('should not crash while driving upright', () => {
+      const simulation = createSimulation({ seed: 42, hasDriver: true });
+      simulation.start();
+
+      for (let i = 0; i < 30; i++) {
+        simulation.step({ gas: true, brake: false, boost: false, lean: 0 });
+      }
+
+      expect(simulation.isFinished()).toBe(false);
+      expect(simulation.driver!.isSeated()).toBe(true);
+    });
+  });
+});
@@ -100,6 +100,28 @@ describe('Physics Smoke Test', () => {
     expect(typeof car.isFlipped()).toBe('boolean');
   });
 
+  it('should spin the chassis in the air when leaning', () => {
+    const world = createPhysicsWorld({ gravity: { x: 0, y: 1 } });
+    const car = createCar({ x: 200, y: 100 });
+    addCarToWorld(world, car);
+
+    for (let i = 0; i < 30; i++) {
+      car.applyLean(-1);
+      world.step(1000 / 60);
+    }
+    const leanedBack = car.getRotation();
+
+    expect(leanedBack).toBeLessThan(-0.3);
+    expect(Math.abs(car.body.angularVelocity)).toBeLessThanOrEqual(car.config.maxLeanSpin);
+
+    for (let i = 0; i < 60; i++) {
+      car.applyLean(1);
+      world.step(1000 / 60);
+    }
+
+    expect(car.getRotation()).toBeGreaterThan(leanedBack);
+  });
+
   it('should have all car components', () => {
     const car = createCar();
 
@@ -4,7 +4,10 @@
 
 import {
   createPickupSpawner,
+  DEFAULT_SPAWN_CONFIG,
   checkPickupCollisions,
+  getFuelRange,
+  Pickup,
 } from '../pickups/spawn';
 import { createPhysicsWorld } from '../physics/world';
 import { createCar, addCarToWorld } from '../physics/car';
@@ -170,6 +173,101 @@ describe('PickupSpawner', () => {
   });
 });
 
+describe('power-ups', () => {
+  const NO_POWER_UPS = { magnet: 0, shield: 0, nitro: 0, doubleCoins: 0, slowMotion: 0 };
+
+  it('should spawn power-ups by their weights', () => {
+    const spawner = createPickupSpawner(42, {
+      fuelProbability: 0,
+      powerUpProbability: 1,
+      powerUpWeights: { ...NO_POWER_UPS, shield: 1, slowMotion: 3 },
+    });
+
+    const types = spawner.spawnInRange(0, 40000).map((p) => p.type);
+
+    expect(new Set(types)).toEqual(new Set(['shield', 'slowMotion']));
+    const shields = types.filter((t) => t === 'shield').length;
+    expect(shields).toBeLessThan(types.length / 2);
+  });
+
+  it('should spawn none when every weight is zero', () => {
+    const spawner = createPickupSpawner(42, {
+      fuelProbability: 0,
+      powerUpProbability: 1,
+      powerUpWeights: NO_POWER_UPS,
+    });
+
+    expect(spawner.spawnInRange(0, 5000)).toEqual([]);
+  });
+});
+
+describe('fuel reachability', () => {
+  const reach = { tankSize: 100, burnRate: 2.5 };
+
+  const fuelXs = (pickups: Pickup[]): number[] =>
+    pickups.filter((p) => p.type === 'fuel').map((p) => p.body.position.x);
+
+  it('should work out range from tank, thirst and speed', () => {
+    expect(getFuelRange(25, reach, 200)).toBe(2000);
+    expect(getFuelRange(100, reach, 200)).toBe(8000);
+    expect(getFuelRange(25, { tankSize: 100, burnRate: 0 }, 200)).toBe(Infinity);
+  });
+
+  it('should never leave a gap the car cannot cross', () => {
+    for (const seed of [1, 42, 777, 12345]) {
+      // Fuel cans are rare, so only the guarantee places them
+      const spawner = createPickupSpawner(seed, {
+        fuelProbability: 0.01,
+        fuelReach: reach,
+      });
+      const pickups = [
+        ...spawner.spawnInRange(300, 4000),
+        ...spawner.spawnInRange(4150, 9000),
+        ...spawner.spawnInRange(9000, 20000),
+      ];
+
+      const xs = fuelXs(pickups);
+      expect(xs[0]).toBeLessThanOrEqual(getFuelRange(100, reach, 200));
+      for (let i = 1; i < xs.length; i++) {
+        expect(xs[i] - xs[i - 1]).toBeLessThanOrEqual(getFuelRange(25, reach, 200));
+      }
+      expect(20000 - xs[xs.length - 1]).toBeLessThanOrEqual(getFuelRange(25, reach, 200));
+    }
+  });
+
+  it('should keep cans in reach when a can goes less far than the pickup spacing', () => {
+    const reach = { tankSize: 100, burnRate: 50 };
+    const canRange = getFuelRange(25, reach, 200);
+    expect(canRange).toBeLessThan(DEFAULT_SPAWN_CONFIG.minSpacing);
+
+    const xs = fuelXs(
+      createPickupSpawner(42, { fuelProbability: 0.01, fuelReach: reach }).spawnInRange(0, 5000)
+    );
+    expect(xs[0]).toBeLessThanOrEqual(getFuelRange(100, reach, 200));
+    for (let i = 1; i < xs.length; i++) {
+      expect(xs[i] - xs[i - 1]).toBeLessThanOrEqual(canRange);
+    }
+  });
+
+  it('should space cans closer for a thirstier car', () => {
+    const count = (burnRate: number) =>
+      fuelXs(
+        createPickupSpawner(42, {
+          fuelProbability: 0.01,
+          fuelReach: { tankSize: 100, burnRate },
+        }).spawnInRange(0, 20000)
+      ).length;
+
+    expect(count(5)).toBeGreaterThan(count(2.5));
+  });
+
+  it('should leave cans to chance without a fuel reach', () => {
+    const spawner = createPickupSpawner(42, { fuelProbability: 0 });
+
+    expect(fuelXs(spawner.spawnInRange(0, 20000))).toEqual([]);
+  });
+});
+
 describe('checkPickupCollisions', () => {
   it('should detect collision with car body', () => {
     const world = createPhysicsWorld();
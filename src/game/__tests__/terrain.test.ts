@@ -2,7 +2,26 @@
  * Tests for Terrain Generator
  */
 
-import { createTerrainGenerator, createFlatGround } from '../terrain/terrain';
+import { createTerrainGenerator, createFlatGround, TerrainSegment } from '../terrain/terrain';
+import { pickSetPiece, sampleSetPiece, SET_PIECES } from '../terrain/setPieces';
+import { createSeededRng } from '../terrain/seededRng';
+import { getBodySurface, SURFACES } from '../terrain/surfaces';
+import { getStage } from '../config/stages';
+import {
+  createSimulation,
+  DEFAULT_SIMULATION_CONFIG,
+  NEUTRAL_INPUT,
+} from '../simulation/simulation';
+import { createRenderState } from '../renderer/GameRenderer';
+
+/**
+ * Surface height of a segment's first and last top vertex
+ */
+function edgeHeights(segment: TerrainSegment): { first: number; last: number } {
+  // Bottom vertices sit at screenHeight + groundThickness / 2 (850)
+  const top = segment.vertices.filter((v) => v.y < 850);
+  return { first: top[0].y, last: top[top.length - 1].y };
+}
 
 describe('TerrainGenerator', () => {
   describe('createTerrainGenerator', () => {
@@ -132,4 +151,138 @@ describe('TerrainGenerator', () => {
       expect(ground.position.y).toBe(screenHeight - height / 2);
     });
   });
+
+  describe('set pieces', () => {
+    const CLIFF_ONLY = {
+      setPieces: { cliff: 1 },
+      setPieceSpacing: { min: 1000, max: 1000 },
+    };
+
+    it('should interpolate and hold the authored profile', () => {
+      const ramp = SET_PIECES.ramp;
+
+      expect(sampleSetPiece(ramp, 0)).toBe(0);
+      expect(sampleSetPiece(ramp, 140)).toBeCloseTo(35);
+      expect(sampleSetPiece(ramp, 220)).toBe(70);
+      expect(sampleSetPiece(ramp, 5000)).toBe(0);
+    });
+
+    it('should pick only pieces with a positive weight', () => {
+      const rng = createSeededRng(3);
+
+      for (let i = 0; i < 50; i++) {
+        expect(pickSetPiece({ crater: 2, ramp: 0 }, rng)?.id).toBe('crater');
+      }
+      expect(pickSetPiece({}, rng)).toBeNull();
+    });
+
+    it('should splice the piece into the hills at the scheduled spot', () => {
+      const gen = createTerrainGenerator(5, { segmentWidth: 250, ...CLIFF_ONLY });
+      gen.generateSegments(0, 3000);
+
+      // The cliff drops 100px over 30px, starting 120px into the piece
+      const pieceStart = 1000;
+      const before = gen.heightMap.get(pieceStart + 120)!;
+      const after = gen.heightMap.get(pieceStart + 150)!;
+      expect(before - after).toBeCloseTo(100);
+    });
+
+    it('should start from the height the hills left off', () => {
+      const gen = createTerrainGenerator(8, { segmentWidth: 250, ...CLIFF_ONLY });
+      const segments = gen.generateSegments(0, 3000);
+      const pieceIndex = segments.findIndex((s) => s.startX === 1000);
+
+      expect(edgeHeights(segments[pieceIndex]).first).toBeCloseTo(
+        edgeHeights(segments[pieceIndex - 1]).last
+      );
+    });
+
+    it('should place the same pieces however the terrain is streamed', () => {
+      const config = { setPieces: getStage('volcano').terrain.setPieces };
+      const whole = createTerrainGenerator(21, config).generateSegments(0, 12000);
+      const streamed = createTerrainGenerator(21, config);
+      const chunks = [
+        ...streamed.generateSegments(0, 4000),
+        ...streamed.generateSegments(4000, 8000),
+        ...streamed.generateSegments(8000, 12000),
+      ];
+
+      expect(chunks.map((s) => s.vertices)).toEqual(whole.map((s) => s.vertices));
+    });
+
+    it('should leave the hills alone without set pieces', () => {
+      const plain = createTerrainGenerator(4).generateSegments(0, 8000);
+      const empty = createTerrainGenerator(4, { setPieces: {} }).generateSegments(0, 8000);
+
+      expect(empty.map((s) => s.vertices)).toEqual(plain.map((s) => s.vertices));
+    });
+
+    it('should give each stage its signature pieces', () => {
+      expect(getStage('moon').terrain.setPieces.crater).toBeGreaterThan(0);
+      expect(getStage('volcano').terrain.setPieces.lava_gap).toBeGreaterThan(0);
+      expect(getStage('countryside').terrain.setPieces.lava_gap).toBeUndefined();
+    });
+  });
+
+  describe('surfaces', () => {
+    it('should be grass everywhere without materials', () => {
+      const segments = createTerrainGenerator(6).generateSegments(0, 5000);
+
+      expect(segments.every((s) => s.surface === 'grass')).toBe(true);
+    });
+
+    it('should lay the ground in patches of the given materials', () => {
+      const segments = createTerrainGenerator(6, {
+        surfaces: { ice: 1, mud: 1 },
+        surfacePatchLength: { min: 3, max: 5 },
+      }).generateSegments(0, 20000);
+      const types = segments.map((s) => s.surface);
+
+      expect(new Set(types)).toEqual(new Set(['ice', 'mud']));
+
+      // Every patch but the last (cut off by the range) is at least 3 long
+      const patches: number[] = [];
+      types.forEach((type, i) => {
+        if (i > 0 && type === types[i - 1]) patches[patches.length - 1]++;
+        else patches.push(1);
+      });
+      patches.slice(0, -1).forEach((length) => expect(length).toBeGreaterThanOrEqual(3));
+    });
+
+    it('should give each segment body its material and grip', () => {
+      const segments = createTerrainGenerator(2, { surfaces: { ice: 1, asphalt: 1 } })
+        .generateSegments(0, 5000);
+
+      segments.forEach((segment) => {
+        expect(getBodySurface(segment.body)).toBe(segment.surface);
+        expect(segment.body.friction).toBeCloseTo(0.8 * SURFACES[segment.surface].friction);
+      });
+    });
+
+    it('should report the surface under the wheels', () => {
+      const simulation = createSimulation({
+        seed: 4,
+        terrain: { ...DEFAULT_SIMULATION_CONFIG.terrain, surfaces: { mud: 1 } },
+      });
+      simulation.start();
+      for (let i = 0; i < 30; i++) simulation.step(NEUTRAL_INPUT);
+
+      // Still resting on the grass start area
+      expect(simulation.getSnapshot().surface).toBe('grass');
+      expect(simulation.getSegments().every((s) => s.surface === 'mud')).toBe(true);
+    });
+
+    it('should color terrain by its material', () => {
+      const simulation = createSimulation({
+        seed: 4,
+        terrain: { ...DEFAULT_SIMULATION_CONFIG.terrain, surfaces: { ice: 1 } },
+      });
+      const ground = createRenderState(simulation.getBodies(), 0, 0).bodies.filter(
+        (body) => body.label === 'ground'
+      );
+
+      expect(ground.length).toBeGreaterThan(0);
+      ground.forEach((body) => expect(body.color).toBe(SURFACES.ice.color));
+    });
+  });
 });
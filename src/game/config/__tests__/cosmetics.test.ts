@@ -0,0 +1,126 @@
+/**
+ * Tests for the cosmetics catalogue and the player's collection
+ */
+
+import {
+  getCosmeticType,
+  getVehiclePalette,
+  getVehicleSkins,
+  VEHICLE_SKINS,
+} from '../cosmetics';
+import { VEHICLES, VehicleId } from '../vehicles';
+import { SeasonPassSystem } from '../../../systems/SeasonPassSystem';
+import { CosmeticsSystem } from '../../../systems/CosmeticsSystem';
+import {
+  getProgressionManager,
+  resetProgressionManagerSingleton,
+} from '../../progression/upgrades';
+
+// Mock AsyncStorage
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] || null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    delete mockStorage[key];
+    return Promise.resolve();
+  }),
+}));
+
+describe('Cosmetics', () => {
+  describe('catalogue', () => {
+    it('should have every cosmetic the season pass promises', () => {
+      const cosmeticRewards = SeasonPassSystem.getRewards().filter((reward) =>
+        ['vehicle_skin', 'trail_effect', 'profile_badge'].includes(reward.type)
+      );
+
+      expect(cosmeticRewards.length).toBeGreaterThan(0);
+      cosmeticRewards.forEach((reward) => {
+        expect(getCosmeticType(reward.itemId ?? '')).toBe(reward.type);
+      });
+    });
+
+    it('should have a skin for every vehicle', () => {
+      (Object.keys(VEHICLES) as VehicleId[]).forEach((id) => {
+        expect(getVehicleSkins(id).length).toBeGreaterThan(0);
+      });
+    });
+
+    it("should use the vehicle's own paint without a skin", () => {
+      expect(getVehiclePalette('tank')).toEqual({
+        body: VEHICLES.tank.visual.bodyColor,
+        wheels: VEHICLES.tank.visual.wheelColor,
+        decal: null,
+      });
+    });
+
+    it('should ignore skins made for another vehicle', () => {
+      expect(getVehiclePalette('tank', 'skin_jeep_gold')).toEqual(getVehiclePalette('tank'));
+      expect(getVehiclePalette('jeep', 'skin_jeep_gold')).toEqual(
+        VEHICLE_SKINS.skin_jeep_gold.palette
+      );
+    });
+  });
+
+  describe('CosmeticsSystem', () => {
+    beforeEach(async () => {
+      Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+      resetProgressionManagerSingleton();
+      await getProgressionManager().load();
+      await CosmeticsSystem.reset();
+    });
+
+    it('should only grant catalogue cosmetics, once', async () => {
+      expect(await CosmeticsSystem.grant('skin_jeep_gold')).toBe(true);
+      expect(await CosmeticsSystem.grant('skin_jeep_gold')).toBe(false);
+      expect(await CosmeticsSystem.grant('skin_unknown')).toBe(false);
+      expect(CosmeticsSystem.getState().owned).toEqual(['skin_jeep_gold']);
+    });
+
+    it('should buy cosmetics through the coin ledger', async () => {
+      const manager = getProgressionManager();
+      await manager.addCoins(2000, 'run');
+
+      expect(await CosmeticsSystem.purchase('skin_jeep_camo')).toBe(true);
+      expect(manager.getProgress().coins).toBe(500);
+      expect(manager.getCoinLedger().getEntries()[1]).toMatchObject({
+        source: 'cosmetic',
+        amount: -1500,
+        referenceId: 'skin_jeep_camo',
+      });
+
+      // Not affordable, and reward-only items are never for sale
+      expect(await CosmeticsSystem.purchase('skin_buggy_sunset')).toBe(false);
+      expect(await CosmeticsSystem.purchase('skin_jeep_gold')).toBe(false);
+      expect(manager.getProgress().coins).toBe(500);
+    });
+
+    it('should equip owned skins on their own vehicle', async () => {
+      await CosmeticsSystem.grant('skin_jeep_gold');
+
+      expect(await CosmeticsSystem.equipSkin('tank', 'skin_jeep_gold')).toBe(false);
+      expect(await CosmeticsSystem.equipSkin('jeep', 'skin_jeep_camo')).toBe(false);
+      expect(await CosmeticsSystem.equipSkin('jeep', 'skin_jeep_gold')).toBe(true);
+      expect(CosmeticsSystem.getPalette('jeep').body).toBe('#FFC107');
+
+      await CosmeticsSystem.equipSkin('jeep', null);
+      expect(CosmeticsSystem.getPalette('jeep')).toEqual(getVehiclePalette('jeep'));
+    });
+
+    it('should equip owned trails and badges and keep them across loads', async () => {
+      expect(await CosmeticsSystem.equipTrail('trail_fire')).toBe(false);
+
+      await CosmeticsSystem.grant('trail_fire');
+      await CosmeticsSystem.grant('badge_season_1');
+      await CosmeticsSystem.equipTrail('trail_fire');
+      await CosmeticsSystem.equipBadge('badge_season_1');
+      await CosmeticsSystem.load();
+
+      expect(CosmeticsSystem.getEquippedTrail()?.id).toBe('trail_fire');
+      expect(CosmeticsSystem.getEquippedBadge()?.id).toBe('badge_season_1');
+    });
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Tests for the global season schedule and season rollovers
+ */
+
+import {
+  BUNDLED_SEASON_DAYS,
+  BUNDLED_SEASON_THEMES,
+  getBundledSeason,
+  getCurrentSeason,
+  parseSeasonRow,
+  SEASON_EPOCH,
+  SeasonDefinition,
+} from '../seasons';
+import { SeasonPassSystem } from '../../../systems/SeasonPassSystem';
+import { SeasonScheduleService } from '../../../services/SeasonScheduleService';
+import { claimEndedSeasonRewards, claimSeasonReward } from '../../progression/rewards';
+import {
+  getProgressionManager,
+  resetProgressionManagerSingleton,
+} from '../../progression/upgrades';
+
+// Mock AsyncStorage
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] || null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    delete mockStorage[key];
+    return Promise.resolve();
+  }),
+}));
+
+// Mock the Supabase client
+const mockSeasonRows: { data: any[] | null; error: Error | null } = { data: [], error: null };
+jest.mock('../../../services/SupabaseClient', () => ({
+  supabaseClient: {
+    from: jest.fn(() => ({
+      select: () => ({ order: () => Promise.resolve(mockSeasonRows) }),
+    })),
+  },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEASON_START = Date.UTC(2026, 8, 1);
+
+function makeSeason(id: string, startDay: number, days: number): SeasonDefinition {
+  return {
+    id,
+    name: id,
+    theme: { primaryColor: '#000000', icon: 'mountain' },
+    startDate: new Date(SEASON_START + startDay * DAY_MS).toISOString(),
+    endDate: new Date(SEASON_START + (startDay + days) * DAY_MS).toISOString(),
+    rewards: null,
+  };
+}
+
+describe('Seasons', () => {
+  let now = SEASON_START + DAY_MS;
+
+  beforeEach(async () => {
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    now = SEASON_START + DAY_MS;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    resetProgressionManagerSingleton();
+    await getProgressionManager().load();
+    await SeasonPassSystem.applySchedule([]);
+    await SeasonPassSystem.reset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('schedule', () => {
+    it('should give every player the same bundled season', () => {
+      const durationMs = BUNDLED_SEASON_DAYS * DAY_MS;
+
+      expect(getBundledSeason(SEASON_EPOCH).id).toBe('season_1');
+      expect(getBundledSeason(SEASON_EPOCH + durationMs - 1).id).toBe('season_1');
+      expect(getBundledSeason(SEASON_EPOCH + durationMs)).toMatchObject({
+        id: 'season_2',
+        startDate: new Date(SEASON_EPOCH + durationMs).toISOString(),
+      });
+    });
+
+    it('should fall back to the bundled seasons outside the schedule', () => {
+      const schedule = [makeSeason('a', 0, 30), makeSeason('b', 40, 30)];
+
+      expect(getCurrentSeason(schedule, SEASON_START + 10 * DAY_MS).id).toBe('a');
+      expect(getCurrentSeason(schedule, SEASON_START + 35 * DAY_MS)).toEqual(
+        getBundledSeason(SEASON_START + 35 * DAY_MS)
+      );
+      expect(getCurrentSeason(schedule, SEASON_START + 45 * DAY_MS).id).toBe('b');
+      expect(getCurrentSeason(schedule, SEASON_START - DAY_MS).id).toMatch(/^season_\d+$/);
+      expect(getCurrentSeason(schedule, SEASON_START + 75 * DAY_MS).id).toMatch(/^season_\d+$/);
+    });
+
+    it('should reject season rows with bad dates', () => {
+      const row = {
+        id: 'season_9',
+        name: 'Storm Front',
+        theme: { primaryColor: '#123456' },
+        starts_at: '2026-09-01T00:00:00Z',
+        ends_at: '2026-10-31T00:00:00Z',
+        rewards: null,
+      };
+
+      expect(parseSeasonRow(row)).toMatchObject({
+        id: 'season_9',
+        theme: { primaryColor: '#123456', icon: 'mountain' },
+      });
+      expect(parseSeasonRow({ ...row, ends_at: row.starts_at })).toBeNull();
+      expect(parseSeasonRow({ ...row, starts_at: 'soon' })).toBeNull();
+      expect(parseSeasonRow({ ...row, id: 9 })).toBeNull();
+      expect(parseSeasonRow('season_9')).toBeNull();
+      expect(parseSeasonRow(null)).toBeNull();
+    });
+
+    it('should fall back to the standard track when a reward is malformed', () => {
+      const reward = {
+        level: 1,
+        track: 'free',
+        type: 'coins',
+        amount: 50,
+        name: '50 Coins',
+        description: 'Coins for the garage',
+        icon: 'coin',
+      };
+      const row = {
+        id: 'season_9',
+        name: 'Storm Front',
+        theme: null,
+        starts_at: '2026-09-01T00:00:00Z',
+        ends_at: '2026-10-31T00:00:00Z',
+        rewards: [reward],
+      };
+
+      expect(parseSeasonRow(row)?.rewards).toEqual([reward]);
+      expect(
+        parseSeasonRow({ ...row, rewards: [reward, { ...reward, level: 'two' }] })?.rewards
+      ).toBeNull();
+      expect(parseSeasonRow({ ...row, rewards: [{ ...reward, track: 'gold' }] })?.rewards).toBeNull();
+      expect(parseSeasonRow({ ...row, rewards: [{ ...reward, type: 'cash' }] })?.rewards).toBeNull();
+      expect(parseSeasonRow({ ...row, rewards: [{ ...reward, amount: null }] })?.rewards).toBeNull();
+      expect(parseSeasonRow({ ...row, rewards: [reward, 'coins'] })?.rewards).toBeNull();
+      expect(parseSeasonRow({ ...row, theme: 'red' })?.theme).toEqual(
+        BUNDLED_SEASON_THEMES[0].theme
+      );
+    });
+  });
+
+  describe('SeasonPassSystem', () => {
+    it('should join the global season rather than start its own', async () => {
+      const state = await SeasonPassSystem.load();
+
+      expect(state.seasonId).toBe(getBundledSeason(now).id);
+      expect(state.seasonEndDate).toBe(getBundledSeason(now).endDate);
+    });
+
+    it('should move a season started on this device into the global one', async () => {
+      const legacy = { ...(await SeasonPassSystem.load()), seasonId: 'season_1767225600000' };
+      mockStorage['@summit_wheels_season_pass'] = JSON.stringify({ ...legacy, currentLevel: 7 });
+
+      const state = await SeasonPassSystem.load();
+
+      expect(state.seasonId).toBe(getBundledSeason(now).id);
+      expect(state.currentLevel).toBe(7);
+      expect(state.pastSeasons).toEqual([]);
+    });
+
+    it('should pay a claimed reward once', async () => {
+      await SeasonPassSystem.load();
+      await SeasonPassSystem.addXP('daily_challenge', 3);
+
+      expect(await claimSeasonReward(2, 'free')).toEqual({ kind: 'coins', amount: 60 });
+      expect(await claimSeasonReward(2, 'free')).toBeNull();
+
+      const entries = getProgressionManager().getCoinLedger().getEntries();
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ source: 'seasonPass', amount: 60 });
+    });
+
+    it('should roll over and pay out unclaimed rewards once', async () => {
+      await SeasonPassSystem.applySchedule([makeSeason('a', 0, 30), makeSeason('b', 30, 30)]);
+      await SeasonPassSystem.reset();
+      await SeasonPassSystem.load();
+      await SeasonPassSystem.addXP('daily_challenge', 3);
+      await SeasonPassSystem.claimReward(1, 'free');
+      expect(SeasonPassSystem.getState()?.currentLevel).toBe(3);
+
+      now = SEASON_START + 31 * DAY_MS;
+      const state = await SeasonPassSystem.load();
+
+      expect(state).toMatchObject({ seasonId: 'b', currentLevel: 1, claimedFreeRewards: [] });
+      expect(state.pastSeasons).toEqual([
+        { seasonId: 'a', finalLevel: 3, totalXPEarned: 300, hadPremiumPass: false },
+      ]);
+      expect(state.endedSeasonRewards.map(({ reward }) => reward.level)).toEqual([2, 3]);
+
+      const paid = await claimEndedSeasonRewards();
+      expect(paid).toEqual([
+        { kind: 'coins', amount: 60 },
+        { kind: 'coins', amount: 65 },
+      ]);
+      expect(await claimEndedSeasonRewards()).toEqual([]);
+      expect(getProgressionManager().getProgress().coins).toBe(125);
+    });
+    it('should keep ended rewards that could not be paid', async () => {
+      const vehicle = {
+        level: 2,
+        track: 'free' as const,
+        type: 'exclusive_vehicle' as const,
+        amount: 1,
+        itemId: 'rally_car',
+        name: 'Rally Car',
+        description: 'Exclusive season vehicle!',
+        icon: 'vehicle',
+      };
+      const coins = {
+        level: 3,
+        track: 'free' as const,
+        type: 'coins' as const,
+        amount: 65,
+        name: '65 Coins',
+        description: 'Coins for the garage',
+        icon: 'coin',
+      };
+      const season = { ...makeSeason('a', 0, 30), rewards: [vehicle, coins] };
+      await SeasonPassSystem.applySchedule([season, makeSeason('b', 30, 30)]);
+      await SeasonPassSystem.reset();
+      await SeasonPassSystem.load();
+      await SeasonPassSystem.addXP('daily_challenge', 3);
+
+      now = SEASON_START + 31 * DAY_MS;
+      await SeasonPassSystem.load();
+
+      expect(await claimEndedSeasonRewards()).toEqual([{ kind: 'coins', amount: 65 }]);
+      expect(SeasonPassSystem.getEndedSeasonRewards()).toEqual([
+        { seasonId: 'a', reward: vehicle },
+      ]);
+    });
+  });
+
+  describe('SeasonScheduleService', () => {
+    it('should apply the schedule from the server', async () => {
+      mockSeasonRows.data = [
+        {
+          id: 'season_live',
+          name: 'Live Season',
+          theme: { primaryColor: '#00FF00', icon: 'sun' },
+          starts_at: new Date(SEASON_START).toISOString(),
+          ends_at: new Date(SEASON_START + 60 * DAY_MS).toISOString(),
+          rewards: null,
+        },
+      ];
+      mockSeasonRows.error = null;
+      await SeasonPassSystem.load();
+
+      expect(await SeasonScheduleService.sync()).toBe(true);
+      expect(SeasonPassSystem.getSeason().name).toBe('Live Season');
+      expect(SeasonPassSystem.getState()?.seasonId).toBe('season_live');
+
+      // The schedule is kept for launches without a connection
+      await SeasonPassSystem.load();
+      expect(SeasonPassSystem.getState()?.seasonId).toBe('season_live');
+    });
+
+    it('should keep the current schedule when the server fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockSeasonRows.data = null;
+      mockSeasonRows.error = new Error('offline');
+
+      expect(await SeasonScheduleService.sync()).toBe(false);
+      expect(SeasonPassSystem.getSeason().id).toBe(getBundledSeason(now).id);
+      warn.mockRestore();
+    });
+  });
+});
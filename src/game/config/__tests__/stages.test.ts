@@ -10,6 +10,7 @@ import {
   getStarterStage,
   isStageUnlocked,
   getLockedStages,
+  getCourse,
 } from '../stages';
 
 describe('Stage Configuration', () => {
@@ -62,6 +63,9 @@ describe('Stage Configuration', () => {
         expect(stage.pickups.coinRateMultiplier).toBeGreaterThan(0);
         expect(stage.pickups.fuelRateMultiplier).toBeGreaterThan(0);
         expect(stage.pickups.fuelValueMultiplier).toBeGreaterThan(0);
+        expect(
+          Object.values(stage.pickups.powerUpWeights).some((weight) => weight > 0)
+        ).toBe(true);
       });
     });
   });
@@ -177,4 +181,31 @@ describe('Stage Configuration', () => {
       expect(arctic.visual.weatherType).toBe('snow');
     });
   });
+
+  describe('Courses', () => {
+    it('should give every stage courses with unique IDs and seeds', () => {
+      const courses = Object.values(STAGES).flatMap((stage) => stage.courses);
+
+      Object.values(STAGES).forEach((stage) => {
+        expect(stage.courses.length).toBeGreaterThan(0);
+      });
+      expect(new Set(courses.map((c) => c.id)).size).toBe(courses.length);
+      expect(new Set(courses.map((c) => c.seed)).size).toBe(courses.length);
+    });
+
+    it('should have a finish line and star targets for each course', () => {
+      Object.values(STAGES).forEach((stage) => {
+        stage.courses.forEach((course) => {
+          expect(course.length).toBeGreaterThan(0);
+          expect(course.starTargets.time).toBeGreaterThan(0);
+          expect(course.starTargets.fuel).toBeLessThanOrEqual(100);
+        });
+      });
+    });
+
+    it('should look up a course on its own stage only', () => {
+      expect(getCourse('countryside', 'countryside_meadow')?.length).toBe(1000);
+      expect(getCourse('desert', 'countryside_meadow')).toBeUndefined();
+    });
+  });
 });
@@ -2,6 +2,7 @@
  * Tests for Vehicle Configuration
  */
 
+import Matter from 'matter-js';
 import {
   VEHICLES,
   VehicleId,
@@ -130,6 +131,34 @@ describe('Vehicle Configuration', () => {
     });
   });
 
+  describe('chassis', () => {
+    it('should give every vehicle a convex hull and at least two wheels', () => {
+      Object.values(VEHICLES).forEach((vehicle) => {
+        const hull = vehicle.chassis.hull.map((p) => ({ x: p.x * 100, y: p.y * 100 }));
+
+        expect(Matter.Vertices.isConvex(hull)).toBe(true);
+        expect(vehicle.chassis.wheels.length).toBeGreaterThanOrEqual(2);
+      });
+    });
+
+    it('should list wheels rear to front', () => {
+      Object.values(VEHICLES).forEach((vehicle) => {
+        const xs = vehicle.chassis.wheels.map((wheel) => wheel.x);
+        expect(xs).toEqual([...xs].sort((a, b) => a - b));
+      });
+    });
+
+    it('should give the tank, monster truck and moon rover their own shapes', () => {
+      const shapes = (['tank', 'monster_truck', 'moon_rover'] as VehicleId[]).map((id) =>
+        JSON.stringify(getVehicle(id).chassis)
+      );
+
+      expect(new Set([...shapes, JSON.stringify(VEHICLES.jeep.chassis)]).size).toBe(4);
+      expect(VEHICLES.tank.chassis.tracks).toBe(true);
+      expect(VEHICLES.moon_rover.chassis.trailer).toBeDefined();
+    });
+  });
+
   describe('Vehicle balance', () => {
     it('should have different trade-offs per vehicle', () => {
       const jeep = getVehicle('jeep');
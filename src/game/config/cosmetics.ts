@@ -0,0 +1,201 @@
+/**
+ * Cosmetics - Vehicle skins, trail effects and profile badges
+ *
+ * Cosmetics only change how things look: a skin recolours a vehicle,
+ * a trail leaves particles behind the car and a badge shows on the
+ * player's profile. None of them touch the simulation.
+ *
+ * Items with a price can be bought with coins; the rest come from
+ * rewards (season pass).
+ */
+
+import { TrailStyle } from '../systems/particles';
+import { VEHICLES, VehicleId } from './vehicles';
+
+export type CosmeticType = 'vehicle_skin' | 'trail_effect' | 'profile_badge';
+
+/**
+ * Colours a vehicle is drawn with
+ */
+export type VehiclePalette = {
+  /** Hull (and trailer) colour */
+  body: string;
+  /** Wheel colour */
+  wheels: string;
+  /** Stripe across the hull (null for none) */
+  decal: string | null;
+};
+
+export type VehicleSkin = {
+  id: string;
+  vehicleId: VehicleId;
+  name: string;
+  description: string;
+  palette: VehiclePalette;
+  /** Coin price (null = reward only) */
+  price: number | null;
+};
+
+export type TrailEffect = {
+  id: string;
+  name: string;
+  description: string;
+  style: TrailStyle;
+  /** Coin price (null = reward only) */
+  price: number | null;
+};
+
+export type ProfileBadge = {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+};
+
+export const VEHICLE_SKINS: Record<string, VehicleSkin> = {
+  skin_jeep_gold: {
+    id: 'skin_jeep_gold',
+    vehicleId: 'jeep',
+    name: 'Golden Jeep',
+    description: 'Exclusive gold finish',
+    palette: { body: '#FFC107', wheels: '#3E2723', decal: '#FFF8E1' },
+    price: null,
+  },
+  skin_jeep_camo: {
+    id: 'skin_jeep_camo',
+    vehicleId: 'jeep',
+    name: 'Camo Jeep',
+    description: 'Blend into the hills',
+    palette: { body: '#556B2F', wheels: '#222222', decal: '#8F9779' },
+    price: 1500,
+  },
+  skin_monster_flames: {
+    id: 'skin_monster_flames',
+    vehicleId: 'monster_truck',
+    name: 'Hot Rod',
+    description: 'Black paint with a flame stripe',
+    palette: { body: '#212121', wheels: '#111111', decal: '#FF5722' },
+    price: 2000,
+  },
+  skin_buggy_sunset: {
+    id: 'skin_buggy_sunset',
+    vehicleId: 'dune_buggy',
+    name: 'Sunset Buggy',
+    description: 'Beach colours for the dunes',
+    palette: { body: '#FF7043', wheels: '#4E342E', decal: '#FFEB3B' },
+    price: 1500,
+  },
+  skin_tank_desert: {
+    id: 'skin_tank_desert',
+    vehicleId: 'tank',
+    name: 'Desert Tank',
+    description: 'Sand camouflage',
+    palette: { body: '#C2A878', wheels: '#5D4037', decal: '#8D6E63' },
+    price: 2000,
+  },
+  skin_supercar_midnight: {
+    id: 'skin_supercar_midnight',
+    vehicleId: 'super_car',
+    name: 'Midnight',
+    description: 'Deep blue with a neon stripe',
+    palette: { body: '#0D1B4C', wheels: '#111111', decal: '#00E5FF' },
+    price: 3000,
+  },
+  skin_rover_lunar: {
+    id: 'skin_rover_lunar',
+    vehicleId: 'moon_rover',
+    name: 'Lunar Gold',
+    description: 'Foil-wrapped like the real thing',
+    palette: { body: '#D4AF37', wheels: '#B0BEC5', decal: '#FFFFFF' },
+    price: 2500,
+  },
+};
+
+export const TRAIL_EFFECTS: Record<string, TrailEffect> = {
+  trail_fire: {
+    id: 'trail_fire',
+    name: 'Fire Trail',
+    description: 'Leave flames in your wake!',
+    style: {
+      colors: ['#FF4500', '#FF8C00', '#FFD700'],
+      density: 3,
+      size: { min: 5, max: 10 },
+      lift: 1.5,
+      maxLifetime: 400,
+    },
+    price: null,
+  },
+  trail_rainbow: {
+    id: 'trail_rainbow',
+    name: 'Rainbow Trail',
+    description: 'Every colour at once',
+    style: {
+      colors: ['#F44336', '#FF9800', '#FFEB3B', '#4CAF50', '#2196F3', '#9C27B0'],
+      density: 3,
+      size: { min: 4, max: 7 },
+      lift: 0.3,
+      maxLifetime: 600,
+    },
+    price: 4000,
+  },
+  trail_sparkle: {
+    id: 'trail_sparkle',
+    name: 'Stardust',
+    description: 'A glittering wake',
+    style: {
+      colors: ['#FFFFFF', '#E1F5FE', '#FFF59D'],
+      density: 2,
+      size: { min: 2, max: 5 },
+      lift: 0.8,
+      maxLifetime: 500,
+    },
+    price: 2500,
+  },
+};
+
+export const PROFILE_BADGES: Record<string, ProfileBadge> = {
+  badge_season_1: {
+    id: 'badge_season_1',
+    name: 'Season Pass Badge',
+    description: 'Held the Season 1 premium pass',
+    icon: '🏅',
+  },
+};
+
+/**
+ * What kind of cosmetic an id is (null if not in the catalogue)
+ */
+export function getCosmeticType(id: string): CosmeticType | null {
+  if (id in VEHICLE_SKINS) return 'vehicle_skin';
+  if (id in TRAIL_EFFECTS) return 'trail_effect';
+  if (id in PROFILE_BADGES) return 'profile_badge';
+  return null;
+}
+
+/**
+ * Coin price of a cosmetic (null if it can't be bought)
+ */
+export function getCosmeticPrice(id: string): number | null {
+  return VEHICLE_SKINS[id]?.price ?? TRAIL_EFFECTS[id]?.price ?? null;
+}
+
+/**
+ * Skins made for a vehicle
+ */
+export function getVehicleSkins(vehicleId: VehicleId): VehicleSkin[] {
+  return Object.values(VEHICLE_SKINS).filter((skin) => skin.vehicleId === vehicleId);
+}
+
+/**
+ * Colours to draw a vehicle with, in a skin made for it or its own paint.
+ * Unknown vehicles (e.g. from an imported ghost) fall back to the jeep.
+ */
+export function getVehiclePalette(vehicleId: string, skinId?: string | null): VehiclePalette {
+  const skin = skinId ? VEHICLE_SKINS[skinId] : undefined;
+  if (skin && skin.vehicleId === vehicleId) {
+    return { ...skin.palette };
+  }
+
+  const vehicle = VEHICLES[vehicleId as VehicleId] ?? VEHICLES.jeep;
+  return { body: vehicle.visual.bodyColor, wheels: vehicle.visual.wheelColor, decal: null };
+}
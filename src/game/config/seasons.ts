@@ -0,0 +1,169 @@
+/**
+ * Seasons - The global season schedule
+ *
+ * Seasons are defined once for every player: the live schedule comes
+ * from the `seasons` table in Supabase, and the bundled schedule below
+ * takes over when the app has never reached the server. The bundled
+ * seasons run back to back from a fixed epoch, so offline players still
+ * share season ids and dates with everyone else.
+ */
+
+import { SeasonReward, SeasonRewardType } from '../../systems/SeasonPassSystem';
+
+export type SeasonTheme = {
+  /** Main colour of the season's UI */
+  primaryColor: string;
+  /** Icon shown next to the season name */
+  icon: string;
+};
+
+export type SeasonDefinition = {
+  id: string;
+  name: string;
+  theme: SeasonTheme;
+  /** ISO start date */
+  startDate: string;
+  /** ISO end date */
+  endDate: string;
+  /** Reward track (null for the standard track) */
+  rewards: SeasonReward[] | null;
+};
+
+/**
+ * Start of the first bundled season
+ */
+export const SEASON_EPOCH = Date.UTC(2026, 0, 1);
+
+/**
+ * Length of a bundled season
+ */
+export const BUNDLED_SEASON_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Names and themes the bundled seasons cycle through
+ */
+export const BUNDLED_SEASON_THEMES: { name: string; theme: SeasonTheme }[] = [
+  { name: 'Summit Rush', theme: { primaryColor: '#9C27B0', icon: 'mountain' } },
+  { name: 'Frozen Peaks', theme: { primaryColor: '#2196F3', icon: 'snowflake' } },
+  { name: 'Desert Storm', theme: { primaryColor: '#FF9800', icon: 'sun' } },
+  { name: 'Neon Nights', theme: { primaryColor: '#E91E63', icon: 'moon' } },
+];
+
+/**
+ * Bundled season running at a time
+ */
+export function getBundledSeason(now: number): SeasonDefinition {
+  const durationMs = BUNDLED_SEASON_DAYS * DAY_MS;
+  const index = Math.max(0, Math.floor((now - SEASON_EPOCH) / durationMs));
+  const { name, theme } = BUNDLED_SEASON_THEMES[index % BUNDLED_SEASON_THEMES.length];
+  const start = SEASON_EPOCH + index * durationMs;
+
+  return {
+    id: `season_${index + 1}`,
+    name,
+    theme,
+    startDate: new Date(start).toISOString(),
+    endDate: new Date(start + durationMs).toISOString(),
+    rewards: null,
+  };
+}
+
+/**
+ * Season running at a time
+ *
+ * The latest scheduled season to have started is current until it ends.
+ * Before, between and after scheduled seasons the bundled seasons are
+ * used.
+ */
+export function getCurrentSeason(schedule: SeasonDefinition[], now: number): SeasonDefinition {
+  const started = schedule
+    .filter((season) => Date.parse(season.startDate) <= now)
+    .sort((a, b) => Date.parse(b.startDate) - Date.parse(a.startDate));
+
+  const latest = started[0];
+  return latest && !hasSeasonEnded(latest, now) ? latest : getBundledSeason(now);
+}
+
+/**
+ * Check if a season has ended
+ */
+export function hasSeasonEnded(season: { endDate: string }, now: number): boolean {
+  return Date.parse(season.endDate) <= now;
+}
+
+const SEASON_REWARD_TYPES: SeasonRewardType[] = [
+  'coins',
+  'vehicle_skin',
+  'boost_pack',
+  'exclusive_vehicle',
+  'exclusive_stage',
+  'profile_badge',
+  'trail_effect',
+  'xp_boost',
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Check if a reward from a `seasons` table row can be shown and paid
+ */
+function isSeasonReward(reward: unknown): reward is SeasonReward {
+  if (!isRecord(reward)) return false;
+
+  const { level, track, type, amount, itemId, name, description, icon } = reward;
+  return (
+    typeof level === 'number' &&
+    Number.isInteger(level) &&
+    level > 0 &&
+    (track === 'free' || track === 'premium') &&
+    SEASON_REWARD_TYPES.includes(type as SeasonRewardType) &&
+    typeof amount === 'number' &&
+    Number.isFinite(amount) &&
+    amount >= 0 &&
+    (itemId === undefined || typeof itemId === 'string') &&
+    typeof name === 'string' &&
+    typeof description === 'string' &&
+    typeof icon === 'string'
+  );
+}
+
+/**
+ * Build a season from a `seasons` table row (null if the row is invalid)
+ */
+export function parseSeasonRow(row: unknown): SeasonDefinition | null {
+  if (!isRecord(row)) return null;
+
+  const { id, name, theme, starts_at, ends_at, rewards } = row;
+  if (typeof id !== 'string' || typeof starts_at !== 'string' || typeof ends_at !== 'string') {
+    return null;
+  }
+
+  const start = Date.parse(starts_at);
+  const end = Date.parse(ends_at);
+  if (!id || isNaN(start) || isNaN(end) || end <= start) {
+    return null;
+  }
+
+  // A malformed theme or reward track falls back to the standard one
+  const fallback = BUNDLED_SEASON_THEMES[0].theme;
+  const { primaryColor, icon } = isRecord(theme) ? theme : {};
+
+  return {
+    id,
+    name: typeof name === 'string' && name ? name : id,
+    theme: {
+      primaryColor: typeof primaryColor === 'string' ? primaryColor : fallback.primaryColor,
+      icon: typeof icon === 'string' ? icon : fallback.icon,
+    },
+    startDate: new Date(start).toISOString(),
+    endDate: new Date(end).toISOString(),
+    rewards:
+      Array.isArray(rewards) && rewards.length > 0 && rewards.every(isSeasonReward)
+        ? rewards
+        : null,
+  };
+}
@@ -8,6 +8,10 @@
  * - Pickup spawn rates
  */
 
+import { SetPieceWeights } from '../terrain/setPieces';
+import { SurfaceWeights } from '../terrain/surfaces';
+import { PowerUpType } from '../systems/powerUps';
+
 export type StageId =
   | 'countryside'
   | 'desert'
@@ -16,6 +20,32 @@ export type StageId =
   | 'volcano'
   | 'forest';
 
+/**
+ * Targets for a course's three stars (one star per target met at the finish)
+ */
+export type CourseStarTargets = {
+  /** Finish within this time (s) */
+  time: number;
+  /** Collect at least this many coins */
+  coins: number;
+  /** Finish with at least this much fuel left (%) */
+  fuel: number;
+};
+
+/**
+ * A fixed course: the same terrain every run, ending at a finish line
+ */
+export type CourseDefinition = {
+  /** Unique across all stages */
+  id: string;
+  name: string;
+  /** Terrain and pickup seed */
+  seed: number;
+  /** Distance to the finish line (m) */
+  length: number;
+  starTargets: CourseStarTargets;
+};
+
 export type StageDefinition = {
   id: StageId;
   name: string;
@@ -43,6 +73,10 @@ export type StageDefinition = {
     difficultyRamp: number;
     /** Segment width */
     segmentWidth: number;
+    /** Authored set piece weights spliced into the hills */
+    setPieces: SetPieceWeights;
+    /** Surface material weights for the ground */
+    surfaces: SurfaceWeights;
   };
   /** Visual theme */
   visual: {
@@ -69,9 +103,13 @@ export type StageDefinition = {
     fuelRateMultiplier: number;
     /** Fuel refill amount multiplier */
     fuelValueMultiplier: number;
+    /** Relative chance of each power-up */
+    powerUpWeights: Record<PowerUpType, number>;
   };
   /** Recommended vehicles */
   recommendedVehicles: string[];
+  /** Fixed courses played on this stage (besides the endless run) */
+  courses: CourseDefinition[];
 };
 
 /**
@@ -94,6 +132,8 @@ export const STAGES: Record<StageId, StageDefinition> = {
       maxHeightVariation: 50,
       difficultyRamp: 0.0001,
       segmentWidth: 250,
+      setPieces: { ramp: 3, bridge: 2, staircase: 1, gap: 1 },
+      surfaces: { grass: 5, mud: 2, gravel: 1, asphalt: 1 },
     },
     visual: {
       skyColorTop: '#87CEEB',
@@ -107,8 +147,31 @@ export const STAGES: Record<StageId, StageDefinition> = {
       coinRateMultiplier: 1.0,
       fuelRateMultiplier: 1.0,
       fuelValueMultiplier: 1.0,
+      powerUpWeights: {
+        magnet: 1,
+        shield: 1,
+        nitro: 1,
+        doubleCoins: 1,
+        slowMotion: 1,
+      },
     },
     recommendedVehicles: ['jeep', 'monster_truck'],
+    courses: [
+      {
+        id: 'countryside_meadow',
+        name: 'Meadow Dash',
+        seed: 1101,
+        length: 1000,
+        starTargets: { time: 130, coins: 25, fuel: 30 },
+      },
+      {
+        id: 'countryside_valley',
+        name: 'Valley Run',
+        seed: 1102,
+        length: 2000,
+        starTargets: { time: 280, coins: 50, fuel: 20 },
+      },
+    ],
   },
 
   desert: {
@@ -127,6 +190,8 @@ export const STAGES: Record<StageId, StageDefinition> = {
       maxHeightVariation: 60,
       difficultyRamp: 0.00012,
       segmentWidth: 280,
+      setPieces: { ramp: 2, cliff: 2, gap: 2 },
+      surfaces: { sand: 5, gravel: 2, asphalt: 1 },
     },
     visual: {
       skyColorTop: '#FF8C00',
@@ -141,8 +206,31 @@ export const STAGES: Record<StageId, StageDefinition> = {
       coinRateMultiplier: 1.2,
       fuelRateMultiplier: 0.8,
       fuelValueMultiplier: 0.9,
+      powerUpWeights: {
+        magnet: 2,
+        shield: 1,
+        nitro: 1,
+        doubleCoins: 1,
+        slowMotion: 1,
+      },
     },
     recommendedVehicles: ['dune_buggy', 'jeep'],
+    courses: [
+      {
+        id: 'desert_oasis',
+        name: 'Oasis Hop',
+        seed: 2101,
+        length: 1000,
+        starTargets: { time: 140, coins: 25, fuel: 20 },
+      },
+      {
+        id: 'desert_dunes',
+        name: 'Dune Crossing',
+        seed: 2102,
+        length: 2000,
+        starTargets: { time: 300, coins: 55, fuel: 15 },
+      },
+    ],
   },
 
   arctic: {
@@ -161,6 +249,8 @@ export const STAGES: Record<StageId, StageDefinition> = {
       maxHeightVariation: 55,
       difficultyRamp: 0.00015,
       segmentWidth: 230,
+      setPieces: { staircase: 2, cliff: 2, ramp: 1 },
+      surfaces: { ice: 4, gravel: 2, asphalt: 1 },
     },
     visual: {
       skyColorTop: '#B0E0E6',
@@ -175,8 +265,31 @@ export const STAGES: Record<StageId, StageDefinition> = {
       coinRateMultiplier: 1.0,
       fuelRateMultiplier: 1.2,
       fuelValueMultiplier: 1.1,
+      powerUpWeights: {
+        magnet: 1,
+        shield: 2,
+        nitro: 1,
+        doubleCoins: 1,
+        slowMotion: 1,
+      },
     },
     recommendedVehicles: ['tank', 'monster_truck'],
+    courses: [
+      {
+        id: 'arctic_glacier',
+        name: 'Glacier Slide',
+        seed: 3101,
+        length: 1000,
+        starTargets: { time: 150, coins: 25, fuel: 25 },
+      },
+      {
+        id: 'arctic_pass',
+        name: 'Frozen Pass',
+        seed: 3102,
+        length: 2000,
+        starTargets: { time: 320, coins: 50, fuel: 15 },
+      },
+    ],
   },
 
   moon: {
@@ -195,6 +308,8 @@ export const STAGES: Record<StageId, StageDefinition> = {
       maxHeightVariation: 70,
       difficultyRamp: 0.00008,
       segmentWidth: 300,
+      setPieces: { crater: 4, ramp: 2, gap: 1 },
+      surfaces: { gravel: 3, sand: 2 },
     },
     visual: {
       skyColorTop: '#000000',
@@ -208,8 +323,31 @@ export const STAGES: Record<StageId, StageDefinition> = {
       coinRateMultiplier: 1.5,
       fuelRateMultiplier: 0.6,
       fuelValueMultiplier: 1.5,
+      powerUpWeights: {
+        magnet: 1,
+        shield: 1,
+        nitro: 1,
+        doubleCoins: 1,
+        slowMotion: 2,
+      },
     },
     recommendedVehicles: ['moon_rover', 'dune_buggy'],
+    courses: [
+      {
+        id: 'moon_crater',
+        name: 'Crater Skip',
+        seed: 4101,
+        length: 1000,
+        starTargets: { time: 160, coins: 30, fuel: 30 },
+      },
+      {
+        id: 'moon_highlands',
+        name: 'Lunar Highlands',
+        seed: 4102,
+        length: 2000,
+        starTargets: { time: 330, coins: 60, fuel: 20 },
+      },
+    ],
   },
 
   volcano: {
@@ -228,6 +366,8 @@ export const STAGES: Record<StageId, StageDefinition> = {
       maxHeightVariation: 80,
       difficultyRamp: 0.0002,
       segmentWidth: 220,
+      setPieces: { lava_gap: 4, cliff: 2, staircase: 1 },
+      surfaces: { lava_rock: 5, gravel: 2 },
     },
     visual: {
       skyColorTop: '#4a0000',
@@ -242,8 +382,31 @@ export const STAGES: Record<StageId, StageDefinition> = {
       coinRateMultiplier: 2.0,
       fuelRateMultiplier: 0.7,
       fuelValueMultiplier: 0.8,
+      powerUpWeights: {
+        magnet: 1,
+        shield: 2,
+        nitro: 2,
+        doubleCoins: 1,
+        slowMotion: 0,
+      },
     },
     recommendedVehicles: ['tank', 'super_car'],
+    courses: [
+      {
+        id: 'volcano_ashfield',
+        name: 'Ash Field',
+        seed: 5101,
+        length: 1000,
+        starTargets: { time: 150, coins: 35, fuel: 20 },
+      },
+      {
+        id: 'volcano_caldera',
+        name: 'Caldera Climb',
+        seed: 5102,
+        length: 2000,
+        starTargets: { time: 320, coins: 70, fuel: 10 },
+      },
+    ],
   },
 
   forest: {
@@ -262,6 +425,8 @@ export const STAGES: Record<StageId, StageDefinition> = {
       maxHeightVariation: 65,
       difficultyRamp: 0.00018,
       segmentWidth: 200,
+      setPieces: { bridge: 3, staircase: 2, ramp: 1 },
+      surfaces: { grass: 3, mud: 3, gravel: 1 },
     },
     visual: {
       skyColorTop: '#228B22',
@@ -276,8 +441,31 @@ export const STAGES: Record<StageId, StageDefinition> = {
       coinRateMultiplier: 1.3,
       fuelRateMultiplier: 1.1,
       fuelValueMultiplier: 1.0,
+      powerUpWeights: {
+        magnet: 1,
+        shield: 1,
+        nitro: 1,
+        doubleCoins: 2,
+        slowMotion: 1,
+      },
     },
     recommendedVehicles: ['monster_truck', 'jeep'],
+    courses: [
+      {
+        id: 'forest_trail',
+        name: 'Timber Trail',
+        seed: 6101,
+        length: 1000,
+        starTargets: { time: 140, coins: 25, fuel: 25 },
+      },
+      {
+        id: 'forest_canopy',
+        name: 'Canopy Run',
+        seed: 6102,
+        length: 2000,
+        starTargets: { time: 300, coins: 50, fuel: 15 },
+      },
+    ],
   },
 };
 
@@ -288,6 +476,26 @@ export function getStage(id: StageId): StageDefinition {
   return STAGES[id];
 }
 
+/**
+ * Weather a stage is played in ('none' for clear stages)
+ */
+export function getStageWeather(
+  id: StageId
+): NonNullable<StageDefinition['visual']['weatherType']> | 'none' {
+  const visual = STAGES[id]?.visual;
+  return visual?.hasWeather && visual.weatherType ? visual.weatherType : 'none';
+}
+
+/**
+ * Get a stage's course by ID
+ */
+export function getCourse(
+  stageId: StageId,
+  courseId: string
+): CourseDefinition | undefined {
+  return STAGES[stageId]?.courses.find((course) => course.id === courseId);
+}
+
 /**
  * Get all stages sorted by unlock cost
  */
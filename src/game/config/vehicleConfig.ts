@@ -61,11 +61,13 @@ export const UPGRADE_MODIFIERS: UpgradeModifiers = {
 
 /**
  * Calculate vehicle stats with upgrades applied
+ * (on top of a vehicle's own stats, or the base stats)
  */
 export function calculateVehicleStats(
-  upgradeLevels: Record<UpgradeType, number>
+  upgradeLevels: Record<UpgradeType, number>,
+  baseStats: VehicleStats = BASE_VEHICLE_STATS
 ): VehicleStats {
-  const stats = { ...BASE_VEHICLE_STATS };
+  const stats = { ...baseStats };
 
   for (const [upgradeType, level] of Object.entries(upgradeLevels)) {
     const modifier = UPGRADE_MODIFIERS[upgradeType as UpgradeType];
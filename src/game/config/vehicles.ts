@@ -6,8 +6,11 @@
  * - Grip/Traction
  * - Fuel efficiency
  * - Durability/Stability
+ * - Chassis shape and wheel layout
  */
 
+import { ChassisGeometry, DEFAULT_CHASSIS } from '../physics/chassis';
+
 export type VehicleId =
   | 'jeep'
   | 'monster_truck'
@@ -40,6 +43,10 @@ export type VehicleDefinition = {
     fuelConsumptionRate: number;
     /** Brake power */
     brakePower: number;
+    /** Damage resistance (1 = normal, 2 = takes half the damage) */
+    durability: number;
+    /** Lean strength in the air (spin per tick of full lean, rad/tick) */
+    airControl: number;
   };
   /** Visual properties */
   visual: {
@@ -56,6 +63,8 @@ export type VehicleDefinition = {
     /** Has visible driver */
     hasDriver: boolean;
   };
+  /** Body shape, wheel layout and weight (drives physics and rendering) */
+  chassis: ChassisGeometry;
   /** Star rating for display (1-5) */
   starRating: {
     speed: number;
@@ -83,6 +92,8 @@ export const VEHICLES: Record<VehicleId, VehicleDefinition> = {
       fuelCapacity: 100,
       fuelConsumptionRate: 1.0,
       brakePower: 0.02,
+      durability: 1.0,
+      airControl: 0.004,
     },
     visual: {
       bodyWidth: 80,
@@ -92,6 +103,7 @@ export const VEHICLES: Record<VehicleId, VehicleDefinition> = {
       wheelColor: '#333333',
       hasDriver: true,
     },
+    chassis: DEFAULT_CHASSIS,
     starRating: {
       speed: 2,
       grip: 3,
@@ -114,6 +126,8 @@ export const VEHICLES: Record<VehicleId, VehicleDefinition> = {
       fuelCapacity: 120,
       fuelConsumptionRate: 1.5,
       brakePower: 0.03,
+      durability: 1.4,
+      airControl: 0.003,
     },
     visual: {
       bodyWidth: 90,
@@ -123,6 +137,23 @@ export const VEHICLES: Record<VehicleId, VehicleDefinition> = {
       wheelColor: '#222222',
       hasDriver: true,
     },
+    chassis: {
+      // Tall cab over a raised bed, wheels pushed out to the corners
+      hull: [
+        { x: -0.5, y: -0.1 },
+        { x: -0.15, y: -0.5 },
+        { x: 0.3, y: -0.5 },
+        { x: 0.5, y: -0.05 },
+        { x: 0.5, y: 0.5 },
+        { x: -0.5, y: 0.5 },
+      ],
+      wheels: [
+        { x: -0.45, radius: 1 },
+        { x: 0.45, radius: 1 },
+      ],
+      density: 0.0025,
+      tracks: false,
+    },
     starRating: {
       speed: 2,
       grip: 5,
@@ -145,6 +176,8 @@ export const VEHICLES: Record<VehicleId, VehicleDefinition> = {
       fuelCapacity: 80,
       fuelConsumptionRate: 0.8,
       brakePower: 0.025,
+      durability: 0.8,
+      airControl: 0.005,
     },
     visual: {
       bodyWidth: 70,
@@ -154,6 +187,7 @@ export const VEHICLES: Record<VehicleId, VehicleDefinition> = {
       wheelColor: '#444444',
       hasDriver: true,
     },
+    chassis: DEFAULT_CHASSIS,
     starRating: {
       speed: 5,
       grip: 2,
@@ -176,6 +210,8 @@ export const VEHICLES: Record<VehicleId, VehicleDefinition> = {
       fuelCapacity: 150,
       fuelConsumptionRate: 2.0,
       brakePower: 0.04,
+      durability: 2.5,
+      airControl: 0.0015,
     },
     visual: {
       bodyWidth: 100,
@@ -185,6 +221,26 @@ export const VEHICLES: Record<VehicleId, VehicleDefinition> = {
       wheelColor: '#2D3748',
       hasDriver: false,
     },
+    chassis: {
+      // Low sloped hull on five tracked road wheels
+      hull: [
+        { x: -0.5, y: 0 },
+        { x: -0.3, y: -0.5 },
+        { x: 0.3, y: -0.5 },
+        { x: 0.5, y: 0 },
+        { x: 0.4, y: 0.5 },
+        { x: -0.4, y: 0.5 },
+      ],
+      wheels: [
+        { x: -0.4, radius: 0.6 },
+        { x: -0.2, radius: 0.6 },
+        { x: 0, radius: 0.6 },
+        { x: 0.2, radius: 0.6 },
+        { x: 0.4, radius: 0.6 },
+      ],
+      density: 0.004,
+      tracks: true,
+    },
     starRating: {
       speed: 1,
       grip: 4,
@@ -207,6 +263,8 @@ export const VEHICLES: Record<VehicleId, VehicleDefinition> = {
       fuelCapacity: 90,
       fuelConsumptionRate: 1.2,
       brakePower: 0.035,
+      durability: 0.7,
+      airControl: 0.0045,
     },
     visual: {
       bodyWidth: 90,
@@ -216,6 +274,7 @@ export const VEHICLES: Record<VehicleId, VehicleDefinition> = {
       wheelColor: '#333333',
       hasDriver: true,
     },
+    chassis: DEFAULT_CHASSIS,
     starRating: {
       speed: 5,
       grip: 4,
@@ -238,6 +297,8 @@ export const VEHICLES: Record<VehicleId, VehicleDefinition> = {
       fuelCapacity: 200,
       fuelConsumptionRate: 0.5,
       brakePower: 0.015,
+      durability: 0.9,
+      airControl: 0.006,
     },
     visual: {
       bodyWidth: 85,
@@ -247,6 +308,34 @@ export const VEHICLES: Record<VehicleId, VehicleDefinition> = {
       wheelColor: '#90A4AE',
       hasDriver: true,
     },
+    chassis: {
+      // Light open frame on a long wheelbase, towing a sample cart
+      hull: [
+        { x: -0.5, y: 0 },
+        { x: -0.35, y: -0.5 },
+        { x: 0.35, y: -0.5 },
+        { x: 0.5, y: 0 },
+        { x: 0.5, y: 0.5 },
+        { x: -0.5, y: 0.5 },
+      ],
+      wheels: [
+        { x: -0.5, radius: 1 },
+        { x: 0, radius: 0.8 },
+        { x: 0.5, radius: 1 },
+      ],
+      density: 0.0015,
+      tracks: false,
+      trailer: {
+        hull: [
+          { x: -0.2, y: -0.2 },
+          { x: 0.2, y: -0.2 },
+          { x: 0.2, y: 0.5 },
+          { x: -0.2, y: 0.5 },
+        ],
+        wheels: [{ x: 0, radius: 0.6 }],
+        hitchLength: 0.1,
+      },
+    },
     starRating: {
       speed: 3,
       grip: 2,
@@ -4,6 +4,7 @@
 
 import Matter from 'matter-js';
 import { CollisionCategories, PhysicsWorld } from './world';
+import { ChassisGeometry, DEFAULT_CHASSIS, scaleHull } from './chassis';
 
 export type CarConfig = {
   /** Starting X position */
@@ -28,12 +29,24 @@ export type CarConfig = {
   maxWheelSpeed: number;
   /** Brake force multiplier */
   brakePower: number;
+  /** Air resistance multiplier (1 = normal) */
+  airResistance: number;
+  /** Spin added to the chassis per tick of full lean (rad/tick) */
+  airControl: number;
+  /** Max spin leaning can build up (rad/tick) */
+  maxLeanSpin: number;
+  /** Body shape and wheel layout */
+  chassis: ChassisGeometry;
 };
 
 export type Car = {
   body: Matter.Body;
   frontWheel: Matter.Body;
   rearWheel: Matter.Body;
+  /** Every wheel, rear to front */
+  wheels: Matter.Body[];
+  /** Towed trailer body (null without one) */
+  trailer: Matter.Body | null;
   frontSuspension: Matter.Constraint;
   rearSuspension: Matter.Constraint;
   frontAxle: Matter.Constraint;
@@ -43,6 +56,12 @@ export type Car = {
   applyGas: (amount: number) => void;
   /** Apply brake (0-1) */
   applyBrake: (amount: number) => void;
+  /** Lean the chassis (-1 = back, 1 = forward) */
+  applyLean: (amount: number) => void;
+  /** Put the car back upright and at rest with its body at x, y (e.g. respawning) */
+  resetTo: (x: number, y: number) => void;
+  /** Set the stiffness of every wheel's suspension (e.g. when damaged) */
+  setSuspensionStiffness: (stiffness: number) => void;
   /** Get current position */
   getPosition: () => { x: number; y: number };
   /** Get current rotation */
@@ -57,6 +76,11 @@ export type Car = {
   getAllConstraints: () => Matter.Constraint[];
 };
 
+/**
+ * Forward force on the body per unit of engine torque while on the gas
+ */
+export const GAS_BODY_PUSH = 5;
+
 export const DEFAULT_CAR_CONFIG: CarConfig = {
   x: 100,
   y: 300,
@@ -69,23 +93,80 @@ export const DEFAULT_CAR_CONFIG: CarConfig = {
   enginePower: 0.05,
   maxWheelSpeed: 0.3,
   brakePower: 0.02,
+  airResistance: 1,
+  airControl: 0.004,
+  maxLeanSpin: 0.12,
+  chassis: DEFAULT_CHASSIS,
 };
 
+/**
+ * Wheel collision and material options
+ */
+function wheelOptions(label: string, cfg: CarConfig): Matter.IChamferableBodyDefinition {
+  return {
+    label,
+    collisionFilter: {
+      category: CollisionCategories.CAR_WHEEL,
+      mask: CollisionCategories.GROUND,
+    },
+    friction: cfg.wheelFriction,
+    frictionAir: 0.01 * cfg.airResistance,
+    density: 0.001,
+    restitution: 0.1,
+  };
+}
+
+/**
+ * Hang a wheel off a body: a sprung suspension from the bottom of the
+ * frame and a looser axle from the middle that limits sideways travel.
+ * `mount` is relative to the body's frame center, `centroid` is where
+ * the body's position sits in that frame.
+ */
+function mountWheel(
+  body: Matter.Body,
+  wheel: Matter.Body,
+  mount: { x: number; y: number },
+  centroid: { x: number; y: number },
+  suspensionLength: number,
+  cfg: CarConfig
+): { suspension: Matter.Constraint; axle: Matter.Constraint } {
+  const suspension = Matter.Constraint.create({
+    bodyA: body,
+    pointA: { x: mount.x - centroid.x, y: mount.y - centroid.y },
+    bodyB: wheel,
+    pointB: { x: 0, y: 0 },
+    stiffness: cfg.suspensionStiffness,
+    damping: cfg.suspensionDamping,
+    length: suspensionLength,
+  });
+
+  const axle = Matter.Constraint.create({
+    bodyA: body,
+    pointA: { x: mount.x - centroid.x, y: -centroid.y },
+    bodyB: wheel,
+    pointB: { x: 0, y: 0 },
+    stiffness: 0.5,
+    damping: 0.2,
+    length: suspensionLength * 0.8,
+  });
+
+  return { suspension, axle };
+}
+
 /**
  * Creates a car with physics bodies and constraints
  */
 export function createCar(config: Partial<CarConfig> = {}): Car {
   const cfg: CarConfig = { ...DEFAULT_CAR_CONFIG, ...config };
+  const { chassis } = cfg;
 
-  const wheelBase = cfg.bodyWidth * 0.8;
-  const suspensionLength = cfg.bodyHeight * 0.5 + cfg.wheelRadius * 0.5;
-
-  // Car body
-  const body = Matter.Bodies.rectangle(
-    cfg.x,
-    cfg.y,
-    cfg.bodyWidth,
-    cfg.bodyHeight,
+  // Car body (positioned so its frame center is at x, y)
+  const hull = scaleHull(chassis.hull, cfg.bodyWidth, cfg.bodyHeight);
+  const centroid = Matter.Vertices.centre(hull);
+  const body = Matter.Bodies.fromVertices(
+    cfg.x + centroid.x,
+    cfg.y + centroid.y,
+    [hull],
     {
       label: 'carBody',
       collisionFilter: {
@@ -93,90 +174,141 @@ export function createCar(config: Partial<CarConfig> = {}): Car {
         mask: CollisionCategories.GROUND | CollisionCategories.PICKUP,
       },
       friction: 0.5,
-      frictionAir: 0.02,
-      density: 0.002,
+      frictionAir: 0.02 * cfg.airResistance,
+      density: chassis.density,
     }
   );
 
-  // Front wheel
-  const frontWheel = Matter.Bodies.circle(
-    cfg.x + wheelBase / 2,
-    cfg.y + suspensionLength,
-    cfg.wheelRadius,
-    {
-      label: 'frontWheel',
-      collisionFilter: {
-        category: CollisionCategories.CAR_WHEEL,
-        mask: CollisionCategories.GROUND,
-      },
-      friction: cfg.wheelFriction,
-      frictionAir: 0.01,
-      density: 0.001,
-      restitution: 0.1,
-    }
-  );
+  // Wheels, rear to front
+  const wheels: Matter.Body[] = [];
+  const suspensions: Matter.Constraint[] = [];
+  const axles: Matter.Constraint[] = [];
 
-  // Rear wheel
-  const rearWheel = Matter.Bodies.circle(
-    cfg.x - wheelBase / 2,
-    cfg.y + suspensionLength,
-    cfg.wheelRadius,
-    {
-      label: 'rearWheel',
-      collisionFilter: {
-        category: CollisionCategories.CAR_WHEEL,
-        mask: CollisionCategories.GROUND,
-      },
-      friction: cfg.wheelFriction,
-      frictionAir: 0.01,
-      density: 0.001,
-      restitution: 0.1,
-    }
-  );
+  chassis.wheels.forEach((layout, index) => {
+    const radius = cfg.wheelRadius * layout.radius;
+    const suspensionLength = cfg.bodyHeight * 0.5 + radius * 0.5;
+    const mount = { x: layout.x * cfg.bodyWidth, y: cfg.bodyHeight / 2 };
+    const label =
+      index === chassis.wheels.length - 1
+        ? 'frontWheel'
+        : index === 0
+          ? 'rearWheel'
+          : 'midWheel';
 
-  // Front suspension constraint
-  const frontSuspension = Matter.Constraint.create({
-    bodyA: body,
-    pointA: { x: wheelBase / 2, y: cfg.bodyHeight / 2 },
-    bodyB: frontWheel,
-    pointB: { x: 0, y: 0 },
-    stiffness: cfg.suspensionStiffness,
-    damping: cfg.suspensionDamping,
-    length: suspensionLength,
-  });
+    const wheel = Matter.Bodies.circle(
+      cfg.x + mount.x,
+      cfg.y + suspensionLength,
+      radius,
+      wheelOptions(label, cfg)
+    );
+    const { suspension, axle } = mountWheel(
+      body,
+      wheel,
+      mount,
+      centroid,
+      suspensionLength,
+      cfg
+    );
 
-  // Rear suspension constraint
-  const rearSuspension = Matter.Constraint.create({
-    bodyA: body,
-    pointA: { x: -wheelBase / 2, y: cfg.bodyHeight / 2 },
-    bodyB: rearWheel,
-    pointB: { x: 0, y: 0 },
-    stiffness: cfg.suspensionStiffness,
-    damping: cfg.suspensionDamping,
-    length: suspensionLength,
+    wheels.push(wheel);
+    suspensions.push(suspension);
+    axles.push(axle);
   });
 
-  // Front axle (limits horizontal movement)
-  const frontAxle = Matter.Constraint.create({
-    bodyA: body,
-    pointA: { x: wheelBase / 2, y: 0 },
-    bodyB: frontWheel,
-    pointB: { x: 0, y: 0 },
-    stiffness: 0.5,
-    damping: 0.2,
-    length: suspensionLength * 0.8,
-  });
+  const rearWheel = wheels[0];
+  const frontWheel = wheels[wheels.length - 1];
 
-  // Rear axle
-  const rearAxle = Matter.Constraint.create({
-    bodyA: body,
-    pointA: { x: -wheelBase / 2, y: 0 },
-    bodyB: rearWheel,
-    pointB: { x: 0, y: 0 },
-    stiffness: 0.5,
-    damping: 0.2,
-    length: suspensionLength * 0.8,
-  });
+  // Track links keep neighbouring wheels at a fixed spacing
+  const trackLinks: Matter.Constraint[] = [];
+  if (chassis.tracks) {
+    for (let i = 1; i < wheels.length; i++) {
+      trackLinks.push(
+        Matter.Constraint.create({
+          bodyA: wheels[i - 1],
+          bodyB: wheels[i],
+          stiffness: 0.9,
+          damping: 0.1,
+        })
+      );
+    }
+  }
+
+  // Towed trailer, hitched to the rear of the frame
+  let trailer: Matter.Body | null = null;
+  const trailerWheels: Matter.Body[] = [];
+  const trailerConstraints: Matter.Constraint[] = [];
+
+  if (chassis.trailer) {
+    const layout = chassis.trailer;
+    const trailerHull = scaleHull(layout.hull, cfg.bodyWidth, cfg.bodyHeight);
+    const trailerCentroid = Matter.Vertices.centre(trailerHull);
+    const trailerFront = Math.max(...trailerHull.map((v) => v.x));
+    const hitchLength = layout.hitchLength * cfg.bodyWidth;
+    const trailerX = cfg.x - cfg.bodyWidth / 2 - hitchLength - trailerFront;
+
+    const trailerBody = Matter.Bodies.fromVertices(
+      trailerX + trailerCentroid.x,
+      cfg.y + trailerCentroid.y,
+      [trailerHull],
+      {
+        label: 'trailer',
+        collisionFilter: {
+          category: CollisionCategories.CAR_BODY,
+          mask: CollisionCategories.GROUND,
+        },
+        friction: 0.5,
+        frictionAir: 0.02 * cfg.airResistance,
+        density: chassis.density,
+      }
+    );
+    trailer = trailerBody;
+
+    trailerConstraints.push(
+      Matter.Constraint.create({
+        bodyA: body,
+        pointA: { x: -cfg.bodyWidth / 2 - centroid.x, y: -centroid.y },
+        bodyB: trailerBody,
+        pointB: { x: trailerFront - trailerCentroid.x, y: -trailerCentroid.y },
+        stiffness: 0.9,
+        damping: 0.1,
+        length: hitchLength,
+      })
+    );
+
+    for (const wheelLayout of layout.wheels) {
+      const radius = cfg.wheelRadius * wheelLayout.radius;
+      const suspensionLength = cfg.bodyHeight * 0.5 + radius * 0.5;
+      const mount = { x: wheelLayout.x * cfg.bodyWidth, y: cfg.bodyHeight / 2 };
+
+      const wheel = Matter.Bodies.circle(
+        trailerX + mount.x,
+        cfg.y + suspensionLength,
+        radius,
+        wheelOptions('trailerWheel', cfg)
+      );
+      const { suspension, axle } = mountWheel(
+        trailerBody,
+        wheel,
+        mount,
+        trailerCentroid,
+        suspensionLength,
+        cfg
+      );
+
+      trailerWheels.push(wheel);
+      trailerConstraints.push(suspension, axle);
+    }
+  }
+
+  /**
+   * Tracked wheels share one speed
+   */
+  const linkTracks = (): void => {
+    if (!chassis.tracks) return;
+    const average =
+      wheels.reduce((sum, wheel) => sum + wheel.angularVelocity, 0) / wheels.length;
+    wheels.forEach((wheel) => Matter.Body.setAngularVelocity(wheel, average));
+  };
 
   const applyGas = (amount: number): void => {
     const clampedAmount = Math.max(0, Math.min(1, amount));
@@ -185,28 +317,18 @@ export function createCar(config: Partial<CarConfig> = {}): Car {
     // Apply angular velocity to wheels
     const targetAngularVelocity = cfg.maxWheelSpeed * clampedAmount;
 
-    if (rearWheel.angularVelocity < targetAngularVelocity) {
-      Matter.Body.setAngularVelocity(
-        rearWheel,
-        Math.min(
-          rearWheel.angularVelocity + torque,
-          targetAngularVelocity
-        )
-      );
-    }
-
-    if (frontWheel.angularVelocity < targetAngularVelocity) {
-      Matter.Body.setAngularVelocity(
-        frontWheel,
-        Math.min(
-          frontWheel.angularVelocity + torque,
-          targetAngularVelocity
-        )
-      );
+    for (const wheel of wheels) {
+      if (wheel.angularVelocity < targetAngularVelocity) {
+        Matter.Body.setAngularVelocity(
+          wheel,
+          Math.min(wheel.angularVelocity + torque, targetAngularVelocity)
+        );
+      }
     }
+    linkTracks();
 
     // Also apply a small forward force to the body
-    const forwardForce = { x: torque * 5, y: 0 };
+    const forwardForce = { x: torque * GAS_BODY_PUSH, y: 0 };
     Matter.Body.applyForce(body, body.position, forwardForce);
   };
 
@@ -215,25 +337,40 @@ export function createCar(config: Partial<CarConfig> = {}): Car {
     const brakeFactor = 1 - cfg.brakePower * clampedAmount;
 
     // Reduce angular velocity of wheels
-    Matter.Body.setAngularVelocity(
-      frontWheel,
-      frontWheel.angularVelocity * brakeFactor
-    );
-    Matter.Body.setAngularVelocity(
-      rearWheel,
-      rearWheel.angularVelocity * brakeFactor
-    );
+    for (const wheel of wheels) {
+      Matter.Body.setAngularVelocity(wheel, wheel.angularVelocity * brakeFactor);
+    }
+    linkTracks();
 
     // Increase friction temporarily (simulate brake pads)
-    if (clampedAmount > 0.5) {
-      frontWheel.friction = Math.min(1, cfg.wheelFriction + 0.3);
-      rearWheel.friction = Math.min(1, cfg.wheelFriction + 0.3);
-    } else {
-      frontWheel.friction = cfg.wheelFriction;
-      rearWheel.friction = cfg.wheelFriction;
+    const friction =
+      clampedAmount > 0.5 ? Math.min(1, cfg.wheelFriction + 0.3) : cfg.wheelFriction;
+    wheels.forEach((wheel) => {
+      wheel.friction = friction;
+    });
+  };
+
+  const applyLean = (amount: number): void => {
+    const clampedAmount = Math.max(-1, Math.min(1, amount));
+    if (clampedAmount === 0) return;
+
+    // Spin the chassis towards the lean, up to the spin limit
+    const spin = cfg.airControl * clampedAmount;
+    const limit = cfg.maxLeanSpin * Math.abs(clampedAmount);
+    const current = body.angularVelocity;
+    if (spin > 0 && current < limit) {
+      Matter.Body.setAngularVelocity(body, Math.min(current + spin, limit));
+    } else if (spin < 0 && current > -limit) {
+      Matter.Body.setAngularVelocity(body, Math.max(current + spin, -limit));
     }
   };
 
+  const setSuspensionStiffness = (stiffness: number): void => {
+    suspensions.forEach((suspension) => {
+      suspension.stiffness = stiffness;
+    });
+  };
+
   const getPosition = (): { x: number; y: number } => ({
     x: body.position.x,
     y: body.position.y,
@@ -252,26 +389,51 @@ export function createCar(config: Partial<CarConfig> = {}): Car {
     return angle > Math.PI * 0.66 && angle < Math.PI * 1.34;
   };
 
-  const getAllBodies = (): Matter.Body[] => [body, frontWheel, rearWheel];
+  const getAllBodies = (): Matter.Body[] => [
+    body,
+    ...[...wheels].reverse(),
+    ...(trailer ? [trailer] : []),
+    ...trailerWheels,
+  ];
+
+  // Every part's offset from the body as built, for respawning
+  const restOffsets = getAllBodies().map((part) => ({
+    part,
+    offset: { x: part.position.x - body.position.x, y: part.position.y - body.position.y },
+  }));
+
+  const resetTo = (x: number, y: number): void => {
+    for (const { part, offset } of restOffsets) {
+      Matter.Body.setPosition(part, { x: x + offset.x, y: y + offset.y });
+      Matter.Body.setAngle(part, 0);
+      Matter.Body.setVelocity(part, { x: 0, y: 0 });
+      Matter.Body.setAngularVelocity(part, 0);
+    }
+  };
 
   const getAllConstraints = (): Matter.Constraint[] => [
-    frontSuspension,
-    rearSuspension,
-    frontAxle,
-    rearAxle,
+    ...[...suspensions].reverse(),
+    ...[...axles].reverse(),
+    ...trackLinks,
+    ...trailerConstraints,
   ];
 
   return {
     body,
     frontWheel,
     rearWheel,
-    frontSuspension,
-    rearSuspension,
-    frontAxle,
-    rearAxle,
+    wheels,
+    trailer,
+    frontSuspension: suspensions[suspensions.length - 1],
+    rearSuspension: suspensions[0],
+    frontAxle: axles[axles.length - 1],
+    rearAxle: axles[0],
     config: cfg,
     applyGas,
     applyBrake,
+    applyLean,
+    resetTo,
+    setSuspensionStiffness,
     getPosition,
     getRotation,
     getVelocity,
@@ -0,0 +1,81 @@
+/**
+ * Chassis - Vehicle body shapes and wheel layouts
+ *
+ * Geometry is stored in fractions of the vehicle's body size and wheel
+ * radius so the same shape works for every size (including modifiers
+ * like tiny vehicles or giant wheels). Physics and rendering both read
+ * from it.
+ */
+
+export type ChassisPoint = {
+  /** Fraction of body width from the center (+ = front) */
+  x: number;
+  /** Fraction of body height from the center (+ = down) */
+  y: number;
+};
+
+export type ChassisWheel = {
+  /** Mount point, as a fraction of body width from the center (+ = front) */
+  x: number;
+  /** Radius as a multiple of the vehicle's wheel radius */
+  radius: number;
+};
+
+export type TrailerGeometry = {
+  /** Convex hull, in fractions of the towing vehicle's body size */
+  hull: ChassisPoint[];
+  /** Wheels, sorted rear to front */
+  wheels: ChassisWheel[];
+  /** Gap between the vehicle's rear and the trailer (fraction of body width) */
+  hitchLength: number;
+};
+
+export type ChassisGeometry = {
+  /** Convex hull around the body center */
+  hull: ChassisPoint[];
+  /** Wheels, sorted rear to front (at least two) */
+  wheels: ChassisWheel[];
+  /** Body density (heavier bodies sit lower and flip less) */
+  density: number;
+  /** Wheels are linked by tracks and always turn together */
+  tracks: boolean;
+  /** Optional towed trailer */
+  trailer?: TrailerGeometry;
+};
+
+/**
+ * Plain box with a wheel at each end
+ */
+export const DEFAULT_CHASSIS: ChassisGeometry = {
+  hull: [
+    { x: -0.5, y: -0.5 },
+    { x: 0.5, y: -0.5 },
+    { x: 0.5, y: 0.5 },
+    { x: -0.5, y: 0.5 },
+  ],
+  wheels: [
+    { x: -0.4, radius: 1 },
+    { x: 0.4, radius: 1 },
+  ],
+  density: 0.002,
+  tracks: false,
+};
+
+/**
+ * Scale a hull to pixels
+ */
+export function scaleHull(
+  hull: ChassisPoint[],
+  width: number,
+  height: number
+): { x: number; y: number }[] {
+  return hull.map((point) => ({ x: point.x * width, y: point.y * height }));
+}
+
+/**
+ * Distance between the rearmost and frontmost wheel (px)
+ */
+export function getWheelbase(chassis: ChassisGeometry, bodyWidth: number): number {
+  const xs = chassis.wheels.map((wheel) => wheel.x);
+  return (Math.max(...xs) - Math.min(...xs)) * bodyWidth;
+}
@@ -0,0 +1,171 @@
+/**
+ * Driver Physics - Head and torso riding on the car
+ *
+ * The driver is strapped to the chassis while the run is on. Their head
+ * touching the ground ends the run; on a crash the straps are released
+ * and the body ragdolls loose.
+ */
+
+import Matter from 'matter-js';
+import { Car } from './car';
+import { CollisionCategories, getTouchingBodies, PhysicsWorld } from './world';
+
+export type DriverConfig = {
+  /** Head radius (px) */
+  headRadius: number;
+  /** Torso width (px) */
+  torsoWidth: number;
+  /** Torso height (px) */
+  torsoHeight: number;
+  /** Seat position, as a fraction of body width from the center (+ = front) */
+  seatX: number;
+  /** Body density (kept light so the driver barely changes handling) */
+  density: number;
+};
+
+export type Driver = {
+  head: Matter.Body;
+  torso: Matter.Body;
+  config: DriverConfig;
+  /** Driver is still strapped to the car */
+  isSeated: () => boolean;
+  /** Release the straps so the driver ragdolls */
+  release: (world: PhysicsWorld) => void;
+  /** Put the driver back in the seat and strap them in (e.g. respawning) */
+  reseat: (world: PhysicsWorld) => void;
+  /** Get all bodies for this driver */
+  getAllBodies: () => Matter.Body[];
+  /** Get all constraints for this driver (seat straps and neck) */
+  getAllConstraints: () => Matter.Constraint[];
+};
+
+export const DEFAULT_DRIVER_CONFIG: DriverConfig = {
+  headRadius: 7,
+  torsoWidth: 10,
+  torsoHeight: 18,
+  seatX: -0.1,
+  density: 0.0005,
+};
+
+/**
+ * Creates a driver seated on top of a car
+ */
+export function createDriver(car: Car, config: Partial<DriverConfig> = {}): Driver {
+  const cfg: DriverConfig = { ...DEFAULT_DRIVER_CONFIG, ...config };
+  const { body } = car;
+
+  // Seat on the top of the frame, in the car body's local space
+  const frameTop = body.bounds.min.y - body.position.y;
+  const seat = { x: cfg.seatX * car.config.bodyWidth, y: frameTop };
+  const options = {
+    collisionFilter: {
+      category: CollisionCategories.DRIVER,
+      mask: CollisionCategories.GROUND,
+    },
+    friction: 0.6,
+    frictionAir: 0.02,
+    density: cfg.density,
+  };
+
+  const torso = Matter.Bodies.rectangle(
+    body.position.x + seat.x,
+    body.position.y + seat.y - cfg.torsoHeight / 2,
+    cfg.torsoWidth,
+    cfg.torsoHeight,
+    { ...options, label: 'driverTorso' }
+  );
+
+  const head = Matter.Bodies.circle(
+    torso.position.x,
+    torso.position.y - cfg.torsoHeight / 2 - cfg.headRadius,
+    cfg.headRadius,
+    { ...options, label: 'driverHead' }
+  );
+
+  // Hips strapped to the seat, back strapped to the frame a little higher
+  const hips = Matter.Constraint.create({
+    bodyA: body,
+    pointA: seat,
+    bodyB: torso,
+    pointB: { x: 0, y: cfg.torsoHeight / 2 },
+    stiffness: 1,
+    length: 0,
+  });
+
+  const back = Matter.Constraint.create({
+    bodyA: body,
+    pointA: { x: seat.x - cfg.torsoWidth, y: seat.y - cfg.torsoHeight / 2 },
+    bodyB: torso,
+    pointB: { x: 0, y: -cfg.torsoHeight / 2 },
+    stiffness: 0.9,
+  });
+
+  // The neck holds for good, so the head stays with the torso when loose
+  const neck = Matter.Constraint.create({
+    bodyA: torso,
+    pointA: { x: 0, y: -cfg.torsoHeight / 2 },
+    bodyB: head,
+    pointB: { x: 0, y: cfg.headRadius },
+    stiffness: 0.9,
+    length: 0,
+  });
+
+  let seated = true;
+
+  // Offsets from the car body when seated
+  const seatedOffsets = [torso, head].map((part) => ({
+    part,
+    offset: { x: part.position.x - body.position.x, y: part.position.y - body.position.y },
+  }));
+
+  const release = (world: PhysicsWorld): void => {
+    if (!seated) return;
+    seated = false;
+    world.removeConstraint(hips);
+    world.removeConstraint(back);
+  };
+
+  const reseat = (world: PhysicsWorld): void => {
+    for (const { part, offset } of seatedOffsets) {
+      Matter.Body.setPosition(part, {
+        x: body.position.x + offset.x,
+        y: body.position.y + offset.y,
+      });
+      Matter.Body.setAngle(part, 0);
+      Matter.Body.setVelocity(part, { x: 0, y: 0 });
+      Matter.Body.setAngularVelocity(part, 0);
+    }
+    if (seated) return;
+    seated = true;
+    world.addConstraint(hips);
+    world.addConstraint(back);
+  };
+
+  return {
+    head,
+    torso,
+    config: cfg,
+    isSeated: () => seated,
+    release,
+    reseat,
+    getAllBodies: () => [torso, head],
+    getAllConstraints: () => (seated ? [hips, back, neck] : [neck]),
+  };
+}
+
+/**
+ * Adds a driver to the physics world
+ */
+export function addDriverToWorld(world: PhysicsWorld, driver: Driver): void {
+  world.add(...driver.getAllBodies());
+  driver.getAllConstraints().forEach((c) => world.addConstraint(c));
+}
+
+/**
+ * Driver's head is resting on or hitting the ground
+ */
+export function isHeadOnGround(world: PhysicsWorld, driver: Driver): boolean {
+  return getTouchingBodies(world, driver.head).some(
+    (body) => body.label === 'ground' || body.label === 'flatGround'
+  );
+}
@@ -16,10 +16,14 @@ export type PhysicsWorld = {
   remove: (...bodies: Matter.Body[]) => void;
   /** Add constraint to the world */
   addConstraint: (constraint: Matter.Constraint) => void;
+  /** Remove constraint from the world */
+  removeConstraint: (constraint: Matter.Constraint) => void;
   /** Clear all bodies from the world */
   clear: () => void;
   /** Get all bodies in the world */
   getBodies: () => Matter.Body[];
+  /** Change the physics time scale (1 = normal, 0.5 = slow-mo) */
+  setTimeScale: (timeScale: number) => void;
 };
 
 export type WorldConfig = {
@@ -63,6 +67,10 @@ export function createPhysicsWorld(config: WorldConfig = {}): PhysicsWorld {
     Matter.Composite.add(world, constraint);
   };
 
+  const removeConstraint = (constraint: Matter.Constraint): void => {
+    Matter.Composite.remove(world, constraint);
+  };
+
   const clear = (): void => {
     Matter.Composite.clear(world, false);
   };
@@ -71,6 +79,10 @@ export function createPhysicsWorld(config: WorldConfig = {}): PhysicsWorld {
     return Matter.Composite.allBodies(world);
   };
 
+  const setTimeScale = (scale: number): void => {
+    engine.timing.timeScale = scale;
+  };
+
   return {
     engine,
     world,
@@ -78,8 +90,10 @@ export function createPhysicsWorld(config: WorldConfig = {}): PhysicsWorld {
     add,
     remove,
     addConstraint,
+    removeConstraint,
     clear,
     getBodies,
+    setTimeScale,
   };
 }
 
@@ -93,6 +107,28 @@ export function checkCollision(
   return Matter.Collision.collides(bodyA, bodyB) !== null;
 }
 
+/**
+ * Bodies currently in contact with a body (parent bodies, not parts)
+ */
+export function getTouchingBodies(
+  physicsWorld: PhysicsWorld,
+  body: Matter.Body
+): Matter.Body[] {
+  const touching: Matter.Body[] = [];
+  for (const pair of physicsWorld.engine.pairs.list) {
+    if (!pair.isActive) continue;
+
+    const parentA = pair.bodyA.parent;
+    const parentB = pair.bodyB.parent;
+    if (parentA === body) {
+      touching.push(parentB);
+    } else if (parentB === body) {
+      touching.push(parentA);
+    }
+  }
+  return touching;
+}
+
 /**
  * Body categories for collision filtering
  */
@@ -102,4 +138,5 @@ export const CollisionCategories = {
   CAR_WHEEL: 0x0004,
   PICKUP: 0x0008,
   SENSOR: 0x0010,
+  DRIVER: 0x0020,
 } as const;
@@ -1,12 +1,25 @@
 /**
  * Pickup Spawner - Generates coins and fuel canisters
+ *
+ * Given the car's fuel reach, fuel cans are never spaced further apart
+ * than the car can be trusted to drive: the first can is within range of
+ * a full tank, and every can after it within range of the fuel one can
+ * holds, so an empty tank at a can still makes it to the next one.
  */
 
 import Matter from 'matter-js';
 import { CollisionCategories } from '../physics/world';
 import { SeededRng, createSeededRng } from '../terrain/seededRng';
+import { POWER_UP_TYPES, PowerUpType } from '../systems/powerUps';
 
-export type PickupType = 'coin' | 'fuel';
+export type PickupType = 'coin' | 'fuel' | PowerUpType;
+
+/**
+ * Is a body label a pickup
+ */
+export function isPickupLabel(label: string): boolean {
+  return label === 'coin' || label === 'fuel' || (POWER_UP_TYPES as string[]).includes(label);
+}
 
 export type Pickup = {
   body: Matter.Body;
@@ -15,8 +28,15 @@ export type Pickup = {
   collected: boolean;
 };
 
+export type FuelReach = {
+  /** Fuel tank size */
+  tankSize: number;
+  /** Fuel burned per second at full throttle */
+  burnRate: number;
+};
+
 export type SpawnConfig = {
-  /** Minimum distance between pickups */
+  /** Minimum distance between pickups (fuel cans go closer when the car needs them) */
   minSpacing: number;
   /** Maximum distance between pickups */
   maxSpacing: number;
@@ -24,6 +44,10 @@ export type SpawnConfig = {
   coinProbability: number;
   /** Fuel spawn probability (0-1) */
   fuelProbability: number;
+  /** Power-up spawn probability (0-1) */
+  powerUpProbability: number;
+  /** Relative chance of each power-up when one spawns */
+  powerUpWeights: Record<PowerUpType, number>;
   /** Minimum height above ground */
   minHeight: number;
   /** Maximum height above ground */
@@ -34,6 +58,14 @@ export type SpawnConfig = {
   screenHeight: number;
   /** Base ground height */
   baseGroundHeight: number;
+  /** Coins awarded per coin pickup */
+  coinValue: number;
+  /** Fuel refilled per fuel pickup (% of tank) */
+  fuelValue: number;
+  /** Car's fuel reach (null = fuel cans are left to chance) */
+  fuelReach: FuelReach | null;
+  /** Average speed the fuel reach is worked out at (px/s, kept low for steep climbs) */
+  reachSpeed: number;
 };
 
 export type PickupSpawner = {
@@ -56,13 +88,33 @@ export const DEFAULT_SPAWN_CONFIG: SpawnConfig = {
   maxSpacing: 400,
   coinProbability: 0.7,
   fuelProbability: 0.3,
+  powerUpProbability: 0.04,
+  powerUpWeights: {
+    magnet: 1,
+    shield: 1,
+    nitro: 1,
+    doubleCoins: 1,
+    slowMotion: 1,
+  },
   minHeight: 50,
   maxHeight: 150,
   pickupRadius: 15,
   screenHeight: 800,
   baseGroundHeight: 150,
+  coinValue: 1,
+  fuelValue: 25,
+  fuelReach: null,
+  reachSpeed: 200,
 };
 
+/**
+ * Farthest a car can be trusted to drive on an amount of fuel (px)
+ */
+export function getFuelRange(fuel: number, reach: FuelReach, reachSpeed: number): number {
+  if (reach.burnRate <= 0) return Infinity;
+  return (fuel / reach.burnRate) * reachSpeed;
+}
+
 /**
  * Creates a pickup spawner with seeded randomness
  */
@@ -74,6 +126,18 @@ export function createPickupSpawner(
   let rng: SeededRng = createSeededRng(seed + 1000); // Offset seed to differ from terrain
   const pickups: Map<number, Pickup> = new Map();
   let lastSpawnX = 0;
+  let lastFuelX: number | null = null;
+
+  /**
+   * Farthest x the next fuel can may be placed at (the start counts as
+   * a full tank)
+   */
+  const getFuelDeadline = (): number => {
+    if (!cfg.fuelReach) return Infinity;
+    const { tankSize } = cfg.fuelReach;
+    const fuel = lastFuelX === null ? tankSize : Math.min(cfg.fuelValue, tankSize);
+    return (lastFuelX ?? 0) + getFuelRange(fuel, cfg.fuelReach, cfg.reachSpeed);
+  };
 
   /**
    * Create a pickup body
@@ -94,6 +158,21 @@ export function createPickupSpawner(
     });
   };
 
+  /**
+   * Pick a power-up by the stage's weights (null when all are zero)
+   */
+  const pickPowerUp = (): PowerUpType | null => {
+    const total = POWER_UP_TYPES.reduce((sum, type) => sum + cfg.powerUpWeights[type], 0);
+    if (total <= 0) return null;
+
+    let roll = rng.random() * total;
+    for (const type of POWER_UP_TYPES) {
+      roll -= cfg.powerUpWeights[type];
+      if (roll < 0 && cfg.powerUpWeights[type] > 0) return type;
+    }
+    return null;
+  };
+
   /**
    * Determine pickup type based on probability
    */
@@ -105,8 +184,13 @@ export function createPickupSpawner(
       return 'fuel';
     }
 
+    // Then power-ups (rare)
+    if (rand < cfg.fuelProbability + cfg.powerUpProbability) {
+      return pickPowerUp();
+    }
+
     // Then check coin
-    if (rand < cfg.fuelProbability + cfg.coinProbability) {
+    if (rand < cfg.fuelProbability + cfg.powerUpProbability + cfg.coinProbability) {
       return 'coin';
     }
 
@@ -120,11 +204,11 @@ export function createPickupSpawner(
   const getPickupValue = (type: PickupType): number => {
     switch (type) {
       case 'coin':
-        return 1;
+        return cfg.coinValue;
       case 'fuel':
-        return 25; // 25% fuel refill
+        return cfg.fuelValue;
       default:
-        return 0;
+        return 1; // One power-up
     }
   };
 
@@ -141,8 +225,14 @@ export function createPickupSpawner(
 
       if (x >= endX) break;
 
-      // Determine if we spawn and what type
-      const type = getPickupType();
+      // A range can start past the last can's reach, so pull the spot back
+      const fuelDeadline = getFuelDeadline();
+      x = Math.min(x, fuelDeadline);
+
+      // Determine if we spawn and what type; a can is placed here when the
+      // next spot could already be out of reach of the last one
+      const rolledType = getPickupType();
+      const type = x + cfg.maxSpacing > fuelDeadline ? 'fuel' : rolledType;
       if (!type) continue;
 
       // Calculate Y position (above ground)
@@ -162,6 +252,9 @@ export function createPickupSpawner(
       pickups.set(body.id, pickup);
       newPickups.push(pickup);
       lastSpawnX = x;
+      if (type === 'fuel') {
+        lastFuelX = x;
+      }
     }
 
     return newPickups;
@@ -206,6 +299,7 @@ export function createPickupSpawner(
     rng = createSeededRng(seed + 1000);
     pickups.clear();
     lastSpawnX = 0;
+    lastFuelX = null;
   };
 
   return {
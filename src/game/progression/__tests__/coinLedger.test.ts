@@ -0,0 +1,254 @@
+/**
+ * Tests for the Coin Ledger
+ */
+
+import {
+  COIN_CREDIT_LIMITS,
+  CoinLedger,
+  CoinLedgerEntry,
+  createCoinLedger,
+  reconcileLegacyBalances,
+  verifyLedger,
+} from '../coinLedger';
+import { createProgressionManager } from '../upgrades';
+
+// Mock AsyncStorage
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] || null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    delete mockStorage[key];
+    return Promise.resolve();
+  }),
+}));
+
+const LEDGER_KEY = '@summit_wheels_coin_ledger';
+
+function sumEntries(entries: CoinLedgerEntry[]): number {
+  return entries.reduce((sum, entry) => sum + entry.amount, 0);
+}
+
+function storedEntries(): CoinLedgerEntry[] {
+  return JSON.parse(mockStorage[LEDGER_KEY]).entries;
+}
+
+describe('Coin Ledger', () => {
+  let ledger: CoinLedger;
+
+  beforeEach(async () => {
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    ledger = createCoinLedger();
+    await ledger.load();
+  });
+
+  describe('credit and debit', () => {
+    it('should start empty', () => {
+      expect(ledger.getBalance()).toBe(0);
+      expect(ledger.getEntries()).toEqual([]);
+    });
+
+    it('should record each change with its source and running balance', async () => {
+      await ledger.credit(100, 'run');
+      await ledger.credit(50, 'challenge', 'daily_2026-10-19');
+      await ledger.debit(120, 'upgrade', 'engine');
+
+      const entries = ledger.getEntries();
+      expect(entries.map((e) => e.amount)).toEqual([100, 50, -120]);
+      expect(entries.map((e) => e.balance)).toEqual([100, 150, 30]);
+      expect(entries[1]).toMatchObject({
+        index: 1,
+        source: 'challenge',
+        referenceId: 'daily_2026-10-19',
+      });
+      expect(ledger.getBalance()).toBe(30);
+      expect(ledger.getTotals()).toEqual({ earned: 150, spent: 120 });
+    });
+
+    it('should refuse to spend more than the balance', async () => {
+      await ledger.credit(100, 'run');
+
+      expect(await ledger.debit(101, 'revive')).toBeNull();
+      expect(ledger.getBalance()).toBe(100);
+      expect(ledger.getEntries()).toHaveLength(1);
+    });
+
+    it('should ignore non-positive amounts', async () => {
+      expect(await ledger.credit(0, 'run')).toBeNull();
+      expect(await ledger.credit(-50, 'run')).toBeNull();
+      expect(await ledger.debit(0, 'revive')).toBeNull();
+      expect(ledger.getEntries()).toEqual([]);
+    });
+
+    it('should only pay a reference once per source', async () => {
+      expect(await ledger.credit(5000, 'coinPack', 'txn_1')).not.toBeNull();
+      expect(await ledger.credit(5000, 'coinPack', 'txn_1')).toBeNull();
+      expect(await ledger.credit(100, 'achievement', 'txn_1')).not.toBeNull();
+
+      expect(ledger.getBalance()).toBe(5100);
+    });
+
+    it('should keep the balance equal to the sum of the entries', async () => {
+      const changes: [number, boolean][] = [
+        [120, true], [35, false], [400, true], [1000, false],
+        [80, true], [515, false], [7, true], [50, false],
+      ];
+      for (const [amount, isCredit] of changes) {
+        if (isCredit) {
+          await ledger.credit(amount, 'run');
+        } else {
+          await ledger.debit(amount, 'upgrade');
+        }
+        expect(ledger.getBalance()).toBe(sumEntries(ledger.getEntries()));
+      }
+      expect(ledger.verify().valid).toBe(true);
+    });
+  });
+
+  describe('anti-cheat', () => {
+    it('should refuse amounts a fixed payout table never pays', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(await ledger.credit(250, 'luckySpin', 'spin_1')).not.toBeNull();
+      expect(await ledger.credit(251, 'luckySpin', 'spin_2')).toBeNull();
+      expect(await ledger.credit(99999, 'coinPack', 'txn_1')).toBeNull();
+      expect(ledger.getBalance()).toBe(250);
+      warn.mockRestore();
+    });
+
+    it('should report large and fast run payouts', async () => {
+      const reporter = jest.fn();
+      ledger.setCreditReporter(reporter);
+
+      await ledger.credit(COIN_CREDIT_LIMITS.maxRunCoins + 1, 'run', 'run_1');
+      expect(reporter).toHaveBeenCalledWith(
+        'high_score',
+        expect.objectContaining({ source: 'run' })
+      );
+
+      reporter.mockClear();
+      await ledger.credit(COIN_CREDIT_LIMITS.velocityCoins + 1, 'run', 'run_2');
+      expect(reporter).toHaveBeenCalledWith('velocity_coins', expect.anything());
+
+      // Run payouts are still made; they are only reported
+      expect(ledger.getEntries()).toHaveLength(2);
+    });
+
+    it('should not report ordinary run payouts', async () => {
+      const reporter = jest.fn();
+      ledger.setCreditReporter(reporter);
+
+      await ledger.credit(200, 'run', 'run_1');
+      await ledger.credit(200, 'run', 'run_2');
+      expect(reporter).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('hash chain', () => {
+    beforeEach(async () => {
+      await ledger.credit(100, 'run');
+      await ledger.credit(200, 'run');
+      await ledger.debit(50, 'revive');
+    });
+
+    it('should verify an untouched ledger', () => {
+      expect(verifyLedger(ledger.getEntries())).toEqual({ valid: true, validEntries: 3 });
+    });
+
+    it('should chain each hash to the one before', async () => {
+      const entries = ledger.getEntries();
+      const relinked = [entries[0], { ...entries[2], index: 1, balance: 50 }];
+
+      expect(verifyLedger(relinked).valid).toBe(false);
+    });
+
+    it('should cut a stored ledger back to before an edited entry', async () => {
+      const entries = storedEntries();
+      entries[1] = { ...entries[1], amount: 20000, balance: 20100 };
+      mockStorage[LEDGER_KEY] = JSON.stringify({ migrated: false, entries });
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const reloaded = createCoinLedger();
+      await reloaded.load();
+
+      expect(reloaded.getEntries()).toHaveLength(1);
+      expect(reloaded.getBalance()).toBe(100);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('should survive a reload', async () => {
+      const reloaded = createCoinLedger();
+      await reloaded.load();
+
+      expect(reloaded.getEntries()).toEqual(ledger.getEntries());
+      expect(reloaded.getBalance()).toBe(250);
+    });
+  });
+
+  describe('migration', () => {
+    it('should carry over progression and coin pack balances but not the secure copy', () => {
+      expect(
+        reconcileLegacyBalances({ progression: 1200, entitlements: 5000, secure: 300 })
+      ).toEqual([
+        { amount: 1200, referenceId: 'progression' },
+        { amount: 5000, referenceId: 'entitlements' },
+      ]);
+    });
+
+    it('should skip empty balances', () => {
+      expect(reconcileLegacyBalances({ progression: 0, entitlements: 0, secure: 50 })).toEqual(
+        []
+      );
+    });
+
+    it('should open the ledger with the old balances once', async () => {
+      await ledger.migrate({ progression: 1200, entitlements: 5000, secure: 300 });
+      await ledger.migrate({ progression: 1200, entitlements: 5000, secure: 300 });
+
+      expect(ledger.isMigrated()).toBe(true);
+      expect(ledger.getBalance()).toBe(6200);
+      expect(ledger.getEntries().every((e) => e.source === 'migration')).toBe(true);
+      expect(ledger.getBalance()).toBe(sumEntries(ledger.getEntries()));
+    });
+
+    it('should remember the migration across reloads', async () => {
+      await ledger.migrate({ progression: 0, entitlements: 0, secure: 0 });
+
+      const reloaded = createCoinLedger();
+      await reloaded.load();
+
+      expect(reloaded.isMigrated()).toBe(true);
+    });
+  });
+
+  describe('through the progression manager', () => {
+    it('should mirror the ledger balance in the player progress', async () => {
+      const manager = createProgressionManager();
+      await manager.load();
+
+      await manager.addCoins(10000);
+      await manager.addCoins(500, 'challenge', 'daily_2026-10-19');
+      await manager.purchaseUpgrade('engine');
+      await manager.purchaseVehicle('monster_truck');
+
+      const entries = manager.getCoinLedger().getEntries();
+      expect(entries.map((e) => e.source)).toEqual(['run', 'challenge', 'upgrade', 'vehicle']);
+      expect(manager.getProgress().coins).toBe(sumEntries(entries));
+      expect(manager.getProgress().totalCoins).toBe(10500);
+    });
+
+    it('should not let a saved progress change the balance', async () => {
+      const manager = createProgressionManager();
+      await manager.load();
+      await manager.addCoins(100);
+
+      await manager.save({ ...manager.getProgress(), coins: 999999 });
+
+      expect(manager.getProgress().coins).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for moving the old coin balances into the coin ledger
+ */
+
+import { migrateLegacyCoins } from '../coinMigration';
+import { getProgressionManager, resetProgressionManagerSingleton } from '../upgrades';
+import { EntitlementService } from '../../../services/EntitlementService';
+import { SecurityService } from '../../../services/SecurityService';
+
+// Mock AsyncStorage
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] || null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    delete mockStorage[key];
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('../../../services/EntitlementService', () => ({
+  EntitlementService: {
+    isLoaded: jest.fn(() => true),
+    load: jest.fn(() => Promise.resolve()),
+    getLegacyCoins: jest.fn(() => 5000),
+    clearLegacyCoins: jest.fn(() => Promise.resolve()),
+  },
+}));
+
+jest.mock('../../../services/SecurityService', () => ({
+  SecurityService: {
+    getLegacyCoins: jest.fn(() => 300),
+    clearLegacyCoins: jest.fn(() => Promise.resolve()),
+  },
+}));
+
+describe('migrateLegacyCoins', () => {
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    mockStorage['@summit_wheels_progress'] = JSON.stringify({ coins: 1200, totalCoins: 4000 });
+    resetProgressionManagerSingleton();
+    jest.clearAllMocks();
+  });
+
+  it('should fold the old balances into one ledger balance', async () => {
+    await migrateLegacyCoins();
+
+    const progress = await getProgressionManager().load();
+    expect(progress.coins).toBe(6200);
+    expect(progress.totalCoins).toBe(4000);
+    expect(getProgressionManager().getCoinLedger().verify().valid).toBe(true);
+  });
+
+  it('should clear the old balances', async () => {
+    await migrateLegacyCoins();
+
+    expect(EntitlementService.clearLegacyCoins).toHaveBeenCalled();
+    expect(SecurityService.clearLegacyCoins).toHaveBeenCalled();
+  });
+
+  it('should only run once', async () => {
+    await migrateLegacyCoins();
+    await getProgressionManager().load();
+    await getProgressionManager().save(getProgressionManager().getProgress());
+    resetProgressionManagerSingleton();
+
+    await migrateLegacyCoins();
+
+    expect(EntitlementService.clearLegacyCoins).toHaveBeenCalledTimes(1);
+    expect((await getProgressionManager().load()).coins).toBe(6200);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Tests for reward payouts, the inventory and mystery boxes
+ */
+
+import {
+  getMysteryBoxOdds,
+  MYSTERY_BOX_DROPS,
+  openMysteryBox,
+  payReward,
+  rollMysteryBox,
+  spinLuckyWheel,
+} from '../rewards';
+import { getProgressionManager, resetProgressionManagerSingleton } from '../upgrades';
+import { InventorySystem, ITEMS } from '../../../systems/InventorySystem';
+import {
+  DAILY_REWARDS,
+  DailyRewardSystem,
+  SPIN_PRIZES,
+} from '../../../systems/DailyRewardSystem';
+import { CosmeticsSystem } from '../../../systems/CosmeticsSystem';
+
+// Mock AsyncStorage
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] || null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    delete mockStorage[key];
+    return Promise.resolve();
+  }),
+}));
+
+describe('Rewards', () => {
+  beforeEach(async () => {
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    resetProgressionManagerSingleton();
+    await getProgressionManager().load();
+    await InventorySystem.reset();
+    await CosmeticsSystem.reset();
+  });
+
+  describe('InventorySystem', () => {
+    it('should stack granted items and persist them', async () => {
+      await InventorySystem.grant('super_boost', 3, 'dailyReward');
+      await InventorySystem.grant('super_boost', 1, 'luckySpin');
+
+      expect(InventorySystem.getCount('super_boost')).toBe(4);
+      expect(InventorySystem.getStacks()).toEqual([{ itemId: 'super_boost', count: 4 }]);
+      expect(JSON.parse(mockStorage['@summit_wheels_inventory']).counts.super_boost).toBe(4);
+    });
+
+    it('should cap stacks at their limit', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const max = ITEMS.mystery_box.maxStack;
+
+      expect(await InventorySystem.grant('mystery_box', max + 5, 'seasonPass')).toBe(max);
+      expect(await InventorySystem.grant('mystery_box', 1, 'seasonPass')).toBe(0);
+      expect(InventorySystem.getCount('mystery_box')).toBe(max);
+      warn.mockRestore();
+    });
+
+    it('should only consume items that are held', async () => {
+      await InventorySystem.grant('fuel_canister', 1, 'dailyReward');
+
+      expect(await InventorySystem.consume('fuel_canister')).toBe(true);
+      expect(await InventorySystem.consume('fuel_canister')).toBe(false);
+      expect(InventorySystem.getCount('fuel_canister')).toBe(0);
+    });
+
+    it('should take one of each equipped item for a run', async () => {
+      await InventorySystem.grant('super_boost', 2, 'dailyReward');
+
+      const equipped = await InventorySystem.consumeLoadout(['super_boost', 'fuel_canister']);
+
+      expect(equipped).toEqual(['super_boost']);
+      expect(InventorySystem.getCount('super_boost')).toBe(1);
+    });
+  });
+
+  describe('payReward', () => {
+    it('should pay coins into the coin ledger once per reference', async () => {
+      await payReward({ type: 'coins', amount: 200 }, 'dailyReward', '2026-10-19');
+      await payReward({ type: 'coins', amount: 200 }, 'dailyReward', '2026-10-19');
+
+      const entries = getProgressionManager().getCoinLedger().getEntries();
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ source: 'dailyReward', amount: 200 });
+    });
+
+    it('should put every consumable daily reward and spin prize in the inventory', async () => {
+      const consumables = [...DAILY_REWARDS, ...SPIN_PRIZES].filter((r) => r.type !== 'coins');
+
+      for (const reward of consumables) {
+        expect(await payReward(reward, 'dailyReward')).toMatchObject({ kind: 'item' });
+      }
+      expect(InventorySystem.getCount('super_boost')).toBe(4);
+      expect(InventorySystem.getCount('fuel_canister')).toBe(4);
+      expect(InventorySystem.getCount('mystery_box')).toBe(1);
+    });
+
+    it('should map season pass packs and XP boosts to items', async () => {
+      await payReward({ type: 'boost_pack', amount: 5 }, 'seasonPass');
+      await payReward({ type: 'xp_boost', amount: 2 }, 'seasonPass');
+
+      expect(InventorySystem.getCount('super_boost')).toBe(5);
+      expect(InventorySystem.getCount('xp_boost')).toBe(1);
+    });
+
+    it('should unlock cosmetic rewards once', async () => {
+      const reward = { type: 'trail_effect' as const, amount: 1, itemId: 'trail_fire' };
+
+      expect(await payReward(reward, 'seasonPass')).toEqual({
+        kind: 'cosmetic',
+        itemId: 'trail_fire',
+      });
+      expect(await payReward(reward, 'seasonPass')).toBeNull();
+      expect(CosmeticsSystem.isOwned('trail_fire')).toBe(true);
+    });
+
+    it('should leave rewards that are not coins, consumables or cosmetics alone', async () => {
+      expect(
+        await payReward({ type: 'exclusive_vehicle', amount: 1, itemId: 'rally_car' }, 'seasonPass')
+      ).toBeNull();
+    });
+  });
+
+  describe('lucky spin', () => {
+    beforeEach(async () => {
+      await DailyRewardSystem.reset();
+      await DailyRewardSystem.load();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should pay the coins a spin lands on', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+
+      expect(await spinLuckyWheel()).toMatchObject({ id: 'coins_50' });
+
+      const entries = getProgressionManager().getCoinLedger().getEntries();
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ source: 'luckySpin', amount: 50 });
+    });
+
+    it('should put a consumable prize in the inventory', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.9);
+
+      expect(await spinLuckyWheel()).toMatchObject({ id: 'fuel_1' });
+      expect(InventorySystem.getCount('fuel_canister')).toBe(1);
+    });
+
+    it('should not pay anything without a spin left', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      await spinLuckyWheel();
+
+      expect(await spinLuckyWheel()).toBeNull();
+      expect(getProgressionManager().getProgress().coins).toBe(50);
+    });
+  });
+
+  describe('mystery boxes', () => {
+    it('should publish odds that add up to 100%', () => {
+      const total = getMysteryBoxOdds().reduce((sum, { chance }) => sum + chance, 0);
+
+      expect(total).toBeCloseTo(1);
+    });
+
+    it('should pick drops in proportion to their weight', () => {
+      expect(rollMysteryBox(0)).toBe(MYSTERY_BOX_DROPS[0]);
+      expect(rollMysteryBox(0.999)).toBe(MYSTERY_BOX_DROPS[MYSTERY_BOX_DROPS.length - 1]);
+    });
+
+    it('should use up a box and pay its drop', async () => {
+      await InventorySystem.grant('mystery_box', 1, 'dailyReward');
+
+      const drop = await openMysteryBox(0);
+
+      expect(drop?.id).toBe('coins_500');
+      expect(InventorySystem.getCount('mystery_box')).toBe(0);
+      expect(getProgressionManager().getProgress().coins).toBe(500);
+    });
+
+    it('should not open anything without a box', async () => {
+      expect(await openMysteryBox(0)).toBeNull();
+      expect(getProgressionManager().getProgress().coins).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for banking and paying run rewards
+ */
+
+import {
+  loadPendingRunRewards,
+  payPendingRunRewards,
+  payRunRewards,
+  RunRewards,
+  savePendingRunRewards,
+} from '../runRewards';
+import { getProgressionManager, resetProgressionManagerSingleton } from '../upgrades';
+import { SeasonPassSystem } from '../../../systems/SeasonPassSystem';
+import { QuestBoardSystem } from '../../../systems/QuestBoardSystem';
+
+// Mock AsyncStorage
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] || null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    delete mockStorage[key];
+    return Promise.resolve();
+  }),
+}));
+
+function makeRewards(overrides: Partial<RunRewards> = {}): RunRewards {
+  return {
+    runId: 'run_1',
+    distance: 1200,
+    coins: 40,
+    trickPoints: 5,
+    questProgress: {},
+    course: null,
+    challenge: null,
+    ...overrides,
+  };
+}
+
+describe('Run rewards', () => {
+  beforeEach(async () => {
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    resetProgressionManagerSingleton();
+    await getProgressionManager().load();
+    await SeasonPassSystem.reset();
+    await SeasonPassSystem.load();
+    await QuestBoardSystem.reset();
+    await QuestBoardSystem.load();
+  });
+
+  it('should pay a run the app closed on at the next launch', async () => {
+    await savePendingRunRewards(makeRewards());
+
+    expect(await payPendingRunRewards()).toBe(true);
+    expect(getProgressionManager().getProgress().coins).toBe(40);
+    expect(SeasonPassSystem.getState()?.totalXPEarned).toBeGreaterThan(0);
+    expect(await loadPendingRunRewards()).toBeNull();
+    expect(await payPendingRunRewards()).toBe(false);
+  });
+
+  it('should pay the rewards written after a revive', async () => {
+    await savePendingRunRewards(makeRewards());
+    await savePendingRunRewards(makeRewards({ coins: 90 }));
+
+    await payPendingRunRewards();
+    expect(getProgressionManager().getProgress().coins).toBe(90);
+  });
+
+  it("should only pay a run's coins once", async () => {
+    await payRunRewards(makeRewards());
+    await payRunRewards(makeRewards());
+
+    expect(getProgressionManager().getProgress().coins).toBe(40);
+  });
+
+  it('should not pay a run again if its rewards were never cleared', async () => {
+    const [quest] = QuestBoardSystem.getQuests();
+    const rewards = makeRewards({ questProgress: { [quest.id]: 1 } });
+
+    await savePendingRunRewards(rewards);
+    await payPendingRunRewards();
+    const xp = SeasonPassSystem.getState()?.totalXPEarned;
+
+    // The app closed before the rewards were cleared
+    await savePendingRunRewards(rewards);
+    expect(await payPendingRunRewards()).toBe(true);
+
+    expect(getProgressionManager().getProgress().coins).toBe(40);
+    expect(SeasonPassSystem.getState()?.totalXPEarned).toBe(xp);
+    expect(QuestBoardSystem.getState().progress[quest.id]).toBe(1);
+    expect(await loadPendingRunRewards()).toBeNull();
+  });
+});
@@ -249,6 +249,32 @@ describe('ProgressionManager - Vehicle Purchases', () => {
     });
   });
 
+  describe('purchaseUpgrade', () => {
+    it('should pay for and apply the upgrade to the selected vehicle', async () => {
+      await manager.addCoins(1000);
+      const cost = calculateUpgradeCost('engine', 0);
+
+      expect(await manager.purchaseUpgrade('engine')).toBe(true);
+
+      const progress = manager.getProgress();
+      expect(progress.coins).toBe(1000 - cost);
+      expect(progress.vehicleUpgrades.jeep.engine).toBe(1);
+      expect(progress.vehicleUpgrades.monster_truck.engine).toBe(0);
+      expect(manager.getUpgradeInfo('engine').currentLevel).toBe(1);
+    });
+
+    it('should not charge for a maxed upgrade', async () => {
+      await manager.addCoins(1000000);
+      for (let i = 0; i < UPGRADE_MODIFIERS.engine.maxLevel; i++) {
+        await manager.purchaseUpgrade('engine');
+      }
+      const { coins } = manager.getProgress();
+
+      expect(await manager.purchaseUpgrade('engine')).toBe(false);
+      expect(manager.getProgress().coins).toBe(coins);
+    });
+  });
+
   describe('getAllVehicleInfos', () => {
     it('should return info for all vehicles', () => {
       const infos = manager.getAllVehicleInfos();
@@ -394,3 +420,42 @@ describe('ProgressionManager - Stats Tracking', () => {
     });
   });
 });
+
+describe('ProgressionManager - Course Results', () => {
+  let manager: ProgressionManager;
+
+  beforeEach(async () => {
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    manager = createProgressionManager();
+    await manager.load();
+  });
+
+  it('should have no result for an unplayed course', () => {
+    expect(manager.getCourseResult('countryside_meadow')).toBeNull();
+  });
+
+  it('should keep the most stars and the fastest finish', async () => {
+    const record = (stars: number, time: number) =>
+      manager.recordCourseResult('countryside_meadow', { stars, completed: true, time });
+
+    expect(await record(2, 120)).toBe(true);
+    expect(await record(1, 110)).toBe(true); // Faster
+    expect(await record(1, 130)).toBe(false);
+
+    expect(manager.getCourseResult('countryside_meadow')).toEqual({ stars: 2, bestTime: 110 });
+  });
+
+  it('should not set a best time for an unfinished run', async () => {
+    await manager.recordCourseResult('desert_oasis', { stars: 0, completed: false, time: 40 });
+
+    expect(manager.getCourseResult('desert_oasis')).toEqual({ stars: 0, bestTime: null });
+  });
+
+  it('should persist course results', async () => {
+    await manager.recordCourseResult('countryside_valley', { stars: 3, completed: true, time: 250 });
+
+    const reloaded = createProgressionManager();
+    await reloaded.load();
+    expect(reloaded.getCourseResult('countryside_valley')?.stars).toBe(3);
+  });
+});
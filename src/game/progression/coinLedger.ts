@@ -0,0 +1,368 @@
+/**
+ * Coin Ledger - The player's one coin balance, kept as an append-only log
+ *
+ * Every coin earned or spent is an entry with where it came from, when,
+ * what it was for and the balance after it. Each entry's hash covers the
+ * hash of the one before, so editing or dropping an entry from storage
+ * breaks the chain from that point on. The balance is always the sum of
+ * the entries.
+ *
+ * Coins coming in are checked for cheating: amounts a source can never
+ * pay are refused, and unusually large or fast run payouts are reported.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SPIN_PRIZES } from '../../systems/DailyRewardSystem';
+import { COIN_PACK_VALUES } from '../../iap/iapKeys';
+
+const STORAGE_KEY = '@summit_wheels_coin_ledger';
+
+/**
+ * Where coins came from or went to
+ */
+export type CoinSource =
+  // Earning
+  | 'run'
+  | 'challenge'
+  | 'achievement'
+  | 'dailyReward'
+  | 'coinPack'
+  | 'luckySpin'
+  | 'seasonPass'
+  | 'mysteryBox'
+  | 'quest'
+  | 'migration'
+  // Spending
+  | 'upgrade'
+  | 'vehicle'
+  | 'stage'
+  | 'cosmetic'
+  | 'revive';
+
+export type CoinLedgerEntry = {
+  /** Position in the ledger (0-based) */
+  index: number;
+  source: CoinSource;
+  /** Coins in (positive) or out (negative) */
+  amount: number;
+  /** When the entry was made (ms since epoch) */
+  timestamp: number;
+  /** What the coins were for (challenge, product, ...; null if nothing in particular) */
+  referenceId: string | null;
+  /** Balance after this entry */
+  balance: number;
+  /** Hash of this entry chained to the previous one */
+  hash: string;
+};
+
+/**
+ * Coin balances kept before the ledger existed
+ */
+export type LegacyBalances = {
+  /** PlayerProgress.coins: everything earned in play, minus spending */
+  progression: number;
+  /** Entitlements.coins: coin packs bought */
+  entitlements: number;
+  /** SecureData.coins: checksummed balance nothing in the game paid into */
+  secure: number;
+};
+
+/**
+ * Suspicious credit reported for fraud review
+ */
+export type CoinCreditFlag = 'high_score' | 'velocity_coins';
+
+export type CoinCreditReporter = (
+  flag: CoinCreditFlag,
+  details: { amount: number; source: CoinSource; timeSince?: number }
+) => void;
+
+/**
+ * Anti-cheat limits on coins coming in
+ */
+export const COIN_CREDIT_LIMITS = {
+  /** Coins from one run above which it is reported */
+  maxRunCoins: 5000,
+  /** Coins from one run reported when they follow the last credit too closely */
+  velocityCoins: 1000,
+  /** How close counts as too close (ms) */
+  velocityWindow: 5000,
+} as const;
+
+/**
+ * The only amounts sources with a fixed payout table can credit
+ */
+export const FIXED_COIN_AMOUNTS: Partial<Record<CoinSource, number[]>> = {
+  luckySpin: SPIN_PRIZES.filter((prize) => prize.type === 'coins').map((prize) => prize.amount),
+  coinPack: Object.values(COIN_PACK_VALUES),
+};
+
+export type LedgerVerification = {
+  valid: boolean;
+  /** Entries before the first broken one */
+  validEntries: number;
+};
+
+export type CoinLedger = {
+  /** Load the ledger from storage (a broken chain is cut where it breaks) */
+  load: () => Promise<void>;
+  /** Current balance */
+  getBalance: () => number;
+  /** All entries, oldest first */
+  getEntries: () => CoinLedgerEntry[];
+  /** Lifetime coins in and out */
+  getTotals: () => { earned: number; spent: number };
+  /**
+   * Add coins (returns null for a non-positive amount, an amount the
+   * source never pays or a reference already credited from the same
+   * source)
+   */
+  credit: (
+    amount: number,
+    source: CoinSource,
+    referenceId?: string | null
+  ) => Promise<CoinLedgerEntry | null>;
+  /** Take coins (returns null if the balance can't cover it) */
+  debit: (
+    amount: number,
+    source: CoinSource,
+    referenceId?: string | null
+  ) => Promise<CoinLedgerEntry | null>;
+  /** Send suspicious credits somewhere for review */
+  setCreditReporter: (reporter: CoinCreditReporter | null) => void;
+  /** Old balances have been folded in */
+  isMigrated: () => boolean;
+  /** Fold the old balances in as opening entries (once) */
+  migrate: (balances: LegacyBalances) => Promise<CoinLedgerEntry[]>;
+  /** Check the hash chain and running balances */
+  verify: () => LedgerVerification;
+  /** Clear the ledger (for testing) */
+  reset: () => Promise<void>;
+};
+
+type StoredLedger = {
+  migrated: boolean;
+  entries: CoinLedgerEntry[];
+};
+
+/**
+ * Hash the ledger starts its chain from
+ */
+const GENESIS_HASH = '00000000';
+
+/**
+ * 32-bit FNV-1a hash of an entry and the hash before it
+ */
+export function hashLedgerEntry(
+  previousHash: string,
+  entry: Omit<CoinLedgerEntry, 'hash'>
+): string {
+  const text = [
+    previousHash,
+    entry.index,
+    entry.source,
+    entry.amount,
+    entry.timestamp,
+    entry.referenceId ?? '',
+    entry.balance,
+  ].join('|');
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Check every entry follows on from the one before it
+ */
+export function verifyLedger(entries: CoinLedgerEntry[]): LedgerVerification {
+  let previousHash = GENESIS_HASH;
+  let balance = 0;
+
+  for (let i = 0; i < entries.length; i++) {
+    const { hash, ...entry } = entries[i];
+    balance += entry.amount;
+    const isValid =
+      entry.index === i &&
+      Number.isInteger(entry.amount) &&
+      entry.balance === balance &&
+      balance >= 0 &&
+      hash === hashLedgerEntry(previousHash, entry);
+
+    if (!isValid) {
+      return { valid: false, validEntries: i };
+    }
+    previousHash = hash;
+  }
+
+  return { valid: true, validEntries: entries.length };
+}
+
+/**
+ * Opening entries for the old balances
+ *
+ * Progression held everything earned in play and coin packs were only
+ * ever paid into the entitlements, so both carry over. Nothing in the
+ * game ever paid coins into the secure store, so any balance there was
+ * not earned and is not carried over.
+ */
+export function reconcileLegacyBalances(
+  balances: LegacyBalances
+): { amount: number; referenceId: string }[] {
+  return [
+    { amount: Math.floor(balances.progression), referenceId: 'progression' },
+    { amount: Math.floor(balances.entitlements), referenceId: 'entitlements' },
+  ].filter((opening) => opening.amount > 0);
+}
+
+/**
+ * Create a coin ledger instance
+ */
+export function createCoinLedger(): CoinLedger {
+  let entries: CoinLedgerEntry[] = [];
+  let migrated = false;
+  let reporter: CoinCreditReporter | null = null;
+
+  const save = async (): Promise<void> => {
+    try {
+      const stored: StoredLedger = { migrated, entries };
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.warn('Failed to save coin ledger:', error);
+    }
+  };
+
+  const load = async (): Promise<void> => {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (!stored) return;
+
+      const parsed = JSON.parse(stored) as StoredLedger;
+      const loaded = parsed.entries ?? [];
+      const { valid, validEntries } = verifyLedger(loaded);
+      if (!valid) {
+        console.warn(`Coin ledger broken at entry ${validEntries} - dropping the rest`);
+      }
+      entries = loaded.slice(0, validEntries);
+      migrated = parsed.migrated ?? false;
+    } catch (error) {
+      console.warn('Failed to load coin ledger:', error);
+    }
+  };
+
+  const getBalance = (): number =>
+    entries.length > 0 ? entries[entries.length - 1].balance : 0;
+
+  const append = (
+    amount: number,
+    source: CoinSource,
+    referenceId: string | null
+  ): CoinLedgerEntry => {
+    const previous = entries[entries.length - 1];
+    const entry = {
+      index: entries.length,
+      source,
+      amount,
+      timestamp: Date.now(),
+      referenceId,
+      balance: getBalance() + amount,
+    };
+    const written: CoinLedgerEntry = {
+      ...entry,
+      hash: hashLedgerEntry(previous?.hash ?? GENESIS_HASH, entry),
+    };
+    entries = [...entries, written];
+    return written;
+  };
+
+  const credit = async (
+    amount: number,
+    source: CoinSource,
+    referenceId: string | null = null
+  ): Promise<CoinLedgerEntry | null> => {
+    const coins = Math.floor(amount);
+    if (coins <= 0) return null;
+
+    // The same purchase or reward is only ever paid once
+    const isDuplicate =
+      referenceId !== null &&
+      entries.some((e) => e.source === source && e.referenceId === referenceId);
+    if (isDuplicate) return null;
+
+    const fixedAmounts = FIXED_COIN_AMOUNTS[source];
+    if (fixedAmounts && !fixedAmounts.includes(coins)) {
+      console.warn(`Coin ledger: refusing ${coins} coins from ${source}`);
+      return null;
+    }
+
+    if (source === 'run') {
+      const lastCredit = [...entries].reverse().find((e) => e.amount > 0);
+      const timeSince = lastCredit ? Date.now() - lastCredit.timestamp : Infinity;
+      if (coins > COIN_CREDIT_LIMITS.maxRunCoins) {
+        reporter?.('high_score', { amount: coins, source });
+      }
+      const isFast = timeSince < COIN_CREDIT_LIMITS.velocityWindow;
+      if (coins > COIN_CREDIT_LIMITS.velocityCoins && isFast) {
+        reporter?.('velocity_coins', { amount: coins, source, timeSince });
+      }
+    }
+
+    const entry = append(coins, source, referenceId);
+    await save();
+    return { ...entry };
+  };
+
+  const debit = async (
+    amount: number,
+    source: CoinSource,
+    referenceId: string | null = null
+  ): Promise<CoinLedgerEntry | null> => {
+    const coins = Math.ceil(amount);
+    if (coins <= 0 || coins > getBalance()) return null;
+
+    const entry = append(-coins, source, referenceId);
+    await save();
+    return { ...entry };
+  };
+
+  const migrate = async (balances: LegacyBalances): Promise<CoinLedgerEntry[]> => {
+    if (migrated) return [];
+
+    const openings = reconcileLegacyBalances(balances).map(({ amount, referenceId }) =>
+      append(amount, 'migration', referenceId)
+    );
+    migrated = true;
+    await save();
+    return openings.map((entry) => ({ ...entry }));
+  };
+
+  const getTotals = (): { earned: number; spent: number } => ({
+    earned: entries.filter((e) => e.amount > 0).reduce((sum, e) => sum + e.amount, 0),
+    spent: entries.filter((e) => e.amount < 0).reduce((sum, e) => sum - e.amount, 0),
+  });
+
+  const reset = async (): Promise<void> => {
+    entries = [];
+    migrated = false;
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  };
+
+  return {
+    load,
+    getBalance,
+    getEntries: () => entries.map((entry) => ({ ...entry })),
+    getTotals,
+    credit,
+    debit,
+    setCreditReporter: (next) => {
+      reporter = next;
+    },
+    isMigrated: () => migrated,
+    migrate,
+    verify: () => verifyLedger(entries),
+    reset,
+  };
+}
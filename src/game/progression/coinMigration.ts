@@ -0,0 +1,54 @@
+/**
+ * Coin Migration - Move the old coin balances into the coin ledger
+ *
+ * Coins used to be kept in three places: the player progress, the
+ * entitlements (coin packs) and the checksummed secure store. This folds
+ * them into the ledger once and clears the old balances.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EntitlementService } from '../../services/EntitlementService';
+import { SecurityService } from '../../services/SecurityService';
+import { STORAGE_KEYS } from '../../services/DataManager';
+import { getProgressionManager } from './upgrades';
+import { LegacyBalances } from './coinLedger';
+
+/**
+ * Coins saved in the player progress before the ledger
+ */
+async function readProgressCoins(): Promise<number> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.PROGRESS);
+    const parsed = stored ? (JSON.parse(stored) as { coins?: number }) : null;
+    return parsed?.coins ?? 0;
+  } catch (error) {
+    console.warn('Failed to read legacy coins:', error);
+    return 0;
+  }
+}
+
+/**
+ * Reconcile the old balances into the ledger (does nothing once done)
+ *
+ * Call after SecurityService.load() and before the progression manager
+ * is loaded, so the progress still holds its old balance.
+ */
+export async function migrateLegacyCoins(): Promise<void> {
+  const ledger = getProgressionManager().getCoinLedger();
+  await ledger.load();
+  if (ledger.isMigrated()) return;
+
+  if (!EntitlementService.isLoaded()) {
+    await EntitlementService.load();
+  }
+
+  const balances: LegacyBalances = {
+    progression: await readProgressCoins(),
+    entitlements: EntitlementService.getLegacyCoins(),
+    secure: SecurityService.getLegacyCoins(),
+  };
+  await ledger.migrate(balances);
+
+  await EntitlementService.clearLegacyCoins();
+  await SecurityService.clearLegacyCoins();
+}
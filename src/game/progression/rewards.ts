@@ -0,0 +1,211 @@
+/**
+ * Rewards - Pay out rewards from every source
+ *
+ * Daily rewards, lucky spin prizes, season pass rewards and mystery box
+ * drops all come through payReward: coins go into the coin ledger,
+ * consumables into the inventory and cosmetics into the collection.
+ *
+ * Also holds the mystery box drop table. It is published in the
+ * inventory so players see the odds before opening a box.
+ */
+
+import { DailyRewardSystem, RewardType, SpinPrize } from '../../systems/DailyRewardSystem';
+import { SeasonPassSystem, SeasonRewardType } from '../../systems/SeasonPassSystem';
+import { InventorySystem, ItemId, ItemSource } from '../../systems/InventorySystem';
+import { CosmeticsSystem } from '../../systems/CosmeticsSystem';
+import { getProgressionManager } from './upgrades';
+
+/**
+ * A reward as the reward sources describe it
+ */
+export type Reward = {
+  type: RewardType | SeasonRewardType;
+  amount: number;
+  /** Catalogue id of a cosmetic reward */
+  itemId?: string;
+};
+
+export type PaidReward =
+  | { kind: 'coins'; amount: number }
+  | { kind: 'item'; itemId: ItemId; amount: number }
+  | { kind: 'cosmetic'; itemId: string };
+
+/**
+ * Reward types that unlock a cosmetic
+ */
+const COSMETIC_REWARD_TYPES: Reward['type'][] = ['vehicle_skin', 'trail_effect', 'profile_badge'];
+
+/**
+ * Inventory item each consumable reward type becomes
+ */
+const REWARD_ITEMS: Partial<Record<Reward['type'], ItemId>> = {
+  boost: 'super_boost',
+  boost_pack: 'super_boost',
+  fuel_bonus: 'fuel_canister',
+  mystery_box: 'mystery_box',
+  xp_boost: 'xp_boost',
+};
+
+/**
+ * XP boost granted by an XP boost item
+ */
+export const XP_BOOST_EFFECT = {
+  multiplier: 2,
+  durationMs: 60 * 60 * 1000,
+};
+
+/**
+ * Pay a reward into the coin ledger, the inventory or the cosmetics
+ *
+ * The reference id keeps a coin reward from being paid twice. Rewards
+ * that aren't coins, consumables or cosmetics (vehicles, stages) are
+ * left to their own systems and return null.
+ */
+export async function payReward(
+  reward: Reward,
+  source: ItemSource,
+  referenceId: string | null = null
+): Promise<PaidReward | null> {
+  if (reward.amount <= 0) return null;
+
+  if (reward.type === 'coins') {
+    const paid = await getProgressionManager().addCoins(reward.amount, source, referenceId);
+    return paid ? { kind: 'coins', amount: reward.amount } : null;
+  }
+
+  if (COSMETIC_REWARD_TYPES.includes(reward.type)) {
+    if (!reward.itemId) return null;
+    const granted = await CosmeticsSystem.grant(reward.itemId);
+    return granted ? { kind: 'cosmetic', itemId: reward.itemId } : null;
+  }
+
+  const itemId = REWARD_ITEMS[reward.type];
+  if (!itemId) return null;
+
+  // An XP boost reward's amount is its multiplier, not a count
+  const count = reward.type === 'xp_boost' ? 1 : reward.amount;
+  const granted = await InventorySystem.grant(itemId, count, source);
+  return granted > 0 ? { kind: 'item', itemId, amount: granted } : null;
+}
+
+/**
+ * Claim a season pass reward and pay it out
+ */
+export async function claimSeasonReward(
+  level: number,
+  track: 'free' | 'premium'
+): Promise<PaidReward | null> {
+  const reward = await SeasonPassSystem.claimReward(level, track);
+  if (!reward) return null;
+
+  const seasonId = SeasonPassSystem.getState()?.seasonId ?? 'season';
+  return payReward(reward, 'seasonPass', `${seasonId}:${track}:${level}`);
+}
+
+/**
+ * Spin the lucky wheel and pay out the prize (null if no spin is left)
+ *
+ * Each spin is paid under its own number, so a prize is never paid twice.
+ */
+export async function spinLuckyWheel(isPaid: boolean = false): Promise<SpinPrize | null> {
+  const prize = await DailyRewardSystem.spin(isPaid);
+  if (!prize) return null;
+
+  const spinNumber = DailyRewardSystem.getState()?.totalSpins ?? 0;
+  await payReward(prize, 'luckySpin', `spin_${spinNumber}`);
+  return prize;
+}
+
+/**
+ * Pay out the rewards players reached but never claimed before their
+ * season ended
+ *
+ * Uses the same reference ids as claiming, so a reward is never paid twice.
+ * Rewards that could not be paid (vehicles, stages, full item stacks) stay
+ * waiting for a later payout.
+ */
+export async function claimEndedSeasonRewards(): Promise<PaidReward[]> {
+  const paid: PaidReward[] = [];
+
+  for (const { seasonId, reward } of SeasonPassSystem.getEndedSeasonRewards()) {
+    const referenceId = `${seasonId}:${reward.track}:${reward.level}`;
+    const result = await payReward(reward, 'seasonPass', referenceId);
+    if (result) {
+      paid.push(result);
+    }
+
+    // Coins and cosmetics that were already paid come back as null too
+    const wasPaid =
+      result !== null || reward.type === 'coins' || COSMETIC_REWARD_TYPES.includes(reward.type);
+    if (wasPaid) {
+      await SeasonPassSystem.settleEndedSeasonReward(seasonId, reward);
+    }
+  }
+
+  return paid;
+}
+
+// === MYSTERY BOXES ===
+
+export type MysteryBoxDrop = Reward & {
+  id: string;
+  label: string;
+  /** Relative chance of this drop */
+  weight: number;
+};
+
+export const MYSTERY_BOX_DROPS: MysteryBoxDrop[] = [
+  { id: 'coins_500', type: 'coins', amount: 500, label: '500 Coins', weight: 35 },
+  { id: 'boost_3', type: 'boost', amount: 3, label: '3 Super Boosts', weight: 22 },
+  { id: 'fuel_3', type: 'fuel_bonus', amount: 3, label: '3 Fuel Canisters', weight: 20 },
+  { id: 'coins_2000', type: 'coins', amount: 2000, label: '2000 Coins', weight: 12 },
+  { id: 'xp_boost', type: 'xp_boost', amount: 1, label: 'XP Boost', weight: 9 },
+  { id: 'jackpot', type: 'coins', amount: 10000, label: '10K Coins!', weight: 2 },
+];
+
+/**
+ * Chance of each drop (0-1), for the published odds
+ */
+export function getMysteryBoxOdds(): { drop: MysteryBoxDrop; chance: number }[] {
+  const totalWeight = MYSTERY_BOX_DROPS.reduce((sum, drop) => sum + drop.weight, 0);
+  return MYSTERY_BOX_DROPS.map((drop) => ({ drop, chance: drop.weight / totalWeight }));
+}
+
+/**
+ * Pick a drop from a random number in [0, 1)
+ */
+export function rollMysteryBox(random: number): MysteryBoxDrop {
+  const totalWeight = MYSTERY_BOX_DROPS.reduce((sum, drop) => sum + drop.weight, 0);
+  let remaining = random * totalWeight;
+
+  for (const drop of MYSTERY_BOX_DROPS) {
+    remaining -= drop.weight;
+    if (remaining < 0) {
+      return drop;
+    }
+  }
+  return MYSTERY_BOX_DROPS[MYSTERY_BOX_DROPS.length - 1];
+}
+
+/**
+ * Open a mystery box from the inventory (returns null without one)
+ */
+export async function openMysteryBox(
+  random: number = Math.random()
+): Promise<MysteryBoxDrop | null> {
+  if (!(await InventorySystem.consume('mystery_box'))) return null;
+
+  const drop = rollMysteryBox(random);
+  await payReward(drop, 'mysteryBox');
+  return drop;
+}
+
+/**
+ * Use an XP boost from the inventory (returns false without one)
+ */
+export async function activateXpBoost(): Promise<boolean> {
+  if (!(await InventorySystem.consume('xp_boost'))) return false;
+
+  await SeasonPassSystem.activateXPBoost(XP_BOOST_EFFECT.multiplier, XP_BOOST_EFFECT.durationMs);
+  return true;
+}
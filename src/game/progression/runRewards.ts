@@ -0,0 +1,137 @@
+/**
+ * Run Rewards - Bank an ended run's rewards before they are paid
+ *
+ * A run's rewards are written down the moment it ends. The end screen can
+ * still revive the run, which writes them again, and they are paid once
+ * the player moves on. If the app is closed on the end screen, the next
+ * launch pays them instead. The last few paid runs are remembered, so a
+ * run is never paid twice even if its rewards were not cleared.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SeasonPassSystem } from '../../systems/SeasonPassSystem';
+import { QuestBoardSystem } from '../../systems/QuestBoardSystem';
+import { DailyChallenge } from '../systems/dailyChallenge';
+import { recordChallengeAttempt } from '../systems/challengeStore';
+import { getProgressionManager } from './upgrades';
+
+const PENDING_RUN_REWARDS_KEY = '@summit_wheels_pending_run_rewards';
+const PAID_RUNS_KEY = '@summit_wheels_paid_runs';
+const PAID_RUNS_KEPT = 20;
+
+export type RunRewards = {
+  /** Unique per run; keeps the run from being paid twice */
+  runId: string;
+  distance: number;
+  coins: number;
+  trickPoints: number;
+  /** Weekly quest progress made by the run, by quest id */
+  questProgress: Record<string, number>;
+  /** Result on the course played (null for an endless run) */
+  course: { courseId: string; stars: number; completed: boolean; time: number } | null;
+  /** Attempt at the daily challenge played (null outside a challenge) */
+  challenge: { challenge: DailyChallenge; progress: number; completed: boolean } | null;
+};
+
+/**
+ * Write down an ended run's rewards, replacing any written before
+ */
+export async function savePendingRunRewards(rewards: RunRewards): Promise<void> {
+  try {
+    await AsyncStorage.setItem(PENDING_RUN_REWARDS_KEY, JSON.stringify(rewards));
+  } catch (error) {
+    console.warn('Failed to save run rewards:', error);
+  }
+}
+
+/**
+ * Rewards of a run that ended but was never paid (null if none)
+ */
+export async function loadPendingRunRewards(): Promise<RunRewards | null> {
+  try {
+    const stored = await AsyncStorage.getItem(PENDING_RUN_REWARDS_KEY);
+    return stored ? (JSON.parse(stored) as RunRewards) : null;
+  } catch (error) {
+    console.warn('Failed to load run rewards:', error);
+    return null;
+  }
+}
+
+/**
+ * Ids of the runs paid most recently
+ */
+async function loadPaidRunIds(): Promise<string[]> {
+  try {
+    const stored = await AsyncStorage.getItem(PAID_RUNS_KEY);
+    return stored ? (JSON.parse(stored) as string[]) : [];
+  } catch (error) {
+    console.warn('Failed to load paid runs:', error);
+    return [];
+  }
+}
+
+/**
+ * Pay a run's rewards: coins, season XP, quest progress, course and
+ * challenge results
+ *
+ * A run that was already paid is skipped.
+ */
+export async function payRunRewards(rewards: RunRewards): Promise<void> {
+  const paidRunIds = await loadPaidRunIds();
+  if (!paidRunIds.includes(rewards.runId)) {
+    await payRun(rewards);
+
+    try {
+      const kept = [...paidRunIds, rewards.runId].slice(-PAID_RUNS_KEPT);
+      await AsyncStorage.setItem(PAID_RUNS_KEY, JSON.stringify(kept));
+    } catch (error) {
+      console.warn('Failed to save paid runs:', error);
+    }
+  }
+
+  try {
+    await AsyncStorage.removeItem(PENDING_RUN_REWARDS_KEY);
+  } catch (error) {
+    console.warn('Failed to clear run rewards:', error);
+  }
+}
+
+/**
+ * Pay out every reward of a run
+ */
+async function payRun(rewards: RunRewards): Promise<void> {
+  const progressionManager = getProgressionManager();
+  await progressionManager.addCoins(rewards.coins, 'run', rewards.runId);
+
+  await SeasonPassSystem.addXP('distance', Math.floor(rewards.distance / 100));
+  await SeasonPassSystem.addXP('coins_collected', Math.floor(rewards.coins / 10));
+  await SeasonPassSystem.addXP('tricks', rewards.trickPoints);
+
+  await QuestBoardSystem.recordRun(rewards.questProgress);
+
+  if (rewards.course) {
+    const { courseId, ...result } = rewards.course;
+    await progressionManager.recordCourseResult(courseId, result);
+  }
+
+  if (rewards.challenge) {
+    const { challenge, ...attempt } = rewards.challenge;
+    const { firstCompletion } = await recordChallengeAttempt(challenge, attempt);
+    if (firstCompletion) {
+      await progressionManager.addCoins(challenge.rewardCoins, 'challenge', challenge.id);
+    }
+  }
+}
+
+/**
+ * Pay the rewards of a run the app closed on before they were paid
+ *
+ * Returns true if there were any.
+ */
+export async function payPendingRunRewards(): Promise<boolean> {
+  const rewards = await loadPendingRunRewards();
+  if (!rewards) return false;
+
+  await payRunRewards(rewards);
+  return true;
+}
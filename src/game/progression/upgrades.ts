@@ -11,10 +11,12 @@ import {
 } from '../config/vehicleConfig';
 import { VehicleId, VEHICLES, getVehicle } from '../config/vehicles';
 import { StageId, STAGES, getStage } from '../config/stages';
+import { CoinLedger, CoinSource, createCoinLedger } from './coinLedger';
 
 export type UpgradeLevels = Record<UpgradeType, number>;
 
 export type PlayerProgress = {
+  /** Coin balance (mirrors the coin ledger) */
   coins: number;
   upgrades: UpgradeLevels;
   bestDistance: number;
@@ -38,6 +40,15 @@ export type PlayerProgress = {
   highestCombo: number;
   /** Stages played (for achievements) */
   stagesPlayed: StageId[];
+  /** Best result on each course played, by course ID */
+  courseResults: Record<string, CourseResult>;
+};
+
+export type CourseResult = {
+  /** Most stars earned (0-3) */
+  stars: number;
+  /** Fastest finish (s, null until finished) */
+  bestTime: number | null;
 };
 
 export type UpgradeInfo = {
@@ -83,6 +94,8 @@ const DEFAULT_PROGRESS: PlayerProgress = {
   totalTricks: 0,
   highestCombo: 0,
   stagesPlayed: [],
+  // Course tracking
+  courseResults: {},
 };
 
 /**
@@ -148,10 +161,23 @@ export type ProgressionManager = {
   save: (progress: PlayerProgress) => Promise<void>;
   /** Get current progress */
   getProgress: () => PlayerProgress;
-  /** Add coins from a run */
-  addCoins: (amount: number) => Promise<void>;
+  /**
+   * Add coins (returns false if nothing was credited, e.g. a reward
+   * already paid for the same reference)
+   */
+  addCoins: (
+    amount: number,
+    source?: CoinSource,
+    referenceId?: string | null
+  ) => Promise<boolean>;
   /** Spend coins (returns false if not enough) */
-  spendCoins: (amount: number) => Promise<boolean>;
+  spendCoins: (
+    amount: number,
+    source: CoinSource,
+    referenceId?: string | null
+  ) => Promise<boolean>;
+  /** The coin ledger behind the balance */
+  getCoinLedger: () => CoinLedger;
   /** Purchase an upgrade (returns success) */
   purchaseUpgrade: (type: UpgradeType) => Promise<boolean>;
   /** Get upgrade info for display */
@@ -200,6 +226,14 @@ export type ProgressionManager = {
     combo: number;
     stageId: StageId;
   }) => Promise<void>;
+  // === COURSE METHODS ===
+  /** Best result on a course (null if never played) */
+  getCourseResult: (courseId: string) => CourseResult | null;
+  /** Record a course run (returns true if it improved the stars or time) */
+  recordCourseResult: (
+    courseId: string,
+    run: { stars: number; completed: boolean; time: number }
+  ) => Promise<boolean>;
 };
 
 /**
@@ -207,6 +241,7 @@ export type ProgressionManager = {
  */
 export function createProgressionManager(): ProgressionManager {
   let progress: PlayerProgress = { ...DEFAULT_PROGRESS };
+  const ledger = createCoinLedger();
 
   const load = async (): Promise<PlayerProgress> => {
     try {
@@ -218,12 +253,15 @@ export function createProgressionManager(): ProgressionManager {
     } catch (error) {
       console.warn('Failed to load progress:', error);
     }
+    await ledger.load();
+    progress.coins = ledger.getBalance();
     return progress;
   };
 
   const save = async (newProgress: PlayerProgress): Promise<void> => {
     try {
-      progress = newProgress;
+      // The balance only ever changes through the ledger
+      progress = { ...newProgress, coins: ledger.getBalance() };
       await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
     } catch (error) {
       console.warn('Failed to save progress:', error);
@@ -232,21 +270,39 @@ export function createProgressionManager(): ProgressionManager {
 
   const getProgress = (): PlayerProgress => ({ ...progress });
 
-  const addCoins = async (amount: number): Promise<void> => {
-    progress.coins += amount;
-    progress.totalCoins += amount;
+  const addCoins = async (
+    amount: number,
+    source: CoinSource = 'run',
+    referenceId: string | null = null
+  ): Promise<boolean> => {
+    const entry = await ledger.credit(amount, source, referenceId);
+    if (!entry) {
+      return false;
+    }
+    progress.totalCoins += entry.amount;
     await save(progress);
+    return true;
   };
 
-  const spendCoins = async (amount: number): Promise<boolean> => {
-    if (progress.coins < amount) {
+  const spendCoins = async (
+    amount: number,
+    source: CoinSource,
+    referenceId: string | null = null
+  ): Promise<boolean> => {
+    const entry = await ledger.debit(amount, source, referenceId);
+    if (!entry) {
       return false;
     }
-    progress.coins -= amount;
     await save(progress);
     return true;
   };
 
+  /**
+   * Upgrade levels of the selected vehicle (what runs are played with)
+   */
+  const getSelectedUpgrades = (): UpgradeLevels =>
+    progress.vehicleUpgrades[progress.selectedVehicle] ?? progress.upgrades;
+
   const purchaseUpgrade = async (type: UpgradeType): Promise<boolean> => {
     const info = getUpgradeInfo(type);
 
@@ -254,9 +310,12 @@ export function createProgressionManager(): ProgressionManager {
       return false;
     }
 
-    const success = await spendCoins(info.cost);
+    const success = await spendCoins(info.cost, 'upgrade', `${progress.selectedVehicle}:${type}`);
     if (success) {
-      progress.upgrades[type]++;
+      const vehicleId = progress.selectedVehicle;
+      const levels = { ...getSelectedUpgrades(), [type]: info.currentLevel + 1 };
+      progress.vehicleUpgrades = { ...progress.vehicleUpgrades, [vehicleId]: levels };
+      progress.upgrades = { ...levels };
       await save(progress);
     }
 
@@ -264,7 +323,7 @@ export function createProgressionManager(): ProgressionManager {
   };
 
   const getUpgradeInfo = (type: UpgradeType): UpgradeInfo => {
-    const currentLevel = progress.upgrades[type];
+    const currentLevel = getSelectedUpgrades()[type];
     const maxLevel = UPGRADE_MODIFIERS[type].maxLevel;
     const isMaxed = currentLevel >= maxLevel;
     const cost = isMaxed ? 0 : calculateUpgradeCost(type, currentLevel);
@@ -305,6 +364,7 @@ export function createProgressionManager(): ProgressionManager {
 
   const reset = async (): Promise<void> => {
     progress = { ...DEFAULT_PROGRESS };
+    await ledger.reset();
     await AsyncStorage.removeItem(STORAGE_KEY);
   };
 
@@ -321,7 +381,7 @@ export function createProgressionManager(): ProgressionManager {
       return false;
     }
 
-    const success = await spendCoins(vehicle.unlockCost);
+    const success = await spendCoins(vehicle.unlockCost, 'vehicle', vehicleId);
     if (success) {
       progress.unlockedVehicles.push(vehicleId);
       await save(progress);
@@ -391,7 +451,7 @@ export function createProgressionManager(): ProgressionManager {
       return false;
     }
 
-    const success = await spendCoins(stage.unlockCost);
+    const success = await spendCoins(stage.unlockCost, 'stage', stageId);
     if (success) {
       progress.unlockedStages.push(stageId);
       await save(progress);
@@ -466,12 +526,40 @@ export function createProgressionManager(): ProgressionManager {
     await save(progress);
   };
 
+  // === COURSE METHODS ===
+
+  const getCourseResult = (courseId: string): CourseResult | null => {
+    const result = progress.courseResults[courseId];
+    return result ? { ...result } : null;
+  };
+
+  const recordCourseResult = async (
+    courseId: string,
+    run: { stars: number; completed: boolean; time: number }
+  ): Promise<boolean> => {
+    const best = progress.courseResults[courseId] ?? { stars: 0, bestTime: null };
+    const stars = Math.max(best.stars, run.stars);
+    const bestTime =
+      run.completed && (best.bestTime === null || run.time < best.bestTime)
+        ? run.time
+        : best.bestTime;
+    const improved = stars !== best.stars || bestTime !== best.bestTime;
+
+    progress.courseResults = {
+      ...progress.courseResults,
+      [courseId]: { stars, bestTime },
+    };
+    await save(progress);
+    return improved;
+  };
+
   return {
     load,
     save,
     getProgress,
     addCoins,
     spendCoins,
+    getCoinLedger: () => ledger,
     purchaseUpgrade,
     getUpgradeInfo,
     getAllUpgradeInfos,
@@ -495,6 +583,9 @@ export function createProgressionManager(): ProgressionManager {
     getSelectedStage,
     // Stats methods
     updateRunStats,
+    // Course methods
+    getCourseResult,
+    recordCourseResult,
   };
 }
 
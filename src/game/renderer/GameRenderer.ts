@@ -6,6 +6,9 @@
 import Matter from 'matter-js';
 import { Car } from '../physics/car';
 import { TerrainSegment } from '../terrain/terrain';
+import { getSurface, SurfaceType } from '../terrain/surfaces';
+import { BodyTransform } from '../simulation/simulation';
+import { VehiclePalette } from '../config/cosmetics';
 
 export type RenderableBody = {
   id: number;
@@ -19,6 +22,19 @@ export type RenderableBody = {
   vertices?: { x: number; y: number }[];
   label: string;
   color: string;
+  /** Stripe colour across a vehicle hull (from its skin) */
+  decal?: string;
+};
+
+/**
+ * Horizontal slice of a polygon, in the body's unrotated frame
+ * (relative to the body position)
+ */
+export type PolygonBand = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 };
 
 export type RenderState = {
@@ -45,38 +61,78 @@ const DEFAULT_CAMERA_CONFIG: CameraConfig = {
   verticalOffset: 0,
 };
 
+/**
+ * Vehicle parts always drawn from their hull shape
+ */
+const HULL_LABELS = ['carBody', 'trailer'];
+
+/**
+ * Vehicle wheels, drawn in the palette's wheel colour
+ */
+const WHEEL_LABELS = ['frontWheel', 'midWheel', 'rearWheel', 'trailerWheel'];
+
 /**
  * Get color based on body label
  */
 function getBodyColor(label: string): string {
   switch (label) {
     case 'carBody':
+    case 'trailer':
       return '#FF6B35'; // Orange
     case 'frontWheel':
+    case 'midWheel':
     case 'rearWheel':
+    case 'trailerWheel':
       return '#333333'; // Dark gray
     case 'ground':
     case 'flatGround':
       return '#4A7023'; // Green
+    case 'driverHead':
+      return '#F5C7A9'; // Skin
+    case 'driverTorso':
+      return '#1E88E5'; // Blue
     case 'coin':
       return '#FFD700'; // Gold
     case 'fuel':
       return '#FF4444'; // Red
+    case 'magnet':
+      return '#E040FB'; // Magenta
+    case 'shield':
+      return '#29B6F6'; // Light blue
+    case 'nitro':
+      return '#00E5FF'; // Cyan
+    case 'doubleCoins':
+      return '#FF9800'; // Amber
+    case 'slowMotion':
+      return '#7C4DFF'; // Violet
     default:
       return '#888888'; // Gray
   }
 }
 
+/**
+ * Get color for a body, using its surface material for terrain and the
+ * vehicle palette (skin) for the car
+ */
+function getRenderColor(body: Matter.Body, palette?: VehiclePalette): string {
+  const surface: SurfaceType | undefined = body.plugin?.surface;
+  if (surface) return getSurface(surface).color;
+  if (palette && HULL_LABELS.includes(body.label)) return palette.body;
+  if (palette && WHEEL_LABELS.includes(body.label)) return palette.wheels;
+  return getBodyColor(body.label);
+}
+
 /**
  * Convert Matter.js body to renderable format
  */
-function bodyToRenderable(body: Matter.Body): RenderableBody {
+function bodyToRenderable(body: Matter.Body, palette?: VehiclePalette): RenderableBody {
   const bounds = body.bounds;
   const width = bounds.max.x - bounds.min.x;
   const height = bounds.max.y - bounds.min.y;
 
-  // Detect circle by checking if it has circleRadius
-  const isCircle = (body as any).circleRadius !== undefined;
+  // Detect circle by checking if it has a circleRadius (hulls built from
+  // vertices carry a zero one)
+  const isCircle = Boolean((body as any).circleRadius);
 
   if (isCircle) {
     return {
@@ -87,12 +143,12 @@ function bodyToRenderable(body: Matter.Body): RenderableBody {
       radius: (body as any).circleRadius,
       angle: body.angle,
       label: body.label,
-      color: getBodyColor(body.label),
+      color: getRenderColor(body, palette),
     };
   }
 
-  // Check if it's a complex polygon
-  if (body.vertices.length > 4) {
+  // Check if it's a complex polygon (or a vehicle hull)
+  if (body.vertices.length > 4 || HULL_LABELS.includes(body.label)) {
     return {
       id: body.id,
       type: 'polygon',
@@ -101,7 +157,8 @@ function bodyToRenderable(body: Matter.Body): RenderableBody {
       vertices: body.vertices.map((v) => ({ x: v.x, y: v.y })),
       angle: body.angle,
       label: body.label,
-      color: getBodyColor(body.label),
+      color: getRenderColor(body, palette),
+      ...(palette?.decal && HULL_LABELS.includes(body.label) ? { decal: palette.decal } : {}),
     };
   }
 
@@ -115,36 +172,153 @@ function bodyToRenderable(body: Matter.Body): RenderableBody {
     height,
     angle: body.angle,
     label: body.label,
-    color: getBodyColor(body.label),
+    color: getRenderColor(body, palette),
   };
 }
 
+/**
+ * Slice a polygon body into horizontal bands for drawing with plain
+ * rectangles. Bands are in the body's unrotated frame, so the caller
+ * rotates them by the body angle around its position.
+ */
+export function getPolygonBands(body: RenderableBody, bandCount: number = 8): PolygonBand[] {
+  if (!body.vertices || body.vertices.length < 3) return [];
+
+  const cos = Math.cos(-body.angle);
+  const sin = Math.sin(-body.angle);
+  const local = body.vertices.map((v) => {
+    const dx = v.x - body.x;
+    const dy = v.y - body.y;
+    return { x: dx * cos - dy * sin, y: dx * sin + dy * cos };
+  });
+
+  const minY = Math.min(...local.map((v) => v.y));
+  const maxY = Math.max(...local.map((v) => v.y));
+  const bandHeight = (maxY - minY) / bandCount;
+  if (bandHeight <= 0) return [];
+
+  const bands: PolygonBand[] = [];
+  for (let i = 0; i < bandCount; i++) {
+    const y = minY + bandHeight * (i + 0.5);
+    const xs: number[] = [];
+
+    local.forEach((a, index) => {
+      const b = local[(index + 1) % local.length];
+      if ((a.y <= y && b.y >= y) || (b.y <= y && a.y >= y)) {
+        xs.push(a.y === b.y ? a.x : a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x));
+      }
+    });
+    if (xs.length < 2) continue;
+
+    const left = Math.min(...xs);
+    bands.push({
+      x: left,
+      y: minY + bandHeight * i,
+      width: Math.max(...xs) - left,
+      height: bandHeight,
+    });
+  }
+
+  return bands;
+}
+
 /**
  * Calculate camera position to follow the car
  */
 export function calculateCamera(
   car: Car,
   config: Partial<CameraConfig> = {}
+): { x: number; y: number } {
+  return calculateCameraAt(car.getPosition(), config);
+}
+
+/**
+ * Calculate camera position to follow a point (e.g. an interpolated car position)
+ */
+export function calculateCameraAt(
+  target: { x: number; y: number },
+  config: Partial<CameraConfig> = {}
 ): { x: number; y: number } {
   const cfg = { ...DEFAULT_CAMERA_CONFIG, ...config };
-  const carPos = car.getPosition();
 
   return {
-    x: carPos.x - cfg.followOffsetX,
-    y: Math.max(0, carPos.y - cfg.screenHeight / 2 + cfg.verticalOffset),
+    x: target.x - cfg.followOffsetX,
+    y: Math.max(0, target.y - cfg.screenHeight / 2 + cfg.verticalOffset),
   };
 }
 
 /**
- * Create render state from physics world
+ * Create render state from physics world (the palette colours the vehicle)
  */
 export function createRenderState(
   bodies: Matter.Body[],
   cameraX: number,
-  cameraY: number
+  cameraY: number,
+  palette?: VehiclePalette
+): RenderState {
+  return {
+    bodies: bodies.map((body) => bodyToRenderable(body, palette)),
+    cameraX,
+    cameraY,
+  };
+}
+
+/**
+ * Blend a transform between the previous and current simulation tick
+ */
+export function interpolateTransform(
+  previous: BodyTransform,
+  current: BodyTransform,
+  alpha: number
+): BodyTransform {
+  let angleDelta = current.angle - previous.angle;
+  if (angleDelta > Math.PI) angleDelta -= Math.PI * 2;
+  if (angleDelta < -Math.PI) angleDelta += Math.PI * 2;
+
+  return {
+    x: previous.x + (current.x - previous.x) * alpha,
+    y: previous.y + (current.y - previous.y) * alpha,
+    angle: previous.angle + angleDelta * alpha,
+  };
+}
+
+/**
+ * Create render state with bodies interpolated between two simulation ticks.
+ * Bodies without a previous transform (just spawned) render at their current one.
+ * The palette colours the vehicle.
+ */
+export function createInterpolatedRenderState(
+  bodies: Matter.Body[],
+  previousTransforms: Map<number, BodyTransform>,
+  alpha: number,
+  cameraX: number,
+  cameraY: number,
+  palette?: VehiclePalette
 ): RenderState {
   return {
-    bodies: bodies.map(bodyToRenderable),
+    bodies: bodies.map((body) => {
+      const renderable = bodyToRenderable(body, palette);
+      const previous = previousTransforms.get(body.id);
+      if (!previous) return renderable;
+
+      const blended = interpolateTransform(
+        previous,
+        { x: renderable.x, y: renderable.y, angle: renderable.angle },
+        alpha
+      );
+      if (!renderable.vertices) return { ...renderable, ...blended };
+
+      // Move the outline with the blended transform
+      const turn = blended.angle - renderable.angle;
+      const cos = Math.cos(turn);
+      const sin = Math.sin(turn);
+      const vertices = renderable.vertices.map((v) => {
+        const dx = v.x - renderable.x;
+        const dy = v.y - renderable.y;
+        return { x: blended.x + dx * cos - dy * sin, y: blended.y + dx * sin + dy * cos };
+      });
+      return { ...renderable, ...blended, vertices };
+    }),
     cameraX,
     cameraY,
   };
@@ -0,0 +1,182 @@
+/**
+ * Tests for the daily challenge modifier pipeline
+ */
+
+import {
+  createSimulation,
+  DEFAULT_SIMULATION_CONFIG,
+  SimulationConfig,
+  SimulationInput,
+} from '../simulation';
+import {
+  applyModifiersToConfig,
+  createInputMapper,
+  getModifierRenderEffects,
+} from '../modifiers';
+import { createInputRecorder, createReplayer } from '../replay';
+import { buildRunConfig, RunSetup } from '../runConfig';
+
+const BASE_CONFIG: SimulationConfig = { ...DEFAULT_SIMULATION_CONFIG, seed: 7 };
+
+const SETUP: RunSetup = {
+  seed: 3,
+  stageId: 'countryside',
+  vehicleId: 'jeep',
+  upgrades: { engine: 0, tires: 0, suspension: 0, fuelTank: 0 },
+};
+
+describe('modifiers', () => {
+  describe('applyModifiersToConfig', () => {
+    it('should leave the config alone without modifiers', () => {
+      expect(applyModifiersToConfig(BASE_CONFIG, [])).toEqual(BASE_CONFIG);
+    });
+
+    it('should scale gravity', () => {
+      const low = applyModifiersToConfig(BASE_CONFIG, ['low_gravity']);
+      const high = applyModifiersToConfig(BASE_CONFIG, ['high_gravity']);
+
+      expect(low.world.gravity?.y).toBeCloseTo(0.4);
+      expect(high.world.gravity?.y).toBeCloseTo(1.2);
+    });
+
+    it('should scale wheel and ground friction', () => {
+      const config = applyModifiersToConfig(BASE_CONFIG, ['slippery']);
+
+      expect(config.car.wheelFriction).toBeCloseTo(0.36);
+      expect(config.terrain.friction).toBeCloseTo(0.32);
+    });
+
+    it('should scale fuel burn, boost power and vehicle size', () => {
+      const config = applyModifiersToConfig(BASE_CONFIG, [
+        'half_fuel',
+        'super_boost',
+        'tiny_vehicle',
+      ]);
+
+      expect(config.fuel.throttleConsumptionRate).toBeGreaterThan(2);
+      expect(config.boost.powerMultiplier).toBeGreaterThan(2);
+      expect(config.car.bodyWidth).toBeLessThan(80);
+      expect(config.car.wheelRadius).toBeLessThan(20);
+    });
+
+    it('should double coin value', () => {
+      const config = applyModifiersToConfig(BASE_CONFIG, ['double_coins']);
+
+      expect(config.spawn.coinValue).toBe(2);
+    });
+
+    it('should not mutate the input config', () => {
+      const before = JSON.stringify(BASE_CONFIG);
+      applyModifiersToConfig(BASE_CONFIG, ['low_gravity', 'giant_wheels', 'sticky']);
+
+      expect(JSON.stringify(BASE_CONFIG)).toBe(before);
+    });
+  });
+
+  describe('createInputMapper', () => {
+    const input: SimulationInput = { gas: true, brake: false, boost: true, lean: 0 };
+
+    it('should pass input through without modifiers', () => {
+      expect(createInputMapper([])(input)).toEqual(input);
+    });
+
+    it('should disable the brake', () => {
+      const mapInput = createInputMapper(['no_brakes']);
+
+      expect(mapInput({ gas: false, brake: true, boost: false, lean: 0 }).brake).toBe(false);
+    });
+
+    it('should swap gas and brake', () => {
+      const mapInput = createInputMapper(['reverse_controls']);
+
+      expect(mapInput(input)).toEqual({ gas: false, brake: true, boost: true, lean: 0 });
+    });
+
+    it('should mirror lean', () => {
+      const mapInput = createInputMapper(['reverse_controls']);
+
+      expect(mapInput({ ...input, lean: -1 }).lean).toBe(1);
+      expect(mapInput({ ...input, lean: 1 }).lean).toBe(-1);
+    });
+  });
+
+  describe('getModifierRenderEffects', () => {
+    it('should add fog only when foggy', () => {
+      expect(getModifierRenderEffects(['low_gravity']).fogDistance).toBeNull();
+      expect(getModifierRenderEffects(['fog']).fogDistance).toBeGreaterThan(0);
+    });
+  });
+
+  describe('in the simulation', () => {
+    it('should build the world from the modified config', () => {
+      const plain = createSimulation(buildRunConfig(SETUP));
+      const simulation = createSimulation(
+        buildRunConfig({ ...SETUP, modifiers: ['low_gravity', 'giant_wheels'] })
+      );
+
+      expect(simulation.world.engine.gravity.y).toBeCloseTo(
+        plain.world.engine.gravity.y * 0.5
+      );
+      expect(simulation.car.config.wheelRadius).toBeCloseTo(plain.car.config.wheelRadius * 2);
+    });
+
+    it('should award double coins', () => {
+      const simulation = createSimulation(buildRunConfig({ ...SETUP, modifiers: ['double_coins'] }));
+
+      simulation.pickups
+        .getPickups()
+        .filter((p) => p.type === 'coin')
+        .forEach((p) => expect(p.value).toBe(2));
+    });
+
+    it('should not move forward on gas with reversed controls', () => {
+      const normal = createSimulation(buildRunConfig({ ...SETUP, seed: 5 }));
+      const reversed = createSimulation(
+        buildRunConfig({ ...SETUP, seed: 5, modifiers: ['reverse_controls'] })
+      );
+      normal.start();
+      reversed.start();
+
+      const gas: SimulationInput = { gas: true, brake: false, boost: false, lean: 0 };
+      for (let i = 0; i < 180; i++) {
+        normal.step(gas);
+        reversed.step(gas);
+      }
+
+      expect(reversed.getSnapshot().car.x).toBeLessThan(normal.getSnapshot().car.x);
+    });
+
+    it('should replay a modified run exactly', () => {
+      const modifiers = ['slippery', 'reverse_controls'] as const;
+      const setup: RunSetup = { ...SETUP, seed: 11, modifiers: [...modifiers] };
+      const simulation = createSimulation(buildRunConfig(setup));
+      const recorder = createInputRecorder({ ...setup, modifiers: [...modifiers] });
+      simulation.start();
+
+      for (let i = 0; i < 240; i++) {
+        const input: SimulationInput = {
+          gas: i % 60 < 20,
+          brake: i % 60 >= 30,
+          boost: false,
+          lean: 0,
+        };
+        recorder.record(input);
+        simulation.step(input);
+      }
+      const snapshot = simulation.getSnapshot();
+      const log = recorder.finish({
+        distance: snapshot.runState.stats.distance,
+        coins: snapshot.runState.stats.coins,
+        trickPoints: snapshot.totalTrickPoints,
+      });
+
+      const replayer = createReplayer(log);
+      while (!replayer.isAtEnd()) {
+        replayer.step();
+      }
+
+      expect(log.modifiers).toEqual([...modifiers]);
+      expect(replayer.getSimulation().getSnapshot().car).toEqual(snapshot.car);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Tests for input-log replay recording and re-simulation
+ */
+
+import {
+  createInputRecorder,
+  createReplayer,
+  decodeInput,
+  encodeInput,
+  expandInputs,
+  isReplayLogPlayable,
+  ReplayLog,
+  REPLAY_LOG_VERSION,
+  verifyReplay,
+} from '../replay';
+import { createSimulation, SimulationInput } from '../simulation';
+import { loadReplayLogs, saveReplayLog, MAX_STORED_REPLAYS } from '../replayStore';
+import { buildRunConfig, RunSetup } from '../runConfig';
+
+// Mock AsyncStorage
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] || null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+}));
+
+const SEED = 2;
+const TICKS = 240;
+
+const SETUP: RunSetup = {
+  seed: SEED,
+  stageId: 'countryside',
+  vehicleId: 'jeep',
+  upgrades: { engine: 1, tires: 0, suspension: 2, fuelTank: 0 },
+};
+
+function scriptedInput(tick: number): SimulationInput {
+  return {
+    gas: tick % 60 < 45,
+    brake: tick % 60 >= 55,
+    boost: tick === 120,
+    lean: tick % 90 >= 75 ? -1 : 0,
+  };
+}
+
+/**
+ * Play a run live while recording it
+ */
+function recordRun(setup: RunSetup = SETUP): { log: ReplayLog; finalX: number } {
+  const simulation = createSimulation(buildRunConfig(setup));
+  simulation.start();
+  const recorder = createInputRecorder(setup);
+
+  for (let i = 0; i < TICKS && !simulation.isFinished(); i++) {
+    const input = scriptedInput(i);
+    recorder.record(input);
+    simulation.step(input);
+  }
+
+  const snapshot = simulation.getSnapshot();
+  const log = recorder.finish({
+    distance: snapshot.runState.stats.distance,
+    coins: snapshot.runState.stats.coins,
+    trickPoints: snapshot.totalTrickPoints,
+  });
+  return { log, finalX: snapshot.car.x };
+}
+
+describe('Replay', () => {
+  describe('input encoding', () => {
+    it('should round-trip inputs through bitmasks', () => {
+      const input: SimulationInput = { gas: true, brake: false, boost: true, lean: 0 };
+      expect(decodeInput(encodeInput(input))).toEqual(input);
+    });
+
+    it('should round-trip lean in both directions', () => {
+      for (const lean of [-1, 1] as const) {
+        const input: SimulationInput = { gas: false, brake: false, boost: false, lean };
+        expect(decodeInput(encodeInput(input))).toEqual(input);
+      }
+    });
+
+    it('should run-length encode repeated inputs', () => {
+      const recorder = createInputRecorder({
+        seed: 1,
+        stageId: 'countryside',
+        vehicleId: 'jeep',
+        upgrades: { engine: 0, tires: 0, suspension: 0, fuelTank: 0 },
+      });
+      for (let i = 0; i < 10; i++) recorder.record({ gas: true, brake: false, boost: false, lean: 0 });
+      recorder.record({ gas: false, brake: true, boost: false, lean: 0 });
+
+      const log = recorder.finish({ distance: 0, coins: 0, trickPoints: 0 });
+
+      expect(log.inputs).toEqual([[1, 10], [2, 1]]);
+      expect(log.ticks).toBe(11);
+      expect(expandInputs(log.inputs)).toHaveLength(11);
+    });
+
+    it('should record run metadata', () => {
+      const { log } = recordRun();
+
+      expect(log.version).toBe(REPLAY_LOG_VERSION);
+      expect(log.seed).toBe(SEED);
+      expect(log.vehicleId).toBe('jeep');
+      expect(log.upgrades.suspension).toBe(2);
+      expect(log.appVersion).toBeDefined();
+    });
+  });
+
+  describe('re-simulation', () => {
+    it('should reproduce the recorded run exactly', () => {
+      const { log, finalX } = recordRun();
+      const replayer = createReplayer(log);
+
+      while (!replayer.isAtEnd()) {
+        replayer.step();
+      }
+
+      expect(replayer.getSimulation().getSnapshot().car.x).toBe(finalX);
+    });
+
+    it('should reproduce a run played with a loadout', () => {
+      const { log, finalX } = recordRun({ ...SETUP, loadout: ['super_boost', 'fuel_canister'] });
+      const replayer = createReplayer(log);
+
+      while (!replayer.isAtEnd()) {
+        replayer.step();
+      }
+
+      expect(log.loadout).toEqual(['super_boost', 'fuel_canister']);
+      expect(replayer.getSimulation().getSnapshot().car.x).toBe(finalX);
+      expect(finalX).not.toBe(recordRun().finalX);
+    });
+
+    it('should land on the same state when seeking backwards', () => {
+      const { log } = recordRun();
+      const replayer = createReplayer(log);
+
+      replayer.seek(150);
+      const forward = replayer.getSimulation().getSnapshot().car;
+
+      replayer.seek(log.ticks);
+      replayer.seek(150);
+      const rewound = replayer.getSimulation().getSnapshot().car;
+
+      expect(rewound).toEqual(forward);
+      expect(replayer.getTick()).toBe(150);
+    });
+  });
+
+  describe('revives', () => {
+    it('should re-apply revives recorded in the log', () => {
+      // Tiny tank so the run stalls quickly and has to be revived
+      const config = { ...buildRunConfig(SETUP), fuel: { maxFuel: 1 } };
+      const options = { configForLog: () => config };
+      const gas: SimulationInput = { gas: true, brake: false, boost: false, lean: 0 };
+
+      const simulation = createSimulation(config);
+      const recorder = createInputRecorder(SETUP);
+      simulation.start();
+
+      const play = (ticks: number): void => {
+        for (let i = 0; i < ticks && !simulation.isFinished(); i++) {
+          recorder.record(gas);
+          simulation.step(gas);
+        }
+      };
+
+      play(600);
+      expect(simulation.isFinished()).toBe(true);
+      expect(simulation.revive()).toBe(true);
+      recorder.recordRevive();
+      play(60);
+
+      const snapshot = simulation.getSnapshot();
+      const log = recorder.finish({
+        distance: snapshot.runState.stats.distance,
+        coins: snapshot.runState.stats.coins,
+        trickPoints: snapshot.totalTrickPoints,
+      });
+
+      expect(log.revives).toHaveLength(1);
+      expect(verifyReplay(log, options).valid).toBe(true);
+      expect(verifyReplay({ ...log, revives: [] }, options).valid).toBe(false);
+    });
+  });
+
+  describe('verifyReplay', () => {
+    it('should accept an untampered log', () => {
+      const { log } = recordRun();
+      expect(verifyReplay(log).valid).toBe(true);
+    });
+
+    it('should reject a log with an inflated result', () => {
+      const { log } = recordRun();
+      const tampered = { ...log, result: { ...log.result, distance: log.result.distance + 500 } };
+
+      const verification = verifyReplay(tampered);
+
+      expect(verification.valid).toBe(false);
+      expect(verification.reason).toBe('mismatch');
+    });
+
+    it('should reject logs from another format version', () => {
+      const { log } = recordRun();
+      expect(verifyReplay({ ...log, version: 999 }).reason).toBe('version');
+    });
+  });
+
+  describe('replayStore', () => {
+    it('should keep only the best runs', async () => {
+      const { log } = recordRun();
+
+      for (let i = 0; i < MAX_STORED_REPLAYS + 2; i++) {
+        await saveReplayLog({ ...log, id: `r${i}`, result: { ...log.result, distance: i } });
+      }
+
+      const stored = await loadReplayLogs();
+      expect(stored).toHaveLength(MAX_STORED_REPLAYS);
+      expect(stored[0].result.distance).toBe(MAX_STORED_REPLAYS + 1);
+    });
+
+    it('should keep logs from older versions, marked unplayable', async () => {
+      Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+      const { log } = recordRun();
+      await saveReplayLog({ ...log, id: 'old', version: REPLAY_LOG_VERSION - 1 });
+
+      const stored = await loadReplayLogs();
+      const old = stored.find((l) => l.id === 'old');
+      expect(old).toBeDefined();
+      expect(isReplayLogPlayable(old!)).toBe(false);
+      expect(isReplayLogPlayable(log)).toBe(true);
+    });
+  });
+});
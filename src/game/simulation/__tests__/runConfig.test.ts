@@ -0,0 +1,225 @@
+/**
+ * Tests for the run config builder
+ */
+
+import { buildRunConfig, getTopSpeed, RunSetup } from '../runConfig';
+import { createSimulation, SIMULATION_TICK_MS, SimulationInput } from '../simulation';
+import { getStage, getStageWeather } from '../../config/stages';
+import { getVehicle } from '../../config/vehicles';
+import { DEFAULT_FUEL_CONFIG } from '../../systems/fuel';
+import { DEFAULT_SPAWN_CONFIG } from '../../pickups/spawn';
+
+const NO_UPGRADES = { engine: 0, tires: 0, suspension: 0, fuelTank: 0 };
+
+const JEEP_ON_COUNTRYSIDE: RunSetup = {
+  seed: 21,
+  stageId: 'countryside',
+  vehicleId: 'jeep',
+  upgrades: NO_UPGRADES,
+};
+
+const TANK_ON_MOON: RunSetup = {
+  seed: 21,
+  stageId: 'moon',
+  vehicleId: 'tank',
+  upgrades: NO_UPGRADES,
+};
+
+describe('buildRunConfig', () => {
+  describe('vehicle', () => {
+    it('should use the vehicle stats and size', () => {
+      const tank = getVehicle('tank');
+      const config = buildRunConfig(TANK_ON_MOON);
+
+      expect(config.car.enginePower).toBe(tank.stats.enginePower);
+      expect(config.car.brakePower).toBe(tank.stats.brakePower);
+      expect(config.car.airControl).toBe(tank.stats.airControl);
+      expect(config.car.bodyWidth).toBe(tank.visual.bodyWidth);
+      expect(config.car.wheelRadius).toBe(tank.visual.wheelRadius);
+      expect(config.fuel.maxFuel).toBe(tank.stats.fuelCapacity);
+      expect(config.damage.durability).toBe(tank.stats.durability);
+    });
+
+    it('should apply upgrade levels on top of the vehicle', () => {
+      const base = buildRunConfig(JEEP_ON_COUNTRYSIDE);
+      const upgraded = buildRunConfig({
+        ...JEEP_ON_COUNTRYSIDE,
+        upgrades: { engine: 2, tires: 0, suspension: 0, fuelTank: 3 },
+      });
+
+      expect(upgraded.car.enginePower).toBeCloseTo(base.car.enginePower! + 0.016);
+      expect(upgraded.fuel.maxFuel).toBe(base.fuel.maxFuel! + 45);
+    });
+
+    it('should scale fuel burn by the vehicle consumption rate', () => {
+      const config = buildRunConfig(TANK_ON_MOON);
+
+      expect(config.fuel.throttleConsumptionRate).toBeCloseTo(
+        DEFAULT_FUEL_CONFIG.throttleConsumptionRate * getVehicle('tank').stats.fuelConsumptionRate
+      );
+    });
+  });
+
+  describe('stage', () => {
+    it('should scale gravity and air resistance', () => {
+      const config = buildRunConfig(TANK_ON_MOON);
+
+      expect(config.world.gravity?.y).toBeCloseTo(0.8 * 0.4);
+      expect(config.car.airResistance).toBe(getStage('moon').physics.airResistanceMultiplier);
+    });
+
+    it('should use the stage terrain', () => {
+      const moon = getStage('moon');
+      const config = buildRunConfig(TANK_ON_MOON);
+
+      expect(config.terrain.baseHeight).toBe(moon.terrain.baseHeight);
+      expect(config.terrain.friction).toBeCloseTo(0.8 * moon.physics.frictionMultiplier);
+      expect(config.terrain.setPieces).toEqual(moon.terrain.setPieces);
+      expect(config.terrain.surfaces).toEqual(moon.terrain.surfaces);
+      expect(config.weather).toBe(getStageWeather('moon'));
+    });
+
+    it('should scale pickup rates and fuel value', () => {
+      const config = buildRunConfig(TANK_ON_MOON);
+
+      expect(config.spawn.fuelProbability).toBeCloseTo(DEFAULT_SPAWN_CONFIG.fuelProbability * 0.6);
+      expect(config.spawn.fuelValue).toBeCloseTo(DEFAULT_SPAWN_CONFIG.fuelValue * 1.5);
+    });
+
+    it('should keep coin, fuel and power-up chances within one spawn', () => {
+      const config = buildRunConfig({ ...TANK_ON_MOON, stageId: 'volcano' });
+      const { coinProbability, fuelProbability, powerUpProbability } = config.spawn;
+
+      expect(coinProbability! + fuelProbability! + powerUpProbability!).toBeLessThanOrEqual(1);
+    });
+
+    it('should use the stage power-up weights', () => {
+      const config = buildRunConfig(TANK_ON_MOON);
+
+      expect(config.spawn.powerUpWeights).toEqual(getStage('moon').pickups.powerUpWeights);
+    });
+  });
+
+  describe('course', () => {
+    it('should play endless without a course', () => {
+      const config = buildRunConfig(JEEP_ON_COUNTRYSIDE);
+
+      expect(config.seed).toBe(JEEP_ON_COUNTRYSIDE.seed);
+      expect(config.courseLength).toBeNull();
+    });
+
+    it("should use the course's seed and finish line", () => {
+      const course = getStage('countryside').courses[0];
+      const config = buildRunConfig({ ...JEEP_ON_COUNTRYSIDE, courseId: course.id });
+
+      expect(config.seed).toBe(course.seed);
+      expect(config.courseLength).toBe(course.length);
+    });
+
+    it('should ignore a course from another stage', () => {
+      const course = getStage('desert').courses[0];
+      const config = buildRunConfig({ ...JEEP_ON_COUNTRYSIDE, courseId: course.id });
+
+      expect(config.courseLength).toBeNull();
+    });
+  });
+
+  describe('modifiers', () => {
+    it('should apply modifiers once, after the stage', () => {
+      const base = buildRunConfig(TANK_ON_MOON);
+      const config = buildRunConfig({ ...TANK_ON_MOON, modifiers: ['low_gravity'] });
+
+      expect(config.modifiers).toEqual(['low_gravity']);
+      expect(config.world.gravity?.y).toBeCloseTo(base.world.gravity!.y * 0.5);
+    });
+
+    it('should not share state between builds', () => {
+      const a = buildRunConfig({ ...JEEP_ON_COUNTRYSIDE, modifiers: ['giant_wheels'] });
+      const b = buildRunConfig(JEEP_ON_COUNTRYSIDE);
+
+      expect(a.car.wheelRadius).toBeCloseTo(b.car.wheelRadius! * 2);
+    });
+  });
+
+  describe('loadout', () => {
+    it('should start with a full boost meter when a super boost is equipped', () => {
+      const config = buildRunConfig({ ...JEEP_ON_COUNTRYSIDE, loadout: ['super_boost'] });
+
+      expect(config.boost.initialAmount).toBe(100);
+      expect(createSimulation(config).getSnapshot().boost.amount).toBe(100);
+    });
+
+    it('should give a bigger tank when a fuel canister is equipped', () => {
+      const base = buildRunConfig(JEEP_ON_COUNTRYSIDE);
+      const config = buildRunConfig({ ...JEEP_ON_COUNTRYSIDE, loadout: ['fuel_canister'] });
+
+      expect(config.fuel.maxFuel).toBeCloseTo(base.fuel.maxFuel! * 1.25);
+      expect(config.boost.initialAmount).toBeUndefined();
+    });
+
+    it('should leave the config alone without a loadout', () => {
+      expect(buildRunConfig({ ...JEEP_ON_COUNTRYSIDE, loadout: [] })).toEqual(
+        buildRunConfig(JEEP_ON_COUNTRYSIDE)
+      );
+    });
+  });
+
+  describe('Tank on Moon vs Jeep on Countryside', () => {
+    it('should resolve different configs', () => {
+      const jeep = buildRunConfig(JEEP_ON_COUNTRYSIDE);
+      const tank = buildRunConfig(TANK_ON_MOON);
+
+      expect(tank.world.gravity!.y).toBeLessThan(jeep.world.gravity!.y);
+      expect(tank.car.bodyWidth).toBeGreaterThan(jeep.car.bodyWidth!);
+      expect(tank.fuel.maxFuel).toBeGreaterThan(jeep.fuel.maxFuel!);
+      expect(tank.fuel.throttleConsumptionRate).toBeGreaterThan(jeep.fuel.throttleConsumptionRate!);
+      expect(tank.terrain.surfaces).not.toEqual(jeep.terrain.surfaces);
+    });
+
+    it('should play differently from the same seed and inputs', () => {
+      const jeep = createSimulation(buildRunConfig(JEEP_ON_COUNTRYSIDE));
+      const tank = createSimulation(buildRunConfig(TANK_ON_MOON));
+      jeep.start();
+      tank.start();
+
+      const gas: SimulationInput = { gas: true, brake: false, boost: false, lean: 0 };
+      for (let i = 0; i < 60; i++) {
+        jeep.step(gas);
+        tank.step(gas);
+      }
+
+      expect(tank.world.engine.gravity.y).toBeLessThan(jeep.world.engine.gravity.y);
+      expect(tank.car.body.mass).toBeGreaterThan(jeep.car.body.mass);
+      expect(tank.getSnapshot().car).not.toEqual(jeep.getSnapshot().car);
+      expect(tank.getSnapshot().fuel.max).toBeGreaterThan(jeep.getSnapshot().fuel.max);
+    });
+  });
+
+  describe('getTopSpeed', () => {
+    it('should never be outrun flat out, fully upgraded', () => {
+      const simulation = createSimulation(
+        buildRunConfig({
+          ...JEEP_ON_COUNTRYSIDE,
+          vehicleId: 'dune_buggy',
+          upgrades: { engine: 10, tires: 10, suspension: 10, fuelTank: 10 },
+        })
+      );
+      simulation.start();
+
+      const gas: SimulationInput = { gas: true, brake: false, boost: false, lean: 0 };
+      let fastest = 0;
+      for (let i = 0; i < 300; i++) {
+        simulation.step(gas);
+        const { velocityX, velocityY } = simulation.getSnapshot().car;
+        fastest = Math.max(fastest, Math.hypot(velocityX, velocityY) / SIMULATION_TICK_MS);
+      }
+
+      expect(fastest).toBeGreaterThan(0);
+      expect(fastest).toBeLessThan(getTopSpeed('countryside', 'dune_buggy'));
+    });
+
+    it('should be faster with less air resistance', () => {
+      expect(getTopSpeed('moon', 'jeep')).toBeGreaterThan(getTopSpeed('countryside', 'jeep'));
+    });
+  });
+});
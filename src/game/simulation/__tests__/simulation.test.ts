@@ -0,0 +1,392 @@
+/**
+ * Tests for the deterministic Simulation core and fixed-step loop
+ */
+
+import Matter from 'matter-js';
+import {
+  createSimulation,
+  NEUTRAL_INPUT,
+  SimulationEvent,
+  SimulationInput,
+  SIMULATION_TICK_MS,
+} from '../simulation';
+import { createFixedStepLoop } from '../fixedStep';
+
+/**
+ * Scripted input: gas with periodic brake taps and one boost request
+ */
+function scriptedInput(tick: number): SimulationInput {
+  return {
+    gas: tick % 90 < 70,
+    brake: tick % 90 >= 80,
+    boost: tick === 200,
+    lean: 0,
+  };
+}
+
+function runTicks(seed: number, ticks: number) {
+  const simulation = createSimulation({ seed });
+  simulation.start();
+  const eventTypes: string[] = [];
+  for (let i = 0; i < ticks; i++) {
+    simulation.step(scriptedInput(i)).forEach((e) => eventTypes.push(e.type));
+  }
+  return { simulation, eventTypes };
+}
+
+describe('Simulation', () => {
+  describe('determinism', () => {
+    it('should produce identical runs from the same seed and inputs', () => {
+      const a = runTicks(1234, 300);
+      const b = runTicks(1234, 300);
+
+      const snapA = a.simulation.getSnapshot();
+      const snapB = b.simulation.getSnapshot();
+
+      expect(snapA.car).toEqual(snapB.car);
+      expect(snapA.runState.stats).toEqual(snapB.runState.stats);
+      expect(snapA.fuel).toEqual(snapB.fuel);
+      expect(a.eventTypes).toEqual(b.eventTypes);
+    });
+
+    it('should produce different terrain for different seeds', () => {
+      const a = createSimulation({ seed: 1 });
+      const b = createSimulation({ seed: 2 });
+
+      const heightsA = a.getSegments().map((s) => s.vertices[1].y);
+      const heightsB = b.getSegments().map((s) => s.vertices[1].y);
+
+      expect(heightsA).not.toEqual(heightsB);
+    });
+  });
+
+  describe('ticking', () => {
+    it('should not advance before the run starts', () => {
+      const simulation = createSimulation({ seed: 42 });
+
+      expect(simulation.step(NEUTRAL_INPUT)).toEqual([]);
+      expect(simulation.getTick()).toBe(0);
+    });
+
+    it('should advance time in fixed ticks', () => {
+      const simulation = createSimulation({ seed: 42 });
+      simulation.start();
+
+      for (let i = 0; i < 60; i++) {
+        simulation.step(NEUTRAL_INPUT);
+      }
+
+      expect(simulation.getTick()).toBe(60);
+      expect(simulation.getTime()).toBeCloseTo(60 * SIMULATION_TICK_MS);
+      expect(simulation.getSnapshot().runState.stats.timeElapsed).toBeCloseTo(1, 5);
+    });
+
+    it('should move the car forward with gas', () => {
+      const simulation = createSimulation({ seed: 42 });
+      simulation.start();
+      const startX = simulation.getSnapshot().car.x;
+
+      for (let i = 0; i < 60; i++) {
+        simulation.step({ gas: true, brake: false, boost: false, lean: 0 });
+      }
+
+      expect(simulation.getSnapshot().car.x).toBeGreaterThan(startX);
+    });
+
+    it('should burn more fuel with gas held than idling', () => {
+      const idle = createSimulation({ seed: 42 });
+      const throttle = createSimulation({ seed: 42 });
+      idle.start();
+      throttle.start();
+
+      for (let i = 0; i < 60; i++) {
+        idle.step(NEUTRAL_INPUT);
+        throttle.step({ gas: true, brake: false, boost: false, lean: 0 });
+      }
+
+      expect(throttle.getSnapshot().fuel.current).toBeLessThan(
+        idle.getSnapshot().fuel.current
+      );
+    });
+
+    it('should record transforms from before the last tick', () => {
+      const simulation = createSimulation({ seed: 42 });
+      simulation.start();
+      simulation.step({ gas: true, brake: false, boost: false, lean: 0 });
+
+      const bodyId = simulation.car.body.id;
+      const before = simulation.getPreviousTransforms().get(bodyId);
+      simulation.step({ gas: true, brake: false, boost: false, lean: 0 });
+      const previous = simulation.getPreviousTransforms().get(bodyId);
+
+      expect(before).toBeDefined();
+      expect(previous).toBeDefined();
+      expect(previous).not.toEqual(before);
+    });
+
+    it('should stop stepping once crashed', () => {
+      const simulation = createSimulation({ seed: 42 });
+      simulation.start();
+
+      // Hold the car upside down past the flip timeout
+      const events = [];
+      for (let i = 0; i < 120 && !simulation.isFinished(); i++) {
+        Matter.Body.setAngle(simulation.car.body, Math.PI);
+        events.push(...simulation.step(NEUTRAL_INPUT));
+      }
+
+      expect(events.map((e) => e.type)).toContain('crash');
+      expect(simulation.isFinished()).toBe(true);
+
+      const tick = simulation.getTick();
+      expect(simulation.step(NEUTRAL_INPUT)).toEqual([]);
+      expect(simulation.getTick()).toBe(tick);
+    });
+  });
+});
+
+describe('Checkpoints and revive', () => {
+  const GAS: SimulationInput = { ...NEUTRAL_INPUT, gas: true };
+
+  /**
+   * Hold the car upside down until the run ends
+   */
+  function crash(simulation: ReturnType<typeof createSimulation>): void {
+    for (let i = 0; i < 120 && !simulation.isFinished(); i++) {
+      Matter.Body.setAngle(simulation.car.body, Math.PI);
+      simulation.step(NEUTRAL_INPUT);
+    }
+  }
+
+  it('should record a checkpoint at the start line', () => {
+    const simulation = createSimulation({ seed: 42 });
+    simulation.start();
+
+    const { checkpoints } = simulation.getSnapshot();
+    expect(checkpoints.recorded).toBe(1);
+    expect(checkpoints.last?.distance).toBe(0);
+  });
+
+  it('should record checkpoints on flat ground as the car drives', () => {
+    const simulation = createSimulation({ seed: 42, checkpoint: { interval: 2 } });
+    simulation.start();
+
+    const events = [];
+    for (let i = 0; i < 120; i++) {
+      events.push(...simulation.step(GAS));
+    }
+
+    const recorded = events.filter((e) => e.type === 'checkpoint');
+    expect(recorded.length).toBeGreaterThan(0);
+    expect(simulation.getSnapshot().checkpoints.last?.distance).toBeGreaterThanOrEqual(2);
+  });
+
+  it('should respawn at the last checkpoint with its fuel and stats', () => {
+    const simulation = createSimulation({ seed: 42, checkpoint: { interval: 2 } });
+    simulation.start();
+    for (let i = 0; i < 120; i++) simulation.step(GAS);
+    const checkpoint = simulation.getSnapshot().checkpoints.last;
+
+    crash(simulation);
+    expect(simulation.isFinished()).toBe(true);
+    expect(simulation.revive()).toBe(true);
+
+    const snapshot = simulation.getSnapshot();
+    expect(simulation.isFinished()).toBe(false);
+    expect(snapshot.runState.status).toBe('running');
+    expect(snapshot.runState.stats.endReason).toBeUndefined();
+    expect(snapshot.runState.stats.timeElapsed).toBe(checkpoint?.stats.timeElapsed);
+    expect(snapshot.fuel.current).toBe(checkpoint?.fuel);
+    expect(snapshot.car.x).toBeCloseTo(checkpoint?.x ?? 0);
+    expect(snapshot.car.angle).toBe(0);
+
+    // The run carries on from there
+    const x = snapshot.car.x;
+    for (let i = 0; i < 60; i++) simulation.step(GAS);
+    expect(simulation.getSnapshot().car.x).toBeGreaterThan(x);
+  });
+
+  it('should limit revives per run', () => {
+    const simulation = createSimulation({ seed: 42, checkpoint: { maxRevives: 1 } });
+    simulation.start();
+
+    expect(simulation.revive()).toBe(false); // Still running
+    crash(simulation);
+    expect(simulation.revive()).toBe(true);
+    expect(simulation.getSnapshot().checkpoints.revivesLeft).toBe(0);
+
+    crash(simulation);
+    expect(simulation.revive()).toBe(false);
+    expect(simulation.isFinished()).toBe(true);
+  });
+
+  it('should end the run once an out-of-fuel car stalls', () => {
+    const simulation = createSimulation({ seed: 42, fuel: { maxFuel: 0.5 } });
+    simulation.start();
+
+    const events = [];
+    for (let i = 0; i < 300 && !simulation.isFinished(); i++) {
+      events.push(...simulation.step(NEUTRAL_INPUT));
+    }
+
+    const { runState } = simulation.getSnapshot();
+    expect(events.map((e) => e.type)).toContain('stalled');
+    expect(runState.status).toBe('stalled');
+    expect(runState.stats.endReason).toBe('outOfFuel');
+
+    // Reviving refuels to the checkpoint
+    expect(simulation.revive()).toBe(true);
+    expect(simulation.getSnapshot().fuel.current).toBe(0.5);
+  });
+});
+
+describe('Courses', () => {
+  const GAS: SimulationInput = { ...NEUTRAL_INPUT, gas: true };
+
+  it('should have no finish line on an endless run', () => {
+    const simulation = createSimulation({ seed: 42 });
+
+    expect(simulation.getFinishX()).toBeNull();
+  });
+
+  it('should complete the run at the finish line', () => {
+    const simulation = createSimulation({ seed: 42, courseLength: 2 });
+    simulation.start();
+    expect(simulation.getFinishX()).toBe(simulation.car.getPosition().x + 100);
+
+    const events = [];
+    for (let i = 0; i < 300 && !simulation.isFinished(); i++) {
+      events.push(...simulation.step(GAS));
+    }
+
+    const { runState } = simulation.getSnapshot();
+    expect(events.map((e) => e.type)).toContain('finish');
+    expect(runState.status).toBe('completed');
+    expect(runState.stats.endReason).toBe('finish');
+    expect(runState.stats.distance).toBeGreaterThanOrEqual(2);
+
+    // A finished course can't be revived or driven on
+    expect(simulation.revive()).toBe(false);
+    expect(simulation.step(GAS)).toEqual([]);
+  });
+});
+
+describe('Power-ups', () => {
+  const GAS: SimulationInput = { ...NEUTRAL_INPUT, gas: true };
+  const NO_POWER_UPS = { magnet: 0, shield: 0, nitro: 0, doubleCoins: 0, slowMotion: 0 };
+
+  /**
+   * A track where every pickup is the given power-up
+   */
+  function createPowerUpRun(weights: Partial<typeof NO_POWER_UPS>) {
+    const simulation = createSimulation({
+      seed: 42,
+      spawn: {
+        fuelProbability: 0,
+        powerUpProbability: 1,
+        powerUpWeights: { ...NO_POWER_UPS, ...weights },
+      },
+    });
+    simulation.start();
+    return simulation;
+  }
+
+  function driveToPickup(simulation: ReturnType<typeof createSimulation>): void {
+    for (let i = 0; i < 600; i++) {
+      if (simulation.step(GAS).some((e) => e.type === 'pickup')) return;
+    }
+    throw new Error('No pickup reached');
+  }
+
+  it('should absorb one crash with a shield', () => {
+    const simulation = createPowerUpRun({ shield: 1 });
+    driveToPickup(simulation);
+    expect(simulation.getSnapshot().powerUps.hasShield).toBe(true);
+
+    const events: SimulationEvent[] = [];
+    for (let i = 0; i < 120 && !events.some((e) => e.type === 'shield'); i++) {
+      Matter.Body.setAngle(simulation.car.body, Math.PI);
+      events.push(...simulation.step(NEUTRAL_INPUT));
+    }
+
+    expect(events.map((e) => e.type)).toContain('shield');
+    expect(simulation.isFinished()).toBe(false);
+    expect(simulation.getSnapshot().powerUps.hasShield).toBe(false);
+  });
+
+  it('should top up the boost meter with nitro', () => {
+    const simulation = createPowerUpRun({ nitro: 1 });
+    driveToPickup(simulation);
+
+    expect(simulation.getSnapshot().boost.amount).toBeGreaterThanOrEqual(50);
+  });
+
+  it('should only pull coins in while the magnet runs', () => {
+    const simulation = createSimulation({
+      seed: 42,
+      spawn: { fuelProbability: 0, powerUpProbability: 0, coinProbability: 1 },
+    });
+    simulation.start();
+
+    const coin = simulation.pickups.getPickups()[0];
+    const { x, y } = coin.body.position;
+    Matter.Body.setPosition(simulation.car.body, { x: x - 100, y });
+    simulation.step(NEUTRAL_INPUT);
+
+    expect(coin.body.position.x).toBe(x);
+  });
+});
+
+describe('Fuel telemetry', () => {
+  it('should record how the run spent its fuel', () => {
+    const simulation = createSimulation({ seed: 42 });
+    simulation.start();
+
+    for (let i = 0; i < 120; i++) {
+      simulation.step({ ...NEUTRAL_INPUT, gas: i < 60 });
+    }
+
+    const report = simulation.getFuelTelemetry();
+    const { fuel } = simulation.getSnapshot();
+    expect(report.throttleDutyCycle).toBeCloseTo(0.5);
+    expect(report.fuelUsed - report.fuelCollected).toBeCloseTo(fuel.max - fuel.current);
+    expect(report.samples.length).toBeGreaterThan(1);
+    expect(report.samples[report.samples.length - 1].fuel).toBeCloseTo(fuel.percentage);
+  });
+});
+
+describe('FixedStepLoop', () => {
+  it('should run whole ticks and carry the remainder', () => {
+    const loop = createFixedStepLoop({ stepMs: 10 });
+    const ticks: number[] = [];
+
+    const alpha = loop.advance(25, (tick) => ticks.push(tick));
+
+    expect(ticks).toEqual([0, 1]);
+    expect(alpha).toBeCloseTo(0.5);
+
+    loop.advance(5, (tick) => ticks.push(tick));
+    expect(ticks).toEqual([0, 1, 2]);
+  });
+
+  it('should cap ticks per frame and drop the backlog', () => {
+    const loop = createFixedStepLoop({ stepMs: 10, maxStepsPerFrame: 3 });
+    let steps = 0;
+
+    const alpha = loop.advance(1000, () => steps++);
+
+    expect(steps).toBe(3);
+    expect(alpha).toBeLessThan(1);
+  });
+
+  it('should discard accumulated time on reset', () => {
+    const loop = createFixedStepLoop({ stepMs: 10 });
+    loop.advance(9, () => undefined);
+    loop.reset();
+
+    let steps = 0;
+    loop.advance(5, () => steps++);
+
+    expect(steps).toBe(0);
+  });
+});
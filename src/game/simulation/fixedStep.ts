@@ -0,0 +1,77 @@
+/**
+ * Fixed-Step Loop - Decouples simulation ticks from display frames
+ *
+ * The display loop hands in wall-clock frame deltas; the loop converts
+ * them into a whole number of constant-length ticks and reports how far
+ * the display sits between the last two ticks (for interpolation).
+ */
+
+export type FixedStepConfig = {
+  /** Length of one simulation tick (ms) */
+  stepMs: number;
+  /** Max ticks run per frame before dropping time (avoids spiral of death) */
+  maxStepsPerFrame: number;
+};
+
+export type FixedStepLoop = {
+  /**
+   * Advance by a frame delta, calling `step` once per whole tick.
+   * Returns the interpolation alpha (0-1) between the previous and current tick.
+   */
+  advance: (frameDeltaMs: number, step: (tick: number) => void) => number;
+  /** Drop any accumulated time (e.g. after resuming from pause) */
+  reset: () => void;
+  /** Number of ticks run so far */
+  getTick: () => number;
+  /** Get config */
+  getConfig: () => FixedStepConfig;
+};
+
+export const DEFAULT_FIXED_STEP_CONFIG: FixedStepConfig = {
+  stepMs: 1000 / 60,
+  maxStepsPerFrame: 5,
+};
+
+/**
+ * Creates a fixed-step accumulator loop
+ */
+export function createFixedStepLoop(
+  config: Partial<FixedStepConfig> = {}
+): FixedStepLoop {
+  const cfg: FixedStepConfig = { ...DEFAULT_FIXED_STEP_CONFIG, ...config };
+  let accumulator = 0;
+  let tick = 0;
+
+  const advance = (
+    frameDeltaMs: number,
+    step: (tick: number) => void
+  ): number => {
+    accumulator += Math.max(0, frameDeltaMs);
+
+    let steps = 0;
+    while (accumulator >= cfg.stepMs && steps < cfg.maxStepsPerFrame) {
+      step(tick);
+      tick++;
+      steps++;
+      accumulator -= cfg.stepMs;
+    }
+
+    // Too far behind: drop the backlog rather than stalling the frame
+    if (steps >= cfg.maxStepsPerFrame && accumulator >= cfg.stepMs) {
+      accumulator = accumulator % cfg.stepMs;
+    }
+
+    return accumulator / cfg.stepMs;
+  };
+
+  const reset = (): void => {
+    accumulator = 0;
+  };
+
+  return {
+    advance,
+    reset,
+    getTick: () => tick,
+    getConfig: () => ({ ...cfg }),
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Loadout - Consumables equipped before a run
+ *
+ * A super boost starts the run with a full boost meter. A fuel canister
+ * is a spare can strapped to the car: a bigger tank for the whole run.
+ * Items are taken out of the inventory when the run starts; the run
+ * config only records which ones were equipped, so replays match.
+ */
+
+import { DEFAULT_BOOST_CONFIG } from '../systems/boost';
+import { DEFAULT_FUEL_CONFIG } from '../systems/fuel';
+import type { SimulationConfig } from './simulation';
+
+export type LoadoutItem = 'super_boost' | 'fuel_canister';
+
+export const LOADOUT_ITEMS: LoadoutItem[] = ['super_boost', 'fuel_canister'];
+
+export const LOADOUT_EFFECTS = {
+  /** Boost the run starts with when a super boost is equipped */
+  startingBoost: 100,
+  /** Extra tank capacity from a fuel canister (share of the tank) */
+  fuelCapacityBonus: 0.25,
+};
+
+/**
+ * Apply the equipped items to a run's config
+ */
+export function applyLoadoutToConfig(
+  config: SimulationConfig,
+  loadout: LoadoutItem[]
+): SimulationConfig {
+  let result = config;
+
+  if (loadout.includes('super_boost')) {
+    result = {
+      ...result,
+      boost: {
+        ...result.boost,
+        initialAmount: Math.min(
+          result.boost.maxAmount ?? DEFAULT_BOOST_CONFIG.maxAmount,
+          LOADOUT_EFFECTS.startingBoost
+        ),
+      },
+    };
+  }
+
+  if (loadout.includes('fuel_canister')) {
+    const maxFuel = result.fuel.maxFuel ?? DEFAULT_FUEL_CONFIG.maxFuel;
+    result = {
+      ...result,
+      fuel: {
+        ...result.fuel,
+        maxFuel: maxFuel * (1 + LOADOUT_EFFECTS.fuelCapacityBonus),
+      },
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,201 @@
+/**
+ * Modifiers - Daily challenge modifier pipeline
+ *
+ * Each challenge modifier is a stage that can adjust the simulation
+ * config before the world is built (gravity, car, terrain, fuel, boost,
+ * pickups), remap the player's input every tick, and ask the renderer
+ * for visual effects. Active modifiers are applied in order.
+ *
+ * Physics amounts come from MODIFIER_EFFECTS so the challenge screen
+ * and the game always agree.
+ */
+
+import { DEFAULT_CAR_CONFIG } from '../physics/car';
+import { DEFAULT_TERRAIN_CONFIG } from '../terrain/terrain';
+import { DEFAULT_SPAWN_CONFIG } from '../pickups/spawn';
+import { DEFAULT_FUEL_CONFIG } from '../systems/fuel';
+import { DEFAULT_BOOST_CONFIG } from '../systems/boost';
+import { ChallengeModifier, MODIFIER_EFFECTS } from '../systems/dailyChallenge';
+import type { SimulationConfig, SimulationInput } from './simulation';
+
+export type ModifierRenderEffects = {
+  /** Visible distance ahead of the car before fog (px), null = clear */
+  fogDistance: number | null;
+};
+
+export type ModifierStage = {
+  /** Adjust the simulation config before the world is built */
+  configure?: (config: SimulationConfig) => SimulationConfig;
+  /** Remap input each tick */
+  mapInput?: (input: SimulationInput) => SimulationInput;
+  /** Visual effects */
+  render?: Partial<ModifierRenderEffects>;
+};
+
+export const DEFAULT_RENDER_EFFECTS: ModifierRenderEffects = {
+  fogDistance: null,
+};
+
+/**
+ * Visible distance ahead of the car on foggy days (px)
+ */
+const FOG_DISTANCE = 350;
+
+const scaleGravity = (config: SimulationConfig, scale: number): SimulationConfig => ({
+  ...config,
+  world: {
+    ...config.world,
+    gravity: {
+      x: config.world.gravity?.x ?? 0,
+      y: (config.world.gravity?.y ?? 1) * scale,
+    },
+  },
+});
+
+const scaleFriction = (config: SimulationConfig, scale: number): SimulationConfig => ({
+  ...config,
+  car: {
+    ...config.car,
+    wheelFriction: (config.car.wheelFriction ?? DEFAULT_CAR_CONFIG.wheelFriction) * scale,
+  },
+  terrain: {
+    ...config.terrain,
+    friction: (config.terrain.friction ?? DEFAULT_TERRAIN_CONFIG.friction) * scale,
+  },
+});
+
+const scaleFuelRate = (config: SimulationConfig, scale: number): SimulationConfig => {
+  const fuel = { ...DEFAULT_FUEL_CONFIG, ...config.fuel };
+  return {
+    ...config,
+    fuel: {
+      ...config.fuel,
+      baseConsumptionRate: fuel.baseConsumptionRate * scale,
+      throttleConsumptionRate: fuel.throttleConsumptionRate * scale,
+      brakeConsumptionRate: fuel.brakeConsumptionRate * scale,
+    },
+  };
+};
+
+const scaleBoost = (config: SimulationConfig, scale: number): SimulationConfig => ({
+  ...config,
+  boost: {
+    ...config.boost,
+    powerMultiplier:
+      (config.boost.powerMultiplier ?? DEFAULT_BOOST_CONFIG.powerMultiplier) * scale,
+  },
+});
+
+const scaleWheels = (config: SimulationConfig, scale: number): SimulationConfig => ({
+  ...config,
+  car: {
+    ...config.car,
+    wheelRadius: (config.car.wheelRadius ?? DEFAULT_CAR_CONFIG.wheelRadius) * scale,
+  },
+});
+
+const scaleVehicle = (config: SimulationConfig, scale: number): SimulationConfig => {
+  const car = { ...DEFAULT_CAR_CONFIG, ...config.car };
+  return {
+    ...config,
+    car: {
+      ...config.car,
+      bodyWidth: car.bodyWidth * scale,
+      bodyHeight: car.bodyHeight * scale,
+      wheelRadius: car.wheelRadius * scale,
+    },
+  };
+};
+
+const physics = (modifier: ChallengeModifier) => MODIFIER_EFFECTS[modifier].physics;
+
+/**
+ * Pipeline stage for each modifier
+ */
+export const MODIFIER_STAGES: Record<ChallengeModifier, ModifierStage> = {
+  low_gravity: {
+    configure: (config) => scaleGravity(config, physics('low_gravity').gravity ?? 1),
+  },
+  high_gravity: {
+    configure: (config) => scaleGravity(config, physics('high_gravity').gravity ?? 1),
+  },
+  slippery: {
+    configure: (config) => scaleFriction(config, physics('slippery').friction ?? 1),
+  },
+  sticky: {
+    configure: (config) => scaleFriction(config, physics('sticky').friction ?? 1),
+  },
+  double_coins: {
+    configure: (config) => ({
+      ...config,
+      spawn: {
+        ...config.spawn,
+        coinValue: (config.spawn.coinValue ?? DEFAULT_SPAWN_CONFIG.coinValue) * 2,
+      },
+    }),
+  },
+  half_fuel: {
+    configure: (config) => scaleFuelRate(config, physics('half_fuel').fuelRate ?? 1),
+  },
+  no_brakes: {
+    mapInput: (input) => ({ ...input, brake: false }),
+  },
+  super_boost: {
+    configure: (config) => scaleBoost(config, physics('super_boost').boostPower ?? 1),
+  },
+  giant_wheels: {
+    configure: (config) => scaleWheels(config, physics('giant_wheels').wheelScale ?? 1),
+  },
+  tiny_vehicle: {
+    configure: (config) => scaleVehicle(config, physics('tiny_vehicle').vehicleScale ?? 1),
+  },
+  reverse_controls: {
+    mapInput: (input) => ({
+      ...input,
+      gas: input.brake,
+      brake: input.gas,
+      lean: input.lean === 0 ? 0 : input.lean === 1 ? -1 : 1,
+    }),
+  },
+  fog: {
+    render: { fogDistance: FOG_DISTANCE },
+  },
+};
+
+/**
+ * Apply every modifier's config stage
+ */
+export function applyModifiersToConfig(
+  config: SimulationConfig,
+  modifiers: ChallengeModifier[]
+): SimulationConfig {
+  return modifiers.reduce(
+    (current, modifier) => MODIFIER_STAGES[modifier].configure?.(current) ?? current,
+    config
+  );
+}
+
+/**
+ * Build the per-tick input mapping for a set of modifiers
+ */
+export function createInputMapper(
+  modifiers: ChallengeModifier[]
+): (input: SimulationInput) => SimulationInput {
+  const mappers = modifiers
+    .map((modifier) => MODIFIER_STAGES[modifier].mapInput)
+    .filter((mapInput): mapInput is NonNullable<typeof mapInput> => !!mapInput);
+
+  return (input) => mappers.reduce((current, mapInput) => mapInput(current), input);
+}
+
+/**
+ * Combined render effects of a set of modifiers
+ */
+export function getModifierRenderEffects(
+  modifiers: ChallengeModifier[]
+): ModifierRenderEffects {
+  return modifiers.reduce(
+    (effects, modifier) => ({ ...effects, ...MODIFIER_STAGES[modifier].render }),
+    DEFAULT_RENDER_EFFECTS
+  );
+}
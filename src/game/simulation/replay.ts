@@ -0,0 +1,334 @@
+/**
+ * Replay - Input-log recording and exact re-simulation
+ *
+ * A replay is the run's seed and setup plus the input pressed on every
+ * tick. Because the simulation is deterministic, feeding the same
+ * inputs back reproduces the run exactly: the real car, terrain,
+ * pickups and tricks, not just a sampled path.
+ */
+
+import { APP_VERSION } from '../../index';
+import { VehicleId } from '../config/vehicles';
+import { StageId } from '../config/stages';
+import { UpgradeType } from '../config/vehicleConfig';
+import { ChallengeModifier } from '../systems/dailyChallenge';
+import {
+  createSimulation,
+  LeanInput,
+  Simulation,
+  SimulationConfig,
+  SimulationEvent,
+  SimulationInput,
+  SIMULATION_TICK_MS,
+} from './simulation';
+import { buildRunConfig } from './runConfig';
+import { LoadoutItem } from './loadout';
+
+/**
+ * Bump when the log layout or simulation rules change incompatibly, i.e.
+ * when a recorded run would play out differently. Logs from other
+ * versions stay on device but can only be played by the app version
+ * that recorded them, so presentation-only changes never bump this.
+ */
+export const REPLAY_LOG_VERSION = 12;
+
+/**
+ * Input bit flags
+ */
+export const INPUT_BITS = {
+  GAS: 1,
+  BRAKE: 2,
+  BOOST: 4,
+  LEAN_BACK: 8,
+  LEAN_FORWARD: 16,
+} as const;
+
+/**
+ * Run-length encoded input: [input bitmask, number of ticks]
+ */
+export type InputRun = [number, number];
+
+export type ReplayMetadata = {
+  seed: number;
+  stageId: StageId;
+  vehicleId: VehicleId;
+  /** Upgrade levels of the vehicle at the time of the run */
+  upgrades: Record<UpgradeType, number>;
+  /** App version that recorded the run */
+  appVersion: string;
+  /** Daily challenge modifiers active during the run */
+  modifiers?: ChallengeModifier[];
+  /** Course played (omitted for an endless run) */
+  courseId?: string;
+  /** Consumables equipped for the run */
+  loadout?: LoadoutItem[];
+};
+
+export type ReplayResult = {
+  /** Final distance (meters) */
+  distance: number;
+  /** Coins collected */
+  coins: number;
+  /** Raw trick points */
+  trickPoints: number;
+};
+
+export type ReplayLog = ReplayMetadata & {
+  /** Unique ID */
+  id: string;
+  /** Log format version */
+  version: number;
+  /** Tick length the run was simulated with (ms) */
+  tickMs: number;
+  /** Total ticks simulated */
+  ticks: number;
+  /** Inputs, run-length encoded */
+  inputs: InputRun[];
+  /** Ticks at which the run was revived from its last checkpoint */
+  revives?: number[];
+  /** Recording date */
+  recordedAt: number;
+  /** Result as recorded on device (used for verification) */
+  result: ReplayResult;
+};
+
+export type InputRecorder = {
+  /** Record the input used for one tick */
+  record: (input: SimulationInput) => void;
+  /** Record that the run was revived before the next tick */
+  recordRevive: () => void;
+  /** Ticks recorded so far */
+  getTickCount: () => number;
+  /** Stop recording and build the log */
+  finish: (result: ReplayResult) => ReplayLog;
+};
+
+export type ReplayerOptions = {
+  /** Build the simulation config for a log */
+  configForLog: (log: ReplayLog) => Partial<SimulationConfig> & { seed: number };
+};
+
+export type Replayer = {
+  /** Simulation at the current tick */
+  getSimulation: () => Simulation;
+  /** Current tick */
+  getTick: () => number;
+  /** Total ticks in the log */
+  getTotalTicks: () => number;
+  /** Advance one tick (returns the tick's events) */
+  step: () => SimulationEvent[];
+  /** Jump to a tick by re-simulating (from the start when going back) */
+  seek: (tick: number) => void;
+  /** Reached the end of the log */
+  isAtEnd: () => boolean;
+};
+
+export type ReplayVerification = {
+  /** Re-simulated result matches the recorded result */
+  valid: boolean;
+  /** Result produced by re-simulation */
+  simulated: ReplayResult;
+  /** Reason the replay was rejected */
+  reason?: 'version' | 'tickRate' | 'mismatch';
+};
+
+const DEFAULT_REPLAYER_OPTIONS: ReplayerOptions = {
+  configForLog: (log) =>
+    buildRunConfig({
+      seed: log.seed,
+      stageId: log.stageId,
+      vehicleId: log.vehicleId,
+      upgrades: log.upgrades,
+      courseId: log.courseId,
+      modifiers: log.modifiers ?? [],
+      loadout: log.loadout ?? [],
+    }),
+};
+
+/**
+ * Pack an input into a bitmask
+ */
+export function encodeInput(input: SimulationInput): number {
+  return (
+    (input.gas ? INPUT_BITS.GAS : 0) |
+    (input.brake ? INPUT_BITS.BRAKE : 0) |
+    (input.boost ? INPUT_BITS.BOOST : 0) |
+    (input.lean < 0 ? INPUT_BITS.LEAN_BACK : 0) |
+    (input.lean > 0 ? INPUT_BITS.LEAN_FORWARD : 0)
+  );
+}
+
+/**
+ * Unpack an input bitmask
+ */
+export function decodeInput(mask: number): SimulationInput {
+  let lean: LeanInput = 0;
+  if (mask & INPUT_BITS.LEAN_BACK) lean = -1;
+  else if (mask & INPUT_BITS.LEAN_FORWARD) lean = 1;
+
+  return {
+    gas: (mask & INPUT_BITS.GAS) !== 0,
+    brake: (mask & INPUT_BITS.BRAKE) !== 0,
+    boost: (mask & INPUT_BITS.BOOST) !== 0,
+    lean,
+  };
+}
+
+/**
+ * Expand run-length encoded inputs to one bitmask per tick
+ */
+export function expandInputs(inputs: InputRun[]): Uint8Array {
+  const total = inputs.reduce((sum, [, count]) => sum + count, 0);
+  const masks = new Uint8Array(total);
+  let offset = 0;
+  for (const [mask, count] of inputs) {
+    masks.fill(mask, offset, offset + count);
+    offset += count;
+  }
+  return masks;
+}
+
+/**
+ * Create an input recorder for one run
+ */
+export function createInputRecorder(
+  metadata: Omit<ReplayMetadata, 'appVersion'> & { appVersion?: string }
+): InputRecorder {
+  const inputs: InputRun[] = [];
+  const revives: number[] = [];
+  let ticks = 0;
+
+  const record = (input: SimulationInput): void => {
+    const mask = encodeInput(input);
+    const last = inputs[inputs.length - 1];
+    if (last && last[0] === mask) {
+      last[1]++;
+    } else {
+      inputs.push([mask, 1]);
+    }
+    ticks++;
+  };
+
+  const recordRevive = (): void => {
+    revives.push(ticks);
+  };
+
+  const finish = (result: ReplayResult): ReplayLog => ({
+    id: `replay_${Date.now()}`,
+    version: REPLAY_LOG_VERSION,
+    seed: metadata.seed,
+    stageId: metadata.stageId,
+    vehicleId: metadata.vehicleId,
+    upgrades: { ...metadata.upgrades },
+    appVersion: metadata.appVersion ?? APP_VERSION,
+    ...(metadata.modifiers?.length ? { modifiers: [...metadata.modifiers] } : {}),
+    ...(metadata.courseId ? { courseId: metadata.courseId } : {}),
+    ...(metadata.loadout?.length ? { loadout: [...metadata.loadout] } : {}),
+    tickMs: SIMULATION_TICK_MS,
+    ticks,
+    inputs: inputs.map(([mask, count]) => [mask, count] as InputRun),
+    ...(revives.length ? { revives: [...revives] } : {}),
+    recordedAt: Date.now(),
+    result,
+  });
+
+  return {
+    record,
+    recordRevive,
+    getTickCount: () => ticks,
+    finish,
+  };
+}
+
+/**
+ * Create a replayer that re-runs a log through a fresh simulation
+ */
+export function createReplayer(
+  log: ReplayLog,
+  options: Partial<ReplayerOptions> = {}
+): Replayer {
+  const opts: ReplayerOptions = { ...DEFAULT_REPLAYER_OPTIONS, ...options };
+  const masks = expandInputs(log.inputs);
+  const revives = new Set(log.revives ?? []);
+
+  let simulation: Simulation;
+  let tick = 0;
+
+  const rebuild = (): void => {
+    simulation = createSimulation(opts.configForLog(log));
+    simulation.start();
+    tick = 0;
+  };
+
+  const step = (): SimulationEvent[] => {
+    if (tick >= masks.length) return [];
+    if (revives.has(tick)) {
+      simulation.revive();
+    }
+    const events = simulation.step(decodeInput(masks[tick]));
+    tick++;
+    return events;
+  };
+
+  const seek = (target: number): void => {
+    const clamped = Math.max(0, Math.min(masks.length, Math.floor(target)));
+    if (clamped < tick) {
+      rebuild();
+    }
+    while (tick < clamped) {
+      step();
+    }
+  };
+
+  rebuild();
+
+  return {
+    getSimulation: () => simulation,
+    getTick: () => tick,
+    getTotalTicks: () => masks.length,
+    step,
+    seek,
+    isAtEnd: () => tick >= masks.length,
+  };
+}
+
+/**
+ * Whether this app version can re-simulate a log
+ */
+export function isReplayLogPlayable(log: ReplayLog): boolean {
+  return log.version === REPLAY_LOG_VERSION;
+}
+
+/**
+ * Re-simulate a log end to end and check it reproduces the recorded result
+ */
+export function verifyReplay(
+  log: ReplayLog,
+  options: Partial<ReplayerOptions> = {}
+): ReplayVerification {
+  const empty: ReplayResult = { distance: 0, coins: 0, trickPoints: 0 };
+
+  if (!isReplayLogPlayable(log)) {
+    return { valid: false, simulated: empty, reason: 'version' };
+  }
+  if (Math.abs(log.tickMs - SIMULATION_TICK_MS) > 1e-6) {
+    return { valid: false, simulated: empty, reason: 'tickRate' };
+  }
+
+  const replayer = createReplayer(log, options);
+  replayer.seek(replayer.getTotalTicks());
+
+  const snapshot = replayer.getSimulation().getSnapshot();
+  const simulated: ReplayResult = {
+    distance: snapshot.runState.stats.distance,
+    coins: snapshot.runState.stats.coins,
+    trickPoints: snapshot.totalTrickPoints,
+  };
+
+  const valid =
+    simulated.coins === log.result.coins &&
+    simulated.trickPoints === log.result.trickPoints &&
+    Math.abs(simulated.distance - log.result.distance) < 0.01;
+
+  return valid ? { valid, simulated } : { valid, simulated, reason: 'mismatch' };
+}
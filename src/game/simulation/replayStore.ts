@@ -0,0 +1,64 @@
+/**
+ * Replay Store - Persist input-log replays
+ *
+ * Keeps the best runs (by distance) so they can be re-watched.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ReplayLog } from './replay';
+
+const STORAGE_KEY = '@summit_wheels_input_replays';
+
+/**
+ * Max replays kept on device
+ */
+export const MAX_STORED_REPLAYS = 10;
+
+/**
+ * Load stored replays (best first)
+ *
+ * Logs from an older log version are kept so the run still shows in the
+ * list; see isReplayLogPlayable.
+ */
+export async function loadReplayLogs(): Promise<ReplayLog[]> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    return JSON.parse(stored) as ReplayLog[];
+  } catch (error) {
+    console.warn('Failed to load replays:', error);
+    return [];
+  }
+}
+
+/**
+ * Save a replay, keeping only the best runs
+ */
+export async function saveReplayLog(log: ReplayLog): Promise<ReplayLog[]> {
+  const logs = await loadReplayLogs();
+  const updated = [...logs.filter((l) => l.id !== log.id), log]
+    .sort((a, b) => b.result.distance - a.result.distance)
+    .slice(0, MAX_STORED_REPLAYS);
+
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  } catch (error) {
+    console.warn('Failed to save replay:', error);
+  }
+  return updated;
+}
+
+/**
+ * Delete a stored replay
+ */
+export async function deleteReplayLog(id: string): Promise<void> {
+  const logs = await loadReplayLogs();
+  try {
+    await AsyncStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(logs.filter((l) => l.id !== id))
+    );
+  } catch (error) {
+    console.warn('Failed to delete replay:', error);
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Run Config - Resolve everything a run is played with
+ *
+ * Composes, in order:
+ * 1. The selected vehicle's stats, with its upgrade levels applied
+ * 2. The stage's physics, terrain and pickup multipliers
+ * 3. The course played on the stage, if any (fixed seed and finish line)
+ * 4. The active daily challenge modifiers
+ * 5. The consumables equipped in the loadout
+ *
+ * The result is the single simulation config every game system of the
+ * run is created from, live or in a replay.
+ */
+
+import {
+  calculateVehicleStats,
+  UPGRADE_MODIFIERS,
+  UpgradeType,
+} from '../config/vehicleConfig';
+import { getVehicle, VehicleId } from '../config/vehicles';
+import { getCourse, getStage, getStageWeather, StageId } from '../config/stages';
+import { DEFAULT_TERRAIN_CONFIG } from '../terrain/terrain';
+import { DEFAULT_SPAWN_CONFIG } from '../pickups/spawn';
+import { DEFAULT_FUEL_CONFIG } from '../systems/fuel';
+import { DEFAULT_BOOST_CONFIG } from '../systems/boost';
+import { ChallengeModifier } from '../systems/dailyChallenge';
+import { applyModifiersToConfig } from './modifiers';
+import { applyLoadoutToConfig, LoadoutItem } from './loadout';
+import { createCar, GAS_BODY_PUSH } from '../physics/car';
+import { DEFAULT_SIMULATION_CONFIG, SIMULATION_TICK_MS, SimulationConfig } from './simulation';
+
+export type RunSetup = {
+  seed: number;
+  stageId: StageId;
+  vehicleId: VehicleId;
+  /** Upgrade levels of the selected vehicle */
+  upgrades: Record<UpgradeType, number>;
+  /** Course played on the stage (omitted for an endless run) */
+  courseId?: string;
+  /** Active daily challenge modifiers */
+  modifiers?: ChallengeModifier[];
+  /** Consumables equipped for the run */
+  loadout?: LoadoutItem[];
+};
+
+/**
+ * Fully resolved configuration for one run
+ */
+export type RunConfig = SimulationConfig;
+
+/**
+ * Build the resolved config for a run
+ */
+export function buildRunConfig(setup: RunSetup): RunConfig {
+  const vehicle = getVehicle(setup.vehicleId);
+  const stage = getStage(setup.stageId);
+  const stats = calculateVehicleStats(setup.upgrades, vehicle.stats);
+  const course = setup.courseId ? getCourse(setup.stageId, setup.courseId) : undefined;
+
+  const gravity = DEFAULT_SIMULATION_CONFIG.world.gravity ?? { x: 0, y: 1 };
+  const fuelRate = vehicle.stats.fuelConsumptionRate;
+  const fuelProbability = Math.min(
+    1,
+    DEFAULT_SPAWN_CONFIG.fuelProbability * stage.pickups.fuelRateMultiplier
+  );
+  const powerUpProbability = Math.min(
+    1 - fuelProbability,
+    DEFAULT_SPAWN_CONFIG.powerUpProbability
+  );
+  const coinProbability = Math.min(
+    1 - fuelProbability - powerUpProbability,
+    DEFAULT_SPAWN_CONFIG.coinProbability * stage.pickups.coinRateMultiplier
+  );
+
+  const config: RunConfig = {
+    ...DEFAULT_SIMULATION_CONFIG,
+    seed: course?.seed ?? setup.seed,
+    courseLength: course?.length ?? null,
+    world: {
+      ...DEFAULT_SIMULATION_CONFIG.world,
+      gravity: { x: gravity.x, y: gravity.y * stage.physics.gravityMultiplier },
+    },
+    car: {
+      enginePower: stats.enginePower,
+      maxWheelSpeed: stats.maxWheelSpeed,
+      wheelFriction: Math.min(1, stats.wheelFriction),
+      suspensionStiffness: stats.suspensionStiffness,
+      suspensionDamping: stats.suspensionDamping,
+      brakePower: vehicle.stats.brakePower,
+      bodyWidth: vehicle.visual.bodyWidth,
+      bodyHeight: vehicle.visual.bodyHeight,
+      wheelRadius: vehicle.visual.wheelRadius,
+      airResistance: stage.physics.airResistanceMultiplier,
+      airControl: vehicle.stats.airControl,
+      chassis: vehicle.chassis,
+    },
+    hasDriver: vehicle.visual.hasDriver,
+    terrain: {
+      baseHeight: stage.terrain.baseHeight,
+      minHeightVariation: stage.terrain.minHeightVariation,
+      maxHeightVariation: stage.terrain.maxHeightVariation,
+      difficultyRamp: stage.terrain.difficultyRamp,
+      segmentWidth: stage.terrain.segmentWidth,
+      friction: DEFAULT_TERRAIN_CONFIG.friction * stage.physics.frictionMultiplier,
+      setPieces: stage.terrain.setPieces,
+      surfaces: stage.terrain.surfaces,
+    },
+    spawn: {
+      baseGroundHeight: stage.terrain.baseHeight,
+      coinProbability,
+      fuelProbability,
+      powerUpProbability,
+      powerUpWeights: stage.pickups.powerUpWeights,
+      fuelValue: DEFAULT_SPAWN_CONFIG.fuelValue * stage.pickups.fuelValueMultiplier,
+    },
+    fuel: {
+      maxFuel: stats.fuelCapacity,
+      baseConsumptionRate: DEFAULT_FUEL_CONFIG.baseConsumptionRate * fuelRate,
+      throttleConsumptionRate: DEFAULT_FUEL_CONFIG.throttleConsumptionRate * fuelRate,
+      brakeConsumptionRate: DEFAULT_FUEL_CONFIG.brakeConsumptionRate * fuelRate,
+    },
+    damage: { durability: vehicle.stats.durability },
+    modifiers: setup.modifiers ?? [],
+    weather: getStageWeather(setup.stageId),
+  };
+
+  return applyLoadoutToConfig(
+    applyModifiersToConfig(config, config.modifiers),
+    setup.loadout ?? []
+  );
+}
+
+/**
+ * Fastest a vehicle can go on a stage, fully upgraded and boosting
+ * (px per ms)
+ *
+ * Flat out, the engine's push on the body is used up by air resistance
+ * on every part of the car; the terrain only ever slows it further.
+ */
+export function getTopSpeed(stageId: StageId, vehicleId: VehicleId): number {
+  const upgrades = Object.fromEntries(
+    Object.entries(UPGRADE_MODIFIERS).map(([type, modifier]) => [type, modifier.maxLevel])
+  ) as Record<UpgradeType, number>;
+  const { car: carConfig, boost } = buildRunConfig({ seed: 0, stageId, vehicleId, upgrades });
+
+  const car = createCar(carConfig);
+  const drag = car
+    .getAllBodies()
+    .reduce((sum, part) => sum + part.mass * part.frictionAir, 0);
+  const boostPower = boost.powerMultiplier ?? DEFAULT_BOOST_CONFIG.powerMultiplier;
+  const push = (carConfig.enginePower ?? 0) * boostPower * GAS_BODY_PUSH;
+  return (push * SIMULATION_TICK_MS) / drag;
+}
@@ -0,0 +1,142 @@
+/**
+ * Run Events - Gameplay event bus for systems that watch a run
+ *
+ * The game loop feeds each tick's snapshot and simulation events into a
+ * run event source, which turns them into a small set of meaningful
+ * events (milestones, tricks, landings, pickups) and publishes them on
+ * a bus. Listeners such as achievements never touch the simulation.
+ */
+
+import { VehicleId } from '../config/vehicles';
+import { StageId } from '../config/stages';
+import { TrickType } from '../systems/tricks';
+import { SimulationEvent, SimulationSnapshot, SIMULATION_TICK_MS } from './simulation';
+
+export type RunEvent =
+  | { type: 'runStart'; stageId: StageId; vehicleId: VehicleId; vehiclesOwned: number }
+  | { type: 'distance'; meters: number }
+  | { type: 'trick'; trick: TrickType }
+  | { type: 'airTime'; seconds: number }
+  | { type: 'combo'; count: number }
+  | { type: 'coins'; amount: number }
+  | { type: 'brake' }
+  | { type: 'boost'; seconds: number }
+  | { type: 'runEnd'; distance: number; coins: number };
+
+export type RunEventListener = (event: RunEvent) => void;
+
+export type RunEventBus = {
+  /** Publish an event to every listener */
+  emit: (event: RunEvent) => void;
+  /** Listen for events (returns unsubscribe) */
+  subscribe: (listener: RunEventListener) => () => void;
+};
+
+export type RunEventSourceConfig = {
+  /** Distance between milestone events (m) */
+  milestoneInterval: number;
+};
+
+export const DEFAULT_RUN_EVENT_SOURCE_CONFIG: RunEventSourceConfig = {
+  milestoneInterval: 50,
+};
+
+export type RunEventSource = {
+  /** Start of a run */
+  start: (info: { stageId: StageId; vehicleId: VehicleId; vehiclesOwned: number }) => void;
+  /** Publish what happened during one tick */
+  tick: (snapshot: SimulationSnapshot, events: SimulationEvent[]) => void;
+  /** End of a run */
+  finish: (snapshot: SimulationSnapshot) => void;
+};
+
+/**
+ * Create a run event bus
+ */
+export function createRunEventBus(): RunEventBus {
+  const listeners = new Set<RunEventListener>();
+
+  return {
+    emit: (event) => {
+      listeners.forEach((listener) => listener(event));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Create a source that publishes run events from simulation ticks
+ */
+export function createRunEventSource(
+  bus: RunEventBus,
+  config: Partial<RunEventSourceConfig> = {}
+): RunEventSource {
+  const cfg: RunEventSourceConfig = { ...DEFAULT_RUN_EVENT_SOURCE_CONFIG, ...config };
+
+  let lastMilestone = 0;
+  let airTimeAtTakeoff = 0;
+  let hasBraked = false;
+  let boostSeconds = 0;
+
+  const start: RunEventSource['start'] = (info) => {
+    lastMilestone = 0;
+    airTimeAtTakeoff = 0;
+    hasBraked = false;
+    boostSeconds = 0;
+    bus.emit({ type: 'runStart', ...info });
+  };
+
+  const tick: RunEventSource['tick'] = (snapshot, events) => {
+    const milestone =
+      Math.floor(snapshot.runState.stats.distance / cfg.milestoneInterval) *
+      cfg.milestoneInterval;
+    if (milestone > lastMilestone) {
+      lastMilestone = milestone;
+      bus.emit({ type: 'distance', meters: milestone });
+    }
+
+    for (const event of events) {
+      if (event.type === 'trick') {
+        bus.emit({ type: 'trick', trick: event.trick.type });
+        bus.emit({ type: 'combo', count: snapshot.combo.count });
+      } else if (event.type === 'landing') {
+        bus.emit({ type: 'airTime', seconds: snapshot.airTime - airTimeAtTakeoff });
+        airTimeAtTakeoff = snapshot.airTime;
+      } else if (event.type === 'pickup' && event.pickup.type === 'coin') {
+        bus.emit({ type: 'coins', amount: event.amount });
+      }
+    }
+
+    // Air time before a landing is only reported by the landing itself
+    if (snapshot.isGrounded) {
+      airTimeAtTakeoff = snapshot.airTime;
+    }
+
+    if (snapshot.runState.isBrakePressed && !hasBraked) {
+      hasBraked = true;
+      bus.emit({ type: 'brake' });
+    }
+
+    if (snapshot.boost.isBoosting) {
+      boostSeconds += SIMULATION_TICK_MS / 1000;
+      bus.emit({ type: 'boost', seconds: boostSeconds });
+    } else {
+      boostSeconds = 0;
+    }
+  };
+
+  const finish: RunEventSource['finish'] = (snapshot) => {
+    bus.emit({
+      type: 'runEnd',
+      distance: snapshot.runState.stats.distance,
+      coins: snapshot.runState.stats.coins,
+    });
+  };
+
+  return { start, tick, finish };
+}
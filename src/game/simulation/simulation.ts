@@ -0,0 +1,915 @@
+/**
+ * Simulation - Headless, fixed-step gameplay core
+ *
+ * Owns every system that affects the outcome of a run (physics world,
+ * car, terrain, pickups, weather, fuel, tricks, combo, boost, power-ups) and
+ * advances them in constant ticks from an input stream. Nothing here reads the wall
+ * clock or the screen size, so the same seed + inputs always produce
+ * the same run. Presentation (particles, audio, camera) reacts to the
+ * events each tick returns.
+ */
+
+import Matter from 'matter-js';
+import {
+  createPhysicsWorld,
+  getTouchingBodies,
+  PhysicsWorld,
+  WorldConfig,
+} from '../physics/world';
+import { addCarToWorld, Car, CarConfig, createCar } from '../physics/car';
+import {
+  addDriverToWorld,
+  createDriver,
+  Driver,
+  DriverConfig,
+  isHeadOnGround,
+} from '../physics/driver';
+import {
+  createFlatGround,
+  createTerrainGenerator,
+  TerrainConfig,
+  TerrainGenerator,
+  TerrainSegment,
+} from '../terrain/terrain';
+import { getBodySurface, getSurface, SurfaceType } from '../terrain/surfaces';
+import {
+  checkPickupCollisions,
+  createPickupSpawner,
+  Pickup,
+  PickupSpawner,
+  SpawnConfig,
+} from '../pickups/spawn';
+import {
+  createRunStateManager,
+  metersToPixels,
+  RunState,
+  RunStateManager,
+} from '../state/runState';
+import { createFuelSystem, FuelConfig, FuelState, FuelSystem } from '../systems/fuel';
+import {
+  createFuelTelemetry,
+  FuelTelemetry,
+  FuelTelemetryReport,
+} from '../systems/fuelTelemetry';
+import { createTrickSystem, Trick, TrickConfig, TrickSystem } from '../systems/tricks';
+import {
+  ComboConfig,
+  ComboState,
+  ComboSystem,
+  ComboTier,
+  createComboSystem,
+} from '../systems/combo';
+import { BoostConfig, BoostState, BoostSystem, createBoostSystem } from '../systems/boost';
+import {
+  CoinMagnetConfig,
+  CoinMagnetSystem,
+  createCoinMagnetSystem,
+} from '../systems/coinMagnet';
+import {
+  createPowerUpSystem,
+  PowerUpConfig,
+  PowerUpState,
+  PowerUpSystem,
+} from '../systems/powerUps';
+import {
+  createDamageSystem,
+  DamageConfig,
+  DamagePart,
+  DamageState,
+  DamageSystem,
+} from '../systems/damage';
+import {
+  Checkpoint,
+  CheckpointConfig,
+  CheckpointState,
+  CheckpointSystem,
+  createCheckpointSystem,
+} from '../systems/checkpoint';
+import { ChallengeModifier } from '../systems/dailyChallenge';
+import {
+  createWeatherConditions,
+  getSurfaceSlope,
+  WeatherConditions,
+  WeatherType,
+} from '../systems/weather';
+import { createInputMapper } from './modifiers';
+
+/**
+ * Length of one simulation tick (ms). Matter.js is tuned for 60Hz.
+ */
+export const SIMULATION_TICK_MS = 1000 / 60;
+
+/**
+ * World x the car starts every run at; distance is measured from here
+ */
+export const CAR_START_X = 150;
+
+/**
+ * Lean direction: -1 leans back (nose up), 1 leans forward (nose down)
+ */
+export type LeanInput = -1 | 0 | 1;
+
+export type SimulationInput = {
+  /** Gas pedal held this tick */
+  gas: boolean;
+  /** Brake pedal held this tick */
+  brake: boolean;
+  /** Boost requested this tick (edge-triggered) */
+  boost: boolean;
+  /** Lean held this tick */
+  lean: LeanInput;
+};
+
+export const NEUTRAL_INPUT: SimulationInput = {
+  gas: false,
+  brake: false,
+  boost: false,
+  lean: 0,
+};
+
+export type SimulationEvent =
+  | { type: 'trick'; trick: Trick; points: number; tierUp: ComboTier | null }
+  | { type: 'landing'; x: number; y: number; velocityY: number }
+  | { type: 'pickup'; pickup: Pickup; amount: number; x: number; y: number }
+  | { type: 'boostStart' }
+  | { type: 'outOfFuel' }
+  | { type: 'damage'; part: DamagePart; amount: number; x: number; y: number }
+  | { type: 'checkpoint'; checkpoint: Checkpoint }
+  | { type: 'stalled' }
+  | { type: 'finish'; time: number }
+  | { type: 'shield'; x: number; y: number }
+  | { type: 'crash'; x: number; y: number };
+
+export type BodyTransform = {
+  x: number;
+  y: number;
+  angle: number;
+};
+
+export type SimulationConfig = {
+  /** Run seed (terrain + pickups) */
+  seed: number;
+  /** Height of the simulated world in pixels (independent of the device) */
+  worldHeight: number;
+  /** Terrain/pickups are generated this far ahead of the car (px) */
+  lookAhead: number;
+  /** Terrain/pickups are removed this far behind the car (px) */
+  lookBehind: number;
+  /** Flat starting ground width (px) */
+  startGroundWidth: number;
+  world: WorldConfig;
+  car: Partial<CarConfig>;
+  /** Seat a driver on the car (their head touching the ground ends the run) */
+  hasDriver: boolean;
+  driver: Partial<DriverConfig>;
+  /** Time a driverless car may stay upside down before the run ends (ms) */
+  flipTimeout: number;
+  /** Time an out-of-fuel car may sit still before the run ends (ms) */
+  stallTimeout: number;
+  /** Distance to a course's finish line (m, null for an endless run) */
+  courseLength: number | null;
+  terrain: Partial<TerrainConfig>;
+  spawn: Partial<SpawnConfig>;
+  fuel: Partial<FuelConfig>;
+  trick: Partial<TrickConfig>;
+  combo: Partial<ComboConfig>;
+  boost: Partial<BoostConfig>;
+  coinMagnet: Partial<CoinMagnetConfig>;
+  powerUps: Partial<PowerUpConfig>;
+  damage: Partial<DamageConfig>;
+  checkpoint: Partial<CheckpointConfig>;
+  /** Daily challenge modifiers active for this run (input mapping only) */
+  modifiers: ChallengeModifier[];
+  /** Stage weather (affects grip, wind and visibility) */
+  weather: WeatherType;
+};
+
+export type SimulationSnapshot = {
+  /** Ticks simulated since start */
+  tick: number;
+  /** Simulated time since start (ms) */
+  time: number;
+  runState: RunState;
+  fuel: FuelState;
+  combo: ComboState;
+  boost: BoostState;
+  powerUps: PowerUpState;
+  damage: DamageState;
+  checkpoints: CheckpointState;
+  /** Trick points after combo multipliers */
+  trickPoints: number;
+  /** Raw trick points (before multipliers) */
+  totalTrickPoints: number;
+  recentTricks: Trick[];
+  /** Tricks landed this run */
+  tricksLanded: number;
+  /** Total time spent airborne this run (seconds) */
+  airTime: number;
+  /** Weather intensity at the car (0-1) */
+  weatherIntensity: number;
+  /** Ground material under the wheels (null while airborne) */
+  surface: SurfaceType | null;
+  isGrounded: boolean;
+  isThrottling: boolean;
+  car: BodyTransform & { velocityX: number; velocityY: number };
+};
+
+export type Simulation = {
+  world: PhysicsWorld;
+  car: Car;
+  /** Seated driver (null for driverless vehicles) */
+  driver: Driver | null;
+  terrain: TerrainGenerator;
+  pickups: PickupSpawner;
+  weather: WeatherConditions;
+  /** Start the run */
+  start: () => void;
+  /** Advance one tick with the given input */
+  step: (input: SimulationInput) => SimulationEvent[];
+  /** Current tick */
+  getTick: () => number;
+  /** Simulated time (ms) */
+  getTime: () => number;
+  /** Read-only view of the current state */
+  getSnapshot: () => SimulationSnapshot;
+  /** All bodies currently in the world */
+  getBodies: () => Matter.Body[];
+  /** Body transforms as they were before the last tick (for interpolation) */
+  getPreviousTransforms: () => Map<number, BodyTransform>;
+  /** Active terrain segments */
+  getSegments: () => TerrainSegment[];
+  /** World x of the finish line (null for an endless run) */
+  getFinishX: () => number | null;
+  /** How the run has spent its fuel so far */
+  getFuelTelemetry: () => FuelTelemetryReport;
+  /** Run has ended (crash, stalled without fuel or crossed the finish line) */
+  isFinished: () => boolean;
+  /**
+   * Resume an ended run from the last checkpoint: the car respawns there
+   * with the fuel and run stats it had (returns false when no revives are left)
+   */
+  revive: () => boolean;
+  /** Get resolved config */
+  getConfig: () => SimulationConfig;
+};
+
+export const DEFAULT_SIMULATION_CONFIG: Omit<SimulationConfig, 'seed'> = {
+  worldHeight: 800,
+  lookAhead: 1600,
+  lookBehind: 800,
+  startGroundWidth: 400,
+  world: { gravity: { x: 0, y: 0.8 } },
+  car: { enginePower: 0.06, maxWheelSpeed: 0.4 },
+  hasDriver: false,
+  driver: {},
+  flipTimeout: 1000,
+  stallTimeout: 2000,
+  courseLength: null,
+  terrain: { baseHeight: 150, segmentWidth: 250 },
+  spawn: { baseGroundHeight: 150 },
+  fuel: { maxFuel: 100 },
+  trick: {},
+  combo: {},
+  boost: {},
+  coinMagnet: { radius: 150, strength: 400 },
+  powerUps: {},
+  damage: {},
+  checkpoint: {},
+  modifiers: [],
+  weather: 'none',
+};
+
+/**
+ * Matter.js gravity scale, used to express wind as a fraction of gravity
+ */
+const GRAVITY_SCALE = 0.001;
+
+/**
+ * Fuel burns faster while boosting
+ */
+const BOOST_FUEL_MULTIPLIER = 1.5;
+
+/**
+ * Physics ticks run after a crash so the driver is already tumbling in
+ * the freeze frame
+ */
+const CRASH_SETTLE_TICKS = 12;
+
+/**
+ * Leaning with the wheels on the ground only rocks the chassis
+ */
+const GROUND_LEAN_SCALE = 0.25;
+
+/**
+ * Speed below which the car counts as stopped (px/tick)
+ */
+const STALL_SPEED = 0.3;
+
+/**
+ * A shielded crash rights the car this far above where it lay, so the
+ * wheels come down onto the ground
+ */
+const SHIELD_LIFT = 60;
+
+/**
+ * Respawned cars are dropped from a little above the checkpoint so
+ * the wheels settle onto the ground instead of starting inside it
+ */
+const RESPAWN_LIFT = 10;
+
+/**
+ * Creates a deterministic simulation for one run
+ *
+ * Runs in the game are created from buildRunConfig, which resolves the
+ * vehicle, stage and modifier physics; only the modifiers' input mapping
+ * is applied here.
+ */
+export function createSimulation(
+  config: Partial<SimulationConfig> & { seed: number }
+): Simulation {
+  const cfg: SimulationConfig = { ...DEFAULT_SIMULATION_CONFIG, ...config };
+  const { seed, worldHeight } = cfg;
+  const mapInput = createInputMapper(cfg.modifiers);
+
+  const world = createPhysicsWorld(cfg.world);
+
+  const car = createCar({
+    x: CAR_START_X,
+    y: worldHeight - 200,
+    ...cfg.car,
+  });
+  addCarToWorld(world, car);
+  const startX = car.getPosition().x;
+
+  const driver = cfg.hasDriver ? createDriver(car, cfg.driver) : null;
+  if (driver) {
+    addDriverToWorld(world, driver);
+  }
+
+  const terrain = createTerrainGenerator(seed, {
+    ...cfg.terrain,
+    screenHeight: worldHeight,
+  });
+  const weather = createWeatherConditions(cfg.weather, seed);
+
+  /**
+   * Wet or snowy ground loses grip where the weather is heavy
+   */
+  const applyWeather = (seg: TerrainSegment): void => {
+    seg.body.friction *= weather.getFrictionScale(
+      (seg.startX + seg.endX) / 2,
+      getSurfaceSlope(seg.vertices)
+    );
+  };
+
+  const flatGround = createFlatGround(
+    0,
+    cfg.startGroundWidth,
+    100,
+    worldHeight,
+    cfg.terrain.friction
+  );
+  flatGround.friction *= weather.getFrictionScale(cfg.startGroundWidth / 2, 0);
+  world.add(flatGround);
+
+  let segments: TerrainSegment[] = terrain.generateSegments(
+    cfg.startGroundWidth,
+    cfg.startGroundWidth + cfg.lookAhead
+  );
+  segments.forEach((seg) => {
+    applyWeather(seg);
+    world.add(seg.body);
+  });
+
+  const fuelSystem: FuelSystem = createFuelSystem(cfg.fuel);
+  const fuelConfig = fuelSystem.getConfig();
+  const fuelTelemetry: FuelTelemetry = createFuelTelemetry();
+
+  // Fuel cans are spaced for this car's tank and thirst
+  const pickups = createPickupSpawner(seed, {
+    ...cfg.spawn,
+    screenHeight: worldHeight,
+    fuelReach: {
+      tankSize: fuelConfig.maxFuel,
+      burnRate: fuelConfig.baseConsumptionRate + fuelConfig.throttleConsumptionRate,
+    },
+  });
+  pickups
+    .spawnInRange(cfg.startGroundWidth - 100, cfg.startGroundWidth + cfg.lookAhead)
+    .forEach((p) => world.add(p.body));
+
+  const runState: RunStateManager = createRunStateManager(
+    fuelSystem.getState().max
+  );
+  const trickSystem: TrickSystem = createTrickSystem(cfg.trick);
+  const comboSystem: ComboSystem = createComboSystem(cfg.combo);
+  const boostSystem: BoostSystem = createBoostSystem(cfg.boost);
+  const coinMagnet: CoinMagnetSystem = createCoinMagnetSystem(cfg.coinMagnet);
+  const powerUps: PowerUpSystem = createPowerUpSystem(cfg.powerUps);
+  const damageSystem: DamageSystem = createDamageSystem(cfg.damage);
+  const checkpointSystem: CheckpointSystem = createCheckpointSystem(cfg.checkpoint);
+  const baseSuspensionStiffness = car.config.suspensionStiffness;
+
+  /**
+   * Impacts reported by Matter.js during the current physics step
+   */
+  type Impact = { part: DamagePart; impulse: number; x: number; y: number };
+  let impacts: Impact[] = [];
+
+  Matter.Events.on(world.engine, 'collisionStart', (event) => {
+    for (const pair of event.pairs) {
+      const a = pair.bodyA.parent;
+      const b = pair.bodyB.parent;
+      const isGroundA = a.label === 'ground' || a.label === 'flatGround';
+      const isGroundB = b.label === 'ground' || b.label === 'flatGround';
+      if (isGroundA === isGroundB) continue;
+
+      const part = isGroundA ? b : a;
+      const isWheel = car.wheels.includes(part);
+      if (part !== car.body && !isWheel) continue;
+
+      // Closing speed along the contact normal
+      const { normal } = pair.collision;
+      const speed = Math.abs(part.velocity.x * normal.x + part.velocity.y * normal.y);
+
+      // A wheel lands carrying its share of the chassis
+      const mass = isWheel ? part.mass + car.body.mass / car.wheels.length : part.mass;
+      impacts.push({
+        part: isWheel ? 'suspension' : 'body',
+        impulse: speed * mass,
+        x: part.position.x,
+        y: part.position.y,
+      });
+    }
+  });
+
+  let tick = 0;
+  let trickPoints = 0;
+  let tricksLanded = 0;
+  let airTime = 0;
+  let wasGrounded = true;
+  let isThrottling = false;
+  let reportedOutOfFuel = false;
+  let surface: SurfaceType | null = null;
+  let flippedTime = 0;
+  let stalledTime = 0;
+  const previousTransforms = new Map<number, BodyTransform>();
+
+  const getTime = (): number => tick * SIMULATION_TICK_MS;
+
+  /**
+   * Car is grounded when a wheel sits below the body and neither wheel
+   * is moving fast vertically.
+   */
+  const isCarGrounded = (): boolean => {
+    const bodyY = car.body.position.y;
+    const isWheelBelowBody =
+      car.frontWheel.position.y > bodyY || car.rearWheel.position.y > bodyY;
+    const hasLowVerticalVelocity =
+      Math.abs(car.frontWheel.velocity.y) < 2 &&
+      Math.abs(car.rearWheel.velocity.y) < 2;
+
+    return isWheelBelowBody && hasLowVerticalVelocity;
+  };
+
+  /**
+   * Ground material a wheel is touching (null when it is off the ground)
+   */
+  const getWheelSurface = (wheel: Matter.Body): SurfaceType | null => {
+    const ground = getTouchingBodies(world, wheel).find(
+      (body) => body.label === 'ground' || body.label === 'flatGround'
+    );
+    return ground ? getBodySurface(ground) : null;
+  };
+
+  /**
+   * Soft ground drags on the wheels touching it (grip comes from the
+   * ground body's friction)
+   */
+  const applySurfaceContact = (): void => {
+    surface = null;
+    for (const wheel of car.wheels) {
+      const wheelSurface = getWheelSurface(wheel);
+      if (!wheelSurface) continue;
+      surface = surface ?? wheelSurface;
+
+      const { rollingResistance } = getSurface(wheelSurface);
+      if (rollingResistance > 0) {
+        const keep = 1 - rollingResistance;
+        Matter.Body.setAngularVelocity(wheel, wheel.angularVelocity * keep);
+        Matter.Body.setVelocity(wheel, {
+          x: wheel.velocity.x * keep,
+          y: wheel.velocity.y,
+        });
+      }
+    }
+  };
+
+  const captureTransforms = (): void => {
+    previousTransforms.clear();
+    for (const body of world.getBodies()) {
+      previousTransforms.set(body.id, {
+        x: body.position.x,
+        y: body.position.y,
+        angle: body.angle,
+      });
+    }
+  };
+
+  /**
+   * Turn this step's impacts into damage; worn suspension goes soft
+   */
+  const applyImpacts = (events: SimulationEvent[]): void => {
+    for (const impact of impacts) {
+      const amount = damageSystem.applyImpact(impact.part, impact.impulse);
+      if (amount <= 0) continue;
+      events.push({ type: 'damage', part: impact.part, amount, x: impact.x, y: impact.y });
+    }
+    impacts = [];
+    car.setSuspensionStiffness(baseSuspensionStiffness * damageSystem.getSuspensionScale());
+  };
+
+  /**
+   * A driver's head touching the ground ends the run; without a driver
+   * the car has to stay upside down for the flip timeout.
+   */
+  const hasCrashed = (): boolean => {
+    if (driver) {
+      return isHeadOnGround(world, driver);
+    }
+    flippedTime = car.isFlipped() ? flippedTime + SIMULATION_TICK_MS : 0;
+    return flippedTime >= cfg.flipTimeout;
+  };
+
+  /**
+   * Out of fuel and sitting still for the stall timeout
+   */
+  const hasStalled = (): boolean => {
+    const { velocity } = car.body;
+    const isStopped = Math.hypot(velocity.x, velocity.y) < STALL_SPEED;
+    stalledTime = fuelSystem.getState().isEmpty && isStopped
+      ? stalledTime + SIMULATION_TICK_MS
+      : 0;
+    return stalledTime >= cfg.stallTimeout;
+  };
+
+  /**
+   * Cut the driver loose and let the wreck settle for a moment
+   */
+  const settleCrash = (): void => {
+    if (!driver) return;
+    driver.release(world);
+    for (let i = 0; i < CRASH_SETTLE_TICKS; i++) {
+      captureTransforms();
+      world.step(SIMULATION_TICK_MS);
+    }
+  };
+
+  /**
+   * Steepest slope of the ground under x (the start ground is flat)
+   */
+  const getGroundSlope = (x: number): number => {
+    const segment = segments.find((seg) => x >= seg.startX && x < seg.endX);
+    return segment ? getSurfaceSlope(segment.vertices) : 0;
+  };
+
+  const captureCheckpoint = (): Checkpoint => {
+    const position = car.getPosition();
+    const state = runState.getState();
+    return {
+      distance: state.stats.distance,
+      x: position.x,
+      y: position.y,
+      tick,
+      fuel: fuelSystem.getState().current,
+      stats: { ...state.stats },
+    };
+  };
+
+  /**
+   * Generate terrain/pickups ahead of the car and drop what is behind it
+   * (ground around the last checkpoint is kept to respawn on)
+   */
+  const streamTerrain = (carX: number): void => {
+    const lookAhead = carX + cfg.lookAhead;
+    const lastSegment = segments[segments.length - 1];
+    if (lastSegment && lastSegment.endX < lookAhead) {
+      const newSegments = terrain.generateSegments(lastSegment.endX, lookAhead + 500);
+      newSegments.forEach((seg) => {
+        applyWeather(seg);
+        world.add(seg.body);
+      });
+      segments = [...segments, ...newSegments];
+
+      pickups
+        .spawnInRange(lastSegment.endX, lookAhead + 500)
+        .forEach((p) => world.add(p.body));
+    }
+
+    const checkpointX = checkpointSystem.getState().last?.x ?? carX;
+    const removeThreshold = Math.min(carX, checkpointX) - cfg.lookBehind;
+    segments
+      .filter((seg) => seg.endX < removeThreshold)
+      .forEach((seg) => world.remove(seg.body));
+    segments = segments.filter((seg) => seg.endX >= removeThreshold);
+
+    pickups.removeBefore(removeThreshold).forEach((p) => world.remove(p.body));
+  };
+
+  const start = (): void => {
+    runState.updatePosition(startX);
+    runState.startRun();
+    checkpointSystem.record(captureCheckpoint());
+    captureTransforms();
+  };
+
+  const step = (rawInput: SimulationInput): SimulationEvent[] => {
+    const events: SimulationEvent[] = [];
+    if (runState.getState().status !== 'running') return events;
+
+    const input = mapInput(rawInput);
+
+    captureTransforms();
+
+    const deltaSeconds = SIMULATION_TICK_MS / 1000;
+
+    runState.setGas(input.gas);
+    runState.setBrake(input.brake);
+
+    if (input.boost && boostSystem.startBoost()) {
+      events.push({ type: 'boostStart' });
+    }
+
+    const fuelState = fuelSystem.getState();
+    isThrottling = input.gas && !fuelState.isEmpty;
+    const isBraking = input.brake;
+
+    if (isThrottling) {
+      car.applyGas(
+        1.0 * boostSystem.getState().powerMultiplier * damageSystem.getPowerScale()
+      );
+    }
+    if (isBraking) {
+      car.applyBrake(1.0);
+    }
+    if (input.lean !== 0) {
+      car.applyLean(input.lean * (wasGrounded ? GROUND_LEAN_SCALE : 1));
+    }
+
+    // Headwind pushes every part of the car back
+    const headwind = weather.getHeadwind(car.body.position.x);
+    if (headwind > 0) {
+      for (const part of car.getAllBodies()) {
+        Matter.Body.applyForce(part, part.position, {
+          x: -headwind * GRAVITY_SCALE * part.mass,
+          y: 0,
+        });
+      }
+    }
+
+    const fuelMultiplier = boostSystem.getState().isBoosting
+      ? BOOST_FUEL_MULTIPLIER
+      : 1.0;
+    const consumed = fuelSystem.consume(deltaSeconds * fuelMultiplier, isThrottling, isBraking);
+
+    if (fuelSystem.getState().isEmpty) {
+      runState.outOfFuel();
+      if (!reportedOutOfFuel) {
+        reportedOutOfFuel = true;
+        events.push({ type: 'outOfFuel' });
+      }
+    }
+
+    impacts = [];
+    world.setTimeScale(powerUps.getTimeScale());
+    world.step(SIMULATION_TICK_MS);
+    tick++;
+    applySurfaceContact();
+    applyImpacts(events);
+
+    const time = getTime();
+    const carPos = car.getPosition();
+    const carVelocity = car.getVelocity();
+    runState.updatePosition(carPos.x);
+    runState.updateTime(SIMULATION_TICK_MS);
+
+    fuelTelemetry.record({
+      distance: runState.getState().stats.distance,
+      fuelPercentage: fuelSystem.getState().percentage,
+      consumed,
+      deltaSeconds,
+      isThrottling,
+      isStopped: Math.hypot(carVelocity.x, carVelocity.y) < STALL_SPEED,
+    });
+
+    // Tricks and combos
+    const isGrounded = isCarGrounded();
+    const newTricks = trickSystem.update(
+      isGrounded,
+      car.getRotation(),
+      carVelocity.y,
+      time,
+      input.lean
+    );
+    trickSystem.clearOldTricks(time);
+
+    if (!isGrounded) {
+      airTime += deltaSeconds;
+    }
+
+    for (const trick of newTricks) {
+      tricksLanded++;
+      const comboResult = comboSystem.addTrick(trick.value);
+      trickPoints += comboResult.points;
+      boostSystem.addBoost(trick.value);
+      events.push({
+        type: 'trick',
+        trick,
+        points: comboResult.points,
+        tierUp: comboResult.tierUp,
+      });
+    }
+
+    if (isGrounded && !wasGrounded) {
+      events.push({
+        type: 'landing',
+        x: carPos.x,
+        y: carPos.y,
+        velocityY: carVelocity.y,
+      });
+    }
+    wasGrounded = isGrounded;
+
+    comboSystem.update(SIMULATION_TICK_MS);
+    boostSystem.update(SIMULATION_TICK_MS);
+    powerUps.update(SIMULATION_TICK_MS);
+
+    // Boost only lasts while the gas is held
+    if (boostSystem.getState().isBoosting && !isThrottling) {
+      boostSystem.stopBoost();
+    }
+
+    if (hasCrashed()) {
+      if (!powerUps.useShield()) {
+        runState.crash();
+        events.push({ type: 'crash', x: carPos.x, y: carPos.y });
+        settleCrash();
+        return events;
+      }
+
+      // The shield takes the hit: the car is righted where it lay
+      car.resetTo(carPos.x, carPos.y - SHIELD_LIFT);
+      driver?.reseat(world);
+      trickSystem.cancelJump();
+      flippedTime = 0;
+      wasGrounded = false;
+      events.push({ type: 'shield', x: carPos.x, y: carPos.y });
+    }
+
+    if (hasStalled()) {
+      runState.stall();
+      events.push({ type: 'stalled' });
+      return events;
+    }
+
+    if (cfg.courseLength !== null && runState.getState().stats.distance >= cfg.courseLength) {
+      runState.complete();
+      events.push({ type: 'finish', time });
+      return events;
+    }
+
+    const checkpoint = checkpointSystem.update(
+      runState.getState().stats.distance,
+      { isGrounded, angle: car.getRotation(), slope: getGroundSlope(carPos.x) },
+      captureCheckpoint
+    );
+    if (checkpoint) {
+      events.push({ type: 'checkpoint', checkpoint });
+    }
+
+    // Pickups
+    const activePickups = pickups.getPickups();
+    if (powerUps.isActive('magnet')) {
+      coinMagnet.update(activePickups, carPos.x, carPos.y, SIMULATION_TICK_MS);
+    }
+
+    for (const pickup of checkPickupCollisions(car.body, activePickups)) {
+      const collected = pickups.collectPickup(pickup.body.id);
+      if (!collected) continue;
+
+      let amount = collected.value;
+      if (collected.type === 'coin') {
+        amount *= powerUps.isActive('doubleCoins') ? 2 : 1;
+        runState.addCoins(amount);
+      } else if (collected.type === 'fuel') {
+        amount = fuelSystem.refill(collected.value);
+        fuelTelemetry.recordRefill(amount);
+      } else if (collected.type === 'nitro') {
+        amount = boostSystem.refill(powerUps.getConfig().nitroAmount);
+      } else {
+        powerUps.collect(collected.type);
+      }
+      world.remove(collected.body);
+      events.push({
+        type: 'pickup',
+        pickup: collected,
+        amount,
+        x: collected.body.position.x,
+        y: collected.body.position.y,
+      });
+    }
+    pickups.cleanupCollected();
+
+    streamTerrain(carPos.x);
+
+    return events;
+  };
+
+  const isFinished = (): boolean => {
+    const { status } = runState.getState();
+    return status === 'crashed' || status === 'stalled' || status === 'completed';
+  };
+
+  const getFinishX = (): number | null =>
+    cfg.courseLength === null ? null : startX + metersToPixels(cfg.courseLength);
+
+  const revive = (): boolean => {
+    const { status } = runState.getState();
+    if (status !== 'crashed' && status !== 'stalled') return false;
+    const checkpoint = checkpointSystem.useRevive();
+    if (!checkpoint) return false;
+
+    car.resetTo(checkpoint.x, checkpoint.y - RESPAWN_LIFT);
+    driver?.reseat(world);
+    fuelSystem.setFuel(checkpoint.fuel);
+    reportedOutOfFuel = false;
+    boostSystem.stopBoost();
+    trickSystem.cancelJump();
+    flippedTime = 0;
+    stalledTime = 0;
+    wasGrounded = true;
+    impacts = [];
+
+    // Pickups collected since the checkpoint are gone from the track, so
+    // the coins they paid are kept
+    runState.revive({ ...checkpoint.stats, coins: runState.getState().stats.coins });
+    runState.updatePosition(checkpoint.x);
+    captureTransforms();
+    return true;
+  };
+
+  const getSnapshot = (): SimulationSnapshot => {
+    const position = car.getPosition();
+    const velocity = car.getVelocity();
+    const trickState = trickSystem.getState();
+    return {
+      tick,
+      time: getTime(),
+      runState: runState.getState(),
+      fuel: fuelSystem.getState(),
+      combo: comboSystem.getState(),
+      boost: boostSystem.getState(),
+      powerUps: powerUps.getState(),
+      damage: damageSystem.getState(),
+      checkpoints: checkpointSystem.getState(),
+      trickPoints,
+      totalTrickPoints: trickState.totalTrickPoints,
+      recentTricks: trickState.recentTricks,
+      tricksLanded,
+      airTime,
+      weatherIntensity: weather.getIntensityAt(position.x),
+      surface,
+      isGrounded: wasGrounded,
+      isThrottling,
+      car: {
+        x: position.x,
+        y: position.y,
+        angle: car.getRotation(),
+        velocityX: velocity.x,
+        velocityY: velocity.y,
+      },
+    };
+  };
+
+  return {
+    world,
+    car,
+    driver,
+    terrain,
+    pickups,
+    weather,
+    start,
+    step,
+    getTick: () => tick,
+    getTime,
+    getSnapshot,
+    getBodies: () => world.getBodies(),
+    getPreviousTransforms: () => previousTransforms,
+    getSegments: () => segments,
+    getFinishX,
+    getFuelTelemetry: () => fuelTelemetry.getReport(),
+    isFinished,
+    revive,
+    getConfig: () => ({ ...cfg }),
+  };
+}
@@ -2,7 +2,7 @@
  * Run State - Manages game run lifecycle
  */
 
-export type RunStatus = 'idle' | 'running' | 'crashed' | 'completed';
+export type RunStatus = 'idle' | 'running' | 'crashed' | 'stalled' | 'completed';
 
 export type RunStats = {
   /** Distance traveled in meters */
@@ -14,7 +14,7 @@ export type RunStats = {
   /** Max distance achieved */
   maxDistance: number;
   /** Reason for run end */
-  endReason?: 'crash' | 'outOfFuel' | 'manual';
+  endReason?: 'crash' | 'outOfFuel' | 'manual' | 'finish';
 };
 
 export type RunState = {
@@ -53,8 +53,14 @@ export type RunStateManager = {
   setBrake: (pressed: boolean) => void;
   /** End run due to crash */
   crash: () => void;
-  /** End run due to out of fuel */
+  /** Mark the tank empty (the car rolls on until it stalls) */
   outOfFuel: () => void;
+  /** End run after rolling to a stop without fuel */
+  stall: () => void;
+  /** End run at a course's finish line */
+  complete: () => void;
+  /** Resume an ended run with the given stats (e.g. from a checkpoint) */
+  revive: (stats: RunStats) => void;
   /** Consume fuel (returns remaining) */
   consumeFuel: (amount: number) => number;
   /** Add fuel */
@@ -150,6 +156,29 @@ export function createRunStateManager(
     state.stats.endReason = 'outOfFuel';
   };
 
+  const stall = (): void => {
+    if (state.status !== 'running') return;
+    state.status = 'stalled';
+    state.stats.endReason = 'outOfFuel';
+    state.isGasPressed = false;
+    state.isBrakePressed = false;
+  };
+
+  const complete = (): void => {
+    if (state.status !== 'running') return;
+    state.status = 'completed';
+    state.stats.endReason = 'finish';
+    state.isGasPressed = false;
+    state.isBrakePressed = false;
+  };
+
+  const revive = (stats: RunStats): void => {
+    if (state.status !== 'crashed' && state.status !== 'stalled') return;
+    const { endReason: _endReason, ...restored } = stats;
+    state.status = 'running';
+    state.stats = restored;
+  };
+
   const consumeFuel = (amount: number): number => {
     if (state.status !== 'running') return state.fuel;
 
@@ -198,6 +227,9 @@ export function createRunStateManager(
     setBrake,
     crash,
     outOfFuel,
+    stall,
+    complete,
+    revive,
     consumeFuel,
     addFuel,
     reset,
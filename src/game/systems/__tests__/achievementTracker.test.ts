@@ -0,0 +1,202 @@
+/**
+ * Tests for live achievement tracking from run events
+ */
+
+import { createAchievementSystem, Achievement } from '../achievements';
+import { createAchievementTracker } from '../achievementTracker';
+import { loadAchievements, payAchievementReward, saveAchievements } from '../achievementStore';
+import { createRunEventBus, createRunEventSource, RunEvent } from '../../simulation/runEvents';
+import { createSimulation, NEUTRAL_INPUT } from '../../simulation/simulation';
+import { Pickup } from '../../pickups/spawn';
+
+// Mock AsyncStorage
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] || null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+}));
+
+const mockProgressionAddCoins = jest.fn(() => Promise.resolve(true));
+jest.mock('../../progression/upgrades', () => ({
+  getProgressionManager: () => ({ addCoins: mockProgressionAddCoins }),
+}));
+
+const GAS = { ...NEUTRAL_INPUT, gas: true };
+
+function createTrackedSystem() {
+  const system = createAchievementSystem();
+  const unlocked: Achievement[] = [];
+  const tracker = createAchievementTracker(system, {
+    onUnlock: (achievement) => unlocked.push(achievement),
+  });
+  return { system, tracker, unlocked };
+}
+
+describe('achievement tracking', () => {
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    jest.clearAllMocks();
+  });
+
+  describe('createAchievementTracker', () => {
+    it('should unlock distance achievements from milestones', () => {
+      const { system, tracker, unlocked } = createTrackedSystem();
+
+      tracker.handle({ type: 'distance', meters: 50 });
+      tracker.handle({ type: 'distance', meters: 100 });
+
+      expect(system.isUnlocked('first_steps')).toBe(true);
+      expect(system.getProgress('getting_there').current).toBe(100);
+      expect(unlocked.map((a) => a.id)).toEqual(['first_steps']);
+    });
+
+    it('should report each unlock once', () => {
+      const { tracker, unlocked } = createTrackedSystem();
+
+      tracker.handle({ type: 'trick', trick: 'backflip' });
+      tracker.handle({ type: 'trick', trick: 'backflip' });
+
+      expect(unlocked.filter((a) => a.id === 'first_flip')).toHaveLength(1);
+    });
+
+    it('should accumulate lifetime goals and keep the best for single-run goals', () => {
+      const { system, tracker } = createTrackedSystem();
+
+      tracker.handle({ type: 'coins', amount: 30 });
+      tracker.handle({ type: 'coins', amount: 20 });
+      tracker.handle({ type: 'combo', count: 6 });
+      tracker.handle({ type: 'combo', count: 2 });
+      tracker.handle({ type: 'trick', trick: 'doubleFlip' });
+
+      expect(system.getProgress('coin_collector').current).toBe(50);
+      expect(system.getProgress('combo_master').current).toBe(6);
+      expect(system.getProgress('stunt_driver').current).toBe(2);
+    });
+
+    it('should only count a perfect run until the first brake', () => {
+      const { system, tracker } = createTrackedSystem();
+
+      tracker.handle({ type: 'runStart', stageId: 'countryside', vehicleId: 'jeep', vehiclesOwned: 1 });
+      tracker.handle({ type: 'distance', meters: 200 });
+      tracker.handle({ type: 'brake' });
+      tracker.handle({ type: 'distance', meters: 400 });
+
+      expect(system.getProgress('perfect_run').current).toBe(200);
+    });
+
+    it('should track stage visits and moon backflips', () => {
+      const system = createAchievementSystem();
+      const tracker = createAchievementTracker(system, { visitedStages: ['countryside'] });
+
+      tracker.handle({ type: 'runStart', stageId: 'moon', vehicleId: 'jeep', vehiclesOwned: 3 });
+      tracker.handle({ type: 'trick', trick: 'backflip' });
+
+      expect(tracker.getVisitedStages()).toEqual(['countryside', 'moon']);
+      expect(system.getProgress('explorer').current).toBe(2);
+      expect(system.isUnlocked('vehicle_collector')).toBe(true);
+      expect(system.isUnlocked('moonwalk')).toBe(true);
+    });
+  });
+
+  describe('createRunEventSource', () => {
+    it('should publish run events from simulation ticks', () => {
+      const bus = createRunEventBus();
+      const source = createRunEventSource(bus, { milestoneInterval: 10 });
+      const events: RunEvent[] = [];
+      bus.subscribe((event) => events.push(event));
+
+      const simulation = createSimulation({ seed: 5 });
+      simulation.start();
+      source.start({ stageId: 'countryside', vehicleId: 'jeep', vehiclesOwned: 1 });
+      for (let i = 0; i < 120; i++) {
+        source.tick(simulation.getSnapshot(), simulation.step(GAS));
+      }
+      source.finish(simulation.getSnapshot());
+
+      const milestones = events.filter((e) => e.type === 'distance');
+      expect(events[0].type).toBe('runStart');
+      expect(milestones.length).toBeGreaterThan(0);
+      milestones.forEach((e) => {
+        if (e.type === 'distance') expect(e.meters % 10).toBe(0);
+      });
+      expect(events[events.length - 1].type).toBe('runEnd');
+    });
+
+    it('should report the coins credited rather than the coin value', () => {
+      const bus = createRunEventBus();
+      const source = createRunEventSource(bus);
+      const events: RunEvent[] = [];
+      bus.subscribe((event) => events.push(event));
+
+      const simulation = createSimulation({ seed: 5 });
+      simulation.start();
+      const coin = { type: 'coin', value: 10, collected: true } as Pickup;
+      source.tick(simulation.getSnapshot(), [
+        { type: 'pickup', pickup: coin, amount: 20, x: 0, y: 0 },
+      ]);
+
+      expect(events).toContainEqual({ type: 'coins', amount: 20 });
+    });
+
+    it('should stop delivering events after unsubscribing', () => {
+      const bus = createRunEventBus();
+      const listener = jest.fn();
+      const unsubscribe = bus.subscribe(listener);
+
+      bus.emit({ type: 'brake' });
+      unsubscribe();
+      bus.emit({ type: 'brake' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not report a brake when coasting', () => {
+      const bus = createRunEventBus();
+      const source = createRunEventSource(bus);
+      const events: RunEvent[] = [];
+      bus.subscribe((event) => events.push(event));
+
+      const simulation = createSimulation({ seed: 5 });
+      simulation.start();
+      for (let i = 0; i < 30; i++) {
+        source.tick(simulation.getSnapshot(), simulation.step(NEUTRAL_INPUT));
+      }
+
+      expect(events.some((e) => e.type === 'brake')).toBe(false);
+    });
+  });
+
+  describe('achievementStore', () => {
+    it('should persist progress and visited stages', async () => {
+      const system = createAchievementSystem();
+      system.updateProgress('first_steps', 120);
+      await saveAchievements(system, ['countryside']);
+
+      const stored = await loadAchievements();
+
+      expect(stored.progress.first_steps.unlocked).toBe(true);
+      expect(stored.visitedStages).toEqual(['countryside']);
+    });
+
+    it('should pay an unlocked reward once into the coin ledger', async () => {
+      const system = createAchievementSystem();
+      system.updateProgress('first_steps', 120);
+      const reward = system.getAchievement('first_steps')!.rewardCoins;
+
+      expect(await payAchievementReward(system, 'first_steps')).toBe(reward);
+      expect(await payAchievementReward(system, 'first_steps')).toBe(0);
+      expect(mockProgressionAddCoins).toHaveBeenCalledTimes(1);
+      expect(mockProgressionAddCoins).toHaveBeenCalledWith(reward, 'achievement', 'first_steps');
+    });
+
+    it('should not pay locked achievements', async () => {
+      const system = createAchievementSystem();
+
+      expect(await payAchievementReward(system, 'legend')).toBe(0);
+      expect(mockProgressionAddCoins).not.toHaveBeenCalled();
+    });
+  });
+});
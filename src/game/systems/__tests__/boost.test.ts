@@ -28,6 +28,13 @@ describe('BoostSystem', () => {
     it('should have correct max amount', () => {
       expect(boostSystem.getState().maxAmount).toBe(DEFAULT_BOOST_CONFIG.maxAmount);
     });
+
+    it('should start with the initial amount, capped at the max', () => {
+      expect(createBoostSystem({ initialAmount: 60 }).getState().amount).toBe(60);
+      expect(createBoostSystem({ initialAmount: 500 }).getState().amount).toBe(
+        DEFAULT_BOOST_CONFIG.maxAmount
+      );
+    });
   });
 
   describe('addBoost', () => {
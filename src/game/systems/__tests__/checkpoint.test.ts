@@ -0,0 +1,92 @@
+/**
+ * Tests for the Checkpoint System
+ */
+
+import {
+  Checkpoint,
+  CheckpointSpot,
+  createCheckpointSystem,
+  DEFAULT_CHECKPOINT_CONFIG,
+} from '../checkpoint';
+
+const FLAT: CheckpointSpot = { isGrounded: true, angle: 0, slope: 0 };
+
+function checkpointAt(distance: number): Checkpoint {
+  return {
+    distance,
+    x: distance * 50,
+    y: 600,
+    tick: distance * 10,
+    fuel: 80,
+    stats: { distance, coins: 3, timeElapsed: distance / 10, maxDistance: distance },
+  };
+}
+
+describe('CheckpointSystem', () => {
+  describe('safe spots', () => {
+    const system = createCheckpointSystem();
+
+    it('should accept an upright car on flat ground', () => {
+      expect(system.isSafeSpot(FLAT)).toBe(true);
+      expect(system.isSafeSpot({ ...FLAT, angle: Math.PI * 2 + 0.1 })).toBe(true);
+    });
+
+    it('should reject airborne, tilted or sloped spots', () => {
+      expect(system.isSafeSpot({ ...FLAT, isGrounded: false })).toBe(false);
+      expect(system.isSafeSpot({ ...FLAT, angle: 0.5 })).toBe(false);
+      expect(system.isSafeSpot({ ...FLAT, slope: -0.4 })).toBe(false);
+    });
+  });
+
+  describe('recording', () => {
+    it('should record once past the next interval on a safe spot', () => {
+      const system = createCheckpointSystem({ interval: 100 });
+      system.record(checkpointAt(0));
+
+      expect(system.update(50, FLAT, () => checkpointAt(50))).toBeNull();
+      expect(system.update(120, { ...FLAT, slope: 1 }, () => checkpointAt(120))).toBeNull();
+      expect(system.update(130, FLAT, () => checkpointAt(130))?.distance).toBe(130);
+
+      const state = system.getState();
+      expect(state.recorded).toBe(2);
+      expect(state.nextDistance).toBe(200);
+    });
+
+    it('should not capture unless recording', () => {
+      const system = createCheckpointSystem();
+      system.record(checkpointAt(0));
+      const capture = jest.fn(() => checkpointAt(10));
+
+      system.update(10, FLAT, capture);
+
+      expect(capture).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revives', () => {
+    it('should hand out the last checkpoint up to the limit', () => {
+      const system = createCheckpointSystem({ maxRevives: 2 });
+      expect(system.useRevive()).toBeNull(); // Nothing recorded yet
+
+      system.record(checkpointAt(0));
+      system.update(150, FLAT, () => checkpointAt(150));
+
+      expect(system.useRevive()?.distance).toBe(150);
+      expect(system.useRevive()?.distance).toBe(150);
+      expect(system.useRevive()).toBeNull();
+      expect(system.getState().revivesLeft).toBe(0);
+    });
+
+    it('should start each run with the full allowance', () => {
+      const system = createCheckpointSystem();
+      system.record(checkpointAt(0));
+      system.useRevive();
+
+      system.reset();
+
+      const state = system.getState();
+      expect(state.last).toBeNull();
+      expect(state.revivesLeft).toBe(DEFAULT_CHECKPOINT_CONFIG.maxRevives);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Tests for course star ratings
+ */
+
+import { CourseRunResult, rateCourseRun } from '../courseStars';
+
+const TARGETS = { time: 120, coins: 20, fuel: 25 };
+
+const PERFECT: CourseRunResult = {
+  completed: true,
+  time: 100,
+  coins: 30,
+  fuelPercentage: 40,
+};
+
+describe('rateCourseRun', () => {
+  it('should award all three stars when every target is met', () => {
+    expect(rateCourseRun(TARGETS, PERFECT)).toEqual({
+      time: true,
+      coins: true,
+      fuel: true,
+      stars: 3,
+    });
+  });
+
+  it('should award one star per target met', () => {
+    const rating = rateCourseRun(TARGETS, { ...PERFECT, time: 150, fuelPercentage: 10 });
+
+    expect(rating).toEqual({ time: false, coins: true, fuel: false, stars: 1 });
+  });
+
+  it('should count targets met exactly', () => {
+    const rating = rateCourseRun(TARGETS, {
+      completed: true,
+      time: 120,
+      coins: 20,
+      fuelPercentage: 25,
+    });
+
+    expect(rating.stars).toBe(3);
+  });
+
+  it('should award nothing without reaching the finish', () => {
+    expect(rateCourseRun(TARGETS, { ...PERFECT, completed: false }).stars).toBe(0);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Tests for live daily challenge tracking and progress storage
+ */
+
+import {
+  ChallengeRunStats,
+  createChallengeTracker,
+  DailyChallenge,
+  generateDailyChallenge,
+  getChallengeSeed,
+} from '../dailyChallenge';
+import { loadChallengeProgress, recordChallengeAttempt } from '../challengeStore';
+
+// Mock AsyncStorage
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] || null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+}));
+
+function createChallenge(overrides: Partial<DailyChallenge> = {}): DailyChallenge {
+  return {
+    id: 'daily_2026-10-19',
+    name: 'Moon Mode',
+    description: 'Reach 500m',
+    modifiers: ['low_gravity'],
+    goalType: 'distance',
+    target: 500,
+    requiredStage: null,
+    requiredVehicle: null,
+    rewardCoins: 750,
+    date: '2026-10-19',
+    ...overrides,
+  };
+}
+
+function stats(overrides: Partial<ChallengeRunStats> = {}): ChallengeRunStats {
+  return { distance: 0, coins: 0, tricks: 0, airTime: 0, crashed: false, ...overrides };
+}
+
+describe('dailyChallenge', () => {
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+  });
+
+  describe('createChallengeTracker', () => {
+    it('should report progress toward the target', () => {
+      const tracker = createChallengeTracker(createChallenge());
+
+      const state = tracker.update(stats({ distance: 125 }));
+
+      expect(state.progress).toBe(125);
+      expect(state.fraction).toBeCloseTo(0.25);
+      expect(state.completed).toBe(false);
+    });
+
+    it('should flag completion only on the update that reaches the goal', () => {
+      const tracker = createChallengeTracker(createChallenge());
+
+      expect(tracker.update(stats({ distance: 499 })).justCompleted).toBe(false);
+      expect(tracker.update(stats({ distance: 500 })).justCompleted).toBe(true);
+      expect(tracker.update(stats({ distance: 510 })).justCompleted).toBe(false);
+      expect(tracker.getState().completed).toBe(true);
+    });
+
+    it('should keep a no-crash goal once reached', () => {
+      const tracker = createChallengeTracker(
+        createChallenge({ goalType: 'no_crash', target: 300 })
+      );
+
+      tracker.update(stats({ distance: 320 }));
+      const state = tracker.update(stats({ distance: 330, crashed: true }));
+
+      expect(state.completed).toBe(true);
+      expect(state.fraction).toBe(1);
+    });
+
+    it('should track trick and air time goals', () => {
+      const tricks = createChallengeTracker(createChallenge({ goalType: 'tricks', target: 3 }));
+      const air = createChallengeTracker(createChallenge({ goalType: 'airtime', target: 5 }));
+
+      expect(tricks.update(stats({ tricks: 3 })).completed).toBe(true);
+      expect(air.update(stats({ airTime: 4.5 })).completed).toBe(false);
+    });
+  });
+
+  describe('getChallengeSeed', () => {
+    it('should give everyone the same course on the same day', () => {
+      const day = new Date('2026-10-19T12:00:00Z');
+
+      expect(getChallengeSeed(generateDailyChallenge(day))).toBe(
+        getChallengeSeed(generateDailyChallenge(day))
+      );
+      expect(getChallengeSeed(generateDailyChallenge(day))).not.toBe(
+        getChallengeSeed(generateDailyChallenge(new Date('2026-10-20T12:00:00Z')))
+      );
+    });
+  });
+
+  describe('challengeStore', () => {
+    it('should count attempts and keep the best', async () => {
+      const challenge = createChallenge();
+
+      await recordChallengeAttempt(challenge, { progress: 200, completed: false });
+      await recordChallengeAttempt(challenge, { progress: 150, completed: false });
+      const progress = await loadChallengeProgress(challenge.id);
+
+      expect(progress?.attempts).toBe(2);
+      expect(progress?.bestAttempt).toBe(200);
+      expect(progress?.completed).toBe(false);
+    });
+
+    it('should report the first completion only once', async () => {
+      const challenge = createChallenge();
+
+      const first = await recordChallengeAttempt(challenge, { progress: 520, completed: true });
+      const second = await recordChallengeAttempt(challenge, { progress: 600, completed: true });
+
+      expect(first.firstCompletion).toBe(true);
+      expect(second.firstCompletion).toBe(false);
+      expect(second.progress.completedAt).toBe(first.progress.completedAt);
+    });
+
+    it('should ignore progress from another day', async () => {
+      await recordChallengeAttempt(createChallenge(), { progress: 100, completed: false });
+
+      expect(await loadChallengeProgress('daily_2026-10-20')).toBeNull();
+    });
+  });
+});
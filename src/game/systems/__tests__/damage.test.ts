@@ -0,0 +1,123 @@
+/**
+ * Tests for the vehicle damage system
+ */
+
+import { createDamageSystem, getDamageBarColor } from '../damage';
+import { createSimulation, NEUTRAL_INPUT } from '../../simulation/simulation';
+import { buildRunConfig } from '../../simulation/runConfig';
+import Matter from 'matter-js';
+
+describe('DamageSystem', () => {
+  describe('createDamageSystem', () => {
+    it('should start undamaged', () => {
+      const system = createDamageSystem();
+      const state = system.getState();
+
+      expect(state.total).toBe(0);
+      expect(state.isSmoking).toBe(false);
+      expect(system.getPowerScale()).toBe(1);
+      expect(system.getSuspensionScale()).toBe(1);
+    });
+
+    it('should ignore impacts below the threshold', () => {
+      const system = createDamageSystem({ impactThreshold: 10 });
+
+      expect(system.applyImpact('body', 9)).toBe(0);
+      expect(system.getState().body).toBe(0);
+    });
+
+    it('should damage the part that took the hit', () => {
+      const system = createDamageSystem({ impactThreshold: 10, damagePerImpulse: 1 });
+
+      expect(system.applyImpact('suspension', 30)).toBe(20);
+      expect(system.getState().suspension).toBe(20);
+      expect(system.getState().body).toBe(0);
+    });
+
+    it('should soften the suspension as it wears', () => {
+      const system = createDamageSystem({ maxSuspensionLoss: 0.5, impactThreshold: 0, damagePerImpulse: 1 });
+      system.applyImpact('suspension', 100);
+
+      expect(system.getSuspensionScale()).toBeCloseTo(0.5);
+    });
+
+    it('should sap engine power with overall damage', () => {
+      const system = createDamageSystem({ impactThreshold: 0, damagePerImpulse: 1 });
+      system.applyImpact('body', 50);
+
+      expect(system.getPowerScale()).toBeLessThan(1);
+    });
+
+    it('should take less damage with more durability', () => {
+      const weak = createDamageSystem({ durability: 1 });
+      const tough = createDamageSystem({ durability: 2.5 });
+
+      expect(tough.applyImpact('body', 40)).toBeLessThan(weak.applyImpact('body', 40));
+    });
+
+    it('should cap damage at 100 and start smoking', () => {
+      const system = createDamageSystem({ impactThreshold: 0, damagePerImpulse: 10 });
+      system.applyImpact('body', 100);
+      system.applyImpact('suspension', 100);
+
+      expect(system.getState().body).toBe(100);
+      expect(system.getState().total).toBe(100);
+      expect(system.getState().isSmoking).toBe(true);
+      expect(getDamageBarColor(system.getState())).toBe('#FF4444');
+    });
+
+    it('should reset', () => {
+      const system = createDamageSystem({ impactThreshold: 0 });
+      system.applyImpact('body', 50);
+      system.reset();
+
+      expect(system.getState().total).toBe(0);
+    });
+  });
+
+  describe('in the simulation', () => {
+    const setup = {
+      seed: 42,
+      stageId: 'countryside' as const,
+      upgrades: { engine: 0, tires: 0, suspension: 0, fuelTank: 0 },
+    };
+
+    /**
+     * Drop the car from high above the start ground
+     */
+    function dropCar(vehicleId: 'jeep' | 'tank') {
+      const simulation = createSimulation(buildRunConfig({ ...setup, vehicleId }));
+      simulation.start();
+      for (const body of simulation.car.getAllBodies()) {
+        Matter.Body.translate(body, { x: 0, y: -250 });
+      }
+      simulation.driver?.getAllBodies().forEach((body) =>
+        Matter.Body.translate(body, { x: 0, y: -250 })
+      );
+
+      const events = [];
+      for (let i = 0; i < 90; i++) {
+        events.push(...simulation.step(NEUTRAL_INPUT));
+      }
+      return { simulation, events };
+    }
+
+    it('should damage the suspension on a hard landing', () => {
+      const { simulation, events } = dropCar('jeep');
+
+      expect(events.some((e) => e.type === 'damage' && e.part === 'suspension')).toBe(true);
+      expect(simulation.getSnapshot().damage.suspension).toBeGreaterThan(0);
+      expect(simulation.car.frontSuspension.stiffness).toBeLessThan(
+        simulation.car.config.suspensionStiffness
+      );
+    });
+
+    it('should not damage the car driving on flat ground', () => {
+      const simulation = createSimulation(buildRunConfig({ ...setup, vehicleId: 'jeep' }));
+      simulation.start();
+      for (let i = 0; i < 60; i++) simulation.step(NEUTRAL_INPUT);
+
+      expect(simulation.getSnapshot().damage.total).toBe(0);
+    });
+  });
+});
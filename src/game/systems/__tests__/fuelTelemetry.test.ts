@@ -0,0 +1,70 @@
+/**
+ * Tests for fuel telemetry
+ */
+
+import { createFuelTelemetry, FuelTick } from '../fuelTelemetry';
+
+const TICK: FuelTick = {
+  distance: 0,
+  fuelPercentage: 100,
+  consumed: 0.05,
+  deltaSeconds: 0.1,
+  isThrottling: true,
+  isStopped: false,
+};
+
+describe('FuelTelemetry', () => {
+  it('should sample the fuel curve by distance', () => {
+    const telemetry = createFuelTelemetry({ sampleInterval: 10 });
+
+    for (let d = 0; d <= 25; d++) {
+      telemetry.record({ ...TICK, distance: d, fuelPercentage: 100 - d });
+    }
+
+    expect(telemetry.getReport().samples).toEqual([
+      { distance: 0, fuel: 100 },
+      { distance: 10, fuel: 90 },
+      { distance: 20, fuel: 80 },
+      { distance: 25, fuel: 75 }, // Where the car is now
+    ]);
+  });
+
+  it('should not draw back over the curve after a revive', () => {
+    const telemetry = createFuelTelemetry({ sampleInterval: 10 });
+    telemetry.record({ ...TICK, distance: 0 });
+    telemetry.record({ ...TICK, distance: 30, fuelPercentage: 40 });
+    telemetry.record({ ...TICK, distance: 15, fuelPercentage: 60 });
+
+    expect(telemetry.getReport().samples.map((s) => s.distance)).toEqual([0, 30]);
+  });
+
+  it('should measure throttle duty cycle and wasted idling', () => {
+    const telemetry = createFuelTelemetry();
+    telemetry.record({ ...TICK, distance: 10 });
+    telemetry.record({ ...TICK, distance: 20 });
+    telemetry.record({ ...TICK, distance: 30, isThrottling: false });
+    telemetry.record({ ...TICK, distance: 30, isThrottling: false, isStopped: true });
+
+    const report = telemetry.getReport();
+    expect(report.throttleDutyCycle).toBeCloseTo(0.5);
+    expect(report.idleTime).toBeCloseTo(0.1);
+    expect(report.idleFuel).toBeCloseTo(0.05);
+    expect(report.fuelUsed).toBeCloseTo(0.2);
+    expect(report.efficiency).toBeCloseTo(30 / 0.2);
+  });
+
+  it('should count fuel picked up and start over on reset', () => {
+    const telemetry = createFuelTelemetry();
+    telemetry.record(TICK);
+    telemetry.recordRefill(25);
+    telemetry.recordRefill(10);
+    expect(telemetry.getReport().fuelCollected).toBe(35);
+
+    telemetry.reset();
+
+    const report = telemetry.getReport();
+    expect(report.samples).toEqual([]);
+    expect(report.fuelCollected).toBe(0);
+    expect(report.throttleDutyCycle).toBe(0);
+  });
+});
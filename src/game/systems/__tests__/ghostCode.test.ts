@@ -0,0 +1,211 @@
+/**
+ * Tests for shareable ghost codes
+ */
+
+import { createGhostRecorder, GhostFrame, GhostRun } from '../ghost';
+import {
+  buildGhostLink,
+  exportGhostCode,
+  GHOST_CODE_PREFIX,
+  GHOST_LINK_PREFIX,
+  isGhostLink,
+  isGhostPlausible,
+  parseGhostCode,
+} from '../ghostCode';
+import { bytesToBase64, encodeGhostRun } from '../ghostFormat';
+import { buildRunConfig, getTopSpeed } from '../../simulation/runConfig';
+import { createSimulation } from '../../simulation/simulation';
+
+function createGhost(overrides: Partial<GhostRun> = {}): GhostRun {
+  const frames: GhostFrame[] = [];
+  for (let i = 0; i < 100; i++) {
+    frames.push({
+      time: 50 + i * 50,
+      x: 150 + i * 25,
+      y: 400 + Math.sin(i / 5) * 20,
+      angle: Math.sin(i / 9) * 0.5,
+      isBoosting: false,
+    });
+  }
+  return {
+    id: 'ghost_1',
+    playerName: 'Personal Best',
+    vehicleId: 'jeep',
+    stageId: 'desert',
+    seed: 99,
+    distance: 45,
+    coins: 12,
+    recordedAt: 1700000000000,
+    frames,
+    frameInterval: 50,
+    ...overrides,
+  };
+}
+
+/**
+ * Ghost driving flat out at a steady speed (px per ms)
+ */
+function driveAt(speed: number): GhostRun {
+  const ghost = createGhost();
+  return {
+    ...ghost,
+    frames: ghost.frames.map((frame, i) => ({ ...frame, x: 150 + i * 50 * speed })),
+  };
+}
+
+/**
+ * Re-encode raw bytes as a ghost code
+ */
+function toCode(bytes: Uint8Array): string {
+  return (
+    GHOST_CODE_PREFIX +
+    bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+  );
+}
+
+describe('ghostCode', () => {
+  describe('export', () => {
+    it('should produce a URL-safe code', () => {
+      const code = exportGhostCode(createGhost());
+
+      expect(code.startsWith(GHOST_CODE_PREFIX)).toBe(true);
+      expect(code.slice(GHOST_CODE_PREFIX.length)).toMatch(/^[A-Za-z0-9_-]+$/);
+    });
+
+    it('should stamp the sharing player name', () => {
+      const result = parseGhostCode(exportGhostCode(createGhost(), 'Alex'));
+
+      expect(result.valid).toBe(true);
+      if (result.valid) {
+        expect(result.ghost.playerName).toBe('Alex');
+      }
+    });
+  });
+
+  describe('parse', () => {
+    it('should round-trip a code', () => {
+      const result = parseGhostCode(exportGhostCode(createGhost()));
+
+      expect(result.valid).toBe(true);
+      if (result.valid) {
+        expect(result.ghost.stageId).toBe('desert');
+        expect(result.ghost.frames).toHaveLength(100);
+        expect(result.ghost.seed).toBe(99);
+      }
+    });
+
+    it('should accept deep links and surrounding whitespace', () => {
+      const link = buildGhostLink(createGhost());
+
+      expect(link.startsWith(GHOST_LINK_PREFIX)).toBe(true);
+      expect(isGhostLink(link)).toBe(true);
+      expect(parseGhostCode(`  ${link}\n`).valid).toBe(true);
+    });
+
+    it('should reject text that is not a ghost code', () => {
+      expect(parseGhostCode('hello')).toEqual({ valid: false, reason: 'format' });
+      expect(parseGhostCode('SW-$$$$')).toEqual({ valid: false, reason: 'format' });
+    });
+
+    it('should reject damaged codes', () => {
+      const bytes = encodeGhostRun(createGhost());
+      bytes[30] ^= 0x01;
+
+      expect(parseGhostCode(toCode(bytes))).toEqual({ valid: false, reason: 'checksum' });
+    });
+
+    it('should reject other format versions', () => {
+      const bytes = encodeGhostRun(createGhost());
+      bytes[3] = 99;
+
+      expect(parseGhostCode(toCode(bytes))).toEqual({ valid: false, reason: 'version' });
+    });
+
+    it('should reject unknown stages and vehicles', () => {
+      expect(parseGhostCode(exportGhostCode(createGhost({ stageId: 'atlantis' })))).toEqual({
+        valid: false,
+        reason: 'stage',
+      });
+      expect(parseGhostCode(exportGhostCode(createGhost({ vehicleId: 'rocket' })))).toEqual({
+        valid: false,
+        reason: 'vehicle',
+      });
+    });
+
+    it('should reject ghosts without a seed', () => {
+      expect(parseGhostCode(exportGhostCode(createGhost({ seed: undefined })))).toEqual({
+        valid: false,
+        reason: 'seed',
+      });
+    });
+
+    it('should reject a sped-up ghost', () => {
+      // A drive near the jeep's top speed, then played back three times as fast
+      const realistic = driveAt(getTopSpeed('desert', 'jeep') * 0.8);
+      const spedUp = {
+        ...realistic,
+        frames: realistic.frames.map((frame) => ({ ...frame, time: frame.time / 3 })),
+      };
+
+      expect(parseGhostCode(exportGhostCode(realistic)).valid).toBe(true);
+      expect(parseGhostCode(exportGhostCode(spedUp))).toEqual({
+        valid: false,
+        reason: 'frames',
+      });
+    });
+  });
+
+  describe('isGhostPlausible', () => {
+    it('should accept a normal drive', () => {
+      expect(isGhostPlausible(createGhost())).toBe(true);
+    });
+
+    it('should accept a boosted run recorded through the simulation', () => {
+      const simulation = createSimulation(
+        buildRunConfig({
+          seed: 7,
+          stageId: 'moon',
+          vehicleId: 'super_car',
+          upgrades: { engine: 10, tires: 10, suspension: 10, fuelTank: 10 },
+          loadout: ['super_boost'],
+        })
+      );
+      const recorder = createGhostRecorder();
+      simulation.start();
+      recorder.start();
+
+      for (let i = 0; i < 300; i++) {
+        simulation.step({ gas: true, brake: false, boost: true, lean: 0 });
+        const { car, boost } = simulation.getSnapshot();
+        recorder.recordFrame(car.x, car.y, car.angle, boost.isBoosting, simulation.getTime());
+      }
+      const { distance, coins } = simulation.getSnapshot().runState.stats;
+      const ghost = recorder.stop('super_car', 'moon', distance, coins, 7);
+
+      expect(ghost.frames.some((frame) => frame.isBoosting)).toBe(true);
+      expect(isGhostPlausible(ghost)).toBe(true);
+    });
+
+    it('should accept a revive dropping the car back', () => {
+      const revived = createGhost();
+      revived.frames[50] = { ...revived.frames[50], x: 200 };
+
+      expect(isGhostPlausible(revived)).toBe(true);
+    });
+
+    it('should reject a distance the path does not cover', () => {
+      expect(isGhostPlausible(createGhost({ distance: 5000 }))).toBe(false);
+    });
+
+    it('should reject ghosts with too few frames', () => {
+      expect(isGhostPlausible(createGhost({ frames: [] }))).toBe(false);
+    });
+
+    it('should reject frames that go back in time', () => {
+      const ghost = createGhost();
+      ghost.frames[10] = { ...ghost.frames[10], time: ghost.frames[9].time };
+
+      expect(isGhostPlausible(ghost)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Tests for the binary ghost format and ghost storage migration
+ */
+
+import { compressGhostRun, decompressGhostRun, GhostFrame, GhostRun } from '../ghost';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decodeGhostRun,
+  encodeGhostRun,
+  GHOST_FORMAT_VERSION,
+  isLegacyGhostData,
+} from '../ghostFormat';
+import { loadGhostRuns } from '../ghostStore';
+
+// Mock AsyncStorage
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] || null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+}));
+
+function createGhost(frameCount: number): GhostRun {
+  const frames: GhostFrame[] = [];
+  for (let i = 0; i < frameCount; i++) {
+    frames.push({
+      time: i * 50,
+      x: 100 + i * 12.34,
+      y: 300 + Math.sin(i / 10) * 40,
+      angle: Math.sin(i / 7) * 0.8,
+      isBoosting: i % 40 > 30,
+    });
+  }
+  return {
+    id: 'ghost_1',
+    playerName: 'Personal Best',
+    vehicleId: 'jeep',
+    stageId: 'countryside',
+    seed: 123456789,
+    distance: 1234.56,
+    coins: 87,
+    recordedAt: 1700000000000,
+    frames,
+    frameInterval: 50,
+  };
+}
+
+/**
+ * Legacy JSON encoding, as written by older app versions
+ */
+function legacyCompress(ghost: GhostRun): string {
+  return JSON.stringify({
+    ...ghost,
+    frames: ghost.frames.map((f, i, arr) => {
+      const prev = i === 0 ? { time: 0, x: 0, y: 0, angle: 0 } : arr[i - 1];
+      return {
+        t: Math.round(f.time - prev.time),
+        x: Math.round(f.x - prev.x),
+        y: Math.round(f.y - prev.y),
+        a: Math.round((f.angle - prev.angle) * 100) / 100,
+        b: f.isBoosting ? 1 : 0,
+      };
+    }),
+  });
+}
+
+/**
+ * Version 2 encoding (no skin), as written by older app versions
+ */
+function encodeVersion2(ghost: GhostRun): Uint8Array {
+  const v3 = encodeGhostRun({ ...ghost, skinId: undefined });
+  // Skip the seed and the strings before the skin, then drop its empty length
+  let offset = 4;
+  while (v3[offset] >= 0x80) offset++;
+  offset++;
+  for (const value of [ghost.id, ghost.playerName, ghost.vehicleId]) {
+    offset += 1 + value.length;
+  }
+  const body = [...v3.slice(0, offset), ...v3.slice(offset + 1, v3.length - 4)];
+  body[3] = 2;
+
+  let hash = 0x811c9dc5;
+  for (const byte of body) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash >>>= 0;
+  return new Uint8Array([
+    ...body,
+    (hash >>> 24) & 0xff,
+    (hash >>> 16) & 0xff,
+    (hash >>> 8) & 0xff,
+    hash & 0xff,
+  ]);
+}
+
+describe('ghostFormat', () => {
+  describe('binary encoding', () => {
+    it('should round-trip a ghost within quantisation limits', () => {
+      const ghost = createGhost(200);
+      const decoded = decodeGhostRun(encodeGhostRun(ghost));
+
+      expect(decoded).not.toBeNull();
+      expect(decoded?.seed).toBe(ghost.seed);
+      expect(decoded?.vehicleId).toBe('jeep');
+      expect(decoded?.stageId).toBe('countryside');
+      expect(decoded?.recordedAt).toBe(ghost.recordedAt);
+      expect(decoded?.distance).toBeCloseTo(ghost.distance, 1);
+      expect(decoded?.frames).toHaveLength(200);
+
+      decoded?.frames.forEach((frame, i) => {
+        expect(frame.time).toBe(ghost.frames[i].time);
+        expect(Math.abs(frame.x - ghost.frames[i].x)).toBeLessThanOrEqual(0.05);
+        expect(Math.abs(frame.y - ghost.frames[i].y)).toBeLessThanOrEqual(0.05);
+        expect(Math.abs(frame.angle - ghost.frames[i].angle)).toBeLessThanOrEqual(0.0005);
+        expect(frame.isBoosting).toBe(ghost.frames[i].isBoosting);
+      });
+    });
+
+    it('should write the format version in the header', () => {
+      const bytes = encodeGhostRun(createGhost(5));
+      expect(bytes[3]).toBe(GHOST_FORMAT_VERSION);
+    });
+
+    it('should omit the seed when the ghost has none', () => {
+      const { seed: _seed, ...ghost } = createGhost(5);
+      const decoded = decodeGhostRun(encodeGhostRun(ghost));
+
+      expect(decoded).not.toBeNull();
+      expect(decoded?.seed).toBeUndefined();
+    });
+
+    it('should keep the vehicle skin', () => {
+      const ghost = { ...createGhost(5), skinId: 'skin_jeep_gold' };
+      const decoded = decodeGhostRun(encodeGhostRun(ghost));
+
+      expect(decoded?.skinId).toBe('skin_jeep_gold');
+      expect(decodeGhostRun(encodeGhostRun(createGhost(5)))?.skinId).toBeUndefined();
+    });
+
+    it('should still decode version 2 ghosts', () => {
+      const ghost = createGhost(20);
+      const decoded = decodeGhostRun(encodeVersion2(ghost));
+
+      expect(decoded).not.toBeNull();
+      expect(decoded?.skinId).toBeUndefined();
+      expect(decoded?.stageId).toBe('countryside');
+      expect(decoded?.frames).toHaveLength(20);
+    });
+
+    it('should reject data with a bad checksum', () => {
+      const bytes = encodeGhostRun(createGhost(20));
+      bytes[20] ^= 0xff;
+
+      expect(decodeGhostRun(bytes)).toBeNull();
+    });
+
+    it('should reject truncated data', () => {
+      const bytes = encodeGhostRun(createGhost(20));
+      expect(decodeGhostRun(bytes.slice(0, bytes.length - 10))).toBeNull();
+    });
+
+    it('should be much smaller than the legacy JSON format', () => {
+      const ghost = createGhost(1200);
+      expect(compressGhostRun(ghost).length).toBeLessThan(legacyCompress(ghost).length / 3);
+    });
+  });
+
+  describe('base64', () => {
+    it('should round-trip bytes of every padding length', () => {
+      for (const length of [0, 1, 2, 3, 4, 5]) {
+        const bytes = new Uint8Array(length).map((_, i) => (i * 97 + 13) & 0xff);
+        expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+      }
+    });
+
+    it('should reject invalid characters', () => {
+      expect(base64ToBytes('ab$d')).toBeNull();
+    });
+  });
+
+  describe('legacy compatibility', () => {
+    it('should read ghosts stored as legacy JSON', () => {
+      const ghost = createGhost(10);
+      const legacy = legacyCompress(ghost);
+
+      expect(isLegacyGhostData(legacy)).toBe(true);
+
+      const decoded = decompressGhostRun(legacy);
+      expect(decoded.frames).toHaveLength(10);
+      expect(decoded.coins).toBe(87);
+    });
+
+    it('should migrate stored legacy ghosts to the binary format', async () => {
+      const ghost = createGhost(10);
+      mockStorage['@summit_wheels_replays'] = JSON.stringify([
+        legacyCompress(ghost),
+        'not a ghost',
+      ]);
+
+      const ghosts = await loadGhostRuns();
+
+      expect(ghosts).toHaveLength(1);
+      const stored = JSON.parse(mockStorage['@summit_wheels_replays']) as string[];
+      expect(stored).toHaveLength(1);
+      expect(isLegacyGhostData(stored[0])).toBe(false);
+      expect(decompressGhostRun(stored[0]).frames).toHaveLength(10);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for ghost racing storage and sim-time recording
+ */
+
+import { createGhostPlayer, createGhostRecorder, GhostRun } from '../ghost';
+import {
+  getRaceSeed,
+  loadGhostSource,
+  loadPersonalBestGhost,
+  loadRaceGhost,
+  loadTimeTrialGhost,
+  saveGhostSource,
+  saveImportedGhost,
+  saveRunGhost,
+  saveTimeTrialGhost,
+} from '../ghostStore';
+
+// Mock AsyncStorage
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] || null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+}));
+
+function recordGhost(stageId: string, vehicleId: string, distance: number): GhostRun {
+  const recorder = createGhostRecorder();
+  recorder.start();
+  for (let tick = 0; tick <= 60; tick++) {
+    recorder.recordFrame(tick * 10, 300, 0, false, tick * (1000 / 60));
+  }
+  return recorder.stop(vehicleId, stageId, distance, 5, 42);
+}
+
+describe('ghostStore', () => {
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+  });
+
+  describe('personal bests', () => {
+    it('should keep the best run per stage and vehicle', async () => {
+      expect(await saveRunGhost(recordGhost('countryside', 'jeep', 500))).toBe(true);
+      expect(await saveRunGhost(recordGhost('countryside', 'jeep', 300))).toBe(false);
+      expect(await saveRunGhost(recordGhost('countryside', 'monster', 100))).toBe(true);
+
+      const jeepBest = await loadPersonalBestGhost('countryside', 'jeep');
+      const monsterBest = await loadPersonalBestGhost('countryside', 'monster');
+
+      expect(jeepBest?.distance).toBe(500);
+      expect(monsterBest?.distance).toBe(100);
+    });
+
+    it('should replace the best when beaten', async () => {
+      await saveRunGhost(recordGhost('countryside', 'jeep', 500));
+      await saveRunGhost(recordGhost('countryside', 'jeep', 800));
+
+      const best = await loadRaceGhost('personalBest', 'countryside', 'jeep', 42);
+      expect(best?.distance).toBe(800);
+      expect(best?.seed).toBe(42);
+    });
+  });
+
+  describe('loadRaceGhost', () => {
+    it("should return today's best for the daily source", async () => {
+      await saveRunGhost(recordGhost('countryside', 'jeep', 400));
+
+      const daily = await loadRaceGhost('dailyBest', 'countryside', 'jeep', 42);
+      expect(daily?.distance).toBe(400);
+    });
+
+    it('should only race imported ghosts on their own stage', async () => {
+      await saveImportedGhost(recordGhost('desert', 'jeep', 900));
+
+      expect(await loadRaceGhost('imported', 'desert', 'monster', 1234)).not.toBeNull();
+      expect(await loadRaceGhost('imported', 'countryside', 'jeep', 1234)).toBeNull();
+    });
+
+    it('should keep a fresh seed for free runs with a stored personal best', async () => {
+      await saveRunGhost(recordGhost('countryside', 'jeep', 400));
+
+      const ghost = await loadRaceGhost('personalBest', 'countryside', 'jeep', 1234);
+      expect(ghost).toBeNull();
+      expect(getRaceSeed(ghost, 1234)).toBe(1234);
+
+      // The best is raced when the run is on its terrain
+      expect(await loadRaceGhost('personalBest', 'countryside', 'jeep', 42)).not.toBeNull();
+    });
+
+    it('should move free runs onto the terrain of an imported ghost', async () => {
+      await saveImportedGhost(recordGhost('countryside', 'jeep', 400));
+
+      const ghost = await loadRaceGhost('imported', 'countryside', 'jeep', 1234);
+      expect(getRaceSeed(ghost, 1234)).toBe(42);
+
+      // Fixed-seed runs only race ghosts from their own terrain
+      expect(await loadRaceGhost('imported', 'countryside', 'jeep', 1234, true)).toBeNull();
+      expect(await loadRaceGhost('imported', 'countryside', 'jeep', 42, true)).not.toBeNull();
+    });
+
+    it('should not race ghosts without a seed', async () => {
+      await saveImportedGhost({ ...recordGhost('countryside', 'jeep', 400), seed: undefined });
+      expect(await loadRaceGhost('imported', 'countryside', 'jeep', 1234)).toBeNull();
+    });
+
+    it('should return nothing when ghosts are off', async () => {
+      await saveRunGhost(recordGhost('countryside', 'jeep', 400));
+      expect(await loadRaceGhost('none', 'countryside', 'jeep', 42)).toBeNull();
+    });
+  });
+
+  describe('ghost source setting', () => {
+    it('should default to the personal best and persist changes', async () => {
+      expect(await loadGhostSource()).toBe('personalBest');
+
+      await saveGhostSource('dailyBest');
+      expect(await loadGhostSource()).toBe('dailyBest');
+    });
+  });
+
+  describe('time trials', () => {
+    it('should keep the fastest finish per course and vehicle', async () => {
+      const save = (finishTime: number) =>
+        saveTimeTrialGhost('countryside_meadow', recordGhost('countryside', 'jeep', 1000), finishTime);
+
+      expect(await save(95000)).toBe(true);
+      expect(await save(97000)).toBe(false);
+      expect(await save(91000)).toBe(true);
+
+      expect((await loadTimeTrialGhost('countryside_meadow', 'jeep'))?.finishTime).toBe(91000);
+      expect(await loadTimeTrialGhost('countryside_meadow', 'tank')).toBeNull();
+      expect(await loadTimeTrialGhost('countryside_valley', 'jeep')).toBeNull();
+    });
+  });
+
+  describe('sim-time recording', () => {
+    it('should record frames on the supplied clock', () => {
+      const ghost = recordGhost('countryside', 'jeep', 100);
+
+      expect(ghost.frames.length).toBeGreaterThan(10);
+      ghost.frames.forEach((frame) => {
+        expect(frame.x / 10).toBeCloseTo(frame.time / (1000 / 60), 5);
+      });
+    });
+
+    it('should report the player ahead when reaching a point sooner', () => {
+      const player = createGhostPlayer();
+      player.start(recordGhost('countryside', 'jeep', 100));
+
+      // Player is at x=400 after 0.5s; the ghost got there at ~0.67s
+      player.update(500, 400);
+      const state = player.getState();
+
+      expect(state.distanceDelta).toBeLessThan(0);
+      expect(state.timeDelta).toBeGreaterThan(0);
+    });
+
+    it('should tell when the ghost reached a point', () => {
+      const player = createGhostPlayer();
+      expect(player.getTimeAtX(100)).toBeNull(); // No ghost
+
+      player.start(recordGhost('countryside', 'jeep', 100));
+
+      // The ghost moves 10px per tick
+      expect(player.getTimeAtX(400)).toBeCloseTo(40 * (1000 / 60), 5);
+      expect(player.getTimeAtX(5000)).toBeNull(); // Never got there
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for lean buttons, tilt mapping and the lean control setting
+ */
+
+import {
+  combineLean,
+  DEFAULT_LEAN_CONTROL_MODE,
+  loadLeanControlMode,
+  saveLeanControlMode,
+  tiltToLean,
+} from '../leanControl';
+
+// Mock AsyncStorage
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] || null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+}));
+
+describe('Lean control', () => {
+  describe('tiltToLean', () => {
+    it('should ignore tilt inside the deadzone', () => {
+      expect(tiltToLean(0)).toBe(0);
+      expect(tiltToLean(0.1)).toBe(0);
+      expect(tiltToLean(-0.1)).toBe(0);
+    });
+
+    it('should lean forward when tilted right and back when tilted left', () => {
+      expect(tiltToLean(0.4)).toBe(1);
+      expect(tiltToLean(-0.4)).toBe(-1);
+    });
+
+    it('should flip the axis when inverted', () => {
+      expect(tiltToLean(0.4, { invert: true })).toBe(-1);
+    });
+
+    it('should respect a custom deadzone', () => {
+      expect(tiltToLean(0.4, { deadzone: 0.5 })).toBe(0);
+    });
+  });
+
+  describe('combineLean', () => {
+    it('should prefer held buttons over tilt', () => {
+      expect(combineLean(true, false, 1)).toBe(-1);
+      expect(combineLean(false, true, -1)).toBe(1);
+    });
+
+    it('should cancel out when both buttons are held', () => {
+      expect(combineLean(true, true, 1)).toBe(0);
+    });
+
+    it('should fall back to tilt without buttons', () => {
+      expect(combineLean(false, false, -1)).toBe(-1);
+    });
+  });
+
+  describe('mode setting', () => {
+    it('should default to buttons and persist changes', async () => {
+      expect(await loadLeanControlMode()).toBe(DEFAULT_LEAN_CONTROL_MODE);
+
+      await saveLeanControlMode('tilt');
+      expect(await loadLeanControlMode()).toBe('tilt');
+    });
+  });
+});
@@ -6,6 +6,7 @@ import {
   createParticleSystem,
   ParticleSystem,
   getParticleStyle,
+  TrailStyle,
 } from '../particles';
 
 describe('ParticleSystem', () => {
@@ -51,6 +52,67 @@ describe('ParticleSystem', () => {
     });
   });
 
+  describe('emitDebris', () => {
+    it('should throw more debris for bigger hits', () => {
+      const small = createParticleSystem();
+      small.emitDebris(100, 200, 3);
+      const big = createParticleSystem();
+      big.emitDebris(100, 200, 20);
+
+      expect(small.getParticles().every((p) => p.type === 'debris')).toBe(true);
+      expect(big.getParticles().length).toBeGreaterThan(small.getParticles().length);
+      expect(big.getParticles().some((p) => p.type === 'smoke')).toBe(true);
+    });
+  });
+
+  describe('emitSurfaceSpray', () => {
+    it('should splatter mud and sparkle on ice', () => {
+      const mud = createParticleSystem();
+      mud.emitSurfaceSpray(100, 200, 2, 'mud');
+      const ice = createParticleSystem();
+      ice.emitSurfaceSpray(100, 200, 2, 'ice');
+
+      expect(mud.getParticles().length).toBeGreaterThan(0);
+      expect(mud.getParticles().every((p) => p.type === 'mud')).toBe(true);
+      expect(ice.getParticles().length).toBeGreaterThan(0);
+      expect(ice.getParticles().every((p) => p.type === 'sparkle')).toBe(true);
+    });
+
+    it('should throw particles back and up', () => {
+      particleSystem.emitSurfaceSpray(100, 200, 2, 'gravel');
+
+      particleSystem.getParticles().forEach((p) => {
+        expect(p.vx).toBeLessThanOrEqual(0);
+        expect(p.vy).toBeLessThanOrEqual(0);
+      });
+    });
+  });
+
+  describe('emitTrail', () => {
+    const style: TrailStyle = {
+      colors: ['#FF4500', '#FFD700'],
+      density: 4,
+      size: { min: 4, max: 8 },
+      lift: 1,
+      maxLifetime: 400,
+    };
+
+    it('should emit trail particles in the style colors', () => {
+      particleSystem.emitTrail(100, 200, 1, style);
+
+      const particles = particleSystem.getParticles();
+      expect(particles).toHaveLength(4);
+      expect(particles.every((p) => p.type === 'trail')).toBe(true);
+      expect(particles.every((p) => style.colors.includes(p.color))).toBe(true);
+    });
+
+    it('should always leave at least one particle at low speed', () => {
+      particleSystem.emitTrail(100, 200, 0.05, style);
+
+      expect(particleSystem.getParticles()).toHaveLength(1);
+    });
+  });
+
   describe('emitSparkle', () => {
     it('should emit sparkle particles', () => {
       particleSystem.emitSparkle(100, 200);
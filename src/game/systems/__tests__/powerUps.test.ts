@@ -0,0 +1,79 @@
+/**
+ * Tests for the Power-Up System
+ */
+
+import { createPowerUpSystem, DEFAULT_POWER_UP_CONFIG, isTimedPowerUp } from '../powerUps';
+
+describe('PowerUpSystem', () => {
+  it('should run timed power-ups for their duration', () => {
+    const system = createPowerUpSystem({
+      durations: { magnet: 1000, doubleCoins: 2000, slowMotion: 500 },
+    });
+    system.collect('magnet');
+    system.collect('doubleCoins');
+
+    system.update(600);
+    expect(system.isActive('magnet')).toBe(true);
+    expect(system.getState().active).toEqual([
+      { type: 'magnet', remaining: 400, duration: 1000 },
+      { type: 'doubleCoins', remaining: 1400, duration: 2000 },
+    ]);
+
+    system.update(400);
+    expect(system.isActive('magnet')).toBe(false);
+    expect(system.isActive('doubleCoins')).toBe(true);
+  });
+
+  it('should restart the timer when collected again', () => {
+    const system = createPowerUpSystem();
+    system.collect('magnet');
+    system.update(5000);
+
+    system.collect('magnet');
+
+    const { active } = system.getState();
+    expect(active).toHaveLength(1);
+    expect(active[0].remaining).toBe(DEFAULT_POWER_UP_CONFIG.durations.magnet);
+  });
+
+  it('should slow the world only during slow motion', () => {
+    const system = createPowerUpSystem({ slowMotionScale: 0.4 });
+    expect(system.getTimeScale()).toBe(1);
+
+    system.collect('slowMotion');
+    expect(system.getTimeScale()).toBe(0.4);
+
+    system.update(DEFAULT_POWER_UP_CONFIG.durations.slowMotion);
+    expect(system.getTimeScale()).toBe(1);
+  });
+
+  it('should hold one shield until a crash spends it', () => {
+    const system = createPowerUpSystem();
+    expect(system.useShield()).toBe(false);
+
+    system.collect('shield');
+    system.collect('shield');
+    expect(system.getState().hasShield).toBe(true);
+
+    expect(system.useShield()).toBe(true);
+    expect(system.useShield()).toBe(false);
+  });
+
+  it('should leave nitro to the boost system', () => {
+    const system = createPowerUpSystem();
+    system.collect('nitro');
+
+    expect(isTimedPowerUp('nitro')).toBe(false);
+    expect(system.getState()).toEqual({ active: [], hasShield: false });
+  });
+
+  it('should clear everything on reset', () => {
+    const system = createPowerUpSystem();
+    system.collect('shield');
+    system.collect('doubleCoins');
+
+    system.reset();
+
+    expect(system.getState()).toEqual({ active: [], hasShield: false });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for paying for revives
+ */
+
+import { createReviveSystem, DEFAULT_REVIVE_CONFIG } from '../revive';
+import { AdService } from '../../../ads/AdService';
+import { EntitlementService } from '../../../services/EntitlementService';
+
+const mockProgress = { coins: 500 };
+const mockSpendCoins = jest.fn((amount: number) => {
+  if (mockProgress.coins < amount) return Promise.resolve(false);
+  mockProgress.coins -= amount;
+  return Promise.resolve(true);
+});
+jest.mock('../../progression/upgrades', () => ({
+  getProgressionManager: () => ({
+    getProgress: () => ({ ...mockProgress }),
+    spendCoins: mockSpendCoins,
+  }),
+}));
+
+jest.mock('../../../ads/AdService', () => ({
+  AdService: {
+    isRewardedReady: jest.fn(() => true),
+    showRewarded: jest.fn((onRewarded: () => void) => {
+      onRewarded();
+      return Promise.resolve({ completed: true, reward: true });
+    }),
+  },
+}));
+
+jest.mock('../../../services/EntitlementService', () => ({
+  EntitlementService: { hasSummitPass: jest.fn(() => false) },
+}));
+
+describe('ReviveSystem', () => {
+  beforeEach(() => {
+    mockProgress.coins = 500;
+    jest.clearAllMocks();
+  });
+
+  it('should raise the coin price with each revive', () => {
+    const system = createReviveSystem();
+
+    expect(system.getCoinCost(0)).toBe(DEFAULT_REVIVE_CONFIG.coinCost);
+    expect(system.getCoinCost(1)).toBe(
+      DEFAULT_REVIVE_CONFIG.coinCost * DEFAULT_REVIVE_CONFIG.costGrowth
+    );
+  });
+
+  it('should offer coins and ads, and nothing once revives run out', () => {
+    const system = createReviveSystem({ coinCost: 600 });
+
+    const options = system.getOptions(0, 1);
+    expect(options.map((o) => o.payment)).toEqual(['coins', 'ad']);
+    expect(options[0]).toEqual({ payment: 'coins', cost: 600, available: false });
+    expect(options[1].available).toBe(true);
+
+    expect(system.getOptions(2, 0)).toEqual([]);
+  });
+
+  it('should spend coins for a revive', async () => {
+    const system = createReviveSystem();
+
+    expect(await system.pay('coins', 0)).toBe(true);
+    expect(mockSpendCoins).toHaveBeenCalledWith(DEFAULT_REVIVE_CONFIG.coinCost, 'revive');
+    expect(mockProgress.coins).toBe(500 - DEFAULT_REVIVE_CONFIG.coinCost);
+
+    expect(await system.pay('coins', 2)).toBe(false);
+  });
+
+  it('should revive after a watched rewarded ad', async () => {
+    const system = createReviveSystem();
+
+    expect(await system.pay('ad', 0)).toBe(true);
+    expect(AdService.showRewarded).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not revive when the ad is not watched', async () => {
+    (AdService.showRewarded as jest.Mock).mockResolvedValueOnce({
+      completed: false,
+      error: 'Ad not loaded',
+    });
+    const system = createReviveSystem();
+
+    expect(await system.pay('ad', 0)).toBe(false);
+  });
+
+  it('should give Summit Pass holders a free revive per run', async () => {
+    (EntitlementService.hasSummitPass as jest.Mock).mockReturnValue(true);
+    const system = createReviveSystem();
+
+    expect(system.getOptions(0, 2)[0]).toEqual({
+      payment: 'summitPass',
+      cost: 0,
+      available: true,
+    });
+    expect(await system.pay('summitPass', 0)).toBe(true);
+    expect(await system.pay('summitPass', 1)).toBe(false);
+    expect(system.getOptions(1, 1).map((o) => o.payment)).not.toContain('summitPass');
+
+    system.reset();
+    expect(await system.pay('summitPass', 0)).toBe(true);
+  });
+
+  it('should not offer the pass perk without the pass', async () => {
+    (EntitlementService.hasSummitPass as jest.Mock).mockReturnValue(false);
+    const system = createReviveSystem();
+
+    expect(system.getOptions(0, 2).map((o) => o.payment)).not.toContain('summitPass');
+    expect(await system.pay('summitPass', 0)).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for time trial splits and timing
+ */
+
+import {
+  createTimeTrial,
+  formatRaceTime,
+  formatSplitDelta,
+  getCountdownLabel,
+} from '../timeTrial';
+
+const TICK_MS = 1000 / 60;
+
+describe('TimeTrial', () => {
+  describe('split marks', () => {
+    it('should split every interval and at the finish line', () => {
+      expect(createTimeTrial(1000).getSplitMarks()).toEqual([250, 500, 750, 1000]);
+      expect(createTimeTrial(600, { splitInterval: 250 }).getSplitMarks()).toEqual([
+        250, 500, 600,
+      ]);
+    });
+  });
+
+  describe('timing', () => {
+    it('should time a split between the ticks either side of the mark', () => {
+      const trial = createTimeTrial(1000);
+      trial.update(249, 10 * TICK_MS);
+
+      const [split] = trial.update(251, 11 * TICK_MS);
+
+      expect(split.index).toBe(1);
+      expect(split.distance).toBe(250);
+      expect(split.time).toBeCloseTo(10.5 * TICK_MS, 6);
+      expect(split.delta).toBeNull();
+    });
+
+    it('should compare each split with the best time at the mark', () => {
+      const trial = createTimeTrial(500);
+      trial.update(240, 30000);
+
+      const [split] = trial.update(260, 31000, (distance) => distance * 130);
+
+      expect(split.time).toBe(30500);
+      expect(split.delta).toBe(30500 - 250 * 130);
+    });
+
+    it('should take every split passed in one update', () => {
+      const trial = createTimeTrial(1000);
+
+      expect(trial.update(510, 1000).map((s) => s.distance)).toEqual([250, 500]);
+      expect(trial.getState().nextSplit).toBe(750);
+    });
+
+    it('should record the finish time at the last mark', () => {
+      const trial = createTimeTrial(500);
+      trial.update(499.5, 60000);
+      expect(trial.getState().finishTime).toBeNull();
+
+      trial.update(500.5, 60000 + TICK_MS);
+
+      const state = trial.getState();
+      expect(state.finishTime).toBeCloseTo(60000 + TICK_MS / 2, 6);
+      expect(state.nextSplit).toBeNull();
+      expect(state.splits).toHaveLength(2);
+    });
+
+    it('should start over on reset', () => {
+      const trial = createTimeTrial(500);
+      trial.update(600, 1000);
+
+      trial.reset();
+
+      expect(trial.getState().splits).toEqual([]);
+      expect(trial.getState().nextSplit).toBe(250);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should show race times to the millisecond', () => {
+      expect(formatRaceTime(0)).toBe('0:00.000');
+      expect(formatRaceTime(83456.4)).toBe('1:23.456');
+    });
+
+    it('should sign split deltas', () => {
+      expect(formatSplitDelta(-512)).toBe('-0.512');
+      expect(formatSplitDelta(1204)).toBe('+1.204');
+    });
+
+    it('should count down whole seconds to the start', () => {
+      expect(getCountdownLabel(3000)).toBe('3');
+      expect(getCountdownLabel(1000)).toBe('1');
+      expect(getCountdownLabel(0)).toBeNull();
+    });
+  });
+});
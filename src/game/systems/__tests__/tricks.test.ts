@@ -130,6 +130,62 @@ describe('TrickSystem', () => {
     });
   });
 
+  describe('controlled flips', () => {
+    /**
+     * Spin through a little over one flip, leaning the given way
+     */
+    const spin = (direction: 1 | -1, lean: number) => {
+      trickSystem.update(false, 0, 0, 0);
+      const steps = 70;
+      const angleStep = (Math.PI * 2.1) / steps;
+      for (let i = 1; i <= steps; i++) {
+        trickSystem.update(false, direction * i * angleStep, 0, i * 10, lean);
+      }
+      return trickSystem.update(true, direction * Math.PI * 2.1, 5, 1000);
+    };
+
+    it('should score a backflip leaned back into as controlled', () => {
+      const tricks = spin(-1, -1);
+
+      expect(tricks.some((t) => t.type === 'backflip')).toBe(true);
+      expect(tricks.find((t) => t.type === 'controlledFlip')?.value).toBe(
+        DEFAULT_TRICK_CONFIG.controlledFlipPoints
+      );
+    });
+
+    it('should score a frontflip leaned forward into as controlled', () => {
+      const tricks = spin(1, 1);
+
+      expect(tricks.some((t) => t.type === 'controlledFlip')).toBe(true);
+    });
+
+    it('should not score a flip made without leaning', () => {
+      const tricks = spin(1, 0);
+
+      expect(tricks.some((t) => t.type === 'frontflip')).toBe(true);
+      expect(tricks.some((t) => t.type === 'controlledFlip')).toBe(false);
+    });
+
+    it('should not score a flip leaned against', () => {
+      const tricks = spin(1, -1);
+
+      expect(tricks.some((t) => t.type === 'controlledFlip')).toBe(false);
+    });
+
+    it('should not count a short lean as controlled', () => {
+      trickSystem.update(false, 0, 0, 0);
+      const steps = 70;
+      const angleStep = (Math.PI * 2.1) / steps;
+      for (let i = 1; i <= steps; i++) {
+        // Only lean through the first third of the flip
+        trickSystem.update(false, i * angleStep, 0, i * 10, i <= 23 ? 1 : 0);
+      }
+      const tricks = trickSystem.update(true, Math.PI * 2.1, 5, 1000);
+
+      expect(tricks.some((t) => t.type === 'controlledFlip')).toBe(false);
+    });
+  });
+
   describe('air time bonus', () => {
     it('should award air time bonus for long jumps', () => {
       const startTime = 0;
@@ -0,0 +1,126 @@
+/**
+ * Tests for weather gameplay conditions
+ */
+
+import {
+  createWeatherConditions,
+  DEFAULT_WEATHER_EFFECTS_CONFIG,
+  getSurfaceSlope,
+} from '../weather';
+import { createSimulation, NEUTRAL_INPUT } from '../../simulation/simulation';
+
+const STEEP = 0.6;
+const FLAT = 0;
+
+describe('weather conditions', () => {
+  describe('intensity', () => {
+    it('should be the same for the same seed', () => {
+      const a = createWeatherConditions('rain', 42);
+      const b = createWeatherConditions('rain', 42);
+
+      for (let x = 0; x < 10000; x += 700) {
+        expect(a.getIntensityAt(x)).toBe(b.getIntensityAt(x));
+      }
+    });
+
+    it('should vary over distance within range', () => {
+      const weather = createWeatherConditions('snow', 7);
+      const samples: number[] = [];
+      for (let x = 0; x < 30000; x += 500) {
+        samples.push(weather.getIntensityAt(x));
+      }
+
+      expect(new Set(samples.map((v) => v.toFixed(3))).size).toBeGreaterThan(10);
+      samples.forEach((value) => {
+        expect(value).toBeGreaterThanOrEqual(DEFAULT_WEATHER_EFFECTS_CONFIG.minIntensity);
+        expect(value).toBeLessThanOrEqual(1);
+      });
+    });
+
+    it('should change smoothly', () => {
+      const weather = createWeatherConditions('sandstorm', 3);
+
+      for (let x = 0; x < 10000; x += 50) {
+        const change = Math.abs(weather.getIntensityAt(x + 10) - weather.getIntensityAt(x));
+        expect(change).toBeLessThan(0.02);
+      }
+    });
+
+    it('should be zero without weather', () => {
+      expect(createWeatherConditions('none', 1).getIntensityAt(5000)).toBe(0);
+    });
+  });
+
+  describe('effects', () => {
+    it('should make rain slippery everywhere', () => {
+      const rain = createWeatherConditions('rain', 1);
+
+      expect(rain.getFrictionScale(2000, FLAT)).toBeLessThan(1);
+      expect(rain.getHeadwind(2000)).toBe(0);
+    });
+
+    it('should settle snow only on steep ground', () => {
+      const snow = createWeatherConditions('snow', 1);
+
+      expect(snow.getSnowDepth(2000, FLAT)).toBe(0);
+      expect(snow.getFrictionScale(2000, FLAT)).toBe(1);
+      expect(snow.getSnowDepth(2000, STEEP)).toBeGreaterThan(0);
+      expect(snow.getFrictionScale(2000, -STEEP)).toBeLessThan(1);
+    });
+
+    it('should blow a headwind and cut visibility in a sandstorm', () => {
+      const sandstorm = createWeatherConditions('sandstorm', 1);
+      const { max, min } = DEFAULT_WEATHER_EFFECTS_CONFIG.sandstormVisibility;
+
+      expect(sandstorm.getHeadwind(2000)).toBeGreaterThan(0);
+      expect(sandstorm.getVisibility(2000)).toBeLessThan(max);
+      expect(sandstorm.getVisibility(2000)).toBeGreaterThanOrEqual(min);
+      expect(createWeatherConditions('rain', 1).getVisibility(2000)).toBeNull();
+    });
+
+    it('should obscure pickups in ash', () => {
+      expect(createWeatherConditions('ash', 1).getPickupOpacity(2000)).toBeLessThan(1);
+      expect(createWeatherConditions('snow', 1).getPickupOpacity(2000)).toBe(1);
+    });
+  });
+
+  describe('getSurfaceSlope', () => {
+    it('should find the steepest rise along the surface', () => {
+      const surface = [
+        { x: 0, y: 100 },
+        { x: 50, y: 90 },
+        { x: 100, y: 50 },
+        { x: 100, y: 300 },
+        { x: 0, y: 300 },
+      ];
+
+      expect(getSurfaceSlope(surface)).toBeCloseTo(0.8);
+    });
+  });
+
+  describe('in the simulation', () => {
+    it('should lower ground friction in the rain', () => {
+      const dry = createSimulation({ seed: 9 });
+      const wet = createSimulation({ seed: 9, weather: 'rain' });
+
+      dry.getSegments().forEach((segment, i) => {
+        expect(wet.getSegments()[i].body.friction).toBeLessThan(segment.body.friction);
+      });
+    });
+
+    it('should push the car back in a sandstorm', () => {
+      const calm = createSimulation({ seed: 9 });
+      const storm = createSimulation({ seed: 9, weather: 'sandstorm' });
+      calm.start();
+      storm.start();
+
+      for (let i = 0; i < 60; i++) {
+        calm.step(NEUTRAL_INPUT);
+        storm.step(NEUTRAL_INPUT);
+      }
+
+      expect(storm.getSnapshot().car.x).toBeLessThan(calm.getSnapshot().car.x);
+      expect(storm.getSnapshot().weatherIntensity).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Tests for the weekly quest board
+ */
+
+import {
+  createQuestTracker,
+  formatQuestValue,
+  generateQuest,
+  generateQuestBoard,
+  getWeekEndTime,
+  getWeekId,
+  QUEST_BOARD_CONFIG,
+  WeeklyQuest,
+} from '../weeklyQuests';
+import { QuestBoardSystem } from '../../../systems/QuestBoardSystem';
+import { SeasonPassSystem } from '../../../systems/SeasonPassSystem';
+import {
+  getProgressionManager,
+  resetProgressionManagerSingleton,
+} from '../../progression/upgrades';
+
+// Mock AsyncStorage
+const mockStorage: Record<string, string> = {};
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] || null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    delete mockStorage[key];
+    return Promise.resolve();
+  }),
+}));
+
+const WEEK = 'week_2026-10-19';
+
+function makeQuest(overrides: Partial<WeeklyQuest>): WeeklyQuest {
+  return {
+    id: 'quest',
+    slot: 0,
+    track: 'free',
+    goal: 'distance',
+    trick: null,
+    stageId: null,
+    vehicleId: null,
+    target: 1000,
+    rewardXP: 100,
+    rewardCoins: 250,
+    description: '',
+    ...overrides,
+  };
+}
+
+describe('Weekly quests', () => {
+  describe('generation', () => {
+    it('should start weeks on Monday (UTC)', () => {
+      expect(getWeekId(new Date('2026-10-19T00:00:00Z'))).toBe(WEEK);
+      expect(getWeekId(new Date('2026-10-25T23:59:59Z'))).toBe(WEEK);
+      expect(getWeekId(new Date('2026-10-26T00:00:00Z'))).toBe('week_2026-10-26');
+      expect(getWeekEndTime(WEEK)).toBe(Date.parse('2026-10-26T00:00:00Z'));
+    });
+
+    it('should give everyone the same board each week', () => {
+      const board = generateQuestBoard(WEEK);
+
+      expect(generateQuestBoard(WEEK)).toEqual(board);
+      expect(generateQuestBoard('week_2026-10-26')).not.toEqual(board);
+      expect(board.map((quest) => quest.track)).toEqual([
+        ...Array(QUEST_BOARD_CONFIG.freeSlots).fill('free'),
+        ...Array(QUEST_BOARD_CONFIG.premiumSlots).fill('premium'),
+      ]);
+    });
+
+    it('should only change the rerolled slot', () => {
+      const board = generateQuestBoard(WEEK);
+      const rerolled = generateQuestBoard(WEEK, [0, 1]);
+
+      expect(rerolled[0]).toEqual(board[0]);
+      expect(rerolled[1]).toEqual(generateQuest(WEEK, 1, 1, 'free'));
+      expect(rerolled[1].id).not.toBe(board[1].id);
+    });
+
+    it('should describe quests from their goal and restrictions', () => {
+      for (let reroll = 0; reroll < 50; reroll++) {
+        const quest = generateQuest(WEEK, 0, reroll, 'free');
+        expect(quest.description).toContain(formatQuestValue(quest.goal, quest.target));
+        expect(quest.stageId !== null && quest.vehicleId !== null).toBe(false);
+      }
+      expect(formatQuestValue('distance', 5000)).toBe('5 km');
+      expect(formatQuestValue('distance', 2500)).toBe('2.5 km');
+    });
+  });
+
+  describe('tracker', () => {
+    it('should only count runs that meet a quest', () => {
+      const backflips = makeQuest({
+        id: 'backflips',
+        goal: 'tricks',
+        trick: 'backflip',
+        stageId: 'arctic',
+      });
+      const anyTricks = makeQuest({ id: 'tricks', goal: 'tricks' });
+      const buggyDistance = makeQuest({ id: 'buggy', goal: 'distance', vehicleId: 'dune_buggy' });
+      const runs = makeQuest({ id: 'runs', goal: 'runs' });
+      const tracker = createQuestTracker([backflips, anyTricks, buggyDistance, runs]);
+
+      tracker.handle({ type: 'runStart', stageId: 'arctic', vehicleId: 'jeep', vehiclesOwned: 1 });
+      tracker.handle({ type: 'trick', trick: 'backflip' });
+      tracker.handle({ type: 'trick', trick: 'frontflip' });
+      tracker.handle({ type: 'distance', meters: 50 });
+      tracker.handle({ type: 'runEnd', distance: 80, coins: 0 });
+
+      expect(tracker.getRunProgress()).toEqual({ backflips: 1, tricks: 2, runs: 1 });
+    });
+
+    it('should count the whole distance of a run', () => {
+      const distance = makeQuest({ id: 'distance' });
+      const tracker = createQuestTracker([distance]);
+
+      tracker.handle({ type: 'runStart', stageId: 'desert', vehicleId: 'jeep', vehiclesOwned: 1 });
+      tracker.handle({ type: 'distance', meters: 50 });
+      tracker.handle({ type: 'distance', meters: 100 });
+      tracker.handle({ type: 'runEnd', distance: 137, coins: 0 });
+
+      expect(tracker.getRunProgress()).toEqual({ distance: 137 });
+    });
+
+    it('should tell the progress of a run ending now without ending it', () => {
+      const distance = makeQuest({ id: 'distance' });
+      const runs = makeQuest({ id: 'runs', goal: 'runs' });
+      const tracker = createQuestTracker([distance, runs]);
+
+      tracker.handle({ type: 'runStart', stageId: 'desert', vehicleId: 'jeep', vehiclesOwned: 1 });
+      tracker.handle({ type: 'distance', meters: 100 });
+
+      expect(tracker.getEndProgress(137)).toEqual({ distance: 137, runs: 1 });
+      expect(tracker.getRunProgress()).toEqual({ distance: 100 });
+    });
+  });
+
+  describe('QuestBoardSystem', () => {
+    beforeEach(async () => {
+      Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+      jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2026-10-20T12:00:00Z'));
+      resetProgressionManagerSingleton();
+      await getProgressionManager().load();
+      await SeasonPassSystem.reset();
+      await QuestBoardSystem.reset();
+      await QuestBoardSystem.load();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should lock premium quests without the premium pass', async () => {
+      const board = QuestBoardSystem.getBoard();
+      const premium = board.filter((entry) => entry.quest.track === 'premium');
+      expect(premium.every((entry) => entry.locked)).toBe(true);
+      expect(QuestBoardSystem.getActiveQuests()).toHaveLength(QUEST_BOARD_CONFIG.freeSlots);
+
+      await SeasonPassSystem.upgradeToPremium();
+      expect(QuestBoardSystem.getActiveQuests()).toHaveLength(
+        QUEST_BOARD_CONFIG.freeSlots + QUEST_BOARD_CONFIG.premiumSlots
+      );
+    });
+
+    it('should pay season XP and coins once a quest is complete', async () => {
+      const [quest] = QuestBoardSystem.getQuests();
+
+      expect(await QuestBoardSystem.recordRun({ [quest.id]: quest.target - 1 })).toEqual([]);
+      expect(await QuestBoardSystem.recordRun({ [quest.id]: quest.target })).toEqual([quest]);
+      expect(await QuestBoardSystem.recordRun({ [quest.id]: quest.target })).toEqual([]);
+
+      expect(QuestBoardSystem.getBoard()[0]).toMatchObject({
+        progress: quest.target,
+        completed: true,
+      });
+      expect(getProgressionManager().getProgress().coins).toBe(quest.rewardCoins);
+      expect(SeasonPassSystem.getState()?.totalXPEarned).toBe(quest.rewardXP);
+    });
+
+    it('should limit rerolls each week', async () => {
+      const premiumSlot = QUEST_BOARD_CONFIG.freeSlots;
+      expect(await QuestBoardSystem.reroll(premiumSlot)).toBe(false);
+
+      for (let i = 0; i < QUEST_BOARD_CONFIG.rerollsPerWeek; i++) {
+        expect(await QuestBoardSystem.reroll(0)).toBe(true);
+      }
+      expect(await QuestBoardSystem.reroll(1)).toBe(false);
+      expect(QuestBoardSystem.getRerollsLeft()).toBe(0);
+
+      // A new week brings a new board and new rerolls
+      jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2026-10-27T12:00:00Z'));
+      await QuestBoardSystem.load();
+      expect(QuestBoardSystem.getState().weekId).toBe('week_2026-10-26');
+      expect(QuestBoardSystem.getRerollsLeft()).toBe(QUEST_BOARD_CONFIG.rerollsPerWeek);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Achievement Store - Persist achievement progress and pay rewards
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getProgressionManager } from '../progression/upgrades';
+import { AchievementProgress, AchievementSystem } from './achievements';
+
+const STORAGE_KEY = '@summit_wheels_achievements';
+
+export type StoredAchievements = {
+  progress: Record<string, AchievementProgress>;
+  /** Stages played on (for the explorer achievement) */
+  visitedStages: string[];
+};
+
+/**
+ * Load stored achievement progress
+ */
+export async function loadAchievements(): Promise<StoredAchievements> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const data = JSON.parse(stored) as Partial<StoredAchievements>;
+      return {
+        progress: data.progress ?? {},
+        visitedStages: data.visitedStages ?? [],
+      };
+    }
+  } catch (error) {
+    console.warn('Failed to load achievements:', error);
+  }
+  return { progress: {}, visitedStages: [] };
+}
+
+/**
+ * Save achievement progress
+ */
+export async function saveAchievements(
+  system: AchievementSystem,
+  visitedStages: string[]
+): Promise<void> {
+  const data: StoredAchievements = {
+    progress: system.exportProgress(),
+    visitedStages,
+  };
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.warn('Failed to save achievements:', error);
+  }
+}
+
+/**
+ * Claim an unlocked achievement's reward and pay it into the wallet
+ * (returns the coins paid, 0 if nothing was claimable)
+ */
+export async function payAchievementReward(
+  system: AchievementSystem,
+  achievementId: string
+): Promise<number> {
+  const reward = system.claimReward(achievementId);
+  if (!reward || reward.coins <= 0) return 0;
+
+  await getProgressionManager().addCoins(reward.coins, 'achievement', achievementId);
+  return reward.coins;
+}
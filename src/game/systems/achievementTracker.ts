@@ -0,0 +1,133 @@
+/**
+ * Achievement Tracker - Evaluate achievements from run events
+ *
+ * Listens to the run event bus and moves achievement progress as the
+ * run happens, so unlocks can be celebrated the moment they occur.
+ * Single-run goals keep their best value; lifetime goals accumulate.
+ */
+
+import { RunEvent } from '../simulation/runEvents';
+import { Achievement, AchievementSystem } from './achievements';
+import { TrickType } from './tricks';
+
+const DISTANCE_ACHIEVEMENTS = [
+  'first_steps',
+  'getting_there',
+  'road_warrior',
+  'marathon',
+  'summit_seeker',
+  'legend',
+];
+const FLIP_ACHIEVEMENTS = ['first_flip', 'stunt_driver', 'acrobat'];
+const COMBO_ACHIEVEMENTS = ['combo_master', 'legendary_combo'];
+const COIN_ACHIEVEMENTS = ['coin_collector', 'treasure_hunter', 'millionaire'];
+const RUN_COUNT_ACHIEVEMENTS = ['first_run', 'dedicated', 'completionist'];
+
+/**
+ * Flips each trick counts for
+ */
+const FLIP_COUNTS: Partial<Record<TrickType, number>> = {
+  flip: 1,
+  backflip: 1,
+  frontflip: 1,
+  doubleFlip: 2,
+};
+
+export type AchievementTrackerOptions = {
+  /** Stages already played on (for the explorer achievement) */
+  visitedStages?: string[];
+  /** Called once for each achievement unlocked */
+  onUnlock?: (achievement: Achievement) => void;
+};
+
+export type AchievementTracker = {
+  /** Handle one run event */
+  handle: (event: RunEvent) => void;
+  /** Stages played on so far */
+  getVisitedStages: () => string[];
+};
+
+/**
+ * Create a tracker that feeds run events into an achievement system
+ */
+export function createAchievementTracker(
+  system: AchievementSystem,
+  options: AchievementTrackerOptions = {}
+): AchievementTracker {
+  const visitedStages = new Set(options.visitedStages ?? []);
+  let stageId = '';
+  let hasBraked = false;
+
+  const record = (id: string, value: number, mode: 'best' | 'add'): void => {
+    if (system.isUnlocked(id)) return;
+
+    const current = system.getProgress(id).current;
+    const next = mode === 'add' ? current + value : Math.max(current, value);
+    if (next === current) return;
+
+    const progress = system.updateProgress(id, next);
+    const achievement = system.getAchievement(id);
+    if (progress?.unlocked && achievement) {
+      options.onUnlock?.(achievement);
+    }
+  };
+
+  const handle = (event: RunEvent): void => {
+    switch (event.type) {
+      case 'runStart':
+        stageId = event.stageId;
+        hasBraked = false;
+        visitedStages.add(event.stageId);
+        record('explorer', visitedStages.size, 'best');
+        record('vehicle_collector', event.vehiclesOwned, 'best');
+        break;
+
+      case 'distance':
+        DISTANCE_ACHIEVEMENTS.forEach((id) => record(id, event.meters, 'best'));
+        if (!hasBraked) {
+          record('perfect_run', event.meters, 'best');
+        }
+        break;
+
+      case 'trick': {
+        const flips = FLIP_COUNTS[event.trick] ?? 0;
+        if (flips > 0) {
+          FLIP_ACHIEVEMENTS.forEach((id) => record(id, flips, 'add'));
+        }
+        if (event.trick === 'backflip' && stageId === 'moon') {
+          record('moonwalk', 1, 'best');
+        }
+        break;
+      }
+
+      case 'airTime':
+        record('air_time_king', event.seconds, 'add');
+        break;
+
+      case 'combo':
+        COMBO_ACHIEVEMENTS.forEach((id) => record(id, event.count, 'best'));
+        break;
+
+      case 'coins':
+        COIN_ACHIEVEMENTS.forEach((id) => record(id, event.amount, 'add'));
+        break;
+
+      case 'brake':
+        hasBraked = true;
+        break;
+
+      case 'boost':
+        record('speed_demon', event.seconds, 'best');
+        break;
+
+      case 'runEnd':
+        RUN_COUNT_ACHIEVEMENTS.forEach((id) => record(id, 1, 'add'));
+        break;
+    }
+  };
+
+  return {
+    handle,
+    getVisitedStages: () => [...visitedStages],
+  };
+}
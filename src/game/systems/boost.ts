@@ -36,6 +36,8 @@ export type BoostConfig = {
   cooldownDuration: number;
   /** Passive boost regeneration per second */
   passiveRegen: number;
+  /** Boost the run starts with (e.g. a super boost from the loadout) */
+  initialAmount: number;
 };
 
 export const DEFAULT_BOOST_CONFIG: BoostConfig = {
@@ -46,6 +48,7 @@ export const DEFAULT_BOOST_CONFIG: BoostConfig = {
   minActivationAmount: 20, // Need at least 20% to activate
   cooldownDuration: 1000, // 1 second cooldown
   passiveRegen: 2, // 2% per second passive regen
+  initialAmount: 0,
 };
 
 export type BoostSystem = {
@@ -53,6 +56,8 @@ export type BoostSystem = {
   getState: () => BoostState;
   /** Add boost from tricks */
   addBoost: (trickPoints: number) => number;
+  /** Add boost directly (e.g. from a nitro pickup) */
+  refill: (amount: number) => number;
   /** Start boosting (returns success) */
   startBoost: () => boolean;
   /** Stop boosting */
@@ -76,7 +81,7 @@ export function createBoostSystem(
   const cfg: BoostConfig = { ...DEFAULT_BOOST_CONFIG, ...config };
 
   let state: BoostState = {
-    amount: 0,
+    amount: Math.min(cfg.maxAmount, cfg.initialAmount),
     maxAmount: cfg.maxAmount,
     isBoosting: false,
     powerMultiplier: 1.0,
@@ -93,6 +98,12 @@ export function createBoostSystem(
     return state.amount - previousAmount;
   };
 
+  const refill = (amount: number): number => {
+    const previousAmount = state.amount;
+    state.amount = Math.min(cfg.maxAmount, state.amount + amount);
+    return state.amount - previousAmount;
+  };
+
   const canBoost = (): boolean => {
     return (
       state.amount >= cfg.minActivationAmount &&
@@ -146,7 +157,7 @@ export function createBoostSystem(
 
   const reset = (): void => {
     state = {
-      amount: 0,
+      amount: Math.min(cfg.maxAmount, cfg.initialAmount),
       maxAmount: cfg.maxAmount,
       isBoosting: false,
       powerMultiplier: 1.0,
@@ -160,6 +171,7 @@ export function createBoostSystem(
   return {
     getState,
     addBoost,
+    refill,
     startBoost,
     stopBoost,
     update,
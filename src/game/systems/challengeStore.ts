@@ -0,0 +1,71 @@
+/**
+ * Challenge Store - Persist daily challenge progress
+ *
+ * Only today's challenge is kept: progress for an older challenge is
+ * treated as missing.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ChallengeProgress, DailyChallenge } from './dailyChallenge';
+
+const STORAGE_KEY = '@summit_wheels_challenge_progress';
+
+export type ChallengeAttemptResult = {
+  progress: ChallengeProgress;
+  /** This attempt completed the challenge for the first time */
+  firstCompletion: boolean;
+};
+
+/**
+ * Load progress for a challenge (null if never attempted)
+ */
+export async function loadChallengeProgress(
+  challengeId: string
+): Promise<ChallengeProgress | null> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const progress = JSON.parse(stored) as ChallengeProgress;
+    return progress.challengeId === challengeId ? progress : null;
+  } catch (error) {
+    console.warn('Failed to load challenge progress:', error);
+    return null;
+  }
+}
+
+/**
+ * Record the outcome of one attempt at a challenge
+ */
+export async function recordChallengeAttempt(
+  challenge: DailyChallenge,
+  attempt: { progress: number; completed: boolean }
+): Promise<ChallengeAttemptResult> {
+  const previous = await loadChallengeProgress(challenge.id);
+  const wasCompleted = previous?.completed ?? false;
+  const value = Math.round(attempt.progress * 10) / 10;
+  const completed = wasCompleted || attempt.completed;
+
+  const progress: ChallengeProgress = {
+    challengeId: challenge.id,
+    current: Math.max(previous?.current ?? 0, value),
+    completed,
+    bestAttempt: Math.max(previous?.bestAttempt ?? 0, value),
+    attempts: (previous?.attempts ?? 0) + 1,
+  };
+  const completedAt = wasCompleted
+    ? previous?.completedAt
+    : attempt.completed
+      ? Date.now()
+      : undefined;
+  if (completedAt !== undefined) {
+    progress.completedAt = completedAt;
+  }
+
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+  } catch (error) {
+    console.warn('Failed to save challenge progress:', error);
+  }
+
+  return { progress, firstCompletion: completed && !wasCompleted };
+}
@@ -0,0 +1,159 @@
+/**
+ * Checkpoint System - Safe respawn points along a run
+ *
+ * Every interval the next spot where the car sits upright on flat
+ * ground is recorded with the fuel and run stats at that moment. An
+ * ended run can be revived from the last checkpoint a limited number
+ * of times.
+ */
+
+import { RunStats } from '../state/runState';
+
+export type Checkpoint = {
+  /** Distance at the checkpoint (m) */
+  distance: number;
+  /** Car body position to respawn at */
+  x: number;
+  y: number;
+  /** Simulation tick it was recorded on */
+  tick: number;
+  /** Fuel left */
+  fuel: number;
+  /** Run stats at the checkpoint */
+  stats: RunStats;
+};
+
+/**
+ * Where the car is, judged for being a safe respawn point
+ */
+export type CheckpointSpot = {
+  /** Wheels on the ground */
+  isGrounded: boolean;
+  /** Car body angle (rad) */
+  angle: number;
+  /** Steepest ground slope under the car (rise over run) */
+  slope: number;
+};
+
+export type CheckpointState = {
+  /** Last recorded checkpoint (null before the run starts) */
+  last: Checkpoint | null;
+  /** Distance from which the next checkpoint is recorded (m) */
+  nextDistance: number;
+  /** Checkpoints recorded this run */
+  recorded: number;
+  /** Revives used this run */
+  revivesUsed: number;
+  /** Revives still available this run */
+  revivesLeft: number;
+};
+
+export type CheckpointConfig = {
+  /** Distance between checkpoints (m) */
+  interval: number;
+  /** Max car tilt for a safe spot (rad) */
+  maxTilt: number;
+  /** Max ground slope for a safe spot */
+  maxSlope: number;
+  /** Revives allowed per run */
+  maxRevives: number;
+};
+
+export const DEFAULT_CHECKPOINT_CONFIG: CheckpointConfig = {
+  interval: 100,
+  maxTilt: 0.2,
+  maxSlope: 0.15,
+  maxRevives: 2,
+};
+
+export type CheckpointSystem = {
+  /** Get current state */
+  getState: () => CheckpointState;
+  /** Spot is flat and the car upright */
+  isSafeSpot: (spot: CheckpointSpot) => boolean;
+  /** Record a checkpoint straight away (e.g. at the start line) */
+  record: (checkpoint: Checkpoint) => void;
+  /**
+   * Record a checkpoint once past the next interval on a safe spot
+   * (returns the new checkpoint, or null)
+   */
+  update: (distance: number, spot: CheckpointSpot, capture: () => Checkpoint) => Checkpoint | null;
+  /** Use a revive (returns the checkpoint to respawn at, or null if none are left) */
+  useRevive: () => Checkpoint | null;
+  /** Reset system */
+  reset: () => void;
+};
+
+/**
+ * Angle folded into -PI..PI
+ */
+function normalizeAngle(angle: number): number {
+  const turn = Math.PI * 2;
+  const folded = ((angle % turn) + turn) % turn;
+  return folded > Math.PI ? folded - turn : folded;
+}
+
+/**
+ * Creates a checkpoint system
+ */
+export function createCheckpointSystem(
+  config: Partial<CheckpointConfig> = {}
+): CheckpointSystem {
+  const cfg: CheckpointConfig = { ...DEFAULT_CHECKPOINT_CONFIG, ...config };
+
+  let last: Checkpoint | null = null;
+  let recorded = 0;
+  let revivesUsed = 0;
+
+  const getNextDistance = (): number =>
+    last ? (Math.floor(last.distance / cfg.interval) + 1) * cfg.interval : 0;
+
+  const getState = (): CheckpointState => ({
+    last: last ? { ...last, stats: { ...last.stats } } : null,
+    nextDistance: getNextDistance(),
+    recorded,
+    revivesUsed,
+    revivesLeft: cfg.maxRevives - revivesUsed,
+  });
+
+  const isSafeSpot = (spot: CheckpointSpot): boolean =>
+    spot.isGrounded &&
+    Math.abs(normalizeAngle(spot.angle)) <= cfg.maxTilt &&
+    Math.abs(spot.slope) <= cfg.maxSlope;
+
+  const record = (checkpoint: Checkpoint): void => {
+    last = { ...checkpoint, stats: { ...checkpoint.stats } };
+    recorded++;
+  };
+
+  const update = (
+    distance: number,
+    spot: CheckpointSpot,
+    capture: () => Checkpoint
+  ): Checkpoint | null => {
+    if (distance < getNextDistance() || !isSafeSpot(spot)) return null;
+    record(capture());
+    return getState().last;
+  };
+
+  const useRevive = (): Checkpoint | null => {
+    if (!last || revivesUsed >= cfg.maxRevives) return null;
+    revivesUsed++;
+    return { ...last, stats: { ...last.stats } };
+  };
+
+  const reset = (): void => {
+    last = null;
+    recorded = 0;
+    revivesUsed = 0;
+  };
+
+  return {
+    getState,
+    isSafeSpot,
+    record,
+    update,
+    useRevive,
+    reset,
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Course Stars - Rating a finished course run
+ *
+ * A course awards up to three stars, one for each of its targets met at
+ * the finish line: time, coins collected and fuel left. A run that does
+ * not reach the finish earns none.
+ */
+
+import { CourseStarTargets } from '../config/stages';
+
+export type CourseRunResult = {
+  /** Reached the finish line */
+  completed: boolean;
+  /** Time to the finish (s) */
+  time: number;
+  /** Coins collected */
+  coins: number;
+  /** Fuel left at the finish (%) */
+  fuelPercentage: number;
+};
+
+export type CourseRating = {
+  /** Finished within the target time */
+  time: boolean;
+  /** Collected the target coins */
+  coins: boolean;
+  /** Finished with the target fuel left */
+  fuel: boolean;
+  /** Stars earned (0-3) */
+  stars: number;
+};
+
+/**
+ * Most stars a course awards
+ */
+export const MAX_COURSE_STARS = 3;
+
+/**
+ * Rate a course run against the course's targets
+ */
+export function rateCourseRun(
+  targets: CourseStarTargets,
+  result: CourseRunResult
+): CourseRating {
+  if (!result.completed) {
+    return { time: false, coins: false, fuel: false, stars: 0 };
+  }
+
+  const time = result.time <= targets.time;
+  const coins = result.coins >= targets.coins;
+  const fuel = result.fuelPercentage >= targets.fuel;
+  return { time, coins, fuel, stars: [time, coins, fuel].filter(Boolean).length };
+}
@@ -137,7 +137,7 @@ export const MODIFIER_EFFECTS: Record<
   },
   reverse_controls: {
     name: 'Mirror World',
-    description: 'Gas and brake are swapped!',
+    description: 'Gas and brake are swapped, and so is leaning!',
     physics: {},
   },
   fog: {
@@ -226,13 +226,7 @@ export function generateDailyChallenge(date: Date = new Date()): DailyChallenge
  */
 export function checkChallengeCompletion(
   challenge: DailyChallenge,
-  runStats: {
-    distance: number;
-    coins: number;
-    tricks: number;
-    airTime: number;
-    crashed: boolean;
-  }
+  runStats: ChallengeRunStats
 ): { completed: boolean; progress: number } {
   switch (challenge.goalType) {
     case 'distance':
@@ -265,6 +259,73 @@ export function checkChallengeCompletion(
   }
 }
 
+export type ChallengeRunStats = {
+  distance: number;
+  coins: number;
+  tricks: number;
+  airTime: number;
+  crashed: boolean;
+};
+
+export type ChallengeTrackerState = {
+  /** Current progress toward the target */
+  progress: number;
+  /** Progress as a fraction of the target (0-1) */
+  fraction: number;
+  /** Goal has been reached this run */
+  completed: boolean;
+  /** Goal was reached on the latest update */
+  justCompleted: boolean;
+};
+
+export type ChallengeTracker = {
+  /** Feed the latest run stats */
+  update: (runStats: ChallengeRunStats) => ChallengeTrackerState;
+  /** Get current state */
+  getState: () => ChallengeTrackerState;
+};
+
+/**
+ * Track a challenge live during a run. Completion latches: once the
+ * goal is reached it stays reached, even if the car later crashes.
+ */
+export function createChallengeTracker(challenge: DailyChallenge): ChallengeTracker {
+  let state: ChallengeTrackerState = {
+    progress: 0,
+    fraction: 0,
+    completed: false,
+    justCompleted: false,
+  };
+
+  const update = (runStats: ChallengeRunStats): ChallengeTrackerState => {
+    const result = checkChallengeCompletion(challenge, runStats);
+    const completed = state.completed || result.completed;
+    const progress = completed
+      ? Math.max(state.progress, result.progress)
+      : result.progress;
+
+    state = {
+      progress,
+      fraction: Math.min(1, progress / challenge.target),
+      completed,
+      justCompleted: completed && !state.completed,
+    };
+    return { ...state };
+  };
+
+  return {
+    update,
+    getState: () => ({ ...state }),
+  };
+}
+
+/**
+ * Run seed for a challenge, so everyone plays the same course that day
+ */
+export function getChallengeSeed(challenge: DailyChallenge): number {
+  return hashDateString(challenge.id);
+}
+
 /**
  * Apply modifier effects to game physics
  */
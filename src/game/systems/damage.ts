@@ -0,0 +1,121 @@
+/**
+ * Damage System - Vehicle wear from hard impacts
+ *
+ * Impacts above a threshold damage the part that took them:
+ * - Hard landings on the wheels wear out the suspension (softer springs)
+ * - Hits to the body (roof, chassis) dent it
+ * Accumulated damage saps engine power, and a badly damaged vehicle smokes.
+ */
+
+export type DamagePart = 'suspension' | 'body';
+
+export type DamageState = {
+  /** Suspension damage (0-100) */
+  suspension: number;
+  /** Body damage (0-100) */
+  body: number;
+  /** Overall damage (0-100) */
+  total: number;
+  /** Damaged badly enough to smoke */
+  isSmoking: boolean;
+};
+
+export type DamageConfig = {
+  /** Impact impulse below which nothing is damaged */
+  impactThreshold: number;
+  /** Damage per unit of impulse over the threshold */
+  damagePerImpulse: number;
+  /** Damage resistance (2 = takes half the damage) */
+  durability: number;
+  /** Fraction of suspension stiffness lost at full suspension damage */
+  maxSuspensionLoss: number;
+  /** Fraction of engine power lost at full overall damage */
+  maxPowerLoss: number;
+  /** Overall damage at which the vehicle starts smoking */
+  smokeThreshold: number;
+};
+
+export const DEFAULT_DAMAGE_CONFIG: DamageConfig = {
+  impactThreshold: 18,
+  damagePerImpulse: 1,
+  durability: 1,
+  maxSuspensionLoss: 0.6,
+  maxPowerLoss: 0.5,
+  smokeThreshold: 60,
+};
+
+export type DamageSystem = {
+  /** Get current state */
+  getState: () => DamageState;
+  /** Record an impact on a part (returns the damage dealt) */
+  applyImpact: (part: DamagePart, impulse: number) => number;
+  /** Multiplier for suspension stiffness (1 = undamaged) */
+  getSuspensionScale: () => number;
+  /** Multiplier for engine power (1 = undamaged) */
+  getPowerScale: () => number;
+  /** Reset system */
+  reset: () => void;
+};
+
+/**
+ * Creates a damage system
+ */
+export function createDamageSystem(config: Partial<DamageConfig> = {}): DamageSystem {
+  const cfg: DamageConfig = { ...DEFAULT_DAMAGE_CONFIG, ...config };
+
+  let suspension = 0;
+  let body = 0;
+
+  // Body dents weigh more than worn springs
+  const getTotal = (): number => Math.min(100, suspension * 0.4 + body * 0.6);
+
+  const getState = (): DamageState => {
+    const total = getTotal();
+    return {
+      suspension,
+      body,
+      total,
+      isSmoking: total >= cfg.smokeThreshold,
+    };
+  };
+
+  const applyImpact = (part: DamagePart, impulse: number): number => {
+    if (impulse <= cfg.impactThreshold) return 0;
+
+    const damage = ((impulse - cfg.impactThreshold) * cfg.damagePerImpulse) / cfg.durability;
+    if (part === 'suspension') {
+      const before = suspension;
+      suspension = Math.min(100, suspension + damage);
+      return suspension - before;
+    }
+    const before = body;
+    body = Math.min(100, body + damage);
+    return body - before;
+  };
+
+  const getSuspensionScale = (): number => 1 - (suspension / 100) * cfg.maxSuspensionLoss;
+
+  const getPowerScale = (): number => 1 - (getTotal() / 100) * cfg.maxPowerLoss;
+
+  const reset = (): void => {
+    suspension = 0;
+    body = 0;
+  };
+
+  return {
+    getState,
+    applyImpact,
+    getSuspensionScale,
+    getPowerScale,
+    reset,
+  };
+}
+
+/**
+ * Get damage bar color based on overall damage
+ */
+export function getDamageBarColor(state: DamageState): string {
+  if (state.isSmoking) return '#FF4444';
+  if (state.total >= 30) return '#FF9800';
+  return '#9E9E9E';
+}
@@ -0,0 +1,150 @@
+/**
+ * Fuel Telemetry - How a run spent its fuel
+ *
+ * Records the fuel curve (tank level against distance), how much of the
+ * run was spent on the throttle and how much fuel burned away while the
+ * car sat still off the throttle.
+ */
+
+import { calculateFuelEfficiency } from './fuel';
+
+export type FuelSample = {
+  /** Distance from start (m) */
+  distance: number;
+  /** Fuel in the tank (%) */
+  fuel: number;
+};
+
+export type FuelTick = {
+  /** Distance from start (m) */
+  distance: number;
+  /** Fuel in the tank (%) */
+  fuelPercentage: number;
+  /** Fuel burned this tick */
+  consumed: number;
+  /** Length of the tick (s) */
+  deltaSeconds: number;
+  /** Throttle held (with fuel to burn) */
+  isThrottling: boolean;
+  /** Car standing still */
+  isStopped: boolean;
+};
+
+export type FuelTelemetryConfig = {
+  /** Distance between points on the fuel curve (m) */
+  sampleInterval: number;
+};
+
+export const DEFAULT_FUEL_TELEMETRY_CONFIG: FuelTelemetryConfig = {
+  sampleInterval: 10,
+};
+
+export type FuelTelemetryReport = {
+  /** Fuel curve, ending where the car is now */
+  samples: FuelSample[];
+  /** Total fuel burned */
+  fuelUsed: number;
+  /** Total fuel picked up */
+  fuelCollected: number;
+  /** Share of driving time spent on the throttle (0-1) */
+  throttleDutyCycle: number;
+  /** Time spent standing still off the throttle (s) */
+  idleTime: number;
+  /** Fuel burned while standing still off the throttle */
+  idleFuel: number;
+  /** Meters per unit of fuel */
+  efficiency: number;
+};
+
+export type FuelTelemetry = {
+  /** Record one simulation tick */
+  record: (tick: FuelTick) => void;
+  /** Record fuel picked up */
+  recordRefill: (amount: number) => void;
+  /** Summary of the run so far */
+  getReport: () => FuelTelemetryReport;
+  /** Reset for a new run */
+  reset: () => void;
+};
+
+/**
+ * Creates a fuel telemetry recorder
+ */
+export function createFuelTelemetry(
+  config: Partial<FuelTelemetryConfig> = {}
+): FuelTelemetry {
+  const cfg: FuelTelemetryConfig = { ...DEFAULT_FUEL_TELEMETRY_CONFIG, ...config };
+
+  let samples: FuelSample[] = [];
+  let last: FuelSample | null = null;
+  let maxDistance = 0;
+  let fuelUsed = 0;
+  let fuelCollected = 0;
+  let totalTime = 0;
+  let throttleTime = 0;
+  let idleTime = 0;
+  let idleFuel = 0;
+
+  const record = (tick: FuelTick): void => {
+    const point: FuelSample = { distance: tick.distance, fuel: tick.fuelPercentage };
+    if (samples.length === 0) {
+      samples.push(point);
+    } else if (tick.distance >= samples[samples.length - 1].distance + cfg.sampleInterval) {
+      // The curve only moves forward, so driving back over it after a
+      // revive does not draw over it
+      samples.push(point);
+    }
+    last = point;
+    maxDistance = Math.max(maxDistance, tick.distance);
+
+    fuelUsed += tick.consumed;
+    totalTime += tick.deltaSeconds;
+    if (tick.isThrottling) {
+      throttleTime += tick.deltaSeconds;
+    } else if (tick.isStopped && tick.consumed > 0) {
+      idleTime += tick.deltaSeconds;
+      idleFuel += tick.consumed;
+    }
+  };
+
+  const recordRefill = (amount: number): void => {
+    fuelCollected += amount;
+  };
+
+  const getReport = (): FuelTelemetryReport => {
+    const curve = samples.map((sample) => ({ ...sample }));
+    const end = curve[curve.length - 1];
+    if (last && end && last.distance > end.distance) {
+      curve.push({ ...last });
+    }
+
+    return {
+      samples: curve,
+      fuelUsed,
+      fuelCollected,
+      throttleDutyCycle: totalTime > 0 ? throttleTime / totalTime : 0,
+      idleTime,
+      idleFuel,
+      efficiency: calculateFuelEfficiency(maxDistance, fuelUsed),
+    };
+  };
+
+  const reset = (): void => {
+    samples = [];
+    last = null;
+    maxDistance = 0;
+    fuelUsed = 0;
+    fuelCollected = 0;
+    totalTime = 0;
+    throttleTime = 0;
+    idleTime = 0;
+    idleFuel = 0;
+  };
+
+  return {
+    record,
+    recordRefill,
+    getReport,
+    reset,
+  };
+}
@@ -6,6 +6,14 @@
  * See exactly where you were and try to beat it.
  */
 
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decodeGhostRun,
+  encodeGhostRun,
+  isLegacyGhostData,
+} from './ghostFormat';
+
 export type GhostFrame = {
   /** Time from start (ms) */
   time: number;
@@ -26,8 +34,12 @@ export type GhostRun = {
   playerName: string;
   /** Vehicle used */
   vehicleId: string;
+  /** Vehicle skin worn (absent for the vehicle's own paint) */
+  skinId?: string;
   /** Stage played */
   stageId: string;
+  /** Terrain seed of the run (absent on older recordings) */
+  seed?: number;
   /** Final distance */
   distance: number;
   /** Total coins collected */
@@ -54,19 +66,22 @@ export type GhostRecorderState = {
 export type GhostRecorder = {
   /** Start recording */
   start: () => void;
-  /** Record a frame */
+  /** Record a frame (time defaults to wall-clock time since start) */
   recordFrame: (
     x: number,
     y: number,
     angle: number,
-    isBoosting: boolean
+    isBoosting: boolean,
+    time?: number
   ) => void;
   /** Stop recording and get ghost data */
   stop: (
     vehicleId: string,
     stageId: string,
     distance: number,
-    coins: number
+    coins: number,
+    seed?: number,
+    skinId?: string | null
   ) => GhostRun;
   /** Reset recorder */
   reset: () => void;
@@ -101,12 +116,14 @@ export type GhostPlayer = {
   getState: () => GhostPlayerState;
   /** Get ghost info */
   getGhostInfo: () => { name: string; distance: number } | null;
+  /** Time the ghost first reached a world x (ms, interpolated; null if it never did) */
+  getTimeAtX: (x: number) => number | null;
 };
 
 /**
  * Recording interval in ms (every 50ms = 20fps)
  */
-const FRAME_INTERVAL = 50;
+export const GHOST_FRAME_INTERVAL = 50;
 
 /**
  * Create ghost recorder
@@ -132,14 +149,15 @@ export function createGhostRecorder(): GhostRecorder {
     x: number,
     y: number,
     angle: number,
-    isBoosting: boolean
+    isBoosting: boolean,
+    time?: number
   ): void => {
     if (!state.isRecording) return;
 
-    const currentTime = performance.now() - state.startTime;
+    const currentTime = time ?? performance.now() - state.startTime;
 
     // Only record at interval
-    if (currentTime - state.lastFrameTime < FRAME_INTERVAL) return;
+    if (currentTime - state.lastFrameTime < GHOST_FRAME_INTERVAL) return;
 
     state.frames.push({
       time: currentTime,
@@ -156,7 +174,9 @@ export function createGhostRecorder(): GhostRecorder {
     vehicleId: string,
     stageId: string,
     distance: number,
-    coins: number
+    coins: number,
+    seed?: number,
+    skinId?: string | null
   ): GhostRun => {
     state.isRecording = false;
 
@@ -164,12 +184,14 @@ export function createGhostRecorder(): GhostRecorder {
       id: `ghost_${Date.now()}`,
       playerName: 'Personal Best',
       vehicleId,
+      ...(skinId ? { skinId } : {}),
       stageId,
+      seed,
       distance,
       coins,
       recordedAt: Date.now(),
       frames: state.frames,
-      frameInterval: FRAME_INTERVAL,
+      frameInterval: GHOST_FRAME_INTERVAL,
     };
   };
 
@@ -278,51 +300,56 @@ export function createGhostPlayer(): GhostPlayer {
     };
   };
 
+  const getTimeAtX = (x: number): number | null => {
+    if (!ghost) return null;
+    const { frames } = ghost;
+    const index = frames.findIndex((f) => f.x >= x);
+    if (index === -1) return null;
+    if (index === 0) return frames[0].time;
+
+    const before = frames[index - 1];
+    const after = frames[index];
+    const fraction = (x - before.x) / (after.x - before.x);
+    return before.time + (after.time - before.time) * fraction;
+  };
+
   return {
     start,
     update,
     stop,
     getState: () => ({ ...state }),
     getGhostInfo,
+    getTimeAtX,
   };
 }
 
 /**
- * Compress ghost run for storage
+ * Compress ghost run for storage (binary format, base64 encoded)
  */
 export function compressGhostRun(ghost: GhostRun): string {
-  // Simple compression: reduce precision and delta encode
-  const compressed = {
-    ...ghost,
-    frames: ghost.frames.map((f, i, arr) => {
-      if (i === 0) {
-        return {
-          t: Math.round(f.time),
-          x: Math.round(f.x),
-          y: Math.round(f.y),
-          a: Math.round(f.angle * 100) / 100,
-          b: f.isBoosting ? 1 : 0,
-        };
-      }
-      // Delta encode from previous frame
-      const prev = arr[i - 1];
-      return {
-        t: Math.round(f.time - prev.time),
-        x: Math.round(f.x - prev.x),
-        y: Math.round(f.y - prev.y),
-        a: Math.round((f.angle - prev.angle) * 100) / 100,
-        b: f.isBoosting ? 1 : 0,
-      };
-    }),
-  };
-
-  return JSON.stringify(compressed);
+  return bytesToBase64(encodeGhostRun(ghost));
 }
 
 /**
- * Decompress ghost run from storage
+ * Decompress ghost run from storage (binary or legacy JSON)
  */
 export function decompressGhostRun(compressed: string): GhostRun {
+  if (isLegacyGhostData(compressed)) {
+    return decompressLegacyGhostRun(compressed);
+  }
+
+  const bytes = base64ToBytes(compressed);
+  const ghost = bytes ? decodeGhostRun(bytes) : null;
+  if (!ghost) {
+    throw new Error('Invalid ghost data');
+  }
+  return ghost;
+}
+
+/**
+ * Decompress a ghost stored in the legacy delta-encoded JSON format
+ */
+function decompressLegacyGhostRun(compressed: string): GhostRun {
   const data = JSON.parse(compressed);
 
   let prevTime = 0;
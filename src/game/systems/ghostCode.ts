@@ -0,0 +1,176 @@
+/**
+ * Ghost Codes - Share ghosts between players as text
+ *
+ * A ghost code is the binary ghost format (already checksummed) in
+ * URL-safe base64 behind a short prefix, so it can be pasted into chat
+ * or sent as a deep link. Imported codes are validated before use:
+ * format version, checksum, known stage/vehicle, the seed of the terrain
+ * it was driven on and plausible frames.
+ */
+
+import { StageId, STAGES } from '../config/stages';
+import { VehicleId, VEHICLES } from '../config/vehicles';
+import { getTopSpeed } from '../simulation/runConfig';
+import { CAR_START_X, SIMULATION_TICK_MS } from '../simulation/simulation';
+import { pixelsToMeters } from '../state/runState';
+import { GHOST_FRAME_INTERVAL, GhostRun } from './ghost';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decodeGhostRun,
+  encodeGhostRun,
+  isSupportedGhostFormatVersion,
+  readGhostFormatVersion,
+} from './ghostFormat';
+
+/**
+ * Prefix that marks a ghost code
+ */
+export const GHOST_CODE_PREFIX = 'SW-';
+
+/**
+ * Deep link that opens the import flow with a code
+ */
+export const GHOST_LINK_PREFIX = 'summitwheels://ghost/';
+
+/**
+ * Limits a shared ghost must stay within
+ */
+export const GHOST_PLAUSIBILITY = {
+  /** Max frames (20 minutes at 20fps) */
+  maxFrames: 24000,
+  /** Max gap between frames (ms) */
+  maxFrameGap: 1000,
+  /** Headroom over the vehicle's top speed for downhill runs and falls */
+  speedMargin: 1.5,
+  /** Slack allowed between claimed distance and the recorded path (m) */
+  distanceTolerance: 10,
+} as const;
+
+export type GhostCodeError =
+  | 'format'
+  | 'version'
+  | 'checksum'
+  | 'stage'
+  | 'vehicle'
+  | 'seed'
+  | 'frames';
+
+export type GhostCodeResult =
+  | { valid: true; ghost: GhostRun }
+  | { valid: false; reason: GhostCodeError };
+
+/**
+ * Player-facing messages for rejected codes
+ */
+export const GHOST_CODE_ERROR_MESSAGES: Record<GhostCodeError, string> = {
+  format: "That doesn't look like a ghost code.",
+  version: 'This ghost was made with a different version of the game.',
+  checksum: 'This code is damaged. Ask for it to be sent again.',
+  stage: 'This ghost is from a stage this version does not have.',
+  vehicle: 'This ghost uses a vehicle this version does not have.',
+  seed: 'This ghost was recorded without its terrain and cannot be raced.',
+  frames: 'This ghost contains impossible driving and cannot be raced.',
+};
+
+/**
+ * Export a ghost as a shareable code
+ */
+export function exportGhostCode(ghost: GhostRun, playerName?: string): string {
+  const shared = playerName ? { ...ghost, playerName } : ghost;
+  const base64 = bytesToBase64(encodeGhostRun(shared));
+  return (
+    GHOST_CODE_PREFIX +
+    base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+  );
+}
+
+/**
+ * Deep link carrying a ghost code
+ */
+export function buildGhostLink(ghost: GhostRun, playerName?: string): string {
+  return GHOST_LINK_PREFIX + exportGhostCode(ghost, playerName).slice(GHOST_CODE_PREFIX.length);
+}
+
+/**
+ * Pull the encoded payload out of a code or deep link
+ */
+function extractPayload(input: string): string | null {
+  const trimmed = input.trim();
+  if (trimmed.startsWith(GHOST_LINK_PREFIX)) {
+    return trimmed.slice(GHOST_LINK_PREFIX.length);
+  }
+  if (trimmed.startsWith(GHOST_CODE_PREFIX)) {
+    return trimmed.slice(GHOST_CODE_PREFIX.length);
+  }
+  return null;
+}
+
+/**
+ * Check the frames describe a drive the game could have produced
+ */
+export function isGhostPlausible(ghost: GhostRun): boolean {
+  const { frames } = ghost;
+  const limits = GHOST_PLAUSIBILITY;
+
+  if (frames.length < 2 || frames.length > limits.maxFrames) return false;
+  if (ghost.frameInterval <= 0) return false;
+  if (!(ghost.stageId in STAGES) || !(ghost.vehicleId in VEHICLES)) return false;
+
+  const maxSpeed =
+    getTopSpeed(ghost.stageId as StageId, ghost.vehicleId as VehicleId) * limits.speedMargin;
+
+  let maxX = frames[0].x;
+  for (let i = 1; i < frames.length; i++) {
+    const prev = frames[i - 1];
+    const frame = frames[i];
+    const dt = frame.time - prev.time;
+
+    if (dt <= 0 || dt > limits.maxFrameGap) return false;
+
+    // A revive drops the car back at a checkpoint, which never gains ground
+    const speed = Math.hypot(frame.x - prev.x, frame.y - prev.y) / dt;
+    if (frame.x > prev.x && speed > maxSpeed) return false;
+
+    maxX = Math.max(maxX, frame.x);
+  }
+
+  // The claimed distance has to be backed by the recorded path. The run
+  // can go on for up to one recording interval after the last frame.
+  const pathDistance = pixelsToMeters(maxX - CAR_START_X);
+  const lastInterval = pixelsToMeters(maxSpeed * (GHOST_FRAME_INTERVAL + SIMULATION_TICK_MS));
+  return ghost.distance <= pathDistance + lastInterval + limits.distanceTolerance;
+}
+
+/**
+ * Parse and validate a ghost code or deep link
+ */
+export function parseGhostCode(input: string): GhostCodeResult {
+  const payload = extractPayload(input);
+  if (!payload) return { valid: false, reason: 'format' };
+
+  const bytes = base64ToBytes(payload.replace(/-/g, '+').replace(/_/g, '/'));
+  if (!bytes) return { valid: false, reason: 'format' };
+
+  const version = readGhostFormatVersion(bytes);
+  if (version === null) return { valid: false, reason: 'format' };
+  if (!isSupportedGhostFormatVersion(version)) return { valid: false, reason: 'version' };
+
+  const ghost = decodeGhostRun(bytes);
+  if (!ghost) return { valid: false, reason: 'checksum' };
+
+  if (!(ghost.stageId in STAGES)) return { valid: false, reason: 'stage' };
+  if (!(ghost.vehicleId in VEHICLES)) return { valid: false, reason: 'vehicle' };
+  // Races start on the ghost's seed, so a ghost without one has no terrain
+  if (ghost.seed === undefined) return { valid: false, reason: 'seed' };
+  if (!isGhostPlausible(ghost)) return { valid: false, reason: 'frames' };
+
+  return { valid: true, ghost };
+}
+
+/**
+ * Whether a URL is a ghost deep link
+ */
+export function isGhostLink(url: string): boolean {
+  return url.trim().startsWith(GHOST_LINK_PREFIX);
+}
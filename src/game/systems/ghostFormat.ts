@@ -0,0 +1,370 @@
+/**
+ * Ghost Format - Compact binary encoding for ghost runs
+ *
+ * Layout (version 3):
+ * - Magic "SWG" + format version byte
+ * - Header: seed, id, player name, vehicle, vehicle skin, stage, distance,
+ *   coins, recording date, frame interval, frame count (all varints)
+ * - Frames: zigzag varint deltas of quantised time/position/angle,
+ *   with the boost flag packed into the time delta
+ * - FNV-1a checksum of everything before it (4 bytes)
+ *
+ * Encoded runs travel as base64 strings. Version 2 is the same without
+ * the skin and still decodes. Version 1 is the old delta-encoded JSON,
+ * which is still readable.
+ */
+
+import { GhostFrame, GhostRun } from './ghost';
+
+/**
+ * Current binary format version (1 = legacy JSON)
+ */
+export const GHOST_FORMAT_VERSION = 3;
+
+/**
+ * Oldest binary format version that still decodes
+ */
+export const MIN_GHOST_FORMAT_VERSION = 2;
+
+/**
+ * Quantisation scales
+ */
+export const GHOST_QUANTISATION = {
+  /** Positions stored in 1/10 px */
+  position: 10,
+  /** Angles stored in milliradians */
+  angle: 1000,
+  /** Distance stored in 1/10 m */
+  distance: 10,
+} as const;
+
+const MAGIC = [0x53, 0x57, 0x47]; // "SWG"
+const HEADER_SIZE = MAGIC.length + 1;
+const CHECKSUM_SIZE = 4;
+
+const BASE64_CHARS =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Growable byte buffer
+ */
+function createByteWriter() {
+  let bytes = new Uint8Array(256);
+  let length = 0;
+
+  const writeByte = (value: number): void => {
+    if (length === bytes.length) {
+      const grown = new Uint8Array(bytes.length * 2);
+      grown.set(bytes);
+      bytes = grown;
+    }
+    bytes[length++] = value;
+  };
+
+  // Arithmetic rather than bitwise so values up to 2^53 survive
+  const writeVarint = (value: number): void => {
+    let remaining = Math.max(0, Math.floor(value));
+    while (remaining >= 0x80) {
+      writeByte((remaining % 0x80) + 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    writeByte(remaining);
+  };
+
+  const writeSigned = (value: number): void => {
+    writeVarint(value >= 0 ? value * 2 : -value * 2 - 1);
+  };
+
+  const writeString = (value: string): void => {
+    writeVarint(value.length);
+    for (let i = 0; i < value.length; i++) {
+      writeVarint(value.charCodeAt(i));
+    }
+  };
+
+  return {
+    writeByte,
+    writeVarint,
+    writeSigned,
+    writeString,
+    getBytes: () => bytes.slice(0, length),
+  };
+}
+
+/**
+ * Sequential reader over a byte array (returns null past the end)
+ */
+function createByteReader(bytes: Uint8Array, start: number, end: number) {
+  let offset = start;
+
+  const readVarint = (): number | null => {
+    let value = 0;
+    let scale = 1;
+    while (offset < end) {
+      const byte = bytes[offset++];
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+    }
+    return null;
+  };
+
+  const readSigned = (): number | null => {
+    const value = readVarint();
+    if (value === null) return null;
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  };
+
+  const readString = (): string | null => {
+    const length = readVarint();
+    if (length === null) return null;
+    let value = '';
+    for (let i = 0; i < length; i++) {
+      const code = readVarint();
+      if (code === null) return null;
+      value += String.fromCharCode(code);
+    }
+    return value;
+  };
+
+  return {
+    readVarint,
+    readSigned,
+    readString,
+    isAtEnd: () => offset === end,
+  };
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function checksum(bytes: Uint8Array, length: number): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Encode a ghost run to bytes
+ */
+export function encodeGhostRun(ghost: GhostRun): Uint8Array {
+  const writer = createByteWriter();
+  const { position, angle, distance } = GHOST_QUANTISATION;
+
+  MAGIC.forEach(writer.writeByte);
+  writer.writeByte(GHOST_FORMAT_VERSION);
+
+  // Seed is optional: 0 means "none"
+  writer.writeVarint(ghost.seed === undefined ? 0 : ghost.seed + 1);
+  writer.writeString(ghost.id);
+  writer.writeString(ghost.playerName);
+  writer.writeString(ghost.vehicleId);
+  // Skin is optional: empty means the vehicle's own paint
+  writer.writeString(ghost.skinId ?? '');
+  writer.writeString(ghost.stageId);
+  writer.writeVarint(Math.round(ghost.distance * distance));
+  writer.writeVarint(ghost.coins);
+  writer.writeVarint(ghost.recordedAt);
+  writer.writeVarint(ghost.frameInterval);
+  writer.writeVarint(ghost.frames.length);
+
+  // Delta-encode quantised values so rounding error never accumulates
+  let prevTime = 0;
+  let prevX = 0;
+  let prevY = 0;
+  let prevAngle = 0;
+  for (const frame of ghost.frames) {
+    const time = Math.max(prevTime, Math.round(frame.time));
+    const x = Math.round(frame.x * position);
+    const y = Math.round(frame.y * position);
+    const a = Math.round(frame.angle * angle);
+
+    writer.writeVarint((time - prevTime) * 2 + (frame.isBoosting ? 1 : 0));
+    writer.writeSigned(x - prevX);
+    writer.writeSigned(y - prevY);
+    writer.writeSigned(a - prevAngle);
+
+    prevTime = time;
+    prevX = x;
+    prevY = y;
+    prevAngle = a;
+  }
+
+  const hash = checksum(writer.getBytes(), writer.getBytes().length);
+  writer.writeByte((hash >>> 24) & 0xff);
+  writer.writeByte((hash >>> 16) & 0xff);
+  writer.writeByte((hash >>> 8) & 0xff);
+  writer.writeByte(hash & 0xff);
+
+  return writer.getBytes();
+}
+
+/**
+ * Format version of encoded ghost bytes (null if not a ghost)
+ */
+export function readGhostFormatVersion(bytes: Uint8Array): number | null {
+  if (bytes.length < HEADER_SIZE) return null;
+  if (MAGIC.some((byte, i) => bytes[i] !== byte)) return null;
+  return bytes[MAGIC.length];
+}
+
+/**
+ * Whether a binary format version can be decoded
+ */
+export function isSupportedGhostFormatVersion(version: number): boolean {
+  return version >= MIN_GHOST_FORMAT_VERSION && version <= GHOST_FORMAT_VERSION;
+}
+
+/**
+ * Decode a ghost run from bytes (null if corrupt or an unknown version)
+ */
+export function decodeGhostRun(bytes: Uint8Array): GhostRun | null {
+  if (bytes.length < HEADER_SIZE + CHECKSUM_SIZE) return null;
+  if (MAGIC.some((byte, i) => bytes[i] !== byte)) return null;
+  const version = bytes[MAGIC.length];
+  if (!isSupportedGhostFormatVersion(version)) return null;
+
+  const bodyEnd = bytes.length - CHECKSUM_SIZE;
+  const stored =
+    ((bytes[bodyEnd] << 24) |
+      (bytes[bodyEnd + 1] << 16) |
+      (bytes[bodyEnd + 2] << 8) |
+      bytes[bodyEnd + 3]) >>>
+    0;
+  if (stored !== checksum(bytes, bodyEnd)) return null;
+
+  const reader = createByteReader(bytes, HEADER_SIZE, bodyEnd);
+  const { position, angle, distance } = GHOST_QUANTISATION;
+
+  const seed = reader.readVarint();
+  const id = reader.readString();
+  const playerName = reader.readString();
+  const vehicleId = reader.readString();
+  const skinId = version >= 3 ? reader.readString() : '';
+  const stageId = reader.readString();
+  const quantisedDistance = reader.readVarint();
+  const coins = reader.readVarint();
+  const recordedAt = reader.readVarint();
+  const frameInterval = reader.readVarint();
+  const frameCount = reader.readVarint();
+
+  if (
+    seed === null ||
+    id === null ||
+    playerName === null ||
+    vehicleId === null ||
+    skinId === null ||
+    stageId === null ||
+    quantisedDistance === null ||
+    coins === null ||
+    recordedAt === null ||
+    frameInterval === null ||
+    frameCount === null
+  ) {
+    return null;
+  }
+
+  const frames: GhostFrame[] = [];
+  let time = 0;
+  let x = 0;
+  let y = 0;
+  let a = 0;
+  for (let i = 0; i < frameCount; i++) {
+    const packedTime = reader.readVarint();
+    const dx = reader.readSigned();
+    const dy = reader.readSigned();
+    const da = reader.readSigned();
+    if (packedTime === null || dx === null || dy === null || da === null) {
+      return null;
+    }
+
+    time += Math.floor(packedTime / 2);
+    x += dx;
+    y += dy;
+    a += da;
+
+    frames.push({
+      time,
+      x: x / position,
+      y: y / position,
+      angle: a / angle,
+      isBoosting: packedTime % 2 === 1,
+    });
+  }
+
+  if (!reader.isAtEnd()) return null;
+
+  const ghost: GhostRun = {
+    id,
+    playerName,
+    vehicleId,
+    stageId,
+    distance: quantisedDistance / distance,
+    coins,
+    recordedAt,
+    frames,
+    frameInterval,
+  };
+  if (seed > 0) {
+    ghost.seed = seed - 1;
+  }
+  if (skinId) {
+    ghost.skinId = skinId;
+  }
+  return ghost;
+}
+
+/**
+ * Encode bytes as base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (b0 << 16) | (b1 << 8) | b2;
+
+    output += BASE64_CHARS[(triple >> 18) & 0x3f];
+    output += BASE64_CHARS[(triple >> 12) & 0x3f];
+    output += i + 1 < bytes.length ? BASE64_CHARS[(triple >> 6) & 0x3f] : '=';
+    output += i + 2 < bytes.length ? BASE64_CHARS[triple & 0x3f] : '=';
+  }
+  return output;
+}
+
+/**
+ * Decode base64 to bytes (null if the string is not valid base64)
+ */
+export function base64ToBytes(base64: string): Uint8Array | null {
+  const clean = base64.replace(/=+$/, '');
+  if (clean.length % 4 === 1) return null;
+
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+
+  for (let i = 0; i < clean.length; i++) {
+    const value = BASE64_CHARS.indexOf(clean[i]);
+    if (value === -1) return null;
+    buffer = ((buffer << 6) | value) & 0xffffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = (buffer >> bits) & 0xff;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Whether a stored ghost string is in the legacy JSON format
+ */
+export function isLegacyGhostData(data: string): boolean {
+  return data.trimStart().startsWith('{');
+}
@@ -0,0 +1,369 @@
+/**
+ * Ghost Store - Persist ghost runs
+ *
+ * Ghosts are stored as an array of compressed strings. Entries written
+ * in the legacy JSON format are rewritten in the binary format on load.
+ *
+ * Also tracks the ghosts available to race: personal best and today's
+ * best per stage + vehicle, the fastest time trial per course + vehicle,
+ * and ghosts imported from other players.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { compressGhostRun, decompressGhostRun, GhostRun } from './ghost';
+import { isLegacyGhostData } from './ghostFormat';
+
+const STORAGE_KEY = '@summit_wheels_replays';
+const PERSONAL_BESTS_KEY = '@summit_wheels_ghost_pbs';
+const DAILY_BESTS_KEY = '@summit_wheels_ghost_daily';
+const IMPORTED_KEY = '@summit_wheels_ghost_imported';
+const SOURCE_KEY = '@summit_wheels_ghost_source';
+const TIME_TRIALS_KEY = '@summit_wheels_ghost_time_trials';
+
+/**
+ * Which ghost to race against
+ */
+export type GhostSource = 'none' | 'personalBest' | 'dailyBest' | 'imported';
+
+export const DEFAULT_GHOST_SOURCE: GhostSource = 'personalBest';
+
+type GhostSlots = Record<string, string>;
+
+/**
+ * Fastest time trial on a course, with the ghost that set it
+ */
+type TimeTrialSlot = {
+  /** Finish time (ms) */
+  finishTime: number;
+  ghost: string;
+};
+
+type DailyGhostSlots = {
+  /** Day the slots belong to (YYYY-MM-DD) */
+  date: string;
+  ghosts: GhostSlots;
+};
+
+/**
+ * Max ghosts kept on device
+ */
+export const MAX_STORED_GHOSTS = 10;
+
+/**
+ * Max imported ghosts kept on device
+ */
+export const MAX_IMPORTED_GHOSTS = 10;
+
+/**
+ * Decode stored entries, dropping any that are corrupt
+ */
+function decodeEntries(entries: string[]): GhostRun[] {
+  const ghosts: GhostRun[] = [];
+  for (const entry of entries) {
+    try {
+      ghosts.push(decompressGhostRun(entry));
+    } catch (error) {
+      console.warn('Dropping unreadable ghost:', error);
+    }
+  }
+  return ghosts;
+}
+
+async function writeGhostRuns(ghosts: GhostRun[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(ghosts.map(compressGhostRun))
+    );
+  } catch (error) {
+    console.warn('Failed to save ghosts:', error);
+  }
+}
+
+/**
+ * Load stored ghosts, migrating legacy entries to the binary format
+ */
+export async function loadGhostRuns(): Promise<GhostRun[]> {
+  let entries: string[];
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    entries = JSON.parse(stored) as string[];
+  } catch (error) {
+    console.warn('Failed to load ghosts:', error);
+    return [];
+  }
+
+  const ghosts = decodeEntries(entries);
+
+  const needsMigration =
+    ghosts.length !== entries.length || entries.some(isLegacyGhostData);
+  if (needsMigration) {
+    await writeGhostRuns(ghosts);
+  }
+
+  return ghosts;
+}
+
+/**
+ * Save a ghost, keeping only the best runs
+ */
+export async function saveGhostRun(ghost: GhostRun): Promise<GhostRun[]> {
+  const ghosts = await loadGhostRuns();
+  const updated = [...ghosts.filter((g) => g.id !== ghost.id), ghost]
+    .sort((a, b) => b.distance - a.distance)
+    .slice(0, MAX_STORED_GHOSTS);
+
+  await writeGhostRuns(updated);
+  return updated;
+}
+
+/**
+ * Rewrite any legacy ghosts in the binary format
+ */
+export async function migrateGhostRuns(): Promise<void> {
+  await loadGhostRuns();
+}
+
+/**
+ * Slot key for a stage + vehicle combination
+ */
+export function getGhostSlotKey(stageId: string, vehicleId: string): string {
+  return `${stageId}:${vehicleId}`;
+}
+
+function getDateKey(date: Date = new Date()): string {
+  return date.toISOString().split('T')[0];
+}
+
+async function readJson<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const stored = await AsyncStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch (error) {
+    console.warn(`Failed to load ${key}:`, error);
+    return fallback;
+  }
+}
+
+async function writeJson(key: string, value: unknown): Promise<void> {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to save ${key}:`, error);
+  }
+}
+
+function decodeSlot(slots: GhostSlots, key: string): GhostRun | null {
+  const entry = slots[key];
+  if (!entry) return null;
+  try {
+    return decompressGhostRun(entry);
+  } catch (error) {
+    console.warn('Dropping unreadable ghost:', error);
+    return null;
+  }
+}
+
+/**
+ * Personal best ghost for a stage + vehicle
+ */
+export async function loadPersonalBestGhost(
+  stageId: string,
+  vehicleId: string
+): Promise<GhostRun | null> {
+  const slots = await readJson<GhostSlots>(PERSONAL_BESTS_KEY, {});
+  return decodeSlot(slots, getGhostSlotKey(stageId, vehicleId));
+}
+
+/**
+ * Today's best ghost for a stage + vehicle
+ */
+export async function loadDailyBestGhost(
+  stageId: string,
+  vehicleId: string
+): Promise<GhostRun | null> {
+  const daily = await readJson<DailyGhostSlots>(DAILY_BESTS_KEY, {
+    date: '',
+    ghosts: {},
+  });
+  if (daily.date !== getDateKey()) return null;
+  return decodeSlot(daily.ghosts, getGhostSlotKey(stageId, vehicleId));
+}
+
+/**
+ * Imported ghosts, most recently imported first
+ */
+export async function loadImportedGhosts(): Promise<GhostRun[]> {
+  const entries = await readJson<string[]>(IMPORTED_KEY, []);
+  return Array.isArray(entries) ? decodeEntries(entries) : [];
+}
+
+/**
+ * Add an imported ghost to the raceable list
+ */
+export async function saveImportedGhost(ghost: GhostRun): Promise<GhostRun[]> {
+  const ghosts = await loadImportedGhosts();
+  const updated = [ghost, ...ghosts.filter((g) => g.id !== ghost.id)].slice(
+    0,
+    MAX_IMPORTED_GHOSTS
+  );
+  await writeJson(IMPORTED_KEY, updated.map(compressGhostRun));
+  return updated;
+}
+
+/**
+ * Store a finished run: keep it in the replay list and update the
+ * personal / daily bests it beats. Returns whether it set a new PB.
+ */
+export async function saveRunGhost(ghost: GhostRun): Promise<boolean> {
+  const key = getGhostSlotKey(ghost.stageId, ghost.vehicleId);
+  const compressed = compressGhostRun(ghost);
+
+  await saveGhostRun(ghost);
+
+  const personalBest = await loadPersonalBestGhost(ghost.stageId, ghost.vehicleId);
+  const isNewBest = !personalBest || ghost.distance > personalBest.distance;
+  if (isNewBest) {
+    const slots = await readJson<GhostSlots>(PERSONAL_BESTS_KEY, {});
+    await writeJson(PERSONAL_BESTS_KEY, { ...slots, [key]: compressed });
+  }
+
+  const today = getDateKey();
+  const dailyBest = await loadDailyBestGhost(ghost.stageId, ghost.vehicleId);
+  if (!dailyBest || ghost.distance > dailyBest.distance) {
+    const daily = await readJson<DailyGhostSlots>(DAILY_BESTS_KEY, {
+      date: today,
+      ghosts: {},
+    });
+    const ghosts = daily.date === today ? daily.ghosts : {};
+    await writeJson(DAILY_BESTS_KEY, {
+      date: today,
+      ghosts: { ...ghosts, [key]: compressed },
+    });
+  }
+
+  return isNewBest;
+}
+
+/**
+ * Fastest time trial ghost for a course + vehicle, with its finish time (ms)
+ */
+export async function loadTimeTrialGhost(
+  courseId: string,
+  vehicleId: string
+): Promise<{ ghost: GhostRun; finishTime: number } | null> {
+  const slots = await readJson<Record<string, TimeTrialSlot>>(TIME_TRIALS_KEY, {});
+  const slot = slots[getGhostSlotKey(courseId, vehicleId)];
+  if (!slot) return null;
+
+  const ghost = decodeSlot({ ghost: slot.ghost }, 'ghost');
+  return ghost ? { ghost, finishTime: slot.finishTime } : null;
+}
+
+/**
+ * Store a finished time trial if it is the fastest on the course for the
+ * vehicle. Returns whether it set a new best.
+ */
+export async function saveTimeTrialGhost(
+  courseId: string,
+  ghost: GhostRun,
+  finishTime: number
+): Promise<boolean> {
+  const best = await loadTimeTrialGhost(courseId, ghost.vehicleId);
+  if (best && best.finishTime <= finishTime) return false;
+
+  const slots = await readJson<Record<string, TimeTrialSlot>>(TIME_TRIALS_KEY, {});
+  await writeJson(TIME_TRIALS_KEY, {
+    ...slots,
+    [getGhostSlotKey(courseId, ghost.vehicleId)]: {
+      finishTime,
+      ghost: compressGhostRun(ghost),
+    },
+  });
+  return true;
+}
+
+/**
+ * Check a ghost can be raced on a run's seed
+ *
+ * A ghost only means something on the terrain it was recorded on, so
+ * ghosts without a seed are never raced. A null seed accepts any ghost
+ * with a seed; the run then starts on the ghost's seed.
+ */
+function isRaceableOn(ghost: GhostRun | null, seed: number | null): ghost is GhostRun {
+  if (!ghost || ghost.seed === undefined) return false;
+  return seed === null || ghost.seed === seed;
+}
+
+/**
+ * Check if a free run racing a source's ghost moves onto the ghost's
+ * terrain
+ *
+ * Only imported ghosts do: importing one is how a player asks to race
+ * it. Personal and daily bests are raced when the run's own seed
+ * matches, so endless runs keep fresh terrain.
+ */
+export function racesOnGhostTerrain(source: GhostSource): boolean {
+  return source === 'imported';
+}
+
+/**
+ * Ghost to race for a stage + vehicle from the chosen source
+ *
+ * Only ghosts recorded on the run's seed are raced, unless the run is
+ * free to move onto the ghost's terrain (see racesOnGhostTerrain); it
+ * then starts on the returned ghost's seed (see getRaceSeed).
+ */
+export async function loadRaceGhost(
+  source: GhostSource,
+  stageId: string,
+  vehicleId: string,
+  seed: number,
+  isFixedSeed = false
+): Promise<GhostRun | null> {
+  let ghost: GhostRun | null;
+  switch (source) {
+    case 'personalBest':
+      ghost = await loadPersonalBestGhost(stageId, vehicleId);
+      break;
+    case 'dailyBest':
+      ghost = await loadDailyBestGhost(stageId, vehicleId);
+      break;
+    case 'imported': {
+      // Imported ghosts only make sense on the stage they were recorded on
+      const imported = await loadImportedGhosts();
+      ghost = imported.find((g) => g.stageId === stageId) ?? null;
+      break;
+    }
+    default:
+      ghost = null;
+  }
+  const raceSeed = !isFixedSeed && racesOnGhostTerrain(source) ? null : seed;
+  return isRaceableOn(ghost, raceSeed) ? ghost : null;
+}
+
+/**
+ * Seed a run racing a ghost should start on: the ghost's own, so both
+ * drive the same terrain
+ */
+export function getRaceSeed(ghost: GhostRun | null, seed: number): number {
+  return ghost?.seed ?? seed;
+}
+
+/**
+ * Ghost source chosen in settings
+ */
+export async function loadGhostSource(): Promise<GhostSource> {
+  const source = await readJson<GhostSource>(SOURCE_KEY, DEFAULT_GHOST_SOURCE);
+  return ['none', 'personalBest', 'dailyBest', 'imported'].includes(source)
+    ? source
+    : DEFAULT_GHOST_SOURCE;
+}
+
+/**
+ * Save the ghost source setting
+ */
+export async function saveGhostSource(source: GhostSource): Promise<void> {
+  await writeJson(SOURCE_KEY, source);
+}
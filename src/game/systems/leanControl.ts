@@ -0,0 +1,90 @@
+/**
+ * Lean Control - Turn buttons and device tilt into a lean input
+ *
+ * Lean comes from the on-screen buttons, or optionally from tilting the
+ * device. Tilt readings come from an accelerometer source supplied by
+ * the app; buttons always win over tilt while held.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { LeanInput } from '../simulation/simulation';
+
+const MODE_KEY = '@summit_wheels_lean_mode';
+
+/**
+ * How the player leans
+ */
+export type LeanControlMode = 'buttons' | 'tilt';
+
+export const DEFAULT_LEAN_CONTROL_MODE: LeanControlMode = 'buttons';
+
+export type TiltConfig = {
+  /** Tilt ignored around level (in g) */
+  deadzone: number;
+  /** Flip the tilt axis (device held the other way round) */
+  invert: boolean;
+};
+
+export const DEFAULT_TILT_CONFIG: TiltConfig = {
+  deadzone: 0.15,
+  invert: false,
+};
+
+/**
+ * Source of device tilt readings (gravity along the screen's left-right axis, in g)
+ */
+export type TiltSource = {
+  /** Start listening; returns an unsubscribe function */
+  subscribe: (listener: (tiltX: number) => void) => () => void;
+};
+
+/**
+ * Map a tilt reading to a lean (tilting right leans forward)
+ */
+export function tiltToLean(tiltX: number, config: Partial<TiltConfig> = {}): LeanInput {
+  const cfg: TiltConfig = { ...DEFAULT_TILT_CONFIG, ...config };
+  const tilt = cfg.invert ? -tiltX : tiltX;
+
+  if (tilt > cfg.deadzone) return 1;
+  if (tilt < -cfg.deadzone) return -1;
+  return 0;
+}
+
+/**
+ * Combine the held lean buttons with the tilt lean
+ */
+export function combineLean(
+  leanBack: boolean,
+  leanForward: boolean,
+  tiltLean: LeanInput
+): LeanInput {
+  // Both buttons cancel out
+  if (leanBack && leanForward) return 0;
+  if (leanBack) return -1;
+  if (leanForward) return 1;
+  return tiltLean;
+}
+
+/**
+ * Load the lean control mode
+ */
+export async function loadLeanControlMode(): Promise<LeanControlMode> {
+  try {
+    const data = await AsyncStorage.getItem(MODE_KEY);
+    return data === 'buttons' || data === 'tilt' ? data : DEFAULT_LEAN_CONTROL_MODE;
+  } catch (error) {
+    console.warn('Failed to load lean control mode:', error);
+    return DEFAULT_LEAN_CONTROL_MODE;
+  }
+}
+
+/**
+ * Save the lean control mode
+ */
+export async function saveLeanControlMode(mode: LeanControlMode): Promise<void> {
+  try {
+    await AsyncStorage.setItem(MODE_KEY, mode);
+  } catch (error) {
+    console.warn('Failed to save lean control mode:', error);
+  }
+}
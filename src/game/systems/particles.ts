@@ -2,13 +2,25 @@
  * Particle Effects System
  *
  * Handles visual effects:
- * - Dust trails from wheels
+ * - Dust trails from wheels (styled by the ground surface)
  * - Coin collection sparkles
  * - Crash explosion
  * - Landing dust
+ * - Damage debris
+ * - Cosmetic trails behind the car
  */
 
-export type ParticleType = 'dust' | 'sparkle' | 'smoke' | 'explosion' | 'snow';
+import { SurfaceType } from '../terrain/surfaces';
+
+export type ParticleType =
+  | 'dust'
+  | 'sparkle'
+  | 'smoke'
+  | 'explosion'
+  | 'snow'
+  | 'mud'
+  | 'debris'
+  | 'trail';
 
 export type Particle = {
   id: number;
@@ -26,6 +38,20 @@ export type Particle = {
   rotationSpeed: number;
 };
 
+/**
+ * Look of a cosmetic trail
+ */
+export type TrailStyle = {
+  colors: string[];
+  /** Particles per emit at full speed */
+  density: number;
+  /** Particle size range */
+  size: { min: number; max: number };
+  /** Upward drift speed */
+  lift: number;
+  maxLifetime: number;
+};
+
 export type ParticleConfig = {
   /** Max particles in pool */
   maxParticles: number;
@@ -56,10 +82,90 @@ export type ParticleSystem = {
   emitExplosion: (x: number, y: number) => void;
   /** Emit landing dust */
   emitLandingDust: (x: number, y: number, velocity: number) => void;
+  /** Emit dents and debris for vehicle damage (amount 0-100) */
+  emitDebris: (x: number, y: number, amount: number) => void;
+  /** Emit wheel spray for the ground surface (mud splatter, ice sparkle...) */
+  emitSurfaceSpray: (x: number, y: number, intensity: number, surface: SurfaceType) => void;
+  /** Emit a cosmetic trail behind the car (intensity 0-1 with speed) */
+  emitTrail: (x: number, y: number, intensity: number, style: TrailStyle) => void;
   /** Clear all particles */
   clear: () => void;
 };
 
+/**
+ * What the wheels throw up on each surface
+ */
+type SurfaceSpray = {
+  type: ParticleType;
+  colors: string[];
+  /** Particles per unit of intensity */
+  density: number;
+  /** Particle size range */
+  size: { min: number; max: number };
+  /** Upward launch speed per unit of intensity */
+  lift: number;
+  maxLifetime: number;
+};
+
+const SURFACE_SPRAYS: Record<SurfaceType, SurfaceSpray> = {
+  grass: {
+    type: 'dust',
+    colors: ['#8B7355', '#6B8E23'],
+    density: 3,
+    size: { min: 3, max: 8 },
+    lift: 1.5,
+    maxLifetime: 500,
+  },
+  mud: {
+    type: 'mud',
+    colors: ['#3E2723', '#4E342E', '#5D4037'],
+    density: 4,
+    size: { min: 4, max: 9 },
+    lift: 3,
+    maxLifetime: 700,
+  },
+  ice: {
+    type: 'sparkle',
+    colors: ['#FFFFFF', '#E1F5FE', '#81D4FA'],
+    density: 2,
+    size: { min: 2, max: 5 },
+    lift: 1,
+    maxLifetime: 450,
+  },
+  gravel: {
+    type: 'dust',
+    colors: ['#9E9E9E', '#757575', '#616161'],
+    density: 3,
+    size: { min: 2, max: 4 },
+    lift: 2.5,
+    maxLifetime: 450,
+  },
+  sand: {
+    type: 'dust',
+    colors: ['#E0C080', '#D2B48C'],
+    density: 4,
+    size: { min: 4, max: 9 },
+    lift: 1.2,
+    maxLifetime: 650,
+  },
+  asphalt: {
+    type: 'smoke',
+    colors: ['#BDBDBD', '#9E9E9E'],
+    density: 1,
+    size: { min: 6, max: 10 },
+    lift: 0.8,
+    maxLifetime: 700,
+  },
+  lava_rock: {
+    type: 'dust',
+    colors: ['#FF5722', '#FF9800', '#3E2723'],
+    density: 3,
+    size: { min: 2, max: 5 },
+    lift: 2,
+    maxLifetime: 500,
+  },
+};
+
 let nextParticleId = 0;
 
 /**
@@ -136,7 +242,7 @@ export function createParticleSystem(
       p.alpha = 1 - lifeProgress;
 
       // Shrink over time
-      if (p.type === 'dust' || p.type === 'smoke') {
+      if (p.type === 'dust' || p.type === 'smoke' || p.type === 'trail') {
         p.size *= 0.99;
       }
 
@@ -246,6 +352,68 @@ export function createParticleSystem(
     }
   };
 
+  const emitDebris = (x: number, y: number, amount: number): void => {
+    const count = Math.min(10, 2 + Math.floor(amount / 3));
+    const colors = ['#9E9E9E', '#616161', '#BDBDBD'];
+    for (let i = 0; i < count; i++) {
+      const angle = -Math.PI * Math.random();
+      const speed = 1 + Math.random() * 3;
+      const particle = createParticle('debris', x, y, {
+        vx: Math.cos(angle) * speed,
+        vy: Math.sin(angle) * speed,
+        size: 2 + Math.random() * 3,
+        color: colors[Math.floor(Math.random() * colors.length)],
+        maxLifetime: 500 + Math.random() * 300,
+        rotation: Math.random() * Math.PI * 2,
+        rotationSpeed: (Math.random() - 0.5) * 0.4,
+      });
+      addParticle(particle);
+    }
+
+    // Big hits leave a puff of smoke
+    if (amount >= 10) {
+      emitSmoke(x, y);
+    }
+  };
+
+  const emitSurfaceSpray = (
+    x: number,
+    y: number,
+    intensity: number,
+    surface: SurfaceType
+  ): void => {
+    const spray = SURFACE_SPRAYS[surface];
+    const count = Math.floor(intensity * spray.density);
+    for (let i = 0; i < count; i++) {
+      const particle = createParticle(spray.type, x, y, {
+        // Thrown back, away from the direction of travel
+        vx: -Math.random() * intensity * 2,
+        vy: -Math.random() * intensity * spray.lift,
+        size: spray.size.min + Math.random() * (spray.size.max - spray.size.min),
+        color: spray.colors[Math.floor(Math.random() * spray.colors.length)],
+        maxLifetime: spray.maxLifetime + Math.random() * 200,
+        alpha: 0.7 + Math.random() * 0.3,
+      });
+      addParticle(particle);
+    }
+  };
+
+  const emitTrail = (x: number, y: number, intensity: number, style: TrailStyle): void => {
+    const count = Math.max(1, Math.round(intensity * style.density));
+    for (let i = 0; i < count; i++) {
+      const particle = createParticle('trail', x, y + (Math.random() - 0.5) * 10, {
+        // Left behind where the car was, drifting up
+        vx: -Math.random() * 0.5,
+        vy: -Math.random() * style.lift,
+        size: style.size.min + Math.random() * (style.size.max - style.size.min),
+        color: style.colors[Math.floor(Math.random() * style.colors.length)],
+        maxLifetime: style.maxLifetime + Math.random() * 200,
+        alpha: 0.8,
+      });
+      addParticle(particle);
+    }
+  };
+
   const clear = (): void => {
     particles = [];
   };
@@ -258,6 +426,9 @@ export function createParticleSystem(
     emitSmoke,
     emitExplosion,
     emitLandingDust,
+    emitDebris,
+    emitSurfaceSpray,
+    emitTrail,
     clear,
   };
 }
@@ -276,7 +447,11 @@ export function getParticleStyle(particle: Particle): {
     case 'smoke':
       return { type: 'circle', blur: 2 };
     case 'explosion':
+    case 'trail':
       return { type: 'circle', blur: 1 };
+    case 'mud':
+    case 'debris':
+      return { type: 'square', blur: 0 };
     default:
       return { type: 'circle', blur: 0 };
   }
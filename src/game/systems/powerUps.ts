@@ -0,0 +1,164 @@
+/**
+ * Power-Up System - Items collected on the track
+ *
+ * - Coin magnet: pulls nearby coins in for a while
+ * - Shield: absorbs the next crash
+ * - Nitro: tops up the boost meter at once
+ * - Double coins: coins count twice for a while
+ * - Slow motion: the world runs slower for a while
+ *
+ * Collecting a timed power-up that is already running restarts its timer.
+ */
+
+export type PowerUpType = 'magnet' | 'shield' | 'nitro' | 'doubleCoins' | 'slowMotion';
+
+/**
+ * Power-ups that last for a while after pickup
+ */
+export type TimedPowerUp = 'magnet' | 'doubleCoins' | 'slowMotion';
+
+export const POWER_UP_TYPES: PowerUpType[] = [
+  'magnet',
+  'shield',
+  'nitro',
+  'doubleCoins',
+  'slowMotion',
+];
+
+const TIMED_POWER_UPS: TimedPowerUp[] = ['magnet', 'doubleCoins', 'slowMotion'];
+
+/**
+ * HUD icon for each power-up
+ */
+export const POWER_UP_ICONS: Record<PowerUpType, string> = {
+  magnet: '🧲',
+  shield: '🛡️',
+  nitro: '🔥',
+  doubleCoins: '×2',
+  slowMotion: '⏳',
+};
+
+export type PowerUpConfig = {
+  /** How long each timed power-up lasts (ms) */
+  durations: Record<TimedPowerUp, number>;
+  /** Boost added by a nitro pickup */
+  nitroAmount: number;
+  /** Physics time scale during slow motion */
+  slowMotionScale: number;
+};
+
+export const DEFAULT_POWER_UP_CONFIG: PowerUpConfig = {
+  durations: {
+    magnet: 10000,
+    doubleCoins: 10000,
+    slowMotion: 4000,
+  },
+  nitroAmount: 50,
+  slowMotionScale: 0.5,
+};
+
+export type ActivePowerUp = {
+  type: TimedPowerUp;
+  /** Time left (ms) */
+  remaining: number;
+  /** Full duration (ms) */
+  duration: number;
+};
+
+export type PowerUpState = {
+  /** Timed power-ups running, in pickup order */
+  active: ActivePowerUp[];
+  /** A shield is waiting to absorb a crash */
+  hasShield: boolean;
+};
+
+export type PowerUpSystem = {
+  /** Get current state */
+  getState: () => PowerUpState;
+  /** Start a collected power-up (nitro is paid out by the boost system) */
+  collect: (type: PowerUpType) => void;
+  /** Is a timed power-up running */
+  isActive: (type: TimedPowerUp) => boolean;
+  /** Spend the shield on a crash (returns false without one) */
+  useShield: () => boolean;
+  /** Physics time scale for the current tick */
+  getTimeScale: () => number;
+  /** Count down the timers */
+  update: (deltaMs: number) => void;
+  /** Reset system */
+  reset: () => void;
+  /** Get config */
+  getConfig: () => PowerUpConfig;
+};
+
+/**
+ * Is this power-up timed
+ */
+export function isTimedPowerUp(type: PowerUpType): type is TimedPowerUp {
+  return (TIMED_POWER_UPS as PowerUpType[]).includes(type);
+}
+
+/**
+ * Creates a power-up system
+ */
+export function createPowerUpSystem(
+  config: Partial<PowerUpConfig> = {}
+): PowerUpSystem {
+  const cfg: PowerUpConfig = { ...DEFAULT_POWER_UP_CONFIG, ...config };
+
+  let active: ActivePowerUp[] = [];
+  let hasShield = false;
+
+  const getState = (): PowerUpState => ({
+    active: active.map((powerUp) => ({ ...powerUp })),
+    hasShield,
+  });
+
+  const collect = (type: PowerUpType): void => {
+    if (type === 'shield') {
+      hasShield = true;
+      return;
+    }
+    if (!isTimedPowerUp(type)) return;
+
+    const duration = cfg.durations[type];
+    active = [
+      ...active.filter((powerUp) => powerUp.type !== type),
+      { type, remaining: duration, duration },
+    ];
+  };
+
+  const isActive = (type: TimedPowerUp): boolean =>
+    active.some((powerUp) => powerUp.type === type);
+
+  const useShield = (): boolean => {
+    if (!hasShield) return false;
+    hasShield = false;
+    return true;
+  };
+
+  const getTimeScale = (): number =>
+    isActive('slowMotion') ? cfg.slowMotionScale : 1;
+
+  const update = (deltaMs: number): void => {
+    active = active
+      .map((powerUp) => ({ ...powerUp, remaining: powerUp.remaining - deltaMs }))
+      .filter((powerUp) => powerUp.remaining > 0);
+  };
+
+  const reset = (): void => {
+    active = [];
+    hasShield = false;
+  };
+
+  return {
+    getState,
+    collect,
+    isActive,
+    useShield,
+    getTimeScale,
+    update,
+    reset,
+    getConfig: () => ({ ...cfg, durations: { ...cfg.durations } }),
+  };
+}
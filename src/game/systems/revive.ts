@@ -0,0 +1,109 @@
+/**
+ * Revive - Paying to continue an ended run from its last checkpoint
+ *
+ * A revive is paid for with coins (getting pricier with each revive
+ * this run), by watching a rewarded ad, or free with the Summit Pass
+ * perk. How many revives a run gets is up to the checkpoint system.
+ */
+
+import { AdService } from '../../ads/AdService';
+import { EntitlementService } from '../../services/EntitlementService';
+import { getProgressionManager } from '../progression/upgrades';
+
+export type RevivePayment = 'coins' | 'ad' | 'summitPass';
+
+export type ReviveOption = {
+  payment: RevivePayment;
+  /** Coin price (0 for ads and the pass) */
+  cost: number;
+  /** Player can use this option right now */
+  available: boolean;
+};
+
+export type ReviveConfig = {
+  /** Coin price of the first revive */
+  coinCost: number;
+  /** Price multiplier for each further revive this run */
+  costGrowth: number;
+  /** Free revives per run for Summit Pass holders */
+  passRevivesPerRun: number;
+};
+
+export const DEFAULT_REVIVE_CONFIG: ReviveConfig = {
+  coinCost: 150,
+  costGrowth: 2,
+  passRevivesPerRun: 1,
+};
+
+export type ReviveSystem = {
+  /** Coin price of the next revive */
+  getCoinCost: (revivesUsed: number) => number;
+  /** Ways to pay for the next revive (empty when none are left) */
+  getOptions: (revivesUsed: number, revivesLeft: number) => ReviveOption[];
+  /** Pay for a revive (returns false if the payment did not go through) */
+  pay: (payment: RevivePayment, revivesUsed: number) => Promise<boolean>;
+  /** Reset for a new run */
+  reset: () => void;
+};
+
+/**
+ * Creates the revive payment flow for a run
+ */
+export function createReviveSystem(config: Partial<ReviveConfig> = {}): ReviveSystem {
+  const cfg: ReviveConfig = { ...DEFAULT_REVIVE_CONFIG, ...config };
+
+  let passRevivesUsed = 0;
+
+  const getCoinCost = (revivesUsed: number): number =>
+    Math.round(cfg.coinCost * Math.pow(cfg.costGrowth, revivesUsed));
+
+  const hasPassRevive = (): boolean =>
+    EntitlementService.hasSummitPass() && passRevivesUsed < cfg.passRevivesPerRun;
+
+  const getOptions = (revivesUsed: number, revivesLeft: number): ReviveOption[] => {
+    if (revivesLeft <= 0) return [];
+
+    const cost = getCoinCost(revivesUsed);
+    const options: ReviveOption[] = [
+      {
+        payment: 'coins',
+        cost,
+        available: getProgressionManager().getProgress().coins >= cost,
+      },
+      { payment: 'ad', cost: 0, available: AdService.isRewardedReady() },
+    ];
+    if (hasPassRevive()) {
+      options.unshift({ payment: 'summitPass', cost: 0, available: true });
+    }
+    return options;
+  };
+
+  const pay = async (payment: RevivePayment, revivesUsed: number): Promise<boolean> => {
+    switch (payment) {
+      case 'coins':
+        return getProgressionManager().spendCoins(getCoinCost(revivesUsed), 'revive');
+      case 'ad': {
+        let rewarded = false;
+        const result = await AdService.showRewarded(() => {
+          rewarded = true;
+        });
+        return result.completed && rewarded;
+      }
+      case 'summitPass':
+        if (!hasPassRevive()) return false;
+        passRevivesUsed++;
+        return true;
+    }
+  };
+
+  const reset = (): void => {
+    passRevivesUsed = 0;
+  };
+
+  return {
+    getCoinCost,
+    getOptions,
+    pay,
+    reset,
+  };
+}
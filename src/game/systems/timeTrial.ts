@@ -0,0 +1,153 @@
+/**
+ * Time Trial - Countdown start, split times and the finish time of a course
+ *
+ * The clock is the run's simulated time, started at GO. Splits are taken
+ * every interval (and at the finish line), each timed to the millisecond
+ * by interpolating between the two ticks either side of the mark, and
+ * compared against the best run's time at the same mark.
+ */
+
+export type Split = {
+  /** Split number (1-based) */
+  index: number;
+  /** Distance of the split mark (m) */
+  distance: number;
+  /** Time the mark was reached (ms) */
+  time: number;
+  /** Time minus the best run's time at the mark (ms, negative = ahead; null without a best) */
+  delta: number | null;
+};
+
+export type TimeTrialConfig = {
+  /** Distance between splits (m) */
+  splitInterval: number;
+  /** Countdown before the start (ms) */
+  countdownMs: number;
+};
+
+export const DEFAULT_TIME_TRIAL_CONFIG: TimeTrialConfig = {
+  splitInterval: 250,
+  countdownMs: 3000,
+};
+
+export type TimeTrialState = {
+  /** Splits taken so far */
+  splits: Split[];
+  /** Time at the finish line (ms, null until finished) */
+  finishTime: number | null;
+  /** Distance of the next split mark (m, null once finished) */
+  nextSplit: number | null;
+};
+
+/**
+ * Best run's time at a distance (ms, null where it has none)
+ */
+export type BestTimeAt = (distance: number) => number | null;
+
+export type TimeTrial = {
+  /** Get current state */
+  getState: () => TimeTrialState;
+  /** Split marks along the course (m), ending at the finish line */
+  getSplitMarks: () => number[];
+  /**
+   * Advance to where the car is at a moment of the run (returns the
+   * splits passed since the last update)
+   */
+  update: (distance: number, time: number, bestTimeAt?: BestTimeAt) => Split[];
+  /** Reset for a new attempt */
+  reset: () => void;
+};
+
+/**
+ * Countdown shown before the start ('3', '2', '1', then null at GO)
+ */
+export function getCountdownLabel(remainingMs: number): string | null {
+  return remainingMs > 0 ? String(Math.ceil(remainingMs / 1000)) : null;
+}
+
+/**
+ * Race time as M:SS.mmm
+ */
+export function formatRaceTime(ms: number): string {
+  const totalMs = Math.max(0, Math.round(ms));
+  const mins = Math.floor(totalMs / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const millis = totalMs % 1000;
+  return `${mins}:${secs.toString().padStart(2, '0')}.${millis.toString().padStart(3, '0')}`;
+}
+
+/**
+ * Split delta as +S.mmm / -S.mmm
+ */
+export function formatSplitDelta(deltaMs: number): string {
+  const sign = deltaMs > 0 ? '+' : '-';
+  return `${sign}${(Math.abs(Math.round(deltaMs)) / 1000).toFixed(3)}`;
+}
+
+/**
+ * Creates the split timer for a course of the given length (m)
+ */
+export function createTimeTrial(
+  courseLength: number,
+  config: Partial<TimeTrialConfig> = {}
+): TimeTrial {
+  const cfg: TimeTrialConfig = { ...DEFAULT_TIME_TRIAL_CONFIG, ...config };
+
+  const marks: number[] = [];
+  for (let d = cfg.splitInterval; d < courseLength; d += cfg.splitInterval) {
+    marks.push(d);
+  }
+  marks.push(courseLength);
+
+  let splits: Split[] = [];
+  let lastDistance = 0;
+  let lastTime = 0;
+
+  const getState = (): TimeTrialState => {
+    const isFinished = splits.length === marks.length;
+    return {
+      splits: splits.map((split) => ({ ...split })),
+      finishTime: isFinished ? splits[splits.length - 1].time : null,
+      nextSplit: isFinished ? null : marks[splits.length],
+    };
+  };
+
+  const update = (distance: number, time: number, bestTimeAt?: BestTimeAt): Split[] => {
+    const passed: Split[] = [];
+
+    while (splits.length < marks.length && distance >= marks[splits.length]) {
+      const mark = marks[splits.length];
+      // Time the mark was crossed between the last update and this one
+      const covered = distance - lastDistance;
+      const fraction = covered > 0 ? (mark - lastDistance) / covered : 1;
+      const splitTime = lastTime + (time - lastTime) * Math.min(1, Math.max(0, fraction));
+
+      const best = bestTimeAt?.(mark) ?? null;
+      const split: Split = {
+        index: splits.length + 1,
+        distance: mark,
+        time: splitTime,
+        delta: best === null ? null : splitTime - best,
+      };
+      splits.push(split);
+      passed.push({ ...split });
+    }
+
+    lastDistance = distance;
+    lastTime = time;
+    return passed;
+  };
+
+  const reset = (): void => {
+    splits = [];
+    lastDistance = 0;
+    lastTime = 0;
+  };
+
+  return {
+    getState,
+    getSplitMarks: () => [...marks],
+    update,
+    reset,
+  };
+}
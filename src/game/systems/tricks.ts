@@ -3,6 +3,7 @@
  *
  * Detects:
  * - Flips (360° rotation)
+ * - Controlled flips (rotation mostly driven by leaning into it)
  * - Air time bonuses
  * - Landing bonuses
  */
@@ -12,6 +13,7 @@ export type TrickType =
   | 'backflip'
   | 'frontflip'
   | 'doubleFlip'
+  | 'controlledFlip'
   | 'airTime'
   | 'perfectLanding';
 
@@ -37,6 +39,8 @@ export type TrickState = {
   previousAngle: number;
   /** Flips completed this jump */
   flipsCompleted: number;
+  /** Rotation of the current flip made while leaning into the spin */
+  leanRotation: number;
   /** Pending tricks to be scored on landing */
   pendingTricks: Trick[];
   /** Recent tricks (for display) */
@@ -58,6 +62,10 @@ export type TrickConfig = {
   backflipMultiplier: number;
   /** Points for perfect landing (little bounce) */
   perfectLandingPoints: number;
+  /** Bonus points for a flip driven by leaning */
+  controlledFlipPoints: number;
+  /** Fraction of a flip that must be leaned into to count as controlled */
+  controlledFlipThreshold: number;
   /** How long tricks stay in recent list (ms) */
   trickDisplayDuration: number;
 };
@@ -69,21 +77,26 @@ export const DEFAULT_TRICK_CONFIG: TrickConfig = {
   doubleFlipPoints: 1500,
   backflipMultiplier: 1.5,
   perfectLandingPoints: 200,
+  controlledFlipPoints: 250,
+  controlledFlipThreshold: 0.6,
   trickDisplayDuration: 2000,
 };
 
 export type TrickSystem = {
   /** Get current state */
   getState: () => TrickState;
-  /** Update with car physics state */
+  /** Update with car physics state and the lean held (-1 back, 1 forward) */
   update: (
     isGrounded: boolean,
     carAngle: number,
     carVelocityY: number,
-    currentTime: number
+    currentTime: number,
+    lean?: number
   ) => Trick[];
   /** Clear recent tricks older than display duration */
   clearOldTricks: (currentTime: number) => void;
+  /** Drop the current jump without scoring it (e.g. respawning) */
+  cancelJump: () => void;
   /** Reset the system */
   reset: () => void;
   /** Get config */
@@ -106,6 +119,7 @@ export function createTrickSystem(
     totalRotation: 0,
     previousAngle: 0,
     flipsCompleted: 0,
+    leanRotation: 0,
     pendingTricks: [],
     recentTricks: [],
     totalTrickPoints: 0,
@@ -136,7 +150,8 @@ export function createTrickSystem(
     isGrounded: boolean,
     carAngle: number,
     carVelocityY: number,
-    currentTime: number
+    currentTime: number,
+    lean: number = 0
   ): Trick[] => {
     const newTricks: Trick[] = [];
 
@@ -148,6 +163,7 @@ export function createTrickSystem(
       state.previousAngle = carAngle;
       state.totalRotation = 0;
       state.flipsCompleted = 0;
+      state.leanRotation = 0;
       state.pendingTricks = [];
     }
 
@@ -167,6 +183,11 @@ export function createTrickSystem(
       state.totalRotation += adjustedDelta;
       state.previousAngle = carAngle;
 
+      // Rotation made while leaning the same way (lean back spins backwards)
+      if (lean * adjustedDelta > 0) {
+        state.leanRotation += Math.abs(adjustedDelta);
+      }
+
       // Check for completed flips (360° rotation)
       const absRotation = Math.abs(state.totalRotation);
       const newFlips = Math.floor(absRotation / (Math.PI * 2));
@@ -206,6 +227,18 @@ export function createTrickSystem(
             state.pendingTricks.push(trick);
           }
         }
+
+        // Leaned through most of the flip
+        const leanNeeded = Math.PI * 2 * flipsJustCompleted * cfg.controlledFlipThreshold;
+        if (state.leanRotation >= leanNeeded) {
+          state.pendingTricks.push({
+            type: 'controlledFlip',
+            value: cfg.controlledFlipPoints * flipsJustCompleted,
+            label: 'CONTROLLED!',
+            timestamp: currentTime,
+          });
+        }
+        state.leanRotation = 0;
       }
     }
 
@@ -248,6 +281,7 @@ export function createTrickSystem(
       state.currentAirTime = 0;
       state.totalRotation = 0;
       state.flipsCompleted = 0;
+      state.leanRotation = 0;
       state.pendingTricks = [];
     }
 
@@ -260,6 +294,15 @@ export function createTrickSystem(
     );
   };
 
+  const cancelJump = (): void => {
+    state.isAirborne = false;
+    state.currentAirTime = 0;
+    state.totalRotation = 0;
+    state.flipsCompleted = 0;
+    state.leanRotation = 0;
+    state.pendingTricks = [];
+  };
+
   const reset = (): void => {
     state = {
       isAirborne: false,
@@ -269,6 +312,7 @@ export function createTrickSystem(
       totalRotation: 0,
       previousAngle: 0,
       flipsCompleted: 0,
+      leanRotation: 0,
       pendingTricks: [],
       recentTricks: [],
       totalTrickPoints: 0,
@@ -279,6 +323,7 @@ export function createTrickSystem(
     getState,
     update,
     clearOldTricks,
+    cancelJump,
     reset,
     getConfig: () => ({ ...cfg }),
   };
@@ -7,8 +7,12 @@
  * - Rain particles (Forest)
  * - Ash particles (Volcano)
  * - Fog overlay (configurable)
+ * - Weather conditions: deterministic gameplay effects whose
+ *   intensity varies over distance from the run seed
  */
 
+import { createSeededRng } from '../terrain/seededRng';
+
 export type WeatherType = 'snow' | 'sandstorm' | 'rain' | 'ash' | 'none';
 
 export type WeatherParticle = {
@@ -273,3 +277,133 @@ export function getWeatherRenderData(particles: WeatherParticle[]): {
     })),
   };
 }
+
+export type WeatherEffectsConfig = {
+  /** Distance between intensity control points (px) */
+  intensityCellWidth: number;
+  /** Lowest intensity weather drops to */
+  minIntensity: number;
+  /** Ground friction lost in full rain (0-1) */
+  rainFrictionLoss: number;
+  /** Headwind at full sandstorm (fraction of normal gravity) */
+  sandstormHeadwind: number;
+  /** Visible distance ahead in calm and full sandstorm (px) */
+  sandstormVisibility: { max: number; min: number };
+  /** Slope (rise over run) above which snow settles */
+  snowSlopeThreshold: number;
+  /** Max snow depth on the steepest segments (px) */
+  maxSnowDepth: number;
+  /** Ground friction lost under the deepest snow (0-1) */
+  snowFrictionLoss: number;
+  /** Pickup opacity lost in full ash (0-1) */
+  ashPickupObscure: number;
+};
+
+export const DEFAULT_WEATHER_EFFECTS_CONFIG: WeatherEffectsConfig = {
+  intensityCellWidth: 1500,
+  minIntensity: 0.2,
+  rainFrictionLoss: 0.45,
+  sandstormHeadwind: 0.12,
+  sandstormVisibility: { max: 900, min: 250 },
+  snowSlopeThreshold: 0.25,
+  maxSnowDepth: 14,
+  snowFrictionLoss: 0.6,
+  ashPickupObscure: 0.85,
+};
+
+export type WeatherConditions = {
+  /** Weather type */
+  type: WeatherType;
+  /** Weather intensity at a world x (0-1) */
+  getIntensityAt: (x: number) => number;
+  /** Multiplier for ground friction over a stretch of terrain */
+  getFrictionScale: (x: number, slope: number) => number;
+  /** Snow settled on terrain (px) */
+  getSnowDepth: (x: number, slope: number) => number;
+  /** Headwind at a world x (fraction of normal gravity, pushes back) */
+  getHeadwind: (x: number) => number;
+  /** Visible distance ahead of x (px), null = clear */
+  getVisibility: (x: number) => number | null;
+  /** Pickup opacity at a world x (0-1) */
+  getPickupOpacity: (x: number) => number;
+};
+
+/**
+ * Create the gameplay side of a run's weather. Pure functions of the
+ * seed and position, so replays see exactly the same weather.
+ */
+export function createWeatherConditions(
+  type: WeatherType,
+  seed: number,
+  config: Partial<WeatherEffectsConfig> = {}
+): WeatherConditions {
+  const cfg: WeatherEffectsConfig = { ...DEFAULT_WEATHER_EFFECTS_CONFIG, ...config };
+
+  // One intensity per cell, eased between neighbouring cells
+  const cellIntensity = (cell: number): number => {
+    const rng = createSeededRng((seed ^ 0x57ea7e2) + cell * 7919);
+    return cfg.minIntensity + rng.random() * (1 - cfg.minIntensity);
+  };
+
+  const getIntensityAt = (x: number): number => {
+    if (type === 'none') return 0;
+    const position = Math.max(0, x) / cfg.intensityCellWidth;
+    const cell = Math.floor(position);
+    const t = (1 - Math.cos((position - cell) * Math.PI)) / 2;
+    return cellIntensity(cell) * (1 - t) + cellIntensity(cell + 1) * t;
+  };
+
+  const getSnowDepth = (x: number, slope: number): number => {
+    if (type !== 'snow') return 0;
+    const steepness = Math.abs(slope) - cfg.snowSlopeThreshold;
+    if (steepness <= 0) return 0;
+    return cfg.maxSnowDepth * getIntensityAt(x) * Math.min(1, steepness / cfg.snowSlopeThreshold);
+  };
+
+  const getFrictionScale = (x: number, slope: number): number => {
+    switch (type) {
+      case 'rain':
+        return 1 - cfg.rainFrictionLoss * getIntensityAt(x);
+      case 'snow':
+        return 1 - cfg.snowFrictionLoss * (getSnowDepth(x, slope) / cfg.maxSnowDepth);
+      default:
+        return 1;
+    }
+  };
+
+  const getHeadwind = (x: number): number =>
+    type === 'sandstorm' ? cfg.sandstormHeadwind * getIntensityAt(x) : 0;
+
+  const getVisibility = (x: number): number | null => {
+    if (type !== 'sandstorm') return null;
+    const { max, min } = cfg.sandstormVisibility;
+    return max - (max - min) * getIntensityAt(x);
+  };
+
+  const getPickupOpacity = (x: number): number =>
+    type === 'ash' ? 1 - cfg.ashPickupObscure * getIntensityAt(x) : 1;
+
+  return {
+    type,
+    getIntensityAt,
+    getFrictionScale,
+    getSnowDepth,
+    getHeadwind,
+    getVisibility,
+    getPickupOpacity,
+  };
+}
+
+/**
+ * Steepest slope (rise over run) along a terrain surface
+ */
+export function getSurfaceSlope(surface: { x: number; y: number }[]): number {
+  let steepest = 0;
+  for (let i = 1; i < surface.length; i++) {
+    const run = surface[i].x - surface[i - 1].x;
+    if (run <= 0) continue;
+    const slope = (surface[i - 1].y - surface[i].y) / run;
+    if (Math.abs(slope) > Math.abs(steepest)) steepest = slope;
+  }
+  return steepest;
+}
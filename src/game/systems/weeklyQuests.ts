@@ -0,0 +1,301 @@
+/**
+ * Weekly Quests - The season pass quest board
+ *
+ * Every week brings a board of quests ("Land 10 backflips on Arctic",
+ * "Drive 5 km with the Dune Buggy") generated from the week's id, so all
+ * players get the same board. A rerolled slot draws its next quest from
+ * the same seed, one step on. Quests progress across runs from the run
+ * event bus and pay season XP and coins once complete.
+ */
+
+import { RunEvent } from '../simulation/runEvents';
+import { STAGES, StageId } from '../config/stages';
+import { VEHICLES, VehicleId } from '../config/vehicles';
+import { createSeededRng, stringToSeed } from '../terrain/seededRng';
+import { TrickType } from './tricks';
+
+export type QuestGoal = 'distance' | 'tricks' | 'coins' | 'airTime' | 'runs';
+
+export type QuestTrack = 'free' | 'premium';
+
+export type WeeklyQuest = {
+  /** Unique per week, slot and reroll */
+  id: string;
+  /** Position on the board */
+  slot: number;
+  /** Premium quests need the premium season pass */
+  track: QuestTrack;
+  goal: QuestGoal;
+  /** Trick to land (null = any trick) */
+  trick: TrickType | null;
+  /** Stage the quest must be played on (null = any) */
+  stageId: StageId | null;
+  /** Vehicle the quest must be played with (null = any) */
+  vehicleId: VehicleId | null;
+  /** Amount to reach over the week */
+  target: number;
+  rewardXP: number;
+  rewardCoins: number;
+  description: string;
+};
+
+export type QuestBoardConfig = {
+  /** Quests open to every player */
+  freeSlots: number;
+  /** Quests for premium pass holders */
+  premiumSlots: number;
+  /** Rerolls allowed each week, across all slots */
+  rerollsPerWeek: number;
+};
+
+export const QUEST_BOARD_CONFIG: QuestBoardConfig = {
+  freeSlots: 3,
+  premiumSlots: 2,
+  rerollsPerWeek: 3,
+};
+
+const QUEST_GOALS: QuestGoal[] = ['distance', 'tricks', 'coins', 'airTime', 'runs'];
+
+/**
+ * Targets by difficulty (distance in m, air time in s)
+ */
+const QUEST_TARGETS: Record<QuestGoal, number[]> = {
+  distance: [2000, 5000, 10000],
+  tricks: [5, 10, 20],
+  coins: [300, 750, 1500],
+  airTime: [30, 60, 120],
+  runs: [5, 10, 20],
+};
+
+/**
+ * Rewards by difficulty
+ */
+const QUEST_REWARDS = [
+  { xp: 100, coins: 250 },
+  { xp: 200, coins: 500 },
+  { xp: 350, coins: 1000 },
+];
+
+/**
+ * Tricks a quest can ask for, with how they read in a description
+ */
+const QUEST_TRICKS: Partial<Record<TrickType, string>> = {
+  flip: 'flips',
+  backflip: 'backflips',
+  frontflip: 'frontflips',
+  doubleFlip: 'double flips',
+  perfectLanding: 'perfect landings',
+};
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Id of the week a date falls in (weeks start on Monday, UTC)
+ */
+export function getWeekId(date: Date = new Date()): string {
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  const monday = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday)
+  );
+  return `week_${monday.toISOString().split('T')[0]}`;
+}
+
+/**
+ * When a week's board is replaced (ms since epoch)
+ */
+export function getWeekEndTime(weekId: string): number {
+  return Date.parse(`${weekId.replace('week_', '')}T00:00:00Z`) + WEEK_MS;
+}
+
+/**
+ * Format a quest amount for display
+ */
+export function formatQuestValue(goal: QuestGoal, value: number): string {
+  if (goal === 'distance') {
+    return value >= 1000 ? `${parseFloat((value / 1000).toFixed(1))} km` : `${Math.floor(value)}m`;
+  }
+  if (goal === 'airTime') {
+    return `${Math.floor(value)}s`;
+  }
+  return `${Math.floor(value)}`;
+}
+
+/**
+ * Describe a quest for the board
+ */
+function describeQuest(
+  goal: QuestGoal,
+  target: number,
+  trick: TrickType | null,
+  stageId: StageId | null,
+  vehicleId: VehicleId | null
+): string {
+  const amount = formatQuestValue(goal, target);
+  const goalText: Record<QuestGoal, string> = {
+    distance: `Drive ${amount}`,
+    tricks: `Land ${amount} ${trick ? QUEST_TRICKS[trick] : 'tricks'}`,
+    coins: `Collect ${amount} coins`,
+    airTime: `Spend ${amount} in the air`,
+    runs: `Finish ${amount} runs`,
+  };
+
+  let description = goalText[goal];
+  if (vehicleId) {
+    description += ` with the ${VEHICLES[vehicleId].name}`;
+  }
+  if (stageId) {
+    description += ` on ${STAGES[stageId].name}`;
+  }
+  return description;
+}
+
+/**
+ * Generate the quest in a board slot
+ *
+ * @param reroll - Times the slot has been rerolled this week
+ */
+export function generateQuest(
+  weekId: string,
+  slot: number,
+  reroll: number,
+  track: QuestTrack
+): WeeklyQuest {
+  const id = `${weekId}:${slot}:${reroll}`;
+  const rng = createSeededRng(stringToSeed(id));
+
+  const goal = QUEST_GOALS[rng.randomInt(0, QUEST_GOALS.length)];
+  // Premium quests are the harder, better paid ones
+  const difficulty = track === 'free' ? rng.randomInt(0, 2) : rng.randomInt(1, 3);
+  const target = QUEST_TARGETS[goal][difficulty];
+
+  const tricks = Object.keys(QUEST_TRICKS) as TrickType[];
+  const trickIndex = rng.randomInt(0, tricks.length + 1);
+  const trick = goal === 'tricks' && trickIndex < tricks.length ? tricks[trickIndex] : null;
+
+  // About a third of quests ask for a stage, another third for a vehicle
+  const stages = Object.keys(STAGES) as StageId[];
+  const vehicles = Object.keys(VEHICLES) as VehicleId[];
+  const restriction = rng.random();
+  const stageId = restriction < 0.33 ? stages[rng.randomInt(0, stages.length)] : null;
+  const vehicleId =
+    restriction >= 0.33 && restriction < 0.66 ? vehicles[rng.randomInt(0, vehicles.length)] : null;
+
+  return {
+    id,
+    slot,
+    track,
+    goal,
+    trick,
+    stageId,
+    vehicleId,
+    target,
+    rewardXP: QUEST_REWARDS[difficulty].xp,
+    rewardCoins: QUEST_REWARDS[difficulty].coins,
+    description: describeQuest(goal, target, trick, stageId, vehicleId),
+  };
+}
+
+/**
+ * Generate a week's board: the free slots, then the premium ones
+ *
+ * @param slotRerolls - Times each slot has been rerolled this week
+ */
+export function generateQuestBoard(
+  weekId: string,
+  slotRerolls: number[] = [],
+  config: QuestBoardConfig = QUEST_BOARD_CONFIG
+): WeeklyQuest[] {
+  const slotCount = config.freeSlots + config.premiumSlots;
+  const quests: WeeklyQuest[] = [];
+
+  for (let slot = 0; slot < slotCount; slot++) {
+    const track: QuestTrack = slot < config.freeSlots ? 'free' : 'premium';
+    quests.push(generateQuest(weekId, slot, slotRerolls[slot] ?? 0, track));
+  }
+
+  return quests;
+}
+
+export type QuestTracker = {
+  /** Handle one run event */
+  handle: (event: RunEvent) => void;
+  /** Progress made this run, by quest id */
+  getRunProgress: () => Record<string, number>;
+  /** Progress the run would have made if it ended now at a distance */
+  getEndProgress: (distance: number) => Record<string, number>;
+};
+
+/**
+ * Create a tracker that measures a run's progress on quests
+ */
+export function createQuestTracker(quests: WeeklyQuest[]): QuestTracker {
+  const progress: Record<string, number> = {};
+  let stageId: StageId | null = null;
+  let vehicleId: VehicleId | null = null;
+  let meters = 0;
+
+  const add = (
+    goal: QuestGoal,
+    amount: number,
+    matches: (quest: WeeklyQuest) => boolean = () => true,
+    into: Record<string, number> = progress
+  ): void => {
+    if (amount <= 0) return;
+
+    for (const quest of quests) {
+      if (quest.goal !== goal) continue;
+      if (quest.stageId && quest.stageId !== stageId) continue;
+      if (quest.vehicleId && quest.vehicleId !== vehicleId) continue;
+      if (!matches(quest)) continue;
+      into[quest.id] = (into[quest.id] ?? 0) + amount;
+    }
+  };
+
+  const addRunEnd = (distance: number, into: Record<string, number>): void => {
+    // Distance past the last milestone
+    add('distance', distance - meters, undefined, into);
+    add('runs', 1, undefined, into);
+  };
+
+  const handle = (event: RunEvent): void => {
+    switch (event.type) {
+      case 'runStart':
+        stageId = event.stageId;
+        vehicleId = event.vehicleId;
+        meters = 0;
+        break;
+
+      case 'distance':
+        add('distance', event.meters - meters);
+        meters = Math.max(meters, event.meters);
+        break;
+
+      case 'trick':
+        add('tricks', 1, (quest) => quest.trick === null || quest.trick === event.trick);
+        break;
+
+      case 'airTime':
+        add('airTime', event.seconds);
+        break;
+
+      case 'coins':
+        add('coins', event.amount);
+        break;
+
+      case 'runEnd':
+        addRunEnd(event.distance, progress);
+        meters = Math.max(meters, event.distance);
+        break;
+    }
+  };
+
+  return {
+    handle,
+    getRunProgress: () => ({ ...progress }),
+    getEndProgress: (distance) => {
+      const ended = { ...progress };
+      addRunEnd(distance, ended);
+      return ended;
+    },
+  };
+}
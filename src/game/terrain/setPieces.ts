@@ -0,0 +1,187 @@
+/**
+ * Set Pieces - Hand-authored terrain features
+ *
+ * Each set piece is a height profile relative to the ground height where
+ * it starts. The terrain generator splices them into the procedural
+ * stream at seeded intervals, weighted per stage.
+ */
+
+import { SeededRng } from './seededRng';
+
+export type SetPieceId =
+  | 'ramp'
+  | 'gap'
+  | 'bridge'
+  | 'staircase'
+  | 'cliff'
+  | 'crater'
+  | 'lava_gap';
+
+export type SetPiecePoint = {
+  /** Distance from the start of the piece (px) */
+  x: number;
+  /** Height above the entry height (px, negative = below) */
+  y: number;
+};
+
+export type SetPiece = {
+  id: SetPieceId;
+  name: string;
+  /** Length of the authored profile (px) */
+  length: number;
+  /** Height profile, sorted by x, starting at x = 0 */
+  profile: SetPiecePoint[];
+};
+
+/**
+ * Relative spawn weights per set piece (missing = never)
+ */
+export type SetPieceWeights = Partial<Record<SetPieceId, number>>;
+
+/**
+ * All authored set pieces
+ */
+export const SET_PIECES: Record<SetPieceId, SetPiece> = {
+  ramp: {
+    id: 'ramp',
+    name: 'Ramp',
+    length: 400,
+    profile: [
+      { x: 0, y: 0 },
+      { x: 60, y: 0 },
+      { x: 220, y: 70 },
+      { x: 250, y: 10 },
+      { x: 400, y: 0 },
+    ],
+  },
+  gap: {
+    id: 'gap',
+    name: 'Gap',
+    length: 600,
+    profile: [
+      { x: 0, y: 0 },
+      { x: 50, y: 0 },
+      { x: 200, y: 60 },
+      { x: 220, y: -110 },
+      { x: 360, y: -110 },
+      { x: 380, y: 30 },
+      { x: 600, y: 0 },
+    ],
+  },
+  bridge: {
+    id: 'bridge',
+    name: 'Bridge',
+    length: 600,
+    profile: [
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 200, y: -8 },
+      { x: 300, y: -12 },
+      { x: 400, y: -8 },
+      { x: 500, y: 0 },
+      { x: 600, y: 0 },
+    ],
+  },
+  staircase: {
+    id: 'staircase',
+    name: 'Staircase Hill',
+    length: 500,
+    profile: [
+      { x: 0, y: 0 },
+      { x: 40, y: 0 },
+      { x: 55, y: 30 },
+      { x: 120, y: 30 },
+      { x: 135, y: 60 },
+      { x: 200, y: 60 },
+      { x: 215, y: 90 },
+      { x: 280, y: 90 },
+      { x: 295, y: 120 },
+      { x: 500, y: 100 },
+    ],
+  },
+  cliff: {
+    id: 'cliff',
+    name: 'Cliff',
+    length: 350,
+    profile: [
+      { x: 0, y: 0 },
+      { x: 120, y: 10 },
+      { x: 150, y: -90 },
+      { x: 350, y: -100 },
+    ],
+  },
+  crater: {
+    id: 'crater',
+    name: 'Crater',
+    length: 500,
+    profile: [
+      { x: 0, y: 0 },
+      { x: 60, y: 25 },
+      { x: 120, y: -30 },
+      { x: 250, y: -70 },
+      { x: 380, y: -30 },
+      { x: 440, y: 25 },
+      { x: 500, y: 0 },
+    ],
+  },
+  lava_gap: {
+    id: 'lava_gap',
+    name: 'Lava Gap',
+    length: 700,
+    profile: [
+      { x: 0, y: 0 },
+      { x: 50, y: 0 },
+      { x: 230, y: 75 },
+      { x: 250, y: -140 },
+      { x: 450, y: -140 },
+      { x: 470, y: 40 },
+      { x: 700, y: 0 },
+    ],
+  },
+};
+
+/**
+ * Get a set piece by ID
+ */
+export function getSetPiece(id: SetPieceId): SetPiece {
+  return SET_PIECES[id];
+}
+
+/**
+ * Height offset of a set piece at a distance into it
+ * (the profile holds its last height past the end)
+ */
+export function sampleSetPiece(piece: SetPiece, x: number): number {
+  const { profile } = piece;
+  if (x <= profile[0].x) return profile[0].y;
+
+  for (let i = 1; i < profile.length; i++) {
+    const b = profile[i];
+    if (x <= b.x) {
+      const a = profile[i - 1];
+      return a.y + ((x - a.x) / (b.x - a.x)) * (b.y - a.y);
+    }
+  }
+
+  return profile[profile.length - 1].y;
+}
+
+/**
+ * Pick a set piece by weight (null if no piece has a positive weight)
+ */
+export function pickSetPiece(weights: SetPieceWeights, rng: SeededRng): SetPiece | null {
+  const entries = (Object.keys(weights) as SetPieceId[])
+    .sort()
+    .map((id) => [id, weights[id] ?? 0] as const)
+    .filter(([, weight]) => weight > 0);
+
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total <= 0) return null;
+
+  let roll = rng.random() * total;
+  for (const [id, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return SET_PIECES[id];
+  }
+  return SET_PIECES[entries[entries.length - 1][0]];
+}
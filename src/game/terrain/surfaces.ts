@@ -0,0 +1,127 @@
+/**
+ * Surfaces - Ground materials for terrain segments
+ *
+ * Each terrain segment is made of one material. Materials change how
+ * well the wheels grip, how much they drag, and how the ground looks.
+ */
+
+import { SeededRng } from './seededRng';
+
+export type SurfaceType =
+  | 'grass'
+  | 'mud'
+  | 'ice'
+  | 'gravel'
+  | 'sand'
+  | 'asphalt'
+  | 'lava_rock';
+
+export type SurfaceMaterial = {
+  id: SurfaceType;
+  name: string;
+  /** Ground friction multiplier (wheel grip) */
+  friction: number;
+  /** Fraction of wheel spin lost per tick while touching (0 = free rolling) */
+  rollingResistance: number;
+  /** Ground color */
+  color: string;
+};
+
+/**
+ * Relative spawn weights per surface (missing = never)
+ */
+export type SurfaceWeights = Partial<Record<SurfaceType, number>>;
+
+/**
+ * Surface used where a stage has no materials configured
+ */
+export const DEFAULT_SURFACE: SurfaceType = 'grass';
+
+/**
+ * All ground materials
+ */
+export const SURFACES: Record<SurfaceType, SurfaceMaterial> = {
+  grass: {
+    id: 'grass',
+    name: 'Grass',
+    friction: 1.0,
+    rollingResistance: 0,
+    color: '#4A7023',
+  },
+  mud: {
+    id: 'mud',
+    name: 'Mud',
+    friction: 0.7,
+    rollingResistance: 0.02,
+    color: '#5D4037',
+  },
+  ice: {
+    id: 'ice',
+    name: 'Ice',
+    friction: 0.15,
+    rollingResistance: 0,
+    color: '#B3E5FC',
+  },
+  gravel: {
+    id: 'gravel',
+    name: 'Gravel',
+    friction: 0.85,
+    rollingResistance: 0.008,
+    color: '#9E9E9E',
+  },
+  sand: {
+    id: 'sand',
+    name: 'Sand',
+    friction: 0.75,
+    rollingResistance: 0.015,
+    color: '#E0C080',
+  },
+  asphalt: {
+    id: 'asphalt',
+    name: 'Asphalt',
+    friction: 1.15,
+    rollingResistance: 0,
+    color: '#424242',
+  },
+  lava_rock: {
+    id: 'lava_rock',
+    name: 'Lava Rock',
+    friction: 0.95,
+    rollingResistance: 0.005,
+    color: '#3E2723',
+  },
+};
+
+/**
+ * Get a surface material by type
+ */
+export function getSurface(type: SurfaceType): SurfaceMaterial {
+  return SURFACES[type];
+}
+
+/**
+ * Surface type of a ground body (grass if it was not given one)
+ */
+export function getBodySurface(body: { plugin?: { surface?: SurfaceType } }): SurfaceType {
+  return body.plugin?.surface ?? DEFAULT_SURFACE;
+}
+
+/**
+ * Pick a surface by weight (grass if no surface has a positive weight)
+ */
+export function pickSurface(weights: SurfaceWeights, rng: SeededRng): SurfaceType {
+  const entries = (Object.keys(weights) as SurfaceType[])
+    .sort()
+    .map((type) => [type, weights[type] ?? 0] as const)
+    .filter(([, weight]) => weight > 0);
+
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total <= 0) return DEFAULT_SURFACE;
+
+  let roll = rng.random() * total;
+  for (const [type, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return type;
+  }
+  return entries[entries.length - 1][0];
+}
@@ -1,11 +1,26 @@
 /**
  * Terrain Generator - Procedural hill generation
+ *
+ * Random hills are interrupted at seeded intervals by hand-authored set
+ * pieces (ramps, gaps, cliffs...). A set piece starts at the height the
+ * hills left off and the hills resume from where it ends.
+ *
+ * The ground comes in patches of surface material (mud, ice...), each
+ * segment carrying its material on the segment and its body.
  */
 
 import Matter from 'matter-js';
 import decomp from 'poly-decomp';
 import { CollisionCategories } from '../physics/world';
 import { createSeededRng, SeededRng } from './seededRng';
+import { pickSetPiece, sampleSetPiece, SetPiece, SetPieceWeights } from './setPieces';
+import {
+  DEFAULT_SURFACE,
+  getSurface,
+  pickSurface,
+  SurfaceType,
+  SurfaceWeights,
+} from './surfaces';
 
 // Set up poly-decomp for Matter.js concave vertex decomposition
 Matter.Common.setDecomp(decomp);
@@ -15,6 +30,8 @@ export type TerrainSegment = {
   vertices: { x: number; y: number }[];
   startX: number;
   endX: number;
+  /** Ground material */
+  surface: SurfaceType;
 };
 
 export type TerrainConfig = {
@@ -34,6 +51,16 @@ export type TerrainConfig = {
   screenHeight: number;
   /** Difficulty ramp factor (increases with distance) */
   difficultyRamp: number;
+  /** Ground surface friction */
+  friction: number;
+  /** Set piece spawn weights (empty = procedural hills only) */
+  setPieces: SetPieceWeights;
+  /** Procedural ground between set pieces (px) */
+  setPieceSpacing: { min: number; max: number };
+  /** Surface material weights (empty = grass everywhere) */
+  surfaces: SurfaceWeights;
+  /** Segments per patch of one surface material */
+  surfacePatchLength: { min: number; max: number };
 };
 
 export type TerrainGenerator = {
@@ -58,6 +85,27 @@ export const DEFAULT_TERRAIN_CONFIG: TerrainConfig = {
   groundThickness: 100,
   screenHeight: 800,
   difficultyRamp: 0.0001,
+  friction: 0.8,
+  setPieces: {},
+  setPieceSpacing: { min: 1500, max: 3500 },
+  surfaces: {},
+  surfacePatchLength: { min: 3, max: 8 },
+};
+
+/**
+ * Lowest surface height a set piece can carve down to
+ */
+const MIN_SURFACE_HEIGHT = 10;
+
+/**
+ * A set piece placed in the terrain stream
+ */
+type PlacedSetPiece = {
+  piece: SetPiece;
+  startX: number;
+  endX: number;
+  /** Ground height where the piece starts */
+  entryHeight: number;
 };
 
 /**
@@ -69,12 +117,68 @@ export function createTerrainGenerator(
 ): TerrainGenerator {
   const cfg: TerrainConfig = { ...DEFAULT_TERRAIN_CONFIG, ...config };
   let rng: SeededRng = createSeededRng(seed);
+  let setPieceRng: SeededRng = createSeededRng(seed + 2000); // Offset seed to differ from hills and pickups
+  let surfaceRng: SeededRng = createSeededRng(seed + 3000);
   const heightMap = new Map<number, number>();
 
   // Keep track of last generated height for continuity
   let lastHeight = cfg.baseHeight;
   let lastGeneratedX = 0;
 
+  // Set piece schedule
+  let activeSetPiece: PlacedSetPiece | null = null;
+  let nextSetPieceX: number | null = null;
+
+  // Surface patch schedule
+  let surface: SurfaceType = DEFAULT_SURFACE;
+  let surfacePatchLeft = 0;
+
+  /**
+   * Surface for the next segment, starting a new patch when one runs out
+   */
+  const nextSurface = (): SurfaceType => {
+    if (surfacePatchLeft <= 0) {
+      surface = pickSurface(cfg.surfaces, surfaceRng);
+      surfacePatchLeft = surfaceRng.randomInt(
+        cfg.surfacePatchLength.min,
+        cfg.surfacePatchLength.max + 1
+      );
+    }
+    surfacePatchLeft--;
+    return surface;
+  };
+
+  const rollSetPieceSpacing = (): number =>
+    setPieceRng.randomRange(cfg.setPieceSpacing.min, cfg.setPieceSpacing.max);
+
+  /**
+   * Set piece covering the segment starting at x, placing a new one when due
+   */
+  const getSetPieceAt = (x: number, entryHeight: number): PlacedSetPiece | null => {
+    if (activeSetPiece && x < activeSetPiece.endX) {
+      return activeSetPiece;
+    }
+    activeSetPiece = null;
+
+    if (nextSetPieceX === null) {
+      nextSetPieceX = x + rollSetPieceSpacing();
+    }
+    if (x < nextSetPieceX) return null;
+
+    const piece = pickSetPiece(cfg.setPieces, setPieceRng);
+    if (!piece) return null;
+
+    const segments = Math.ceil(piece.length / cfg.segmentWidth);
+    activeSetPiece = {
+      piece,
+      startX: x,
+      endX: x + segments * cfg.segmentWidth,
+      entryHeight,
+    };
+    nextSetPieceX = activeSetPiece.endX + rollSetPieceSpacing();
+    return activeSetPiece;
+  };
+
   /**
    * Calculate height at a given x position
    */
@@ -156,12 +260,64 @@ export function createTerrainGenerator(
     return vertices;
   };
 
+  /**
+   * Generate vertices for a segment inside a set piece
+   * (authored corners are kept exactly, between the regular points)
+   */
+  const generateSetPieceVertices = (
+    startX: number,
+    endX: number,
+    placed: PlacedSetPiece
+  ): { x: number; y: number }[] => {
+    const width = endX - startX;
+    const step = width / cfg.pointsPerSegment;
+
+    const xs = new Set<number>();
+    for (let i = 0; i <= cfg.pointsPerSegment; i++) {
+      xs.add(startX + i * step);
+    }
+    placed.piece.profile.forEach((point) => {
+      const x = placed.startX + point.x;
+      if (x > startX && x < endX) xs.add(x);
+    });
+    const surfaceXs = [...xs].sort((a, b) => a - b);
+
+    const vertices: { x: number; y: number }[] = [];
+    let currentHeight = placed.entryHeight;
+
+    // Top surface points (left to right)
+    for (const x of surfaceXs) {
+      currentHeight = Math.max(
+        MIN_SURFACE_HEIGHT,
+        placed.entryHeight + sampleSetPiece(placed.piece, x - placed.startX)
+      );
+      heightMap.set(Math.floor(x / 10) * 10, currentHeight);
+
+      vertices.push({
+        x: x - startX - width / 2,
+        y: cfg.screenHeight - currentHeight - cfg.groundThickness / 2,
+      });
+    }
+
+    // Bottom points (right to left, deep underground)
+    vertices.push(
+      { x: width / 2, y: cfg.screenHeight + cfg.groundThickness / 2 },
+      { x: -width / 2, y: cfg.screenHeight + cfg.groundThickness / 2 }
+    );
+
+    lastHeight = currentHeight;
+    lastGeneratedX = endX;
+
+    return vertices;
+  };
+
   /**
    * Create a terrain body from vertices
    */
   const createTerrainBody = (
     vertices: { x: number; y: number }[],
-    centerX: number
+    centerX: number,
+    surfaceType: SurfaceType
   ): Matter.Body => {
     // Use fromVertices for custom shapes
     const body = Matter.Bodies.fromVertices(
@@ -171,18 +327,22 @@ export function createTerrainGenerator(
       {
         isStatic: true,
         label: 'ground',
-        friction: 0.8,
+        plugin: { surface: surfaceType },
         restitution: 0.1,
         collisionFilter: {
           category: CollisionCategories.GROUND,
           mask:
             CollisionCategories.CAR_BODY |
             CollisionCategories.CAR_WHEEL |
+            CollisionCategories.DRIVER |
             CollisionCategories.PICKUP,
         },
       }
     );
 
+    // Matter.js resets friction to 1 when making a body static
+    body.friction = cfg.friction * getSurface(surfaceType).friction;
+
     return body;
   };
 
@@ -204,21 +364,22 @@ export function createTerrainGenerator(
       const segmentEnd = x + cfg.segmentWidth;
       const centerX = x + cfg.segmentWidth / 2;
 
-      const vertices = generateSegmentVertices(x, segmentEnd, prevHeight);
-      const body = createTerrainBody(vertices, centerX);
+      const setPiece = getSetPieceAt(x, prevHeight);
+      const vertices = setPiece
+        ? generateSetPieceVertices(x, segmentEnd, setPiece)
+        : generateSegmentVertices(x, segmentEnd, prevHeight);
+      const segmentSurface = nextSurface();
+      const body = createTerrainBody(vertices, centerX, segmentSurface);
 
       // Update prevHeight for next segment
-      const lastTopVertex = vertices[cfg.pointsPerSegment];
-      prevHeight =
-        cfg.screenHeight -
-        lastTopVertex.y -
-        cfg.groundThickness / 2;
+      prevHeight = lastHeight;
 
       segments.push({
         body,
         vertices,
         startX: x,
         endX: segmentEnd,
+        surface: segmentSurface,
       });
     }
 
@@ -231,9 +392,15 @@ export function createTerrainGenerator(
 
   const reset = (): void => {
     rng = createSeededRng(seed);
+    setPieceRng = createSeededRng(seed + 2000);
+    surfaceRng = createSeededRng(seed + 3000);
+    surface = DEFAULT_SURFACE;
+    surfacePatchLeft = 0;
     heightMap.clear();
     lastHeight = cfg.baseHeight;
     lastGeneratedX = 0;
+    activeSetPiece = null;
+    nextSetPieceX = null;
   };
 
   return {
@@ -252,9 +419,10 @@ export function createFlatGround(
   x: number,
   width: number,
   height: number,
-  screenHeight: number
+  screenHeight: number,
+  friction: number = 0.8
 ): Matter.Body {
-  return Matter.Bodies.rectangle(
+  const ground = Matter.Bodies.rectangle(
     x + width / 2,
     screenHeight - height / 2,
     width,
@@ -262,15 +430,20 @@ export function createFlatGround(
     {
       isStatic: true,
       label: 'flatGround',
-      friction: 0.8,
       restitution: 0.1,
       collisionFilter: {
         category: CollisionCategories.GROUND,
         mask:
           CollisionCategories.CAR_BODY |
           CollisionCategories.CAR_WHEEL |
+          CollisionCategories.DRIVER |
           CollisionCategories.PICKUP,
       },
     }
   );
+
+  // Matter.js resets friction to 1 when making a body static
+  ground.friction = friction;
+
+  return ground;
 }
@@ -17,10 +17,14 @@ import { EntitlementService } from '../../services/EntitlementService';
 jest.mock('../../services/EntitlementService', () => ({
   EntitlementService: {
     setEntitlement: jest.fn(() => Promise.resolve()),
-    addCoins: jest.fn(() => Promise.resolve(0)),
   },
 }));
 
+const mockAddCoins = jest.fn(() => Promise.resolve(true));
+jest.mock('../../game/progression/upgrades', () => ({
+  getProgressionManager: () => ({ addCoins: mockAddCoins }),
+}));
+
 // Mock IAPManager
 jest.mock('../IAPManager', () => ({
   IAPManager: {
@@ -71,7 +75,7 @@ describe('purchaseHandler', () => {
 
       await handlePurchaseSuccess(purchase);
 
-      expect(EntitlementService.addCoins).toHaveBeenCalledWith(5000);
+      expect(mockAddCoins).toHaveBeenCalledWith(5000, 'coinPack', null);
     });
 
     it('should add 15000 coins for medium coin pack purchase', async () => {
@@ -81,7 +85,7 @@ describe('purchaseHandler', () => {
 
       await handlePurchaseSuccess(purchase);
 
-      expect(EntitlementService.addCoins).toHaveBeenCalledWith(15000);
+      expect(mockAddCoins).toHaveBeenCalledWith(15000, 'coinPack', null);
     });
 
     it('should add 40000 coins for large coin pack purchase', async () => {
@@ -91,7 +95,18 @@ describe('purchaseHandler', () => {
 
       await handlePurchaseSuccess(purchase);
 
-      expect(EntitlementService.addCoins).toHaveBeenCalledWith(40000);
+      expect(mockAddCoins).toHaveBeenCalledWith(40000, 'coinPack', null);
+    });
+
+    it('should pass the transaction id so a coin pack is only paid once', async () => {
+      const purchase = {
+        productId: CONSUMABLE_PRODUCTS.COINS_SMALL,
+        transactionId: 'txn_1',
+      } as any;
+
+      await handlePurchaseSuccess(purchase);
+
+      expect(mockAddCoins).toHaveBeenCalledWith(5000, 'coinPack', 'txn_1');
     });
 
     it('should not throw for unknown product', async () => {
@@ -150,7 +165,7 @@ describe('purchaseHandler', () => {
 
       const result = await handleRestorePurchases(purchases);
 
-      expect(EntitlementService.addCoins).not.toHaveBeenCalled();
+      expect(mockAddCoins).not.toHaveBeenCalled();
       expect(result.restoredNoAds).toBe(false);
       expect(result.restoredSubscription).toBe(false);
     });
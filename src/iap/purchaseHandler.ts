@@ -13,12 +13,13 @@ import {
   CoinPackId,
 } from './iapKeys';
 import { EntitlementService } from '../services/EntitlementService';
+import { getProgressionManager } from '../game/progression/upgrades';
 
 /**
  * Handle a successful purchase and update entitlements
  */
 export async function handlePurchaseSuccess(purchase: IAPPurchase): Promise<void> {
-  const { productId } = purchase;
+  const { productId, transactionId } = purchase;
 
   // Handle Remove Ads purchase
   if (productId === NON_CONSUMABLE_PRODUCTS.REMOVE_ADS) {
@@ -40,7 +41,8 @@ export async function handlePurchaseSuccess(purchase: IAPPurchase): Promise<void
   if (coinPackIds.includes(productId)) {
     const coinAmount = COIN_PACK_VALUES[productId as CoinPackId] || 0;
     if (coinAmount > 0) {
-      await EntitlementService.addCoins(coinAmount);
+      // The transaction id keeps a re-delivered purchase from paying twice
+      await getProgressionManager().addCoins(coinAmount, 'coinPack', transactionId ?? null);
     }
     return;
   }
@@ -5,7 +5,7 @@
  * and reward claiming functionality.
  */
 
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   Dimensions,
   ScrollView,
@@ -23,6 +23,11 @@ import {
   getAchievementTierColor,
   getCategoryIcon,
 } from '../game/systems/achievements';
+import {
+  loadAchievements,
+  payAchievementReward,
+  saveAchievements,
+} from '../game/systems/achievementStore';
 import { getAudioManager } from '../audio/AudioManager';
 import { SFX_KEYS } from '../audio/audioKeys';
 
@@ -49,17 +54,27 @@ export default function AchievementsScreen({ onBack }: AchievementsScreenProps)
     Record<string, AchievementProgress>
   >({});
   const [totalCoins, setTotalCoins] = useState(0);
+  const systemRef = useRef(createAchievementSystem());
+  const visitedStagesRef = useRef<string[]>([]);
 
   // Load achievement progress
   useEffect(() => {
-    const system = createAchievementSystem();
-    // TODO: Load from storage
-    const progress = system.exportProgress();
-    setAchievementProgress(progress);
+    let cancelled = false;
+
+    loadAchievements().then((stored) => {
+      if (cancelled) return;
+      const system = systemRef.current;
+      system.loadProgress(stored.progress);
+      visitedStagesRef.current = stored.visitedStages;
+      setAchievementProgress(system.exportProgress());
+
+      // Calculate unclaimed coins
+      setTotalCoins(system.getUnclaimedCoins());
+    });
 
-    // Calculate unclaimed coins
-    const unclaimed = system.getUnclaimedCoins();
-    setTotalCoins(unclaimed);
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   const handleCategorySelect = useCallback((category: CategoryTab) => {
@@ -74,18 +89,17 @@ export default function AchievementsScreen({ onBack }: AchievementsScreenProps)
     onBack();
   }, [onBack]);
 
-  const handleClaimReward = useCallback((achievementId: string) => {
+  const handleClaimReward = useCallback(async (achievementId: string) => {
+    const system = systemRef.current;
+    const paid = await payAchievementReward(system, achievementId);
+    if (paid <= 0) return;
+
     const audioManager = getAudioManager();
     audioManager.playSfx(SFX_KEYS.UPGRADE);
 
-    // TODO: Actually claim the reward and persist
-    setAchievementProgress((prev) => ({
-      ...prev,
-      [achievementId]: {
-        ...prev[achievementId],
-        rewardClaimed: true,
-      },
-    }));
+    setAchievementProgress(system.exportProgress());
+    setTotalCoins(system.getUnclaimedCoins());
+    await saveAchievements(system, visitedStagesRef.current);
   }, []);
 
   // Filter achievements by category
@@ -24,10 +24,9 @@ import {
   getTimeUntilNextChallenge,
   ChallengeProgress,
 } from '../game/systems/dailyChallenge';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { loadChallengeProgress } from '../game/systems/challengeStore';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
-const CHALLENGE_PROGRESS_KEY = '@summit_wheels_challenge_progress';
 
 type DailyChallengeScreenProps = {
   onPlay: (challenge: DailyChallenge) => void;
@@ -40,8 +39,8 @@ export default function DailyChallengeScreen({ onPlay, onBack }: DailyChallengeS
   const [timeRemaining, setTimeRemaining] = useState({ hours: 0, minutes: 0, seconds: 0 });
 
   useEffect(() => {
-    loadChallenge();
-    loadProgress();
+    const dailyChallenge = loadChallenge();
+    loadChallengeProgress(dailyChallenge.id).then(setProgress);
 
     // Update countdown timer
     const timer = setInterval(() => {
@@ -55,22 +54,7 @@ export default function DailyChallengeScreen({ onPlay, onBack }: DailyChallengeS
     const today = new Date();
     const dailyChallenge = generateDailyChallenge(today);
     setChallenge(dailyChallenge);
-  };
-
-  const loadProgress = async () => {
-    try {
-      const stored = await AsyncStorage.getItem(CHALLENGE_PROGRESS_KEY);
-      if (stored) {
-        const savedProgress = JSON.parse(stored) as ChallengeProgress;
-        // Check if progress is for today's challenge
-        const today = new Date().toISOString().split('T')[0];
-        if (savedProgress.challengeId === `daily_${today}`) {
-          setProgress(savedProgress);
-        }
-      }
-    } catch (error) {
-      console.error('Failed to load challenge progress:', error);
-    }
+    return dailyChallenge;
   };
 
   const getGoalIcon = (goalType: string): string => {
@@ -2,15 +2,17 @@
  * GameScreen - Main game screen with all integrated systems
  *
  * Integrates:
- * - Physics (Matter.js)
- * - Tricks detection
- * - Combo system
- * - Boost system
+ * - Deterministic fixed-step simulation (physics, tricks, combo, boost, fuel)
+ * - Interpolated rendering between simulation ticks
  * - Particle effects
- * - Achievement tracking
+ * - Equipped cosmetics (vehicle skin, trail)
+ * - Ghost racing against a recorded run
+ * - Daily challenge modifiers and live goal tracking
+ * - Stage weather (particles, snow, fog)
+ * - Live achievement tracking from run events, with in-run toasts
  */
 
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Dimensions,
   StyleSheet,
@@ -18,68 +20,215 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
-import { createPhysicsWorld, PhysicsWorld } from '../game/physics/world';
-import { addCarToWorld, Car, createCar } from '../game/physics/car';
+import { metersToPixels, pixelsToMeters, RunState } from '../game/state/runState';
 import {
-  createTerrainGenerator,
-  TerrainGenerator,
-  TerrainSegment,
-  createFlatGround,
-} from '../game/terrain/terrain';
+  calculateCameraAt,
+  createInterpolatedRenderState,
+  interpolateTransform,
+  RenderState,
+} from '../game/renderer/GameRenderer';
 import {
-  createRunStateManager,
-  RunState,
-  RunStateManager,
-} from '../game/state/runState';
+  createSimulation,
+  Simulation,
+  SimulationEvent,
+  LeanInput,
+  SimulationInput,
+  SimulationSnapshot,
+  SIMULATION_TICK_MS,
+} from '../game/simulation/simulation';
+import { createFixedStepLoop, FixedStepLoop } from '../game/simulation/fixedStep';
+import { createInputRecorder, InputRecorder } from '../game/simulation/replay';
+import { buildRunConfig, RunSetup } from '../game/simulation/runConfig';
+import { LoadoutItem } from '../game/simulation/loadout';
+import { getModifierRenderEffects } from '../game/simulation/modifiers';
 import {
-  calculateCamera,
-  createRenderState,
-  isBodyVisible,
-  RenderableBody,
-  worldToScreen,
-} from '../game/renderer/GameRenderer';
+  createRunEventBus,
+  createRunEventSource,
+  RunEventSource,
+} from '../game/simulation/runEvents';
+import { saveReplayLog } from '../game/simulation/replayStore';
+import { VehicleId } from '../game/config/vehicles';
+import { getVehiclePalette } from '../game/config/cosmetics';
+import { CourseDefinition, getCourse, getStageWeather, StageId } from '../game/config/stages';
+import { Trick } from '../game/systems/tricks';
+import {
+  createGhostPlayer,
+  createGhostRecorder,
+  GhostPlayer,
+  GhostRecorder,
+  GhostRun,
+} from '../game/systems/ghost';
+import {
+  getRaceSeed,
+  loadGhostSource,
+  loadRaceGhost,
+  loadTimeTrialGhost,
+  saveRunGhost,
+  saveTimeTrialGhost,
+} from '../game/systems/ghostStore';
+import {
+  ChallengeRunStats,
+  ChallengeTracker,
+  ChallengeTrackerState,
+  createChallengeTracker,
+  DailyChallenge,
+} from '../game/systems/dailyChallenge';
+import { AchievementSystem, createAchievementSystem } from '../game/systems/achievements';
+import { AchievementTracker, createAchievementTracker } from '../game/systems/achievementTracker';
+import { createQuestTracker, QuestTracker } from '../game/systems/weeklyQuests';
 import {
-  createPickupSpawner,
-  PickupSpawner,
-  checkPickupCollisions,
-} from '../game/pickups/spawn';
-import { createFuelSystem, FuelSystem } from '../game/systems/fuel';
-import { createTrickSystem, TrickSystem, Trick } from '../game/systems/tricks';
-import { createComboSystem, ComboSystem, ComboState } from '../game/systems/combo';
-import { createBoostSystem, BoostSystem, BoostState } from '../game/systems/boost';
+  loadAchievements,
+  payAchievementReward,
+  saveAchievements,
+} from '../game/systems/achievementStore';
+import { ComboState } from '../game/systems/combo';
+import { BoostState } from '../game/systems/boost';
+import { DamageState } from '../game/systems/damage';
+import { POWER_UP_ICONS, PowerUpState } from '../game/systems/powerUps';
+import { CourseRating, rateCourseRun } from '../game/systems/courseStars';
+import {
+  createTimeTrial,
+  DEFAULT_TIME_TRIAL_CONFIG,
+  formatRaceTime,
+  formatSplitDelta,
+  getCountdownLabel,
+  Split,
+  TimeTrial,
+} from '../game/systems/timeTrial';
+import { FuelTelemetryReport } from '../game/systems/fuelTelemetry';
+import {
+  createReviveSystem,
+  ReviveOption,
+  RevivePayment,
+  ReviveSystem,
+} from '../game/systems/revive';
+import {
+  combineLean,
+  loadLeanControlMode,
+  tiltToLean,
+  TiltSource,
+} from '../game/systems/leanControl';
 import { createParticleSystem, ParticleSystem, Particle } from '../game/systems/particles';
 import { createFloatingTextSystem, FloatingTextSystem, FloatingText } from '../game/systems/floatingText';
 import { createScreenShakeSystem, ScreenShakeSystem } from '../game/systems/screenShake';
-import { createCoinMagnetSystem, CoinMagnetSystem } from '../game/systems/coinMagnet';
+import { createWeatherSystem, getSurfaceSlope, WeatherSystem } from '../game/systems/weather';
 import { getProgressionManager } from '../game/progression/upgrades';
+import {
+  payRunRewards,
+  RunRewards,
+  savePendingRunRewards,
+} from '../game/progression/runRewards';
+import { CosmeticsSystem } from '../systems/CosmeticsSystem';
+import { QuestBoardSystem } from '../systems/QuestBoardSystem';
 import { getAudioManager } from '../audio/AudioManager';
 import { SFX_KEYS, MUSIC_KEYS } from '../audio/audioKeys';
-import { GameHud } from '../components/GameHud';
+import { GameHud, GhostDelta } from '../components/GameHud';
 import { TrickPopup } from '../components/TrickPopup';
 import { RunEndModal } from '../components/RunEndModal';
 import { PauseMenu } from '../components/PauseMenu';
+import { AchievementToast, queueAchievementToast, useAchievementToast } from '../components/AchievementToast';
+import {
+  FogEffect,
+  GhostCarMarker,
+  SnowCap,
+  WeatherLayer,
+  WorldView,
+} from '../components/WorldView';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
+/**
+ * Snow settled on the active terrain segments
+ */
+function getSnowCaps(simulation: Simulation): SnowCap[] {
+  const caps: SnowCap[] = [];
+  for (const segment of simulation.getSegments()) {
+    const depth = simulation.weather.getSnowDepth(
+      (segment.startX + segment.endX) / 2,
+      getSurfaceSlope(segment.vertices)
+    );
+    if (depth > 0) {
+      caps.push({
+        x: segment.startX,
+        width: segment.endX - segment.startX,
+        y: segment.body.bounds.min.y,
+        depth,
+      });
+    }
+  }
+  return caps;
+}
+
+/**
+ * Run stats a daily challenge is judged on
+ */
+function getChallengeRunStats(snapshot: SimulationSnapshot): ChallengeRunStats {
+  return {
+    distance: snapshot.runState.stats.distance,
+    coins: snapshot.runState.stats.coins,
+    tricks: snapshot.tricksLanded,
+    airTime: snapshot.airTime,
+    crashed: snapshot.runState.status === 'crashed',
+  };
+}
+
+/**
+ * Stars a course run earned
+ */
+function getCourseRating(course: CourseDefinition, snapshot: SimulationSnapshot): CourseRating {
+  return rateCourseRun(course.starTargets, {
+    completed: snapshot.runState.status === 'completed',
+    time: snapshot.runState.stats.timeElapsed,
+    coins: snapshot.runState.stats.coins,
+    fuelPercentage: snapshot.fuel.percentage,
+  });
+}
+
 type GameScreenProps = {
   seed?: number;
-  onRunEnd?: (stats: RunState['stats'] & { trickPoints: number; maxCombo: number }) => void;
+  stageId?: StageId;
+  /** Course played on the stage (endless run when omitted) */
+  courseId?: string;
+  /** Race the course against the clock */
+  timeTrial?: boolean;
+  vehicleId?: VehicleId;
+  /** Daily challenge being played (applies its modifiers) */
+  challenge?: DailyChallenge;
+  /** Consumables equipped for the first run (already taken from the inventory) */
+  loadout?: LoadoutItem[];
+  onRunEnd?: (
+    stats: RunState['stats'] & {
+      trickPoints: number;
+      maxCombo: number;
+      /** Time trial finish time (ms, only when the finish was reached) */
+      finishTime?: number;
+    }
+  ) => void;
   onQuit?: () => void;
   bestDistance?: number;
+  /** Accelerometer readings, used when lean is set to tilt */
+  tiltSource?: TiltSource;
 };
 
 export default function GameScreen({
   seed = Date.now(),
+  stageId = 'countryside',
+  courseId,
+  timeTrial = false,
+  vehicleId = 'jeep',
+  challenge,
+  loadout,
   onRunEnd,
   onQuit,
   bestDistance = 0,
+  tiltSource,
 }: GameScreenProps) {
   // Render state
-  const [renderState, setRenderState] = useState<{
-    bodies: RenderableBody[];
-    cameraX: number;
-    cameraY: number;
-  }>({ bodies: [], cameraX: 0, cameraY: 0 });
+  const [renderState, setRenderState] = useState<RenderState>({
+    bodies: [],
+    cameraX: 0,
+    cameraY: 0,
+  });
 
   // Game state
   const [runState, setRunState] = useState<RunState | null>(null);
@@ -93,451 +242,801 @@ export default function GameScreen({
   // System states for HUD
   const [comboState, setComboState] = useState<ComboState | null>(null);
   const [boostState, setBoostState] = useState<BoostState | null>(null);
+  const [damageState, setDamageState] = useState<DamageState | null>(null);
+  const [powerUpState, setPowerUpState] = useState<PowerUpState | null>(null);
   const [trickPoints, setTrickPoints] = useState(0);
   const [recentTricks, setRecentTricks] = useState<Trick[]>([]);
   const [particles, setParticles] = useState<Particle[]>([]);
   const [floatingTexts, setFloatingTexts] = useState<FloatingText[]>([]);
+  const [ghostMarker, setGhostMarker] = useState<GhostCarMarker | null>(null);
+  const [ghostDelta, setGhostDelta] = useState<GhostDelta | null>(null);
+  const [challengeState, setChallengeState] = useState<ChallengeTrackerState | null>(null);
+  const [weatherLayer, setWeatherLayer] = useState<WeatherLayer | null>(null);
+  const [fog, setFog] = useState<FogEffect | null>(null);
+  const [reviveOptions, setReviveOptions] = useState<ReviveOption[]>([]);
+  const [revivesLeft, setRevivesLeft] = useState(0);
+  const [courseRating, setCourseRating] = useState<CourseRating | null>(null);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [splits, setSplits] = useState<Split[]>([]);
+  const [finishTime, setFinishTime] = useState<number | null>(null);
+  const [fuelTelemetry, setFuelTelemetry] = useState<FuelTelemetryReport | null>(null);
 
   // Core refs
-  const worldRef = useRef<PhysicsWorld | null>(null);
-  const carRef = useRef<Car | null>(null);
-  const terrainRef = useRef<TerrainGenerator | null>(null);
-  const segmentsRef = useRef<TerrainSegment[]>([]);
-  const runStateRef = useRef<RunStateManager | null>(null);
-  const pickupSpawnerRef = useRef<PickupSpawner | null>(null);
-  const fuelSystemRef = useRef<FuelSystem | null>(null);
-
-  // Game system refs
-  const trickSystemRef = useRef<TrickSystem | null>(null);
-  const comboSystemRef = useRef<ComboSystem | null>(null);
-  const boostSystemRef = useRef<BoostSystem | null>(null);
+  const simulationRef = useRef<Simulation | null>(null);
+  const loopRef = useRef<FixedStepLoop | null>(null);
+  const recorderRef = useRef<InputRecorder | null>(null);
+  const runSetupRef = useRef<RunSetup | null>(null);
+  const runIdRef = useRef('');
+  const loadoutRef = useRef<LoadoutItem[]>(loadout ?? []);
+  const reviveSystemRef = useRef<ReviveSystem>(createReviveSystem());
+  const timeTrialRef = useRef<TimeTrial | null>(null);
+
+  // Ghost racing refs
+  const ghostRecorderRef = useRef<GhostRecorder>(createGhostRecorder());
+  const ghostPlayerRef = useRef<GhostPlayer>(createGhostPlayer());
+  const raceGhostRef = useRef<GhostRun | null>(null);
+
+  // Daily challenge
+  const challengeTrackerRef = useRef<ChallengeTracker | null>(null);
+  const modifiers = useMemo(() => challenge?.modifiers ?? [], [challenge]);
+  const renderEffects = useMemo(() => getModifierRenderEffects(modifiers), [modifiers]);
+
+  // Cosmetics (presentation only, never part of the simulation)
+  const palette = useMemo(() => CosmeticsSystem.getPalette(vehicleId), [vehicleId]);
+  const trail = useMemo(() => CosmeticsSystem.getEquippedTrail(), []);
+
+  // Course being played (null for an endless run)
+  const course = useMemo(
+    () => (courseId ? getCourse(stageId, courseId) ?? null : null),
+    [stageId, courseId]
+  );
+  const isTimeTrial = timeTrial && course !== null;
+
+  // Achievements and weekly quests listen to run events published from the game loop
+  const runEventBusRef = useRef(createRunEventBus());
+  const runEventSourceRef = useRef<RunEventSource>(
+    createRunEventSource(runEventBusRef.current)
+  );
+  const achievementSystemRef = useRef<AchievementSystem>(createAchievementSystem());
+  const achievementTrackerRef = useRef<AchievementTracker | null>(null);
+  const questTrackerRef = useRef<QuestTracker | null>(null);
+  const { currentAchievement, handleDismiss: handleToastDismiss } = useAchievementToast();
+
+  // Input sampled by the simulation once per tick
+  const inputRef = useRef<SimulationInput>({ gas: false, brake: false, boost: false, lean: 0 });
+  const leanButtonsRef = useRef({ back: false, forward: false });
+  const tiltLeanRef = useRef<LeanInput>(0);
+
+  // Presentation refs (not part of the simulation)
   const particleSystemRef = useRef<ParticleSystem | null>(null);
   const floatingTextSystemRef = useRef<FloatingTextSystem | null>(null);
   const screenShakeRef = useRef<ScreenShakeSystem | null>(null);
-  const coinMagnetRef = useRef<CoinMagnetSystem | null>(null);
+  const weatherSystemRef = useRef<WeatherSystem | null>(null);
 
   // Animation refs
   const frameRef = useRef<number>(0);
   const lastTimeRef = useRef<number>(0);
 
-  // Grounded detection ref
-  const wasGroundedRef = useRef<boolean>(true);
-
-  /**
-   * Check if car is grounded (any wheel touching ground)
-   */
-  const isCarGrounded = useCallback((): boolean => {
-    const car = carRef.current;
-    const world = worldRef.current;
-    if (!car || !world) return true;
-
-    // Check if wheels have low vertical velocity and are near ground level
-    const frontWheelY = car.frontWheel.position.y;
-    const rearWheelY = car.rearWheel.position.y;
-    const frontWheelVelY = car.frontWheel.velocity.y;
-    const rearWheelVelY = car.rearWheel.velocity.y;
-
-    // Consider grounded if vertical velocity is low and wheels are below body
-    const bodyY = car.body.position.y;
-    const isWheelBelowBody = frontWheelY > bodyY || rearWheelY > bodyY;
-    const hasLowVerticalVelocity = Math.abs(frontWheelVelY) < 2 && Math.abs(rearWheelVelY) < 2;
-
-    return isWheelBelowBody && hasLowVerticalVelocity;
-  }, []);
+  // Courses and challenges fix the terrain; free runs racing an imported
+  // ghost take the ghost's
+  const isFixedSeed = course !== null || challenge !== undefined;
+  const getRunSeed = useCallback(
+    () => (isFixedSeed ? seed : getRaceSeed(raceGhostRef.current, seed)),
+    [isFixedSeed, seed]
+  );
 
   /**
    * Initialize game
    */
   const initGame = useCallback(() => {
-    // Create physics world
-    const world = createPhysicsWorld({ gravity: { x: 0, y: 0.8 } });
-    worldRef.current = world;
-
-    // Create car
-    const car = createCar({
-      x: 150,
-      y: SCREEN_HEIGHT - 200,
-      enginePower: 0.06,
-      maxWheelSpeed: 0.4,
-    });
-    carRef.current = car;
-    addCarToWorld(world, car);
-
-    // Create terrain generator
-    const terrain = createTerrainGenerator(seed, {
-      screenHeight: SCREEN_HEIGHT,
-      baseHeight: 150,
-      segmentWidth: 250,
-    });
-    terrainRef.current = terrain;
-
-    // Add flat starting ground
-    const startGround = createFlatGround(0, 400, 100, SCREEN_HEIGHT);
-    world.add(startGround);
-
-    // Generate initial terrain
-    const initialSegments = terrain.generateSegments(400, 2000);
-    initialSegments.forEach((seg) => world.add(seg.body));
-    segmentsRef.current = initialSegments;
-
-    // Create pickup spawner
-    const pickupSpawner = createPickupSpawner(seed, {
-      screenHeight: SCREEN_HEIGHT,
-      baseGroundHeight: 150,
-    });
-    pickupSpawnerRef.current = pickupSpawner;
-
-    // Spawn initial pickups
-    const initialPickups = pickupSpawner.spawnInRange(300, 2000);
-    initialPickups.forEach((p) => world.add(p.body));
-
-    // Create fuel system
-    const fuelSystem = createFuelSystem({ maxFuel: 100 });
-    fuelSystemRef.current = fuelSystem;
-
-    // Create run state manager
-    const runManager = createRunStateManager(100);
-    runStateRef.current = runManager;
-
-    // Create game systems
-    trickSystemRef.current = createTrickSystem();
-    comboSystemRef.current = createComboSystem();
-    boostSystemRef.current = createBoostSystem();
+    const progress = getProgressionManager().getProgress();
+    // Equipped items were paid for once, so only the first run gets them
+    const equipped = loadoutRef.current;
+    loadoutRef.current = [];
+    const setup: RunSetup = {
+      seed: getRunSeed(),
+      stageId,
+      vehicleId,
+      upgrades: progress.vehicleUpgrades[vehicleId] ?? progress.upgrades,
+      ...(course ? { courseId: course.id } : {}),
+      modifiers,
+      ...(equipped.length > 0 ? { loadout: equipped } : {}),
+    };
+    runSetupRef.current = setup;
+
+    const weather = getStageWeather(stageId);
+    const simulation = createSimulation(buildRunConfig(setup));
+    simulationRef.current = simulation;
+    loopRef.current = createFixedStepLoop({ stepMs: SIMULATION_TICK_MS });
+    inputRef.current = { gas: false, brake: false, boost: false, lean: 0 };
+    leanButtonsRef.current = { back: false, forward: false };
+    reviveSystemRef.current.reset();
+    timeTrialRef.current = isTimeTrial && course ? createTimeTrial(course.length) : null;
+
+    // Presentation systems
     particleSystemRef.current = createParticleSystem();
     floatingTextSystemRef.current = createFloatingTextSystem();
     screenShakeRef.current = createScreenShakeSystem();
-    coinMagnetRef.current = createCoinMagnetSystem({ radius: 150, strength: 400 });
+    weatherSystemRef.current = createWeatherSystem(weather);
 
     // Initialize state
-    setRunState(runManager.getState());
-    setFuelPercentage(100);
-    setIsFuelLow(false);
-    setComboState(comboSystemRef.current.getState());
-    setBoostState(boostSystemRef.current.getState());
+    const snapshot = simulation.getSnapshot();
+    setRunState(snapshot.runState);
+    setFuelPercentage(snapshot.fuel.percentage);
+    setIsFuelLow(snapshot.fuel.isLow);
+    setComboState(snapshot.combo);
+    setBoostState(snapshot.boost);
+    setDamageState(snapshot.damage);
+    setPowerUpState(snapshot.powerUps);
     setTrickPoints(0);
     setRecentTricks([]);
     setParticles([]);
     setFloatingTexts([]);
-    wasGroundedRef.current = true;
-  }, [seed]);
+    setWeatherLayer(null);
+    setFog(null);
+    setCourseRating(null);
+    setCountdown(null);
+    setSplits([]);
+    setFinishTime(null);
+    setRenderState(
+      createInterpolatedRenderState(simulation.getBodies(), new Map(), 1, 0, 0, palette)
+    );
+  }, [getRunSeed, stageId, course, isTimeTrial, vehicleId, modifiers, palette]);
+
+  /**
+   * Load the ghost to race from the source chosen in settings
+   */
+  const loadGhost = useCallback(async () => {
+    // Time trials always race the fastest run on the course
+    if (isTimeTrial && course) {
+      const best = await loadTimeTrialGhost(course.id, vehicleId);
+      raceGhostRef.current = best ? { ...best.ghost, playerName: 'Best Time' } : null;
+      return;
+    }
+
+    const source = await loadGhostSource();
+    const ghost = await loadRaceGhost(source, stageId, vehicleId, seed, isFixedSeed);
+    if (!ghost) {
+      raceGhostRef.current = null;
+      return;
+    }
+    // Label by source; imported ghosts keep their player's name
+    const labels = { personalBest: 'Personal Best', dailyBest: 'Daily Best' };
+    raceGhostRef.current =
+      source === 'personalBest' || source === 'dailyBest'
+        ? { ...ghost, playerName: labels[source] }
+        : ghost;
+  }, [seed, stageId, course, isTimeTrial, isFixedSeed, vehicleId]);
 
   /**
    * Start the game loop
    */
-  const startGame = useCallback(() => {
-    if (!runStateRef.current || !fuelSystemRef.current) return;
+  const beginRun = useCallback(() => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+
+    simulation.start();
+    loopRef.current?.reset();
+    runIdRef.current = `run_${Date.now()}`;
+
+    // Record every tick's input so the run can be replayed exactly
+    const setup = runSetupRef.current;
+    if (setup) {
+      recorderRef.current = createInputRecorder({ ...setup, modifiers: setup.modifiers ?? [] });
+    }
 
-    runStateRef.current.startRun();
-    fuelSystemRef.current.reset();
-    trickSystemRef.current?.reset();
-    comboSystemRef.current?.reset();
-    boostSystemRef.current?.reset();
-    particleSystemRef.current?.clear();
+    challengeTrackerRef.current = challenge ? createChallengeTracker(challenge) : null;
+    setChallengeState(challengeTrackerRef.current?.getState() ?? null);
+
+    // Track this run against the quests open when it starts
+    questTrackerRef.current = createQuestTracker(QuestBoardSystem.getActiveQuests());
+
+    runEventSourceRef.current.start({
+      stageId,
+      vehicleId,
+      vehiclesOwned: getProgressionManager().getProgress().unlockedVehicles.length,
+    });
+
+    // Record a ghost of this run and race the loaded one
+    ghostRecorderRef.current.start();
+    if (raceGhostRef.current) {
+      ghostPlayerRef.current.start(raceGhostRef.current);
+    } else {
+      ghostPlayerRef.current.stop();
+    }
+    setGhostMarker(null);
+    setGhostDelta(null);
 
     setIsRunning(true);
     setShowEndScreen(false);
-    setRunState(runStateRef.current.getState());
+    setRunState(simulation.getSnapshot().runState);
     setTrickPoints(0);
     setRecentTricks([]);
     lastTimeRef.current = performance.now();
-  }, []);
+  }, [stageId, vehicleId, challenge]);
 
   /**
-   * Handle boost button press
+   * Start the run, after a countdown in a time trial
    */
-  const handleBoostPress = useCallback(() => {
-    const boostSystem = boostSystemRef.current;
-    if (boostSystem && boostSystem.canBoost()) {
-      boostSystem.startBoost();
-      setBoostState(boostSystem.getState());
+  const startGame = useCallback(() => {
+    // The ghost can load after the world was built, so rebuild it on the
+    // ghost's seed (keeping the loadout the first build took)
+    const setup = runSetupRef.current;
+    if (setup && setup.seed !== getRunSeed()) {
+      loadoutRef.current = setup.loadout ?? [];
+      simulationRef.current?.world.clear();
+      initGame();
     }
-  }, []);
+
+    if (timeTrialRef.current) {
+      setCountdown(DEFAULT_TIME_TRIAL_CONFIG.countdownMs);
+      return;
+    }
+    beginRun();
+  }, [beginRun, getRunSeed, initGame]);
 
   /**
-   * Game loop
+   * Handle boost button press (picked up on the next tick)
    */
-  const gameLoop = useCallback(() => {
-    if (!isRunning || isPaused) return;
+  const handleBoostPress = useCallback(() => {
+    inputRef.current.boost = true;
+  }, []);
 
-    const world = worldRef.current;
-    const car = carRef.current;
-    const terrain = terrainRef.current;
-    const runManager = runStateRef.current;
-    const pickupSpawner = pickupSpawnerRef.current;
-    const fuelSystem = fuelSystemRef.current;
-    const trickSystem = trickSystemRef.current;
-    const comboSystem = comboSystemRef.current;
-    const boostSystem = boostSystemRef.current;
-    const particleSystem = particleSystemRef.current;
-    const floatingTextSystem = floatingTextSystemRef.current;
-    const screenShake = screenShakeRef.current;
-    const coinMagnet = coinMagnetRef.current;
+  /**
+   * Turn simulation events into effects, sounds and HUD updates
+   */
+  const handleSimulationEvents = useCallback(
+    (events: SimulationEvent[]) => {
+      const simulation = simulationRef.current;
+      const particleSystem = particleSystemRef.current;
+      const floatingTextSystem = floatingTextSystemRef.current;
+      const screenShake = screenShakeRef.current;
+      if (!simulation || !particleSystem || !floatingTextSystem || !screenShake) return;
 
-    if (!world || !car || !terrain || !runManager || !pickupSpawner || !fuelSystem) return;
-    if (!trickSystem || !comboSystem || !boostSystem || !particleSystem || !floatingTextSystem || !screenShake || !coinMagnet) return;
+      const audioManager = getAudioManager();
 
-    const currentTime = performance.now();
-    const deltaTime = Math.min(currentTime - lastTimeRef.current, 32);
-    lastTimeRef.current = currentTime;
-    const deltaSeconds = deltaTime / 1000;
+      for (const event of events) {
+        switch (event.type) {
+          case 'trick': {
+            const snapshot = simulation.getSnapshot();
+            setTrickPoints(snapshot.trickPoints);
+            setRecentTricks(snapshot.recentTricks);
+            break;
+          }
+
+          case 'landing': {
+            particleSystem.emitLandingDust(event.x, event.y + 20, event.velocityY);
+            // Play landing sound with haptic if hard landing
+            const landingIntensity = Math.abs(event.velocityY);
+            if (landingIntensity > 5) {
+              audioManager.playSfx(SFX_KEYS.LANDING);
+              audioManager.triggerHaptic('medium');
+              // Screen shake proportional to landing impact
+              const shakeIntensity = Math.min(landingIntensity / 20, 0.5);
+              screenShake.shake(shakeIntensity, 150);
+            }
+            break;
+          }
+
+          case 'pickup':
+            if (event.pickup.type === 'coin') {
+              // Coin sparkle effect
+              particleSystem.emitSparkle(event.x, event.y);
+              // Floating "+1" text
+              floatingTextSystem.addCoinPickup(event.amount, event.x, event.y - 30);
+              audioManager.playSfx(SFX_KEYS.COIN_PICKUP);
+            } else if (event.pickup.type === 'fuel') {
+              // Floating "+FUEL" text
+              floatingTextSystem.add('+FUEL', event.x, event.y - 30, {
+                color: '#00FF00',
+                fontSize: 26,
+                lifetime: 1000,
+                velocityY: -70,
+              });
+              audioManager.playSfx(SFX_KEYS.FUEL_PICKUP);
+            } else {
+              // Power-up icon floats off where it was picked up
+              floatingTextSystem.add(POWER_UP_ICONS[event.pickup.type], event.x, event.y - 30, {
+                color: '#FFFFFF',
+                fontSize: 30,
+                lifetime: 1000,
+                velocityY: -70,
+              });
+              particleSystem.emitSparkle(event.x, event.y);
+              audioManager.playSfx(SFX_KEYS.UPGRADE);
+            }
+            break;
+
+          case 'shield':
+            // The shield took the crash
+            floatingTextSystem.add('SHIELD!', event.x, event.y - 60, {
+              color: '#29B6F6',
+              fontSize: 28,
+              lifetime: 1200,
+              velocityY: -40,
+            });
+            screenShake.shake(0.5, 200);
+            audioManager.triggerHaptic('medium');
+            break;
+
+          case 'damage':
+            // Dents fly off where the car was hit
+            particleSystem.emitDebris(event.x, event.y, event.amount);
+            screenShake.shake(Math.min(event.amount / 30, 0.4), 120);
+            break;
+
+          case 'checkpoint':
+            floatingTextSystem.add(
+              'CHECKPOINT',
+              simulation.car.body.position.x,
+              simulation.car.body.position.y - 60,
+              { color: '#4CAF50', fontSize: 22, lifetime: 1200, velocityY: -30 }
+            );
+            break;
+
+          case 'finish':
+            floatingTextSystem.add(
+              'FINISH!',
+              simulation.car.body.position.x,
+              simulation.car.body.position.y - 60,
+              { color: '#FFD700', fontSize: 30, lifetime: 1500, velocityY: -30 }
+            );
+            audioManager.playSfx(SFX_KEYS.NEW_BEST);
+            break;
+
+          case 'crash':
+            // Emit crash explosion
+            particleSystem.emitExplosion(event.x, event.y);
+            // Screen shake on crash (strong)
+            screenShake.shake(1.0, 300);
+            audioManager.playSfx(SFX_KEYS.CRASH);
+            audioManager.triggerHaptic('heavy');
+            break;
+
+          default:
+            break;
+        }
+      }
+    },
+    []
+  );
 
-    const state = runManager.getState();
-    const fuelState = fuelSystem.getState();
+  /**
+   * Rewards the run has earned so far
+   */
+  const getRunRewards = useCallback(
+    (snapshot: SimulationSnapshot): RunRewards => {
+      const { stats, status } = snapshot.runState;
+      const challengeState =
+        challenge && challengeTrackerRef.current
+          ? challengeTrackerRef.current.update(getChallengeRunStats(snapshot))
+          : null;
+
+      return {
+        runId: runIdRef.current,
+        distance: stats.distance,
+        coins: stats.coins,
+        trickPoints: snapshot.totalTrickPoints,
+        questProgress: questTrackerRef.current?.getEndProgress(stats.distance) ?? {},
+        course: course
+          ? {
+              courseId: course.id,
+              stars: getCourseRating(course, snapshot).stars,
+              completed: status === 'completed',
+              time: stats.timeElapsed,
+            }
+          : null,
+        challenge:
+          challenge && challengeState
+            ? {
+                challenge,
+                progress: challengeState.progress,
+                completed: challengeState.completed,
+              }
+            : null,
+      };
+    },
+    [course, challenge]
+  );
 
-    // Get boost power multiplier
-    const boostMultiplier = boostSystem.getState().powerMultiplier;
+  /**
+   * Stop the run after the simulation reports it over and offer a revive.
+   * Its rewards are banked at once (and again after a revive) so they
+   * survive the app closing; the run is settled once the player moves on.
+   */
+  const finishRun = useCallback(() => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
 
-    // Apply controls with boost
-    const isThrottling = state.isGasPressed && !fuelState.isEmpty;
-    const isBraking = state.isBrakePressed;
+    setIsRunning(false);
+    setShowEndScreen(true);
+
+    const snapshot = simulation.getSnapshot();
+    const { checkpoints } = snapshot;
+    savePendingRunRewards(getRunRewards(snapshot));
+    setCourseRating(course ? getCourseRating(course, snapshot) : null);
+
+    // A finished course has nothing to revive, and time trials get no second go
+    const timeTrialState = timeTrialRef.current?.getState() ?? null;
+    setSplits(timeTrialState?.splits ?? []);
+    setFinishTime(timeTrialState?.finishTime ?? null);
+    setFuelTelemetry(simulation.getFuelTelemetry());
+    const revivesLeft =
+      snapshot.runState.status === 'completed' || timeTrialState
+        ? 0
+        : checkpoints.revivesLeft;
+    setRevivesLeft(revivesLeft);
+    setReviveOptions(
+      reviveSystemRef.current.getOptions(checkpoints.revivesUsed, revivesLeft)
+    );
+  }, [course, getRunRewards]);
 
-    if (isThrottling) {
-      car.applyGas(1.0 * boostMultiplier);
+  /**
+   * Settle the ended run: pay its rewards, save the replay and ghost, report results
+   */
+  const settleRun = useCallback(() => {
+    const simulation = simulationRef.current;
+    const setup = runSetupRef.current;
+    if (!simulation || !setup || !simulation.isFinished()) return;
+
+    const finalSnapshot = simulation.getSnapshot();
+    payRunRewards(getRunRewards(finalSnapshot));
+    runEventSourceRef.current.finish(finalSnapshot);
+    const tracker = achievementTrackerRef.current;
+    if (tracker) {
+      saveAchievements(achievementSystemRef.current, tracker.getVisitedStages());
     }
-    if (isBraking) {
-      car.applyBrake(1.0);
+    questTrackerRef.current = null;
+    const finalState = finalSnapshot.runState;
+    setRunState(finalState);
+
+    if (finalState.stats.distance > localBestDistance) {
+      setLocalBestDistance(finalState.stats.distance);
+      // Play new best sound
+      getAudioManager().playSfx(SFX_KEYS.NEW_BEST);
     }
 
-    // Consume fuel (more when boosting)
-    const fuelMultiplier = boostSystem.getState().isBoosting ? 1.5 : 1.0;
-    fuelSystem.consume(deltaSeconds * fuelMultiplier, isThrottling, isBraking);
-    const newFuelState = fuelSystem.getState();
-    setFuelPercentage(newFuelState.percentage);
-    setIsFuelLow(newFuelState.isLow);
+    challengeTrackerRef.current = null;
 
-    // Check fuel empty
-    if (newFuelState.isEmpty && state.status === 'running') {
-      runManager.outOfFuel();
+    const recorder = recorderRef.current;
+    if (recorder && recorder.getTickCount() > 0) {
+      saveReplayLog(
+        recorder.finish({
+          distance: finalState.stats.distance,
+          coins: finalState.stats.coins,
+          trickPoints: finalSnapshot.totalTrickPoints,
+        })
+      );
     }
-
-    // Step physics
-    world.step(16.67);
-
-    // Update position
-    const carPos = car.getPosition();
-    const carAngle = car.getRotation();
-    const carVelocity = car.getVelocity();
-    runManager.updatePosition(carPos.x);
-    runManager.updateTime(deltaTime);
-
-    // Grounded detection for tricks
-    const isGrounded = isCarGrounded();
-    const wasGrounded = wasGroundedRef.current;
-
-    // Update trick system
-    const newTricks = trickSystem.update(
-      isGrounded,
-      carAngle,
-      carVelocity.y,
-      currentTime
+    recorderRef.current = null;
+
+    const ghost = ghostRecorderRef.current.stop(
+      vehicleId,
+      stageId,
+      finalState.stats.distance,
+      finalState.stats.coins,
+      setup.seed,
+      CosmeticsSystem.getEquippedSkin(vehicleId)
     );
-    trickSystem.clearOldTricks(currentTime);
-
-    // Process new tricks
-    if (newTricks.length > 0) {
-      let totalTrickPoints = 0;
-
-      for (const trick of newTricks) {
-        // Add to combo system
-        const comboResult = comboSystem.addTrick(trick.value);
-        totalTrickPoints += comboResult.points;
-
-        // Add boost from tricks
-        boostSystem.addBoost(trick.value);
-      }
-
-      setTrickPoints((prev) => prev + totalTrickPoints);
-      setRecentTricks(trickSystem.getState().recentTricks);
+    ghostPlayerRef.current.stop();
+    const timeTrialFinish = timeTrialRef.current?.getState().finishTime ?? null;
+    // Next run races the new best if this one beat it. Course runs stop at
+    // the finish line and modifiers change the car, so neither stands in
+    // for an endless best.
+    if (ghost.frames.length > 0 && course && timeTrialFinish !== null) {
+      saveTimeTrialGhost(course.id, ghost, timeTrialFinish).then(loadGhost);
+    } else if (ghost.frames.length > 0 && !course && (setup.modifiers ?? []).length === 0) {
+      saveRunGhost(ghost).then(loadGhost);
     }
 
-    // Landing particles, sound, and screen shake
-    if (isGrounded && !wasGrounded) {
-      particleSystem.emitLandingDust(carPos.x, carPos.y + 20, carVelocity.y);
-      // Play landing sound with haptic if hard landing
-      const audioManager = getAudioManager();
-      const landingIntensity = Math.abs(carVelocity.y);
-      if (landingIntensity > 5) {
-        audioManager.playSfx(SFX_KEYS.LANDING);
-        audioManager.triggerHaptic('medium');
-        // Screen shake proportional to landing impact
-        const shakeIntensity = Math.min(landingIntensity / 20, 0.5);
-        screenShake.shake(shakeIntensity, 150);
-      }
-    }
-
-    // Wheel dust while driving
-    if (isGrounded && isThrottling && Math.abs(carVelocity.x) > 1) {
-      const intensity = Math.min(Math.abs(carVelocity.x) / 10, 2);
-      particleSystem.emitDust(
-        car.rearWheel.position.x,
-        car.rearWheel.position.y + 15,
-        intensity
-      );
-    }
-
-    // Update combo timer
-    const comboResult = comboSystem.update(deltaTime);
-    if (comboResult.comboEnded && comboResult.finalPoints > 0) {
-      // Combo ended, could trigger visual feedback
-    }
+    onRunEnd?.({
+      ...finalState.stats,
+      trickPoints: finalSnapshot.totalTrickPoints,
+      maxCombo: finalSnapshot.combo.maxCombo,
+      ...(timeTrialFinish !== null ? { finishTime: timeTrialFinish } : {}),
+    });
+  }, [
+    onRunEnd,
+    localBestDistance,
+    stageId,
+    course,
+    vehicleId,
+    getRunRewards,
+    loadGhost,
+  ]);
 
-    // Update boost system
-    boostSystem.update(deltaTime);
+  /**
+   * Pay for a revive and continue the run from the last checkpoint
+   */
+  const handleRevive = useCallback(
+    async (payment: RevivePayment) => {
+      const simulation = simulationRef.current;
+      if (!simulation) return;
+
+      const { revivesUsed } = simulation.getSnapshot().checkpoints;
+      const paid = await reviveSystemRef.current.pay(payment, revivesUsed);
+      if (!paid || !simulation.revive()) {
+        console.warn('Revive failed:', payment);
+        return;
+      }
+      recorderRef.current?.recordRevive();
+
+      inputRef.current = { gas: false, brake: false, boost: false, lean: 0 };
+      leanButtonsRef.current = { back: false, forward: false };
+      loopRef.current?.reset();
+      lastTimeRef.current = performance.now();
+
+      const snapshot = simulation.getSnapshot();
+      setRunState(snapshot.runState);
+      setFuelPercentage(snapshot.fuel.percentage);
+      setShowEndScreen(false);
+      setIsRunning(true);
+    },
+    []
+  );
 
-    // Stop boost if player releases gas
-    if (boostSystem.getState().isBoosting && !isThrottling) {
-      boostSystem.stopBoost();
-    }
+  /**
+   * Game loop - runs once per display frame, steps the simulation in fixed ticks
+   */
+  const gameLoop = useCallback(() => {
+    if (!isRunning || isPaused) return;
 
-    // Update particles, floating text, and screen shake
-    particleSystem.update(deltaTime);
-    floatingTextSystem.update(deltaTime);
-    screenShake.update(deltaTime);
+    const simulation = simulationRef.current;
+    const loop = loopRef.current;
+    const particleSystem = particleSystemRef.current;
+    const floatingTextSystem = floatingTextSystemRef.current;
+    const screenShake = screenShakeRef.current;
 
-    // Update state refs
-    wasGroundedRef.current = isGrounded;
-    setComboState(comboSystem.getState());
-    setBoostState(boostSystem.getState());
-    setParticles(particleSystem.getParticles());
-    setFloatingTexts(floatingTextSystem.getTexts());
+    if (!simulation || !loop || !particleSystem || !floatingTextSystem || !screenShake) return;
 
-    // Check for crash (car flipped)
-    if (car.isFlipped()) {
-      // Emit crash explosion
-      particleSystem.emitExplosion(carPos.x, carPos.y);
+    const currentTime = performance.now();
+    const frameDelta = currentTime - lastTimeRef.current;
+    lastTimeRef.current = currentTime;
 
-      // Screen shake on crash (strong)
-      screenShake.shake(1.0, 300);
+    const alpha = loop.advance(frameDelta, () => {
+      if (simulation.isFinished()) return;
 
-      // Play crash sound
-      const audioManager = getAudioManager();
-      audioManager.playSfx(SFX_KEYS.CRASH);
-      audioManager.triggerHaptic('heavy');
+      const input = { ...inputRef.current };
+      inputRef.current.boost = false;
 
-      runManager.crash();
-      setIsRunning(false);
-      setShowEndScreen(true);
+      recorderRef.current?.record(input);
+      const events = simulation.step(input);
+      handleSimulationEvents(events);
 
-      const finalState = runManager.getState();
-      setRunState(finalState);
+      const tickSnapshot = simulation.getSnapshot();
+      runEventSourceRef.current.tick(tickSnapshot, events);
+      ghostRecorderRef.current.recordFrame(
+        tickSnapshot.car.x,
+        tickSnapshot.car.y,
+        tickSnapshot.car.angle,
+        tickSnapshot.boost.isBoosting,
+        simulation.getTime()
+      );
 
-      // PERSIST COINS TO PLAYER WALLET
-      if (finalState.stats.coins > 0) {
-        const progressionManager = getProgressionManager();
-        progressionManager.addCoins(finalState.stats.coins);
+      // Time trial splits, compared with the best run's ghost at each mark
+      const timeTrial = timeTrialRef.current;
+      if (timeTrial) {
+        const { startX, stats } = tickSnapshot.runState;
+        const passed = timeTrial.update(stats.distance, stats.timeElapsed * 1000, (distance) =>
+          ghostPlayerRef.current.getTimeAtX(startX + metersToPixels(distance))
+        );
+        for (const split of passed) {
+          const isAhead = split.delta !== null && split.delta <= 0;
+          const label =
+            split.delta === null
+              ? formatRaceTime(split.time)
+              : `${formatRaceTime(split.time)} (${formatSplitDelta(split.delta)})`;
+          floatingTextSystem.add(label, tickSnapshot.car.x, tickSnapshot.car.y - 90, {
+            color: split.delta === null ? '#FFFFFF' : isAhead ? '#4CAF50' : '#FF4444',
+            fontSize: 22,
+            lifetime: 1500,
+            velocityY: -30,
+          });
+        }
+        if (passed.length > 0) {
+          setSplits(timeTrial.getState().splits);
+        }
       }
 
-      if (finalState.stats.distance > localBestDistance) {
-        setLocalBestDistance(finalState.stats.distance);
-        // Play new best sound
-        audioManager.playSfx(SFX_KEYS.NEW_BEST);
+      const tracker = challengeTrackerRef.current;
+      if (tracker && tracker.update(getChallengeRunStats(tickSnapshot)).justCompleted) {
+        floatingTextSystem.add('CHALLENGE COMPLETE!', tickSnapshot.car.x, tickSnapshot.car.y - 80, {
+          color: '#FFD700',
+          fontSize: 30,
+          lifetime: 2000,
+          velocityY: -40,
+        });
+        getAudioManager().playSfx(SFX_KEYS.NEW_BEST);
       }
 
-      onRunEnd?.({
-        ...finalState.stats,
-        trickPoints: trickSystem.getState().totalTrickPoints,
-        maxCombo: comboSystem.getState().maxCombo,
-      });
-      return;
-    }
-
-    // Apply coin magnet effect (pull nearby coins toward player)
-    const pickups = pickupSpawner.getPickups();
-    coinMagnet.update(pickups, carPos.x, carPos.y, deltaTime);
-
-    // Check pickup collisions
-    const collided = checkPickupCollisions(car.body, pickups);
-    const audioManager = getAudioManager();
-    collided.forEach((pickup) => {
-      const collected = pickupSpawner.collectPickup(pickup.body.id);
-      if (collected) {
-        if (collected.type === 'coin') {
-          runManager.addCoins(collected.value);
-          // Coin sparkle effect
-          particleSystem.emitSparkle(pickup.body.position.x, pickup.body.position.y);
-          // Floating "+1" text
-          floatingTextSystem.addCoinPickup(collected.value, pickup.body.position.x, pickup.body.position.y - 30);
-          // Play coin sound
-          audioManager.playSfx(SFX_KEYS.COIN_PICKUP);
-        } else if (collected.type === 'fuel') {
-          fuelSystem.refill(collected.value);
-          // Floating "+FUEL" text
-          floatingTextSystem.add('+FUEL', pickup.body.position.x, pickup.body.position.y - 30, {
-            color: '#00FF00',
-            fontSize: 26,
-            lifetime: 1000,
-            velocityY: -70,
-          });
-          // Play fuel pickup sound
-          audioManager.playSfx(SFX_KEYS.FUEL_PICKUP);
+      // Wheel spray for the ground being driven on
+      if (
+        tickSnapshot.isGrounded &&
+        tickSnapshot.isThrottling &&
+        Math.abs(tickSnapshot.car.velocityX) > 1
+      ) {
+        const intensity = Math.min(Math.abs(tickSnapshot.car.velocityX) / 10, 2);
+        const rearWheel = simulation.car.rearWheel.position;
+        if (tickSnapshot.surface) {
+          particleSystem.emitSurfaceSpray(
+            rearWheel.x,
+            rearWheel.y + 15,
+            intensity,
+            tickSnapshot.surface
+          );
+        } else {
+          particleSystem.emitDust(rearWheel.x, rearWheel.y + 15, intensity);
         }
-        world.remove(collected.body);
       }
-    });
 
-    pickupSpawner.cleanupCollected();
+      // Equipped trail from the back of the car
+      if (trail && Math.abs(tickSnapshot.car.velocityX) > 1 && tickSnapshot.tick % 2 === 0) {
+        const { x, y, angle, velocityX } = tickSnapshot.car;
+        const halfLength = simulation.car.config.bodyWidth / 2;
+        particleSystem.emitTrail(
+          x - Math.cos(angle) * halfLength,
+          y - Math.sin(angle) * halfLength,
+          Math.min(Math.abs(velocityX) / 10, 1),
+          trail.style
+        );
+      }
 
-    // Generate more terrain ahead
-    const lookAhead = carPos.x + SCREEN_WIDTH * 2;
-    const lastSegment = segmentsRef.current[segmentsRef.current.length - 1];
-    if (lastSegment && lastSegment.endX < lookAhead) {
-      const newSegments = terrain.generateSegments(lastSegment.endX, lookAhead + 500);
-      newSegments.forEach((seg) => world.add(seg.body));
-      segmentsRef.current = [...segmentsRef.current, ...newSegments];
+      // A badly damaged engine smokes
+      if (tickSnapshot.damage.isSmoking && tickSnapshot.tick % 12 === 0) {
+        particleSystem.emitSmoke(tickSnapshot.car.x, tickSnapshot.car.y - 20);
+      }
+    });
 
-      const newPickups = pickupSpawner.spawnInRange(lastSegment.endX, lookAhead + 500);
-      newPickups.forEach((p) => world.add(p.body));
+    // Update particles, floating text, and screen shake (visual only)
+    const visualDelta = Math.min(frameDelta, 32);
+    particleSystem.update(visualDelta);
+    floatingTextSystem.update(visualDelta);
+    screenShake.update(visualDelta);
+
+    const snapshot = simulation.getSnapshot();
+    setFuelPercentage(snapshot.fuel.percentage);
+    setIsFuelLow(snapshot.fuel.isLow);
+    setComboState(snapshot.combo);
+    setBoostState(snapshot.boost);
+    setDamageState(snapshot.damage);
+    setPowerUpState(snapshot.powerUps);
+    setParticles(particleSystem.getParticles());
+    setFloatingTexts(floatingTextSystem.getTexts());
+    if (challengeTrackerRef.current) {
+      setChallengeState(challengeTrackerRef.current.getState());
     }
 
-    // Remove terrain far behind
-    const removeThreshold = carPos.x - SCREEN_WIDTH;
-    const toRemove = segmentsRef.current.filter((seg) => seg.endX < removeThreshold);
-    toRemove.forEach((seg) => world.remove(seg.body));
-    segmentsRef.current = segmentsRef.current.filter((seg) => seg.endX >= removeThreshold);
-
-    // Remove pickups far behind
-    const removedPickups = pickupSpawner.removeBefore(removeThreshold);
-    removedPickups.forEach((p) => world.remove(p.body));
+    // Ghost position and gap (ghost frames are on simulation time)
+    const ghostPlayer = ghostPlayerRef.current;
+    ghostPlayer.update(simulation.getTime(), snapshot.car.x);
+    const ghostState = ghostPlayer.getState();
+    const ghostInfo = ghostPlayer.getGhostInfo();
+    const raceGhost = raceGhostRef.current;
+    if (ghostState.isPlaying && ghostInfo) {
+      setGhostMarker({
+        x: ghostState.x,
+        y: ghostState.y,
+        angle: ghostState.angle,
+        width: simulation.car.config.bodyWidth,
+        height: simulation.car.config.bodyHeight,
+        isBoosting: ghostState.isBoosting,
+        ...(raceGhost
+          ? { color: getVehiclePalette(raceGhost.vehicleId, raceGhost.skinId).body }
+          : {}),
+      });
+      setGhostDelta({
+        name: ghostInfo.name,
+        timeDelta: -ghostState.timeDelta,
+        distanceDelta: pixelsToMeters(-ghostState.distanceDelta),
+      });
+    }
 
-    // Calculate camera with screen shake offset
-    const camera = calculateCamera(car, {
+    // Camera follows the interpolated car position
+    const previousTransforms = simulation.getPreviousTransforms();
+    const carBody = simulation.car.body;
+    const previousCar = previousTransforms.get(carBody.id);
+    const currentCar = { x: snapshot.car.x, y: snapshot.car.y, angle: snapshot.car.angle };
+    const carTransform = previousCar
+      ? interpolateTransform(previousCar, currentCar, alpha)
+      : currentCar;
+    const camera = calculateCameraAt(carTransform, {
       screenWidth: SCREEN_WIDTH,
       screenHeight: SCREEN_HEIGHT,
       followOffsetX: SCREEN_WIDTH * 0.25,
     });
     const shakeOffset = screenShake.getOffset();
 
+    // Weather follows the simulated intensity at the car
+    const weatherSystem = weatherSystemRef.current;
+    if (weatherSystem && simulation.weather.type !== 'none') {
+      weatherSystem.setIntensity(snapshot.weatherIntensity);
+      weatherSystem.update(visualDelta, camera.x, SCREEN_WIDTH, SCREEN_HEIGHT);
+      setWeatherLayer({
+        particles: [...weatherSystem.getParticles()],
+        tint: weatherSystem.getFogStyle(),
+        snowCaps: getSnowCaps(simulation),
+        getPickupOpacity: simulation.weather.getPickupOpacity,
+      });
+    }
+
+    // Fog closes in to the shortest of the challenge and weather limits
+    const visibility = [
+      renderEffects.fogDistance,
+      simulation.weather.getVisibility(snapshot.car.x),
+    ].filter((distance): distance is number => distance !== null);
+    setFog(
+      visibility.length > 0
+        ? { originX: snapshot.car.x, distance: Math.min(...visibility) }
+        : null
+    );
+
     // Update render state (apply shake offset to camera)
-    const bodies = world.getBodies();
-    const newRenderState = createRenderState(
-      bodies,
-      camera.x + shakeOffset.x,
-      camera.y + shakeOffset.y
+    setRenderState(
+      createInterpolatedRenderState(
+        simulation.getBodies(),
+        previousTransforms,
+        alpha,
+        camera.x + shakeOffset.x,
+        camera.y + shakeOffset.y,
+        palette
+      )
     );
-    setRenderState(newRenderState);
-    setRunState(runManager.getState());
+    setRunState(snapshot.runState);
+
+    if (simulation.isFinished()) {
+      finishRun();
+      return;
+    }
 
     // Continue loop
     frameRef.current = requestAnimationFrame(gameLoop);
-  }, [isRunning, isPaused, onRunEnd, localBestDistance, isCarGrounded]);
+  }, [isRunning, isPaused, handleSimulationEvents, finishRun, renderEffects, palette, trail]);
 
   // Input handlers
   const handleGasDown = useCallback(() => {
-    runStateRef.current?.setGas(true);
+    inputRef.current.gas = true;
   }, []);
 
   const handleGasUp = useCallback(() => {
-    runStateRef.current?.setGas(false);
+    inputRef.current.gas = false;
   }, []);
 
   const handleBrakeDown = useCallback(() => {
-    runStateRef.current?.setBrake(true);
+    inputRef.current.brake = true;
   }, []);
 
   const handleBrakeUp = useCallback(() => {
-    runStateRef.current?.setBrake(false);
+    inputRef.current.brake = false;
+  }, []);
+
+  /**
+   * Resolve the lean from the held buttons and device tilt
+   */
+  const updateLean = useCallback(() => {
+    const buttons = leanButtonsRef.current;
+    inputRef.current.lean = combineLean(buttons.back, buttons.forward, tiltLeanRef.current);
   }, []);
 
+  const handleLeanBackDown = useCallback(() => {
+    leanButtonsRef.current.back = true;
+    updateLean();
+  }, [updateLean]);
+
+  const handleLeanBackUp = useCallback(() => {
+    leanButtonsRef.current.back = false;
+    updateLean();
+  }, [updateLean]);
+
+  const handleLeanForwardDown = useCallback(() => {
+    leanButtonsRef.current.forward = true;
+    updateLean();
+  }, [updateLean]);
+
+  const handleLeanForwardUp = useCallback(() => {
+    leanButtonsRef.current.forward = false;
+    updateLean();
+  }, [updateLean]);
+
   /**
    * Pause game
    */
@@ -545,8 +1044,8 @@ export default function GameScreen({
     if (isRunning && !showEndScreen) {
       setIsPaused(true);
       // Release controls when pausing
-      runStateRef.current?.setGas(false);
-      runStateRef.current?.setBrake(false);
+      inputRef.current.gas = false;
+      inputRef.current.brake = false;
     }
   }, [isRunning, showEndScreen]);
 
@@ -556,6 +1055,7 @@ export default function GameScreen({
   const handleResume = useCallback(() => {
     setIsPaused(false);
     lastTimeRef.current = performance.now(); // Reset time to prevent jump
+    loopRef.current?.reset();
   }, []);
 
   /**
@@ -575,12 +1075,7 @@ export default function GameScreen({
       cancelAnimationFrame(frameRef.current);
     }
 
-    worldRef.current?.clear();
-    pickupSpawnerRef.current?.reset();
-    fuelSystemRef.current?.reset();
-    trickSystemRef.current?.reset();
-    comboSystemRef.current?.reset();
-    boostSystemRef.current?.reset();
+    simulationRef.current?.world.clear();
     particleSystemRef.current?.clear();
     floatingTextSystemRef.current?.clear();
     screenShakeRef.current?.reset();
@@ -589,6 +1084,20 @@ export default function GameScreen({
     startGame();
   }, [initGame, startGame]);
 
+
+  /**
+   * Leave the end screen: settle the run, then play again or go home
+   */
+  const handleEndRestart = useCallback(() => {
+    settleRun();
+    restartGame();
+  }, [settleRun, restartGame]);
+
+  const handleEndHome = useCallback(() => {
+    settleRun();
+    handleQuitToMenu();
+  }, [settleRun, handleQuitToMenu]);
+
   /**
    * Restart from pause menu
    */
@@ -597,6 +1106,88 @@ export default function GameScreen({
     restartGame();
   }, [restartGame]);
 
+  // Load achievement progress and track it from run events
+  useEffect(() => {
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    loadAchievements().then((stored) => {
+      if (cancelled) return;
+      const system = achievementSystemRef.current;
+      system.loadProgress(stored.progress);
+
+      const tracker = createAchievementTracker(system, {
+        visitedStages: stored.visitedStages,
+        onUnlock: (achievement) => {
+          queueAchievementToast(achievement);
+          payAchievementReward(system, achievement.id).then(() =>
+            saveAchievements(system, tracker.getVisitedStages())
+          );
+        },
+      });
+      achievementTrackerRef.current = tracker;
+      unsubscribe = runEventBusRef.current.subscribe(tracker.handle);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, []);
+
+  // Feed run events to the current run's quest tracker
+  useEffect(
+    () => runEventBusRef.current.subscribe((event) => questTrackerRef.current?.handle(event)),
+    []
+  );
+
+  // Lean by tilting the device when chosen in settings
+  useEffect(() => {
+    if (!tiltSource) return;
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    loadLeanControlMode().then((mode) => {
+      if (cancelled || mode !== 'tilt') return;
+      unsubscribe = tiltSource.subscribe((tiltX) => {
+        tiltLeanRef.current = tiltToLean(tiltX);
+        updateLean();
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      tiltLeanRef.current = 0;
+    };
+  }, [tiltSource, updateLean]);
+
+  // Load the ghost to race for this stage + vehicle
+  useEffect(() => {
+    loadGhost();
+  }, [loadGhost]);
+
+  // Count down to a time trial start
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown <= 0) {
+      setCountdown(null);
+      const car = simulationRef.current?.car.body.position;
+      if (car) {
+        floatingTextSystemRef.current?.add('GO!', car.x, car.y - 80, {
+          color: '#4CAF50',
+          fontSize: 40,
+          lifetime: 1000,
+          velocityY: -40,
+        });
+      }
+      beginRun();
+      return;
+    }
+    const timer = setTimeout(() => setCountdown(countdown - 1000), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown, beginRun]);
+
   // Initialize on mount
   useEffect(() => {
     initGame();
@@ -619,183 +1210,6 @@ export default function GameScreen({
     };
   }, [isRunning, gameLoop]);
 
-  /**
-   * Render a single body
-   */
-  const renderBody = (body: RenderableBody) => {
-    const screenPos = worldToScreen(
-      body.x,
-      body.y,
-      renderState.cameraX,
-      renderState.cameraY
-    );
-
-    if (
-      !isBodyVisible(
-        body,
-        renderState.cameraX,
-        renderState.cameraY,
-        SCREEN_WIDTH,
-        SCREEN_HEIGHT
-      )
-    ) {
-      return null;
-    }
-
-    if (body.type === 'circle') {
-      return (
-        <View
-          key={body.id}
-          style={[
-            styles.body,
-            {
-              position: 'absolute',
-              left: screenPos.x - (body.radius ?? 0),
-              top: screenPos.y - (body.radius ?? 0),
-              width: (body.radius ?? 0) * 2,
-              height: (body.radius ?? 0) * 2,
-              borderRadius: body.radius ?? 0,
-              backgroundColor: body.color,
-              transform: [{ rotate: `${body.angle}rad` }],
-            },
-          ]}
-        />
-      );
-    }
-
-    if (body.type === 'rectangle') {
-      return (
-        <View
-          key={body.id}
-          style={[
-            styles.body,
-            {
-              position: 'absolute',
-              left: screenPos.x - (body.width ?? 0) / 2,
-              top: screenPos.y - (body.height ?? 0) / 2,
-              width: body.width ?? 0,
-              height: body.height ?? 0,
-              backgroundColor: body.color,
-              transform: [{ rotate: `${body.angle}rad` }],
-            },
-          ]}
-        />
-      );
-    }
-
-    if (body.type === 'polygon' && body.vertices) {
-      const minX = Math.min(...body.vertices.map((v) => v.x));
-      const maxX = Math.max(...body.vertices.map((v) => v.x));
-      const minY = Math.min(...body.vertices.map((v) => v.y));
-      const maxY = Math.max(...body.vertices.map((v) => v.y));
-      const width = maxX - minX;
-      const height = maxY - minY;
-
-      return (
-        <View
-          key={body.id}
-          style={[
-            styles.body,
-            {
-              position: 'absolute',
-              left: screenPos.x - width / 2,
-              top: screenPos.y - height / 2,
-              width,
-              height,
-              backgroundColor: body.color,
-            },
-          ]}
-        />
-      );
-    }
-
-    return null;
-  };
-
-  /**
-   * Render floating texts
-   */
-  const renderFloatingTexts = () => {
-    return floatingTexts.map((text) => {
-      const screenPos = worldToScreen(
-        text.x,
-        text.y,
-        renderState.cameraX,
-        renderState.cameraY
-      );
-
-      if (
-        screenPos.x < -100 ||
-        screenPos.x > SCREEN_WIDTH + 100 ||
-        screenPos.y < -100 ||
-        screenPos.y > SCREEN_HEIGHT + 100
-      ) {
-        return null;
-      }
-
-      return (
-        <Text
-          key={text.id}
-          style={{
-            position: 'absolute',
-            left: screenPos.x,
-            top: screenPos.y,
-            fontSize: text.fontSize,
-            fontWeight: 'bold',
-            color: text.color,
-            opacity: text.alpha,
-            textShadowColor: '#000',
-            textShadowOffset: { width: 1, height: 1 },
-            textShadowRadius: 2,
-            transform: [{ translateX: -20 }], // Center the text
-          }}
-        >
-          {text.text}
-        </Text>
-      );
-    });
-  };
-
-  /**
-   * Render particles
-   */
-  const renderParticles = () => {
-    return particles.map((particle) => {
-      const screenPos = worldToScreen(
-        particle.x,
-        particle.y,
-        renderState.cameraX,
-        renderState.cameraY
-      );
-
-      if (
-        screenPos.x < -50 ||
-        screenPos.x > SCREEN_WIDTH + 50 ||
-        screenPos.y < -50 ||
-        screenPos.y > SCREEN_HEIGHT + 50
-      ) {
-        return null;
-      }
-
-      return (
-        <View
-          key={particle.id}
-          style={{
-            position: 'absolute',
-            left: screenPos.x - particle.size / 2,
-            top: screenPos.y - particle.size / 2,
-            width: particle.size,
-            height: particle.size,
-            borderRadius: particle.size / 2,
-            backgroundColor: particle.color,
-            opacity: particle.alpha,
-            transform: [{ rotate: `${particle.rotation}rad` }],
-          }}
-        />
-      );
-    });
-  };
-
   const currentDistance = runState?.stats.distance ?? 0;
   const isNewBest = currentDistance > localBestDistance;
   const canBoost = boostState?.amount && boostState.amount >= 20 && !boostState.isBoosting && boostState.cooldown <= 0;
@@ -806,11 +1220,20 @@ export default function GameScreen({
       <View style={styles.sky} />
 
       {/* Game world */}
-      <View style={styles.gameWorld}>
-        {renderState.bodies.map(renderBody)}
-        {renderParticles()}
-        {renderFloatingTexts()}
-      </View>
+      <WorldView
+        renderState={renderState}
+        particles={particles}
+        floatingTexts={floatingTexts}
+        ghost={isRunning ? ghostMarker : null}
+        finishX={simulationRef.current?.getFinishX() ?? null}
+        fog={isRunning ? fog : null}
+        weather={weatherLayer}
+        screenWidth={SCREEN_WIDTH}
+        screenHeight={SCREEN_HEIGHT}
+      />
+
+      {/* Achievement unlocks */}
+      <AchievementToast achievement={currentAchievement} onDismiss={handleToastDismiss} />
 
       {/* Trick Popup */}
       {isRunning && <TrickPopup tricks={recentTricks} />}
@@ -824,9 +1247,23 @@ export default function GameScreen({
           coins={runState?.stats.coins ?? 0}
           bestDistance={localBestDistance}
           timeElapsed={runState?.stats.timeElapsed}
+          isTimeTrial={isTimeTrial}
+          lastSplit={splits[splits.length - 1]}
           comboState={comboState ?? undefined}
           boostState={boostState ?? undefined}
+          damageState={damageState ?? undefined}
+          powerUpState={powerUpState ?? undefined}
           trickPoints={trickPoints}
+          ghostDelta={ghostDelta ?? undefined}
+          challenge={
+            challenge && challengeState
+              ? {
+                  label: challenge.description,
+                  fraction: challengeState.fraction,
+                  completed: challengeState.completed,
+                }
+              : undefined
+          }
         />
       )}
 
@@ -841,6 +1278,26 @@ export default function GameScreen({
         </TouchableOpacity>
       )}
 
+      {/* Lean controls */}
+      <View style={styles.leanControls}>
+        <TouchableOpacity
+          style={styles.leanButton}
+          onPressIn={handleLeanBackDown}
+          onPressOut={handleLeanBackUp}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.leanText}>↺</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.leanButton}
+          onPressIn={handleLeanForwardDown}
+          onPressOut={handleLeanForwardUp}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.leanText}>↻</Text>
+        </TouchableOpacity>
+      </View>
+
       {/* Controls */}
       <View style={styles.controls}>
         <TouchableOpacity
@@ -882,8 +1339,15 @@ export default function GameScreen({
         </TouchableOpacity>
       </View>
 
+      {/* Time trial countdown */}
+      {countdown !== null && (
+        <View style={styles.overlay} pointerEvents="none">
+          <Text style={styles.countdownText}>{getCountdownLabel(countdown)}</Text>
+        </View>
+      )}
+
       {/* Start overlay */}
-      {!isRunning && !showEndScreen && (
+      {!isRunning && !showEndScreen && countdown === null && (
         <View style={styles.overlay}>
           <Text style={styles.title}>Summit Wheels</Text>
           <TouchableOpacity style={styles.startButton} onPress={startGame}>
@@ -901,7 +1365,15 @@ export default function GameScreen({
           isNewBest={isNewBest}
           timeElapsed={runState?.stats.timeElapsed ?? 0}
           endReason={runState?.stats.endReason}
-          onRestart={restartGame}
+          onRestart={handleEndRestart}
+          onHome={onQuit ? handleEndHome : undefined}
+          onRevive={handleRevive}
+          reviveOptions={reviveOptions}
+          revivesLeft={revivesLeft}
+          courseRating={courseRating}
+          splits={isTimeTrial ? splits : undefined}
+          finishTime={finishTime}
+          fuelTelemetry={fuelTelemetry}
           trickPoints={trickPoints}
           maxCombo={comboState?.maxCombo ?? 0}
         />
@@ -930,13 +1402,6 @@ const styles = StyleSheet.create({
     ...StyleSheet.absoluteFillObject,
     backgroundColor: '#87CEEB',
   },
-  gameWorld: {
-    flex: 1,
-    overflow: 'hidden',
-  },
-  body: {
-    position: 'absolute',
-  },
   pauseButton: {
     position: 'absolute',
     top: 50,
@@ -984,6 +1449,28 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  leanControls: {
+    position: 'absolute',
+    bottom: 135,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 40,
+  },
+  leanButton: {
+    width: 80,
+    height: 50,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+  },
+  leanText: {
+    color: '#FFF',
+    fontSize: 26,
+    fontWeight: 'bold',
+  },
   boostButton: {
     width: 80,
     height: 80,
@@ -1036,4 +1523,12 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#FFF',
   },
+  countdownText: {
+    fontSize: 96,
+    fontWeight: 'bold',
+    color: '#FFD700',
+    textShadowColor: '#000',
+    textShadowOffset: { width: 3, height: 3 },
+    textShadowRadius: 4,
+  },
 });
@@ -1,5 +1,8 @@
 /**
- * GarageScreen - Vehicle upgrades and progression
+ * GarageScreen - Vehicle upgrades, progression and cosmetics
+ *
+ * Cosmetics: paint (skins) for the selected vehicle with a live
+ * preview, trails and profile badges, bought with coins or earned.
  */
 
 import React, { useEffect, useState } from 'react';
@@ -17,6 +20,31 @@ import {
   UpgradeInfo,
 } from '../game/progression/upgrades';
 import { getUpgradeDisplayName } from '../game/config/vehicleConfig';
+import { getVehicle } from '../game/config/vehicles';
+import {
+  getVehiclePalette,
+  getVehicleSkins,
+  PROFILE_BADGES,
+  TRAIL_EFFECTS,
+} from '../game/config/cosmetics';
+import { CosmeticsState, CosmeticsSystem } from '../systems/CosmeticsSystem';
+import { VehiclePreview } from '../components/VehiclePreview';
+
+/**
+ * A row in one of the cosmetics lists
+ */
+type CosmeticRow = {
+  /** Catalogue id (null for "none" / the vehicle's own paint) */
+  id: string | null;
+  name: string;
+  description: string;
+  /** Coin price (null = reward only) */
+  price: number | null;
+  isEquipped: boolean;
+  onEquip: () => void;
+  /** Show the item in the preview */
+  onPreview?: () => void;
+};
 
 type GarageScreenProps = {
   onBack?: () => void;
@@ -27,6 +55,9 @@ export default function GarageScreen({ onBack, onPlay }: GarageScreenProps) {
   const [progress, setProgress] = useState<PlayerProgress | null>(null);
   const [upgrades, setUpgrades] = useState<UpgradeInfo[]>([]);
   const [manager, setManager] = useState<ProgressionManager | null>(null);
+  const [cosmetics, setCosmetics] = useState<CosmeticsState | null>(null);
+  /** Skin shown in the preview (null = the vehicle's own paint) */
+  const [previewSkin, setPreviewSkin] = useState<string | null>(null);
 
   useEffect(() => {
     const pm = getProgressionManager();
@@ -35,7 +66,9 @@ export default function GarageScreen({ onBack, onPlay }: GarageScreenProps) {
     pm.load().then((p) => {
       setProgress(p);
       setUpgrades(pm.getAllUpgradeInfos());
+      setPreviewSkin(CosmeticsSystem.getEquippedSkin(p.selectedVehicle));
     });
+    CosmeticsSystem.load().then(setCosmetics);
   }, []);
 
   const handleUpgrade = async (type: UpgradeInfo['type']) => {
@@ -48,6 +81,70 @@ export default function GarageScreen({ onBack, onPlay }: GarageScreenProps) {
     }
   };
 
+  const handleBuyCosmetic = async (id: string) => {
+    if (!manager) return;
+
+    if (await CosmeticsSystem.purchase(id)) {
+      setProgress(manager.getProgress());
+      setUpgrades(manager.getAllUpgradeInfos());
+      setCosmetics(CosmeticsSystem.getState());
+    }
+  };
+
+  const handleEquip = async (equip: Promise<boolean>) => {
+    if (await equip) {
+      setCosmetics(CosmeticsSystem.getState());
+    }
+  };
+
+  /**
+   * Render a cosmetic with its equip/buy action
+   */
+  const renderCosmetic = (row: CosmeticRow) => {
+    const isOwned = row.id === null || cosmetics?.owned.includes(row.id);
+    const canAfford = row.price !== null && (progress?.coins ?? 0) >= row.price;
+
+    return (
+      <TouchableOpacity
+        key={row.id ?? row.name}
+        style={styles.upgradeCard}
+        onPress={row.onPreview}
+        disabled={!row.onPreview}
+        activeOpacity={0.8}
+      >
+        <View style={styles.upgradeInfo}>
+          <Text style={styles.upgradeName}>{row.name}</Text>
+          <Text style={styles.upgradeLevel}>{row.description}</Text>
+        </View>
+        {isOwned ? (
+          <TouchableOpacity
+            style={[styles.upgradeButton, row.isEquipped && styles.upgradeButtonMaxed]}
+            onPress={row.onEquip}
+            disabled={row.isEquipped}
+          >
+            <Text style={styles.upgradeButtonText}>
+              {row.isEquipped ? 'EQUIPPED' : 'Equip'}
+            </Text>
+          </TouchableOpacity>
+        ) : row.price !== null && row.id !== null ? (
+          <TouchableOpacity
+            style={[styles.upgradeButton, !canAfford && styles.upgradeButtonDisabled]}
+            onPress={() => row.id && handleBuyCosmetic(row.id)}
+            disabled={!canAfford}
+          >
+            <Text style={styles.upgradeButtonText}>Buy</Text>
+            <Text style={styles.upgradeCost}>{row.price} ⬤</Text>
+          </TouchableOpacity>
+        ) : (
+          <View style={[styles.upgradeButton, styles.upgradeButtonDisabled]}>
+            <Text style={styles.upgradeButtonText}>Reward</Text>
+            <Text style={styles.upgradeCost}>Season Pass</Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
   if (!progress) {
     return (
       <View style={styles.container}>
@@ -74,7 +171,9 @@ export default function GarageScreen({ onBack, onPlay }: GarageScreenProps) {
 
       {/* Stats Summary */}
       <View style={styles.statsCard}>
-        <Text style={styles.statsTitle}>Your Stats</Text>
+        <Text style={styles.statsTitle}>
+          Your Stats {CosmeticsSystem.getEquippedBadge()?.icon ?? ''}
+        </Text>
         <View style={styles.statsRow}>
           <Text style={styles.statLabel}>Best Distance</Text>
           <Text style={styles.statValue}>{Math.floor(progress.bestDistance)}m</Text>
@@ -134,6 +233,78 @@ export default function GarageScreen({ onBack, onPlay }: GarageScreenProps) {
             </TouchableOpacity>
           </View>
         ))}
+
+        {/* Paint for the selected vehicle */}
+        <Text style={styles.sectionTitle}>Paint</Text>
+        <View style={styles.previewCard}>
+          <VehiclePreview
+            vehicle={getVehicle(progress.selectedVehicle)}
+            palette={getVehiclePalette(progress.selectedVehicle, previewSkin)}
+          />
+        </View>
+        {renderCosmetic({
+          id: null,
+          name: 'Factory Paint',
+          description: `The ${getVehicle(progress.selectedVehicle).name}'s own colours`,
+          price: null,
+          isEquipped: !cosmetics?.equippedSkins[progress.selectedVehicle],
+          onEquip: () => handleEquip(CosmeticsSystem.equipSkin(progress.selectedVehicle, null)),
+          onPreview: () => setPreviewSkin(null),
+        })}
+        {getVehicleSkins(progress.selectedVehicle).map((skin) =>
+          renderCosmetic({
+            id: skin.id,
+            name: skin.name,
+            description: skin.description,
+            price: skin.price,
+            isEquipped: cosmetics?.equippedSkins[progress.selectedVehicle] === skin.id,
+            onEquip: () =>
+              handleEquip(CosmeticsSystem.equipSkin(progress.selectedVehicle, skin.id)),
+            onPreview: () => setPreviewSkin(skin.id),
+          })
+        )}
+
+        {/* Trails */}
+        <Text style={styles.sectionTitle}>Trails</Text>
+        {renderCosmetic({
+          id: null,
+          name: 'No Trail',
+          description: 'Just the dust from your wheels',
+          price: null,
+          isEquipped: !cosmetics?.equippedTrail,
+          onEquip: () => handleEquip(CosmeticsSystem.equipTrail(null)),
+        })}
+        {Object.values(TRAIL_EFFECTS).map((trail) =>
+          renderCosmetic({
+            id: trail.id,
+            name: trail.name,
+            description: trail.description,
+            price: trail.price,
+            isEquipped: cosmetics?.equippedTrail === trail.id,
+            onEquip: () => handleEquip(CosmeticsSystem.equipTrail(trail.id)),
+          })
+        )}
+
+        {/* Profile badges */}
+        <Text style={styles.sectionTitle}>Badges</Text>
+        {renderCosmetic({
+          id: null,
+          name: 'No Badge',
+          description: 'Keep your profile plain',
+          price: null,
+          isEquipped: !cosmetics?.equippedBadge,
+          onEquip: () => handleEquip(CosmeticsSystem.equipBadge(null)),
+        })}
+        {Object.values(PROFILE_BADGES).map((badge) =>
+          renderCosmetic({
+            id: badge.id,
+            name: `${badge.icon} ${badge.name}`,
+            description: badge.description,
+            price: null,
+            isEquipped: cosmetics?.equippedBadge === badge.id,
+            onEquip: () => handleEquip(CosmeticsSystem.equipBadge(badge.id)),
+          })
+        )}
       </ScrollView>
 
       {/* Play Button */}
@@ -231,6 +402,13 @@ const styles = StyleSheet.create({
     color: '#FF6B35',
     marginBottom: 15,
   },
+  previewCard: {
+    backgroundColor: '#2A2A4E',
+    borderRadius: 15,
+    paddingVertical: 25,
+    marginBottom: 12,
+    alignItems: 'center',
+  },
   upgradeCard: {
     flexDirection: 'row',
     backgroundColor: '#2A2A4E',
@@ -6,7 +6,8 @@
  * - Garage (Vehicle Select & Upgrades)
  * - Settings
  * - Daily Rewards
- * - Season Pass
+ * - Items (inventory) and the pre-run loadout
+ * - Season Pass and its weekly quests
  * - Achievements
  * - Shop
  */
@@ -22,14 +23,21 @@ import {
 } from 'react-native';
 import { getProgressionManager, PlayerProgress } from '../game/progression/upgrades';
 import { useUISound } from '../hooks/useUISound';
-import { DailyRewardSystem } from '../systems/DailyRewardSystem';
+import { DailyRewardSystem, DailyReward } from '../systems/DailyRewardSystem';
 import { SeasonPassSystem } from '../systems/SeasonPassSystem';
 import { DailyRewardModal } from '../components/DailyRewardModal';
+import { InventoryModal } from '../components/InventoryModal';
+import { QuestBoardModal } from '../components/QuestBoardModal';
+import { LoadoutPicker } from '../components/LoadoutPicker';
+import { InventorySystem } from '../systems/InventorySystem';
+import { LOADOUT_ITEMS, LoadoutItem } from '../game/simulation/loadout';
+import { payReward } from '../game/progression/rewards';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
 export type HomeScreenProps = {
-  onPlay: () => void;
+  /** Start a run with the consumables equipped */
+  onPlay: (loadout: LoadoutItem[]) => void;
   onGarage: () => void;
   onStageSelect: () => void;
   onVehicleSelect: () => void;
@@ -38,6 +46,7 @@ export type HomeScreenProps = {
   onAchievements?: () => void;
   onLeaderboard?: () => void;
   onDailyChallenge?: () => void;
+  onReplays?: () => void;
 };
 
 export default function HomeScreen({
@@ -50,11 +59,16 @@ export default function HomeScreen({
   onAchievements,
   onLeaderboard,
   onDailyChallenge,
+  onReplays,
 }: HomeScreenProps) {
   const [progress, setProgress] = useState<PlayerProgress | null>(null);
   const [showDailyReward, setShowDailyReward] = useState(false);
+  const [showLoadout, setShowLoadout] = useState(false);
+  const [showInventory, setShowInventory] = useState(false);
+  const [showQuests, setShowQuests] = useState(false);
   const [hasDailyReward, setHasDailyReward] = useState(false);
   const [seasonLevel, setSeasonLevel] = useState(1);
+  const [season, setSeason] = useState(() => SeasonPassSystem.getSeason());
   const [streak, setStreak] = useState(0);
   const [pulseAnim] = useState(new Animated.Value(1));
   const { playClick, playConfirm } = useUISound();
@@ -73,6 +87,9 @@ export default function HomeScreen({
       // Load season pass state
       const seasonState = await SeasonPassSystem.load();
       setSeasonLevel(seasonState.currentLevel);
+      setSeason(SeasonPassSystem.getSeason());
+
+      await InventorySystem.load();
 
       // Show daily reward modal on first load if available
       if (!dailyState.dailyGiftClaimed) {
@@ -101,9 +118,32 @@ export default function HomeScreen({
 
   const handlePlay = useCallback(() => {
     playConfirm();
-    onPlay();
+    // Offer the loadout only when there is something to equip
+    if (LOADOUT_ITEMS.some((item) => InventorySystem.getCount(item) > 0)) {
+      setShowLoadout(true);
+    } else {
+      onPlay([]);
+    }
   }, [playConfirm, onPlay]);
 
+  const handleStartWithLoadout = useCallback(
+    (loadout: LoadoutItem[]) => {
+      setShowLoadout(false);
+      onPlay(loadout);
+    },
+    [onPlay]
+  );
+
+  const handleInventory = useCallback(() => {
+    playClick();
+    setShowInventory(true);
+  }, [playClick]);
+
+  const handleQuests = useCallback(() => {
+    playClick();
+    setShowQuests(true);
+  }, [playClick]);
+
   const handleStageSelect = useCallback(() => {
     playClick();
     onStageSelect();
@@ -124,13 +164,11 @@ export default function HomeScreen({
     onSettings();
   }, [playClick, onSettings]);
 
-  const handleDailyRewardClaim = (reward: any, bonus: number) => {
-    // Add coins to progress
-    if (reward.type === 'coins') {
-      const manager = getProgressionManager();
-      manager.addCoins(reward.amount + bonus);
-      setProgress((p) => p ? { ...p, coins: p.coins + reward.amount + bonus } : p);
-    }
+  const handleDailyRewardClaim = async (reward: DailyReward, bonus: number) => {
+    // Coins go to the wallet, items to the inventory (one daily reward per day)
+    const today = new Date().toISOString().split('T')[0];
+    await payReward({ type: reward.type, amount: reward.amount + bonus }, 'dailyReward', today);
+    setProgress(getProgressionManager().getProgress());
     setHasDailyReward(false);
   };
 
@@ -159,11 +197,15 @@ export default function HomeScreen({
           )}
         </TouchableOpacity>
 
-        {/* Season Pass Progress */}
-        <View style={styles.seasonPassBadge}>
-          <Text style={styles.seasonLabel}>Season</Text>
+        {/* Season Pass Progress (opens the weekly quests) */}
+        <TouchableOpacity
+          style={[styles.seasonPassBadge, { backgroundColor: season.theme.primaryColor }]}
+          onPress={handleQuests}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.seasonLabel}>{season.name}</Text>
           <Text style={styles.seasonLevel}>Lv.{seasonLevel}</Text>
-        </View>
+        </TouchableOpacity>
 
         {/* Streak Display */}
         {streak > 0 && (
@@ -278,6 +320,26 @@ export default function HomeScreen({
             </TouchableOpacity>
           )}
 
+          {onReplays && (
+            <TouchableOpacity
+              style={[styles.tertiaryButton, styles.replaysButton]}
+              onPress={onReplays}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.tertiaryIcon}>R</Text>
+              <Text style={styles.tertiaryText}>Replays</Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity
+            style={[styles.tertiaryButton, styles.itemsButton]}
+            onPress={handleInventory}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.tertiaryIcon}>I</Text>
+            <Text style={styles.tertiaryText}>Items</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={[styles.tertiaryButton, styles.settingsButton]}
             onPress={handleSettings}
@@ -298,6 +360,20 @@ export default function HomeScreen({
         onClose={() => setShowDailyReward(false)}
         onClaim={handleDailyRewardClaim}
       />
+
+      <LoadoutPicker
+        visible={showLoadout}
+        onClose={() => setShowLoadout(false)}
+        onStart={handleStartWithLoadout}
+      />
+
+      <InventoryModal
+        visible={showInventory}
+        onClose={() => setShowInventory(false)}
+        onChange={() => setProgress(getProgressionManager().getProgress())}
+      />
+
+      <QuestBoardModal visible={showQuests} onClose={() => setShowQuests(false)} />
     </View>
   );
 }
@@ -546,6 +622,8 @@ const styles = StyleSheet.create({
   garageButton: {},
   achievementsButton: {},
   leaderboardButton: {},
+  replaysButton: {},
+  itemsButton: {},
   settingsButton: {},
   tertiaryIcon: {
     fontSize: 24,
@@ -4,6 +4,7 @@
  * Features:
  * - Personal best records per stage
  * - Recent runs history
+ * - Fastest time trial finishes per course
  * - Stats overview
  * - Filter by stage/vehicle/timeframe
  */
@@ -22,7 +23,8 @@ import {
   LeaderboardEntry,
   LeaderboardCategory,
 } from '../systems/LeaderboardSystem';
-import { STAGES, StageId } from '../game/config/stages';
+import { getCourse, STAGES, StageId } from '../game/config/stages';
+import { formatRaceTime } from '../game/systems/timeTrial';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -30,7 +32,7 @@ type LeaderboardScreenProps = {
   onBack: () => void;
 };
 
-type Tab = 'records' | 'recent' | 'stats';
+type Tab = 'records' | 'times' | 'recent' | 'stats';
 type TimeFilter = 'daily' | 'weekly' | 'all-time';
 
 export default function LeaderboardScreen({ onBack }: LeaderboardScreenProps) {
@@ -59,6 +61,8 @@ export default function LeaderboardScreen({ onBack }: LeaderboardScreenProps) {
 
     if (activeTab === 'recent') {
       setEntries(LeaderboardSystem.getRecentRuns(20));
+    } else if (activeTab === 'times') {
+      setEntries(LeaderboardSystem.getLeaderboard('time', filter));
     } else {
       setEntries(LeaderboardSystem.getLeaderboard('distance', filter));
     }
@@ -86,6 +90,8 @@ export default function LeaderboardScreen({ onBack }: LeaderboardScreenProps) {
 
   const renderEntry = ({ item, index }: { item: LeaderboardEntry; index: number }) => {
     const stageName = STAGES[item.stageId]?.name ?? item.stageId;
+    const courseName = item.courseId ? getCourse(item.stageId, item.courseId)?.name : undefined;
+    const showTime = activeTab === 'times' && item.finishTime !== undefined;
 
     return (
       <View style={[styles.entryItem, item.isPersonalBest && styles.entryItemBest]}>
@@ -96,7 +102,9 @@ export default function LeaderboardScreen({ onBack }: LeaderboardScreenProps) {
         </View>
         <View style={styles.entryInfo}>
           <View style={styles.entryRow}>
-            <Text style={styles.entryDistance}>{formatDistance(item.distance)}</Text>
+            <Text style={styles.entryDistance}>
+              {showTime ? formatRaceTime(item.finishTime!) : formatDistance(item.distance)}
+            </Text>
             {item.isPersonalBest && (
               <View style={styles.pbBadge}>
                 <Text style={styles.pbText}>PB</Text>
@@ -104,7 +112,7 @@ export default function LeaderboardScreen({ onBack }: LeaderboardScreenProps) {
             )}
           </View>
           <View style={styles.entryDetails}>
-            <Text style={styles.detailText}>{stageName}</Text>
+            <Text style={styles.detailText}>{courseName ?? stageName}</Text>
             <Text style={styles.detailDot}>-</Text>
             <Text style={styles.detailText}>{item.coins} coins</Text>
             <Text style={styles.detailDot}>-</Text>
@@ -164,7 +172,7 @@ export default function LeaderboardScreen({ onBack }: LeaderboardScreenProps) {
 
       {/* Tabs */}
       <View style={styles.tabContainer}>
-        {(['records', 'recent', 'stats'] as Tab[]).map((tab) => (
+        {(['records', 'times', 'recent', 'stats'] as Tab[]).map((tab) => (
           <TouchableOpacity
             key={tab}
             style={[styles.tab, activeTab === tab && styles.tabActive]}
@@ -27,6 +27,7 @@ import {
 } from '../iap/iapKeys';
 import { handleRestorePurchases } from '../iap/purchaseHandler';
 import { EntitlementService } from '../services/EntitlementService';
+import { getProgressionManager } from '../game/progression/upgrades';
 
 interface PaywallScreenProps {
   onClose?: () => void;
@@ -57,7 +58,8 @@ export function PaywallScreen({ onClose }: PaywallScreenProps): React.ReactEleme
     await EntitlementService.load();
     setHasNoAds(EntitlementService.hasNoAds());
     setHasSummitPass(EntitlementService.hasSummitPass());
-    setCoins(EntitlementService.getCoins());
+    const progress = await getProgressionManager().load();
+    setCoins(progress.coins);
   };
 
   const handlePurchase = async (type: PurchaseType) => {
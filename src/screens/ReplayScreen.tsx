@@ -1,38 +1,63 @@
 /**
- * ReplayScreen - Watch recorded ghost replays
+ * ReplayScreen - Watch recorded replays
  *
  * Features:
  * - List saved replays
+ * - Full replays re-simulated from recorded inputs (true car, terrain, pickups, tricks)
  * - Playback with pause/play controls
  * - Speed controls (0.5x, 1x, 2x)
  * - Timeline scrubber
+ * - Share ghosts as codes and import friends' ghosts
  */
 
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   Dimensions,
   ScrollView,
+  Share,
   StyleSheet,
   Text,
   TouchableOpacity,
   View,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   GhostRun,
   GhostFrame,
-  decompressGhostRun,
   formatTimeDelta,
 } from '../game/systems/ghost';
+import { loadGhostRuns, loadImportedGhosts } from '../game/systems/ghostStore';
+import { buildGhostLink, exportGhostCode } from '../game/systems/ghostCode';
+import {
+  createReplayer,
+  isReplayLogPlayable,
+  Replayer,
+  ReplayLog,
+} from '../game/simulation/replay';
+import { loadReplayLogs } from '../game/simulation/replayStore';
+import { createFixedStepLoop, FixedStepLoop } from '../game/simulation/fixedStep';
+import { SIMULATION_TICK_MS } from '../game/simulation/simulation';
+import {
+  calculateCameraAt,
+  createInterpolatedRenderState,
+  interpolateTransform,
+  RenderState,
+} from '../game/renderer/GameRenderer';
+import { Trick } from '../game/systems/tricks';
+import { WorldView } from '../components/WorldView';
+import { TrickPopup } from '../components/TrickPopup';
+import { GhostImportModal } from '../components/GhostImportModal';
 import { useUISound } from '../hooks/useUISound';
 import { VEHICLES } from '../game/config/vehicles';
+import { getVehiclePalette, VehiclePalette } from '../game/config/cosmetics';
+import { CosmeticsSystem } from '../systems/CosmeticsSystem';
 import { STAGES } from '../game/config/stages';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
-const REPLAYS_STORAGE_KEY = '@summit_wheels_replays';
 
 type ReplayScreenProps = {
   onBack: () => void;
+  /** Ghost code to import (opened from a deep link) */
+  initialGhostCode?: string;
 };
 
 type PlaybackState = {
@@ -42,8 +67,26 @@ type PlaybackState = {
   currentFrame: GhostFrame | null;
 };
 
-export default function ReplayScreen({ onBack }: ReplayScreenProps) {
+type LogPlaybackState = {
+  isPlaying: boolean;
+  tick: number;
+  speed: number;
+  distance: number;
+  coins: number;
+};
+
+const INITIAL_LOG_PLAYBACK: LogPlaybackState = {
+  isPlaying: false,
+  tick: 0,
+  speed: 1,
+  distance: 0,
+  coins: 0,
+};
+
+export default function ReplayScreen({ onBack, initialGhostCode }: ReplayScreenProps) {
   const [replays, setReplays] = useState<GhostRun[]>([]);
+  const [importedGhosts, setImportedGhosts] = useState<GhostRun[]>([]);
+  const [showImport, setShowImport] = useState(initialGhostCode !== undefined);
   const [selectedReplay, setSelectedReplay] = useState<GhostRun | null>(null);
   const [playbackState, setPlaybackState] = useState<PlaybackState>({
     isPlaying: false,
@@ -51,9 +94,23 @@ export default function ReplayScreen({ onBack }: ReplayScreenProps) {
     speed: 1,
     currentFrame: null,
   });
+  const [logs, setLogs] = useState<ReplayLog[]>([]);
+  const [selectedLog, setSelectedLog] = useState<ReplayLog | null>(null);
+  const [logPlayback, setLogPlayback] = useState<LogPlaybackState>(INITIAL_LOG_PLAYBACK);
+  const [renderState, setRenderState] = useState<RenderState>({
+    bodies: [],
+    cameraX: 0,
+    cameraY: 0,
+  });
+  const [recentTricks, setRecentTricks] = useState<Trick[]>([]);
+  const [viewSize, setViewSize] = useState({ width: SCREEN_WIDTH, height: SCREEN_HEIGHT });
+  const [timelineWidth, setTimelineWidth] = useState(1);
   const { playClick, playConfirm } = useUISound();
   const animationRef = useRef<number | null>(null);
   const lastUpdateRef = useRef<number>(0);
+  const replayerRef = useRef<Replayer | null>(null);
+  const loopRef = useRef<FixedStepLoop | null>(null);
+  const logPaletteRef = useRef<VehiclePalette | undefined>(undefined);
 
   useEffect(() => {
     loadReplays();
@@ -64,22 +121,29 @@ export default function ReplayScreen({ onBack }: ReplayScreenProps) {
     };
   }, []);
 
-  const loadReplays = async () => {
-    try {
-      const data = await AsyncStorage.getItem(REPLAYS_STORAGE_KEY);
-      if (data) {
-        const compressed = JSON.parse(data) as string[];
-        const decompressed = compressed.map(decompressGhostRun);
-        setReplays(decompressed);
-      }
-    } catch (error) {
-      console.error('Failed to load replays:', error);
+  // A new ghost link arrived while this screen is open
+  useEffect(() => {
+    if (initialGhostCode) {
+      setShowImport(true);
     }
+  }, [initialGhostCode]);
+
+  const loadReplays = async () => {
+    setLogs(await loadReplayLogs());
+    setReplays(await loadGhostRuns());
+    setImportedGhosts(await loadImportedGhosts());
   };
 
   const handleBack = useCallback(() => {
     playClick();
-    if (selectedReplay) {
+    if (selectedLog) {
+      setSelectedLog(null);
+      setLogPlayback(INITIAL_LOG_PLAYBACK);
+      replayerRef.current = null;
+      if (animationRef.current) {
+        cancelAnimationFrame(animationRef.current);
+      }
+    } else if (selectedReplay) {
       setSelectedReplay(null);
       setPlaybackState({
         isPlaying: false,
@@ -93,7 +157,159 @@ export default function ReplayScreen({ onBack }: ReplayScreenProps) {
     } else {
       onBack();
     }
-  }, [playClick, onBack, selectedReplay]);
+  }, [playClick, onBack, selectedReplay, selectedLog]);
+
+  /**
+   * Draw the replayer's simulation, interpolated between its last two ticks
+   */
+  const renderLogFrame = useCallback(
+    (alpha: number) => {
+      const replayer = replayerRef.current;
+      if (!replayer) return;
+
+      const simulation = replayer.getSimulation();
+      const snapshot = simulation.getSnapshot();
+      const previousTransforms = simulation.getPreviousTransforms();
+      const previousCar = previousTransforms.get(simulation.car.body.id);
+      const currentCar = { x: snapshot.car.x, y: snapshot.car.y, angle: snapshot.car.angle };
+      const carTransform = previousCar
+        ? interpolateTransform(previousCar, currentCar, alpha)
+        : currentCar;
+      const camera = calculateCameraAt(carTransform, {
+        screenWidth: viewSize.width,
+        screenHeight: viewSize.height,
+        followOffsetX: viewSize.width * 0.25,
+      });
+
+      setRenderState(
+        createInterpolatedRenderState(
+          simulation.getBodies(),
+          previousTransforms,
+          alpha,
+          camera.x,
+          camera.y,
+          logPaletteRef.current
+        )
+      );
+      setRecentTricks(snapshot.recentTricks);
+      setLogPlayback((prev) => ({
+        ...prev,
+        tick: replayer.getTick(),
+        distance: snapshot.runState.stats.distance,
+        coins: snapshot.runState.stats.coins,
+      }));
+    },
+    [viewSize]
+  );
+
+  const handleSelectLog = useCallback(
+    (log: ReplayLog) => {
+      playClick();
+      replayerRef.current = createReplayer(log);
+      // Own runs, so drawn in the skin the vehicle wears now
+      logPaletteRef.current = CosmeticsSystem.getPalette(log.vehicleId);
+      loopRef.current = createFixedStepLoop({ stepMs: SIMULATION_TICK_MS });
+      setSelectedLog(log);
+      setLogPlayback(INITIAL_LOG_PLAYBACK);
+      renderLogFrame(1);
+    },
+    [playClick, renderLogFrame]
+  );
+
+  const handleLogPlayPause = useCallback(() => {
+    playClick();
+    const replayer = replayerRef.current;
+    if (replayer?.isAtEnd()) {
+      replayer.seek(0);
+    }
+    setLogPlayback((prev) => ({ ...prev, isPlaying: !prev.isPlaying }));
+  }, [playClick]);
+
+  const handleLogSpeedChange = useCallback(
+    (speed: number) => {
+      playClick();
+      setLogPlayback((prev) => ({ ...prev, speed }));
+    },
+    [playClick]
+  );
+
+  /**
+   * Scrub: re-simulate up to the chosen tick
+   */
+  const handleLogSeek = useCallback(
+    (tick: number) => {
+      const replayer = replayerRef.current;
+      if (!replayer) return;
+      replayer.seek(tick);
+      loopRef.current?.reset();
+      renderLogFrame(1);
+    },
+    [renderLogFrame]
+  );
+
+  // Full replay playback loop
+  useEffect(() => {
+    if (!logPlayback.isPlaying || !selectedLog) return;
+
+    const animate = (timestamp: number) => {
+      const replayer = replayerRef.current;
+      const loop = loopRef.current;
+      if (!replayer || !loop) return;
+
+      if (!lastUpdateRef.current) {
+        lastUpdateRef.current = timestamp;
+      }
+      const delta = (timestamp - lastUpdateRef.current) * logPlayback.speed;
+      lastUpdateRef.current = timestamp;
+
+      const alpha = loop.advance(delta, () => {
+        replayer.step();
+      });
+      renderLogFrame(alpha);
+
+      if (replayer.isAtEnd()) {
+        setLogPlayback((prev) => ({ ...prev, isPlaying: false }));
+        return;
+      }
+      animationRef.current = requestAnimationFrame(animate);
+    };
+
+    lastUpdateRef.current = 0;
+    animationRef.current = requestAnimationFrame(animate);
+
+    return () => {
+      if (animationRef.current) {
+        cancelAnimationFrame(animationRef.current);
+      }
+    };
+  }, [logPlayback.isPlaying, logPlayback.speed, selectedLog, renderLogFrame]);
+
+  const handleImported = useCallback(
+    async () => {
+      playConfirm();
+      setShowImport(false);
+      setImportedGhosts(await loadImportedGhosts());
+    },
+    [playConfirm]
+  );
+
+  /**
+   * Share the selected ghost as a code + deep link
+   */
+  const handleShare = useCallback(async () => {
+    if (!selectedReplay) return;
+    playClick();
+    try {
+      await Share.share({
+        message:
+          `Race my ${Math.floor(selectedReplay.distance)}m ghost in Summit Wheels!\n` +
+          `${buildGhostLink(selectedReplay)}\n\n` +
+          `Or paste this code in Replays > Import:\n${exportGhostCode(selectedReplay)}`,
+      });
+    } catch (error) {
+      console.warn('Failed to share ghost:', error);
+    }
+  }, [playClick, selectedReplay]);
 
   const handleSelectReplay = useCallback(
     (replay: GhostRun) => {
@@ -204,7 +420,73 @@ export default function ReplayScreen({ onBack }: ReplayScreenProps) {
       style={styles.replayList}
       contentContainerStyle={styles.replayListContent}
     >
-      {replays.length === 0 ? (
+      {logs.length > 0 && (
+        <Text style={styles.sectionTitle}>Full Replays</Text>
+      )}
+      {logs.map((log, index) => (
+        <TouchableOpacity
+          key={log.id}
+          style={[styles.replayCard, !isReplayLogPlayable(log) && styles.replayCardLocked]}
+          onPress={() => handleSelectLog(log)}
+          disabled={!isReplayLogPlayable(log)}
+          activeOpacity={0.7}
+        >
+          <View style={styles.replayRank}>
+            <Text style={styles.replayRankText}>#{index + 1}</Text>
+          </View>
+          <View style={styles.replayInfo}>
+            <Text style={styles.replayDistance}>
+              {Math.floor(log.result.distance)}m
+            </Text>
+            <Text style={styles.replayDetails}>
+              {getVehicleName(log.vehicleId)} on {getStageName(log.stageId)}
+            </Text>
+            <Text style={styles.replayDate}>
+              {new Date(log.recordedAt).toLocaleDateString()}
+            </Text>
+            {!isReplayLogPlayable(log) && (
+              <Text style={styles.replayDate}>Needs app version {log.appVersion} to play</Text>
+            )}
+          </View>
+          <View style={styles.replayStats}>
+            <Text style={styles.replayCoins}>{log.result.coins} 🪙</Text>
+            <Text style={styles.replayDuration}>
+              {formatTime(log.ticks * log.tickMs)}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      ))}
+      {importedGhosts.length > 0 && (
+        <Text style={styles.sectionTitle}>Imported Ghosts</Text>
+      )}
+      {importedGhosts.map((ghost) => (
+        <TouchableOpacity
+          key={ghost.id}
+          style={styles.replayCard}
+          onPress={() => handleSelectReplay(ghost)}
+          activeOpacity={0.7}
+        >
+          <View style={styles.replayInfo}>
+            <Text style={styles.replayDistance}>
+              {Math.floor(ghost.distance)}m
+            </Text>
+            <Text style={styles.replayDetails}>
+              {ghost.playerName} · {getVehicleName(ghost.vehicleId)} on{' '}
+              {getStageName(ghost.stageId)}
+            </Text>
+            <Text style={styles.replayDate}>
+              {new Date(ghost.recordedAt).toLocaleDateString()}
+            </Text>
+          </View>
+          <View style={styles.replayStats}>
+            <Text style={styles.replayCoins}>{ghost.coins} 🪙</Text>
+          </View>
+        </TouchableOpacity>
+      ))}
+      {(logs.length > 0 || importedGhosts.length > 0) && replays.length > 0 && (
+        <Text style={styles.sectionTitle}>Ghost Runs</Text>
+      )}
+      {replays.length === 0 && logs.length === 0 && importedGhosts.length === 0 ? (
         <View style={styles.emptyState}>
           <Text style={styles.emptyIcon}>🎬</Text>
           <Text style={styles.emptyTitle}>No Replays Yet</Text>
@@ -247,12 +529,128 @@ export default function ReplayScreen({ onBack }: ReplayScreenProps) {
     </ScrollView>
   );
 
+  const renderLogPlaybackView = () => {
+    if (!selectedLog) return null;
+
+    const totalTicks = Math.max(1, selectedLog.ticks);
+    const progress = (logPlayback.tick / totalTicks) * 100;
+    const tickMs = selectedLog.tickMs;
+
+    return (
+      <View style={styles.playbackContainer}>
+        {/* Re-simulated world */}
+        <View
+          style={styles.replayView}
+          onLayout={(e) =>
+            setViewSize({
+              width: e.nativeEvent.layout.width,
+              height: e.nativeEvent.layout.height,
+            })
+          }
+        >
+          <View style={[StyleSheet.absoluteFill, styles.simulationSky]} />
+          <WorldView
+            renderState={renderState}
+            screenWidth={viewSize.width}
+            screenHeight={viewSize.height}
+          />
+          <TrickPopup tricks={recentTricks} />
+
+          {/* Stats overlay */}
+          <View style={styles.statsOverlay}>
+            <Text style={styles.statDisplay}>
+              Distance: {Math.floor(logPlayback.distance)}m
+            </Text>
+            <Text style={styles.statDisplay}>Coins: {logPlayback.coins}</Text>
+            <Text style={styles.statDisplay}>
+              Time: {formatTime(logPlayback.tick * tickMs)}
+            </Text>
+          </View>
+        </View>
+
+        {/* Controls */}
+        <View style={styles.controls}>
+          {/* Timeline (tap to scrub) */}
+          <View style={styles.timeline}>
+            <Text style={styles.timeText}>
+              {formatTime(logPlayback.tick * tickMs)}
+            </Text>
+            <TouchableOpacity
+              style={styles.progressBar}
+              activeOpacity={1}
+              onLayout={(e) => setTimelineWidth(e.nativeEvent.layout.width)}
+              onPress={(e) =>
+                handleLogSeek(
+                  (e.nativeEvent.locationX / Math.max(1, timelineWidth)) * totalTicks
+                )
+              }
+            >
+              <View
+                style={[styles.progressFill, { width: `${progress}%` }]}
+              />
+              <View style={[styles.scrubber, { left: `${progress}%` }]} />
+            </TouchableOpacity>
+            <Text style={styles.timeText}>{formatTime(totalTicks * tickMs)}</Text>
+          </View>
+
+          {/* Playback buttons */}
+          <View style={styles.playbackButtons}>
+            {/* Speed controls */}
+            <View style={styles.speedControls}>
+              {[0.5, 1, 2].map((speed) => (
+                <TouchableOpacity
+                  key={speed}
+                  style={[
+                    styles.speedButton,
+                    logPlayback.speed === speed && styles.speedButtonActive,
+                  ]}
+                  onPress={() => handleLogSpeedChange(speed)}
+                  activeOpacity={0.7}
+                >
+                  <Text
+                    style={[
+                      styles.speedText,
+                      logPlayback.speed === speed && styles.speedTextActive,
+                    ]}
+                  >
+                    {speed}x
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* Play/Pause */}
+            <TouchableOpacity
+              style={styles.playButton}
+              onPress={handleLogPlayPause}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.playButtonText}>
+                {logPlayback.isPlaying ? '⏸' : '▶'}
+              </Text>
+            </TouchableOpacity>
+
+            {/* Restart */}
+            <TouchableOpacity
+              style={styles.restartButton}
+              onPress={() => handleLogSeek(0)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.restartText}>⏮</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
   const renderPlaybackView = () => {
     if (!selectedReplay) return null;
 
     const maxTime =
       selectedReplay.frames[selectedReplay.frames.length - 1]?.time || 1;
     const progress = (playbackState.currentTime / maxTime) * 100;
+    const palette = getVehiclePalette(selectedReplay.vehicleId, selectedReplay.skinId);
 
     return (
       <View style={styles.playbackContainer}>
@@ -280,10 +678,14 @@ export default function ReplayScreen({ onBack }: ReplayScreenProps) {
                 },
               ]}
             >
-              <View style={styles.carBody} />
+              <View style={[styles.carBody, { backgroundColor: palette.body }]}>
+                {palette.decal && (
+                  <View style={[styles.carDecal, { backgroundColor: palette.decal }]} />
+                )}
+              </View>
               <View style={styles.carWheels}>
-                <View style={styles.carWheel} />
-                <View style={styles.carWheel} />
+                <View style={[styles.carWheel, { backgroundColor: palette.wheels }]} />
+                <View style={[styles.carWheel, { backgroundColor: palette.wheels }]} />
               </View>
               {playbackState.currentFrame.isBoosting && (
                 <View style={styles.boostFlame} />
@@ -382,17 +784,50 @@ export default function ReplayScreen({ onBack }: ReplayScreenProps) {
           activeOpacity={0.7}
         >
           <Text style={styles.backButtonText}>
-            {'<'} {selectedReplay ? 'Replays' : 'Back'}
+            {'<'} {selectedReplay || selectedLog ? 'Replays' : 'Back'}
           </Text>
         </TouchableOpacity>
         <Text style={styles.title}>
-          {selectedReplay ? 'Watching Replay' : 'Replays'}
+          {selectedReplay || selectedLog ? 'Watching Replay' : 'Replays'}
         </Text>
-        <View style={styles.placeholder} />
+        {selectedLog ? (
+          <View style={styles.placeholder} />
+        ) : selectedReplay ? (
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={handleShare}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.headerButtonText}>Share</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => {
+              playClick();
+              setShowImport(true);
+            }}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.headerButtonText}>Import</Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Content */}
-      {selectedReplay ? renderPlaybackView() : renderReplayList()}
+      {selectedLog
+        ? renderLogPlaybackView()
+        : selectedReplay
+          ? renderPlaybackView()
+          : renderReplayList()}
+
+      {/* Import ghost code */}
+      <GhostImportModal
+        visible={showImport}
+        initialCode={initialGhostCode}
+        onClose={() => setShowImport(false)}
+        onImported={handleImported}
+      />
     </View>
   );
 }
@@ -426,12 +861,32 @@ const styles = StyleSheet.create({
   placeholder: {
     width: 60,
   },
+  headerButton: {
+    width: 60,
+    paddingVertical: 8,
+    borderRadius: 15,
+    backgroundColor: '#9B59B6',
+    alignItems: 'center',
+  },
+  headerButtonText: {
+    color: '#FFF',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
   replayList: {
     flex: 1,
   },
   replayListContent: {
     padding: 15,
   },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#7F8C8D',
+    marginBottom: 10,
+    marginTop: 5,
+    textTransform: 'uppercase',
+  },
   emptyState: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -474,6 +929,9 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     fontSize: 14,
   },
+  replayCardLocked: {
+    opacity: 0.5,
+  },
   replayInfo: {
     flex: 1,
     marginLeft: 15,
@@ -521,6 +979,9 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#8B4513',
   },
+  simulationSky: {
+    backgroundColor: '#87CEEB',
+  },
   ghostCar: {
     position: 'absolute',
     opacity: 0.8,
@@ -530,6 +991,10 @@ const styles = StyleSheet.create({
     height: 30,
     backgroundColor: '#E74C3C',
     borderRadius: 5,
+    justifyContent: 'center',
+  },
+  carDecal: {
+    height: 6,
   },
   carWheels: {
     flexDirection: 'row',
@@ -2,7 +2,7 @@
  * SettingsScreen - Audio, privacy, and game settings
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   ScrollView,
   StyleSheet,
@@ -15,6 +15,30 @@ import {
 import Slider from '@react-native-community/slider';
 import { useAudio } from '../audio/useAudio';
 import { DeleteDataModal } from '../components/DeleteDataModal';
+import {
+  DEFAULT_GHOST_SOURCE,
+  GhostSource,
+  loadGhostSource,
+  saveGhostSource,
+} from '../game/systems/ghostStore';
+import {
+  DEFAULT_LEAN_CONTROL_MODE,
+  LeanControlMode,
+  loadLeanControlMode,
+  saveLeanControlMode,
+} from '../game/systems/leanControl';
+
+const GHOST_SOURCE_OPTIONS: { source: GhostSource; label: string }[] = [
+  { source: 'none', label: 'Off' },
+  { source: 'personalBest', label: 'Best' },
+  { source: 'dailyBest', label: 'Today' },
+  { source: 'imported', label: 'Imported' },
+];
+
+const LEAN_CONTROL_OPTIONS: { mode: LeanControlMode; label: string }[] = [
+  { mode: 'buttons', label: 'Buttons' },
+  { mode: 'tilt', label: 'Tilt' },
+];
 
 type SettingsScreenProps = {
   onBack?: () => void;
@@ -32,6 +56,24 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
   } = useAudio();
 
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [ghostSource, setGhostSource] = useState<GhostSource>(DEFAULT_GHOST_SOURCE);
+
+  const [leanMode, setLeanMode] = useState<LeanControlMode>(DEFAULT_LEAN_CONTROL_MODE);
+
+  useEffect(() => {
+    loadGhostSource().then(setGhostSource);
+    loadLeanControlMode().then(setLeanMode);
+  }, []);
+
+  const handleGhostSourceChange = (source: GhostSource) => {
+    setGhostSource(source);
+    saveGhostSource(source);
+  };
+
+  const handleLeanModeChange = (mode: LeanControlMode) => {
+    setLeanMode(mode);
+    saveLeanControlMode(mode);
+  };
 
   const handleOpenPrivacyPolicy = () => {
     // Link to hosted privacy policy (replace with actual URL)
@@ -143,6 +185,46 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
           </View>
         </View>
 
+        {/* Gameplay Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Gameplay</Text>
+
+          {/* Ghost to race */}
+          <View style={styles.sliderRow}>
+            <Text style={styles.sliderLabel}>Race Ghost</Text>
+            <View style={styles.optionRow}>
+              {GHOST_SOURCE_OPTIONS.map(({ source, label }) => (
+                <TouchableOpacity
+                  key={source}
+                  style={[
+                    styles.optionButton,
+                    ghostSource === source && styles.optionButtonActive,
+                  ]}
+                  onPress={() => handleGhostSourceChange(source)}
+                >
+                  <Text style={styles.optionText}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {/* Lean with buttons or by tilting the device */}
+          <View style={[styles.sliderRow, styles.lastRow]}>
+            <Text style={styles.sliderLabel}>Lean Control</Text>
+            <View style={styles.optionRow}>
+              {LEAN_CONTROL_OPTIONS.map(({ mode, label }) => (
+                <TouchableOpacity
+                  key={mode}
+                  style={[styles.optionButton, leanMode === mode && styles.optionButtonActive]}
+                  onPress={() => handleLeanModeChange(mode)}
+                >
+                  <Text style={styles.optionText}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        </View>
+
         {/* Privacy Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Privacy & Data</Text>
@@ -335,6 +417,25 @@ const styles = StyleSheet.create({
     width: 50,
     textAlign: 'right',
   },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  optionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#444',
+    alignItems: 'center',
+  },
+  optionButtonActive: {
+    backgroundColor: '#FF6B35',
+  },
+  optionText: {
+    color: '#FFF',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
   fallbackSlider: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -17,7 +17,13 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
-import { getProgressionManager, PlayerProgress, UpgradeLevels } from '../game/progression/upgrades';
+import {
+  calculateUpgradeCost,
+  getProgressionManager,
+  PlayerProgress,
+  UpgradeLevels,
+} from '../game/progression/upgrades';
+import { UPGRADE_MODIFIERS } from '../game/config/vehicleConfig';
 import { VEHICLES, VehicleDefinition } from '../game/config/vehicles';
 import { STAGES, StageDefinition } from '../game/config/stages';
 import { useUISound } from '../hooks/useUISound';
@@ -89,8 +95,7 @@ export default function ShopScreen({ onBack, onPurchaseCoins }: ShopScreenProps)
 
       playConfirm();
       const manager = getProgressionManager();
-      manager.addCoins(-vehicle.unlockCost);
-      // TODO: Actually unlock the vehicle
+      await manager.purchaseVehicle(vehicle.id);
       await loadProgress();
     },
     [progress, playConfirm, playError]
@@ -105,8 +110,7 @@ export default function ShopScreen({ onBack, onPurchaseCoins }: ShopScreenProps)
 
       playConfirm();
       const manager = getProgressionManager();
-      manager.addCoins(-stage.unlockCost);
-      // TODO: Actually unlock the stage
+      await manager.purchaseStage(stage.id);
       await loadProgress();
     },
     [progress, playConfirm, playError]
@@ -116,19 +120,14 @@ export default function ShopScreen({ onBack, onPurchaseCoins }: ShopScreenProps)
     async (upgradeType: UpgradeKey) => {
       if (!progress) return;
 
-      const vehicleUpgrades = progress.vehicleUpgrades[progress.selectedVehicle] as UpgradeLevels | undefined;
-      const currentLevel = vehicleUpgrades?.[upgradeType] ?? 0;
-      const cost = Math.floor(100 * Math.pow(1.5, currentLevel));
-
-      if (progress.coins < cost) {
+      // Pays for and applies the upgrade to the selected vehicle
+      const manager = getProgressionManager();
+      if (!(await manager.purchaseUpgrade(upgradeType))) {
         playError();
         return;
       }
 
       playConfirm();
-      const manager = getProgressionManager();
-      manager.addCoins(-cost);
-      // TODO: Actually apply upgrade
       await loadProgress();
     },
     [progress, playConfirm, playError]
@@ -283,9 +282,9 @@ export default function ShopScreen({ onBack, onPurchaseCoins }: ShopScreenProps)
         </Text>
         {UPGRADE_TYPES.map((upgrade) => {
           const level = vehicleUpgrades[upgrade.key] ?? 0;
-          const maxLevel = 10;
+          const { maxLevel } = UPGRADE_MODIFIERS[upgrade.key];
           const isMaxed = level >= maxLevel;
-          const cost = Math.floor(100 * Math.pow(1.5, level));
+          const cost = calculateUpgradeCost(upgrade.key, level);
           const canAfford = (progress?.coins ?? 0) >= cost;
 
           return (
@@ -1,5 +1,6 @@
 /**
- * StageSelectScreen - Choose environment/stage to play
+ * StageSelectScreen - Choose environment/stage to play, endless or on
+ * one of the stage's courses
  */
 
 import React, { useEffect, useState } from 'react';
@@ -12,35 +13,49 @@ import {
   View,
 } from 'react-native';
 import {
+  CourseDefinition,
   getAllStages,
   getStage,
   isStageUnlocked,
   StageDefinition,
   StageId,
 } from '../game/config/stages';
-import { getProgressionManager } from '../game/progression/upgrades';
+import { CourseResult, getProgressionManager } from '../game/progression/upgrades';
+import { MAX_COURSE_STARS } from '../game/systems/courseStars';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
 export type StageSelectScreenProps = {
   onBack: () => void;
   onSelectStage: (stageId: StageId) => void;
+  /** Start a course on an unlocked stage (optionally as a time trial) */
+  onPlayCourse?: (stageId: StageId, courseId: string, timeTrial: boolean) => void;
   selectedStage?: StageId;
 };
 
+/**
+ * Filled and empty stars for a course's best result
+ */
+function formatStars(stars: number): string {
+  return '★'.repeat(stars) + '☆'.repeat(MAX_COURSE_STARS - stars);
+}
+
 export default function StageSelectScreen({
   onBack,
   onSelectStage,
+  onPlayCourse,
   selectedStage = 'countryside',
 }: StageSelectScreenProps) {
   const [coins, setCoins] = useState(0);
   const [unlockedStages, setUnlockedStages] = useState<StageId[]>(['countryside']);
   const [currentSelection, setCurrentSelection] = useState<StageId>(selectedStage);
+  const [courseResults, setCourseResults] = useState<Record<string, CourseResult>>({});
 
   useEffect(() => {
     const manager = getProgressionManager();
     manager.load().then((progress) => {
       setCoins(progress.coins);
+      setCourseResults(progress.courseResults);
       // For now, only countryside is unlocked by default
       // In a full implementation, this would come from saved progress
       setUnlockedStages(['countryside']);
@@ -71,6 +86,36 @@ export default function StageSelectScreen({
 
   const stages = getAllStages();
   const selectedStageData = getStage(currentSelection);
+  const isSelectionUnlocked = isStageUnlocked(currentSelection, unlockedStages);
+
+  const renderCourse = (course: CourseDefinition) => {
+    const result = courseResults[course.id];
+    return (
+      <TouchableOpacity
+        key={course.id}
+        style={[styles.courseRow, !isSelectionUnlocked && styles.stageCardLocked]}
+        onPress={() => onPlayCourse?.(currentSelection, course.id, false)}
+        disabled={!isSelectionUnlocked || !onPlayCourse}
+        activeOpacity={0.7}
+      >
+        <View style={styles.courseInfo}>
+          <Text style={styles.courseName}>{course.name}</Text>
+          <Text style={styles.courseDetail}>
+            {(course.length / 1000).toFixed(1)} km
+            {result?.bestTime != null ? `  •  Best ${result.bestTime.toFixed(1)}s` : ''}
+          </Text>
+        </View>
+        <Text style={styles.courseStars}>{formatStars(result?.stars ?? 0)}</Text>
+        <TouchableOpacity
+          style={styles.timeTrialButton}
+          onPress={() => onPlayCourse?.(currentSelection, course.id, true)}
+          disabled={!isSelectionUnlocked || !onPlayCourse}
+        >
+          <Text style={styles.timeTrialText}>⏱</Text>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
 
   return (
     <View style={styles.container}>
@@ -202,6 +247,14 @@ export default function StageSelectScreen({
         })}
       </ScrollView>
 
+      {/* Courses on the selected stage */}
+      {selectedStageData.courses.length > 0 && (
+        <View style={styles.courseList}>
+          <Text style={styles.courseListTitle}>Courses</Text>
+          {selectedStageData.courses.map(renderCourse)}
+        </View>
+      )}
+
       {/* Play button */}
       <TouchableOpacity
         style={styles.playButton}
@@ -375,6 +428,52 @@ const styles = StyleSheet.create({
   stageNameSelected: {
     backgroundColor: '#FF6B35',
   },
+  courseList: {
+    marginHorizontal: 20,
+    marginBottom: 15,
+  },
+  courseListTitle: {
+    fontSize: 14,
+    color: '#888',
+    marginBottom: 6,
+  },
+  courseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2A2A4E',
+    paddingHorizontal: 15,
+    paddingVertical: 10,
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  courseInfo: {
+    flex: 1,
+  },
+  courseName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#FFF',
+  },
+  courseDetail: {
+    fontSize: 12,
+    color: '#AAA',
+    marginTop: 2,
+  },
+  courseStars: {
+    fontSize: 20,
+    color: '#FFD700',
+  },
+  timeTrialButton: {
+    marginLeft: 12,
+    backgroundColor: '#FF6B35',
+    borderRadius: 15,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  timeTrialText: {
+    fontSize: 18,
+    color: '#FFF',
+  },
   playButton: {
     marginHorizontal: 20,
     marginBottom: 30,
@@ -18,6 +18,8 @@ import {
   VehicleId,
 } from '../game/config/vehicles';
 import { getProgressionManager } from '../game/progression/upgrades';
+import { CosmeticsSystem } from '../systems/CosmeticsSystem';
+import { VehiclePreview } from '../components/VehiclePreview';
 
 export type VehicleSelectScreenProps = {
   onBack: () => void;
@@ -98,41 +100,11 @@ export default function VehicleSelectScreen({
       {/* Vehicle preview */}
       <View style={styles.previewContainer}>
         <View style={styles.vehiclePreview}>
-          {/* Simple vehicle representation */}
-          <View
-            style={[
-              styles.vehicleBody,
-              {
-                backgroundColor: selectedVehicleData.visual.bodyColor,
-                width: selectedVehicleData.visual.bodyWidth * 1.5,
-                height: selectedVehicleData.visual.bodyHeight * 1.5,
-              },
-            ]}
+          {/* Vehicle in the skin it wears */}
+          <VehiclePreview
+            vehicle={selectedVehicleData}
+            palette={CosmeticsSystem.getPalette(currentSelection)}
           />
-          <View style={styles.wheelsContainer}>
-            <View
-              style={[
-                styles.wheel,
-                {
-                  backgroundColor: selectedVehicleData.visual.wheelColor,
-                  width: selectedVehicleData.visual.wheelRadius * 2,
-                  height: selectedVehicleData.visual.wheelRadius * 2,
-                  borderRadius: selectedVehicleData.visual.wheelRadius,
-                },
-              ]}
-            />
-            <View
-              style={[
-                styles.wheel,
-                {
-                  backgroundColor: selectedVehicleData.visual.wheelColor,
-                  width: selectedVehicleData.visual.wheelRadius * 2,
-                  height: selectedVehicleData.visual.wheelRadius * 2,
-                  borderRadius: selectedVehicleData.visual.wheelRadius,
-                },
-              ]}
-            />
-          </View>
         </View>
         <Text style={styles.vehicleName}>{selectedVehicleData.name}</Text>
         <Text style={styles.vehicleDescription}>
@@ -190,7 +162,7 @@ export default function VehicleSelectScreen({
                 <View
                   style={[
                     styles.thumbBody,
-                    { backgroundColor: vehicle.visual.bodyColor },
+                    { backgroundColor: CosmeticsSystem.getPalette(vehicle.id).body },
                   ]}
                 />
                 {!isUnlocked && (
@@ -281,19 +253,6 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 20,
   },
-  vehicleBody: {
-    borderRadius: 10,
-    marginBottom: 10,
-  },
-  wheelsContainer: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    width: 100,
-  },
-  wheel: {
-    borderWidth: 3,
-    borderColor: '#555',
-  },
   vehicleName: {
     fontSize: 28,
     fontWeight: 'bold',
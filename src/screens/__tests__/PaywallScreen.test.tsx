@@ -32,10 +32,15 @@ jest.mock('../../services/EntitlementService', () => ({
     load: jest.fn(() => Promise.resolve()),
     hasNoAds: jest.fn(() => false),
     hasSummitPass: jest.fn(() => false),
-    getCoins: jest.fn(() => 5000),
   },
 }));
 
+// Mock ProgressionManager
+const mockLoadProgress = jest.fn(() => Promise.resolve({ coins: 5000 }));
+jest.mock('../../game/progression/upgrades', () => ({
+  getProgressionManager: () => ({ load: mockLoadProgress }),
+}));
+
 // Mock purchaseHandler
 jest.mock('../../iap/purchaseHandler', () => ({
   handleRestorePurchases: jest.fn(() =>
@@ -51,7 +56,7 @@ describe('PaywallScreen', () => {
     jest.clearAllMocks();
     (EntitlementService.hasNoAds as jest.Mock).mockReturnValue(false);
     (EntitlementService.hasSummitPass as jest.Mock).mockReturnValue(false);
-    (EntitlementService.getCoins as jest.Mock).mockReturnValue(5000);
+    mockLoadProgress.mockResolvedValue({ coins: 5000 });
   });
 
   it('should render loading state initially', () => {
@@ -69,7 +74,7 @@ describe('PaywallScreen', () => {
   });
 
   it('should display current coin balance', async () => {
-    (EntitlementService.getCoins as jest.Mock).mockReturnValue(5000);
+    mockLoadProgress.mockResolvedValue({ coins: 5000 });
 
     const { getByText } = render(<PaywallScreen />);
 
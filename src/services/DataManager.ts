@@ -21,6 +21,10 @@ export const STORAGE_KEYS = {
   GHOST_DATA: '@summit_wheels_ghost',
   DAILY_CHALLENGE: '@summit_wheels_daily',
   ACHIEVEMENTS: '@summit_wheels_achievements',
+  COIN_LEDGER: '@summit_wheels_coin_ledger',
+  INVENTORY: '@summit_wheels_inventory',
+  COSMETICS: '@summit_wheels_cosmetics',
+  QUEST_BOARD: '@summit_wheels_quest_board',
 } as const;
 
 export type DeleteDataResult = {
@@ -2,7 +2,7 @@
  * Entitlement Service - Manages user entitlements from purchases
  *
  * Responsibilities:
- * - Track purchased entitlements (noAds, summitPass, coins)
+ * - Track purchased entitlements (noAds, summitPass)
  * - Persist entitlements with AsyncStorage
  * - Provide getters/setters for entitlement state
  */
@@ -14,13 +14,17 @@ const STORAGE_KEY = '@summit_wheels_entitlements';
 export interface Entitlements {
   noAds: boolean;
   summitPass: boolean;
-  coins: number;
 }
 
+/**
+ * Stored form, which may still hold the coin balance kept here before
+ * coins moved to the coin ledger
+ */
+type StoredEntitlements = Partial<Entitlements> & { coins?: number };
+
 const DEFAULT_ENTITLEMENTS: Entitlements = {
   noAds: false,
   summitPass: false,
-  coins: 0,
 };
 
 /**
@@ -29,6 +33,7 @@ const DEFAULT_ENTITLEMENTS: Entitlements = {
 class EntitlementServiceClass {
   private _entitlements: Entitlements = { ...DEFAULT_ENTITLEMENTS };
   private _isLoaded = false;
+  private _legacyCoins = 0;
 
   /**
    * Load entitlements from storage
@@ -37,12 +42,12 @@ class EntitlementServiceClass {
     try {
       const stored = await AsyncStorage.getItem(STORAGE_KEY);
       if (stored) {
-        const parsed = JSON.parse(stored) as Partial<Entitlements>;
+        const parsed = JSON.parse(stored) as StoredEntitlements;
         this._entitlements = {
           noAds: parsed.noAds ?? DEFAULT_ENTITLEMENTS.noAds,
           summitPass: parsed.summitPass ?? DEFAULT_ENTITLEMENTS.summitPass,
-          coins: parsed.coins ?? DEFAULT_ENTITLEMENTS.coins,
         };
+        this._legacyCoins = parsed.coins ?? 0;
       }
       this._isLoaded = true;
       return this._entitlements;
@@ -58,7 +63,11 @@ class EntitlementServiceClass {
    */
   private async _save(): Promise<void> {
     try {
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this._entitlements));
+      const stored: StoredEntitlements =
+        this._legacyCoins > 0
+          ? { ...this._entitlements, coins: this._legacyCoins }
+          : this._entitlements;
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
     } catch (error) {
       console.error('Failed to save entitlements:', error);
     }
@@ -89,28 +98,6 @@ class EntitlementServiceClass {
     await this._save();
   }
 
-  /**
-   * Add coins to the current balance
-   */
-  async addCoins(amount: number): Promise<number> {
-    this._entitlements.coins += amount;
-    await this._save();
-    return this._entitlements.coins;
-  }
-
-  /**
-   * Spend coins if sufficient balance
-   * Returns true if successful, false if insufficient funds
-   */
-  async spendCoins(amount: number): Promise<boolean> {
-    if (this._entitlements.coins < amount) {
-      return false;
-    }
-    this._entitlements.coins -= amount;
-    await this._save();
-    return true;
-  }
-
   /**
    * Check if user has no ads entitlement (either purchased or from subscription)
    */
@@ -126,10 +113,18 @@ class EntitlementServiceClass {
   }
 
   /**
-   * Get current coin balance
+   * Coin balance kept here before the coin ledger (0 once migrated)
    */
-  getCoins(): number {
-    return this._entitlements.coins;
+  getLegacyCoins(): number {
+    return this._legacyCoins;
+  }
+
+  /**
+   * Drop the old coin balance once the coin ledger has taken it over
+   */
+  async clearLegacyCoins(): Promise<void> {
+    this._legacyCoins = 0;
+    await this._save();
   }
 
   /**
@@ -137,6 +132,7 @@ class EntitlementServiceClass {
    */
   async reset(): Promise<void> {
     this._entitlements = { ...DEFAULT_ENTITLEMENTS };
+    this._legacyCoins = 0;
     await AsyncStorage.removeItem(STORAGE_KEY);
   }
 }
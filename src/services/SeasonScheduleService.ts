@@ -0,0 +1,58 @@
+/**
+ * Season Schedule Service - Fetches the global season schedule
+ *
+ * Responsibilities:
+ * - Read season definitions from the `seasons` table in Supabase
+ * - Hand the schedule to the season pass, which keeps it for offline launches
+ *
+ * When the server can't be reached the season pass keeps the schedule it
+ * last saw, or the bundled one.
+ */
+
+import { supabaseClient } from './SupabaseClient';
+import { parseSeasonRow, SeasonDefinition } from '../game/config/seasons';
+import { SeasonPassSystem } from '../systems/SeasonPassSystem';
+
+class SeasonScheduleServiceClass {
+  /**
+   * Fetch the season schedule (null if it couldn't be fetched)
+   */
+  async fetchSchedule(): Promise<SeasonDefinition[] | null> {
+    try {
+      const { data, error } = await supabaseClient
+        .from('seasons')
+        .select('*')
+        .order('starts_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data ?? [])
+        .map(parseSeasonRow)
+        .filter((season): season is SeasonDefinition => season !== null);
+    } catch (error) {
+      console.warn('Failed to fetch season schedule:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch the schedule and apply it to the season pass
+   *
+   * Returns false if there was no schedule to apply.
+   */
+  async sync(): Promise<boolean> {
+    const schedule = await this.fetchSchedule();
+    if (!schedule || schedule.length === 0) {
+      return false;
+    }
+
+    await SeasonPassSystem.applySchedule(schedule);
+    return true;
+  }
+}
+
+// Export singleton instance
+export const SeasonScheduleService = new SeasonScheduleServiceClass();
+
+// Export class for testing
+export { SeasonScheduleServiceClass };
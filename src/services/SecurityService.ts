@@ -2,7 +2,7 @@
  * Security Service - Protects game data integrity
  *
  * Provides:
- * - Coin balance integrity validation with SHA-256
+ * - Integrity validation with SHA-256 (legacy coin balance)
  * - Server-side IAP receipt validation
  * - Anti-tampering detection
  * - Secure storage with cryptographic checksums
@@ -179,6 +179,14 @@ class SecurityServiceClass {
     await AsyncStorage.setItem(SECURITY_KEY, JSON.stringify(this._secureData));
   }
 
+  /**
+   * Report a suspicious coin credit flagged by the coin ledger
+   */
+  async reportCoinCredit(flag: string, details: Record<string, unknown>): Promise<void> {
+    console.warn(`Security: Suspicious coin credit (${flag})`);
+    await this._reportSecurityEvent(flag, details);
+  }
+
   /**
    * Report security event to server
    */
@@ -201,80 +209,32 @@ class SecurityServiceClass {
   }
 
   /**
-   * Get verified coin balance
+   * Coin balance kept here before the coin ledger (0 once migrated)
+   *
+   * Falls back to earned minus spent if the two disagree.
    */
-  getVerifiedCoins(): number {
+  getLegacyCoins(): number {
     if (!this._secureData) return 0;
 
-    // Verify balance makes sense
     const expectedBalance = this._secureData.totalCoinsEarned - this._secureData.totalCoinsSpent;
     if (this._secureData.coins !== expectedBalance) {
       console.warn('Security: Balance mismatch detected');
-      this._secureData.coins = Math.max(0, expectedBalance);
+      return Math.max(0, expectedBalance);
     }
-
     return this._secureData.coins;
   }
 
   /**
-   * Add coins with tracking and fraud detection
+   * Drop the old coin balance once the coin ledger has taken it over
    */
-  async addCoins(amount: number, source: 'gameplay' | 'purchase' | 'reward' | 'achievement'): Promise<number> {
-    if (!this._secureData || amount <= 0) return this.getVerifiedCoins();
-
-    const now = Date.now();
-    const timeSinceLastValidation = now - this._secureData.lastValidated;
-
-    // Anti-cheat: Check for suspicious patterns
-    if (source === 'gameplay') {
-      // Max coins per game session should be reasonable
-      if (amount > 5000) {
-        console.warn('Security: Unusually high gameplay coins');
-        await this._reportSecurityEvent('high_score', { amount, source });
-      }
-
-      // Check velocity - too many coins too fast
-      if (amount > 1000 && timeSinceLastValidation < 5000) {
-        console.warn('Security: Suspicious coin rate');
-        await this._reportSecurityEvent('velocity_coins', {
-          amount,
-          timeSince: timeSinceLastValidation
-        });
-      }
-    }
-
-    // Valid coin reward amounts (anti-cheat)
-    const validRewardAmounts = [100, 250, 500, 1000, 2500];
-    if (source === 'reward' && !validRewardAmounts.includes(amount)) {
-      console.warn('Security: Invalid reward amount');
-      // Don't add invalid amounts
-      return this.getVerifiedCoins();
-    }
-
-    this._secureData.coins += amount;
-    this._secureData.totalCoinsEarned += amount;
-    this._secureData.lastValidated = now;
-
-    await this._save();
-    return this._secureData.coins;
-  }
-
-  /**
-   * Spend coins with validation
-   */
-  async spendCoins(amount: number): Promise<boolean> {
-    if (!this._secureData || amount <= 0) return false;
-
-    if (this._secureData.coins < amount) {
-      return false;
-    }
+  async clearLegacyCoins(): Promise<void> {
+    if (!this._secureData) return;
 
-    this._secureData.coins -= amount;
-    this._secureData.totalCoinsSpent += amount;
+    this._secureData.coins = 0;
+    this._secureData.totalCoinsEarned = 0;
+    this._secureData.totalCoinsSpent = 0;
     this._secureData.lastValidated = Date.now();
-
     await this._save();
-    return true;
   }
 
   /**
@@ -306,15 +266,9 @@ class SecurityServiceClass {
 
       const result = await response.json();
 
-      if (result.success && this._secureData) {
-        // Apply coins from server response
-        if (result.coins && result.coins > 0) {
-          this._secureData.coins += result.coins;
-          this._secureData.totalCoinsEarned += result.coins;
-          this._secureData.lastValidated = Date.now();
-          await this._save();
-        }
-
+      if (result.success) {
+        // The coins granted are only returned; paying them is up to the
+        // caller (coin packs are paid by the purchase handler instead)
         return {
           isValid: true,
           productId,
@@ -403,16 +357,10 @@ class SecurityServiceClass {
    * Get security stats for analytics
    */
   getStats(): {
-    totalEarned: number;
-    totalSpent: number;
-    currentBalance: number;
     tamperDetected: boolean;
     deviceId: string;
   } {
     return {
-      totalEarned: this._secureData?.totalCoinsEarned ?? 0,
-      totalSpent: this._secureData?.totalCoinsSpent ?? 0,
-      currentBalance: this.getVerifiedCoins(),
       tamperDetected: this._tamperDetected,
       deviceId: this._deviceId,
     };
@@ -5,6 +5,7 @@
  * - Analytics data storage
  * - User profiles
  * - Admin authentication
+ * - The season schedule
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
@@ -97,6 +98,19 @@ export interface Database {
         Insert: Omit<Database['public']['Tables']['reports']['Row'], 'created_at'>;
         Update: Partial<Database['public']['Tables']['reports']['Insert']>;
       };
+      seasons: {
+        Row: {
+          id: string;
+          name: string;
+          theme: Record<string, any> | null;
+          starts_at: string;
+          ends_at: string;
+          rewards: Record<string, any>[] | null;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['seasons']['Row'], 'created_at'>;
+        Update: Partial<Database['public']['Tables']['seasons']['Insert']>;
+      };
     };
   };
 }
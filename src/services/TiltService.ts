@@ -0,0 +1,26 @@
+/**
+ * Tilt Service - Device tilt from the accelerometer
+ *
+ * Responsibilities:
+ * - Supply the tilt source GameScreen leans from when tilt is chosen
+ * - Only run the accelerometer while a run is listening
+ *
+ * The game is played in landscape, so tilting the screen left or right
+ * moves gravity along the device's y axis.
+ */
+
+import { Accelerometer } from 'expo-sensors';
+import type { TiltSource } from '../game/systems/leanControl';
+
+/**
+ * Time between accelerometer readings (ms)
+ */
+const TILT_UPDATE_INTERVAL = 50;
+
+export const accelerometerTiltSource: TiltSource = {
+  subscribe: (listener) => {
+    Accelerometer.setUpdateInterval(TILT_UPDATE_INTERVAL);
+    const subscription = Accelerometer.addListener(({ y }) => listener(y));
+    return () => subscription.remove();
+  },
+};
@@ -43,7 +43,6 @@ describe('EntitlementService', () => {
       expect(entitlements).toEqual({
         noAds: false,
         summitPass: false,
-        coins: 0,
       });
     });
 
@@ -59,7 +58,6 @@ describe('EntitlementService', () => {
       expect(entitlements).toEqual({
         noAds: true,
         summitPass: false,
-        coins: 5000,
       });
     });
 
@@ -71,7 +69,6 @@ describe('EntitlementService', () => {
       expect(entitlements).toEqual({
         noAds: true,
         summitPass: false,
-        coins: 0,
       });
     });
 
@@ -99,12 +96,6 @@ describe('EntitlementService', () => {
       expect(service.getEntitlements().summitPass).toBe(true);
     });
 
-    it('should update coins entitlement', async () => {
-      await service.setEntitlement('coins', 1000);
-
-      expect(service.getEntitlements().coins).toBe(1000);
-    });
-
     it('should persist changes to storage', async () => {
       await service.setEntitlement('noAds', true);
 
@@ -112,57 +103,35 @@ describe('EntitlementService', () => {
     });
   });
 
-  describe('addCoins', () => {
+  describe('legacy coins', () => {
     beforeEach(async () => {
+      mockStorage['@summit_wheels_entitlements'] = JSON.stringify({
+        noAds: true,
+        summitPass: false,
+        coins: 5000,
+      });
       await service.load();
     });
 
-    it('should add coins to balance', async () => {
-      const newBalance = await service.addCoins(1000);
-
-      expect(newBalance).toBe(1000);
-      expect(service.getCoins()).toBe(1000);
+    it('should keep the old coin balance out of the entitlements', () => {
+      expect(service.getLegacyCoins()).toBe(5000);
+      expect(service.getEntitlements()).not.toHaveProperty('coins');
     });
 
-    it('should accumulate coins', async () => {
-      await service.addCoins(1000);
-      await service.addCoins(500);
-
-      expect(service.getCoins()).toBe(1500);
-    });
-
-    it('should persist coin changes', async () => {
-      await service.addCoins(5000);
+    it('should keep the old balance stored until it is cleared', async () => {
+      await service.setEntitlement('summitPass', true);
 
       expect(JSON.parse(mockStorage['@summit_wheels_entitlements']).coins).toBe(5000);
     });
-  });
 
-  describe('spendCoins', () => {
-    beforeEach(async () => {
-      await service.load();
-      await service.addCoins(1000);
-    });
-
-    it('should deduct coins when sufficient balance', async () => {
-      const success = await service.spendCoins(500);
-
-      expect(success).toBe(true);
-      expect(service.getCoins()).toBe(500);
-    });
-
-    it('should return false when insufficient balance', async () => {
-      const success = await service.spendCoins(2000);
+    it('should drop the old balance once cleared', async () => {
+      await service.clearLegacyCoins();
 
-      expect(success).toBe(false);
-      expect(service.getCoins()).toBe(1000);
-    });
-
-    it('should allow spending exact balance', async () => {
-      const success = await service.spendCoins(1000);
-
-      expect(success).toBe(true);
-      expect(service.getCoins()).toBe(0);
+      expect(service.getLegacyCoins()).toBe(0);
+      expect(JSON.parse(mockStorage['@summit_wheels_entitlements'])).toEqual({
+        noAds: true,
+        summitPass: false,
+      });
     });
   });
 
@@ -209,7 +178,6 @@ describe('EntitlementService', () => {
       await service.load();
       await service.setEntitlement('noAds', true);
       await service.setEntitlement('summitPass', true);
-      await service.addCoins(5000);
     });
 
     it('should reset all entitlements to defaults', async () => {
@@ -218,7 +186,6 @@ describe('EntitlementService', () => {
       expect(service.getEntitlements()).toEqual({
         noAds: false,
         summitPass: false,
-        coins: 0,
       });
     });
 
@@ -236,9 +203,9 @@ describe('EntitlementService', () => {
 
     it('should return a copy of entitlements', async () => {
       const entitlements = service.getEntitlements();
-      entitlements.coins = 9999;
+      entitlements.noAds = true;
 
-      expect(service.getCoins()).toBe(0);
+      expect(service.hasNoAds()).toBe(false);
     });
   });
 });
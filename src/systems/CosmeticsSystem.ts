@@ -0,0 +1,214 @@
+/**
+ * Cosmetics System - Skins, trails and badges the player owns
+ *
+ * Features:
+ * - Persisted ownership of catalogue cosmetics
+ * - One equipped skin per vehicle, one trail, one profile badge
+ * - Coin purchases through the coin ledger; rewards grant for free
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getCosmeticPrice,
+  getCosmeticType,
+  getVehiclePalette,
+  PROFILE_BADGES,
+  ProfileBadge,
+  TRAIL_EFFECTS,
+  TrailEffect,
+  VEHICLE_SKINS,
+  VehiclePalette,
+} from '../game/config/cosmetics';
+import { VehicleId } from '../game/config/vehicles';
+import { getProgressionManager } from '../game/progression/upgrades';
+
+const COSMETICS_KEY = '@summit_wheels_cosmetics';
+
+export type CosmeticsState = {
+  /** Ids of owned cosmetics */
+  owned: string[];
+  /** Skin worn by each vehicle (absent = its own paint) */
+  equippedSkins: Partial<Record<VehicleId, string>>;
+  /** Trail left behind the car */
+  equippedTrail: string | null;
+  /** Badge shown on the profile */
+  equippedBadge: string | null;
+};
+
+/**
+ * Cosmetics System singleton
+ */
+class CosmeticsSystemClass {
+  private _state: CosmeticsState = this._createInitialState();
+  private _isLoaded = false;
+
+  /**
+   * Load state from storage
+   */
+  async load(): Promise<CosmeticsState> {
+    try {
+      const stored = await AsyncStorage.getItem(COSMETICS_KEY);
+      if (stored) {
+        this._state = { ...this._createInitialState(), ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.warn('Failed to load cosmetics:', error);
+    }
+    this._isLoaded = true;
+    return this.getState();
+  }
+
+  /**
+   * Create initial state
+   */
+  private _createInitialState(): CosmeticsState {
+    return {
+      owned: [],
+      equippedSkins: {},
+      equippedTrail: null,
+      equippedBadge: null,
+    };
+  }
+
+  /**
+   * Save state
+   */
+  private async _save(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(COSMETICS_KEY, JSON.stringify(this._state));
+    } catch (error) {
+      console.warn('Failed to save cosmetics:', error);
+    }
+  }
+
+  /**
+   * Check if cosmetics have been loaded
+   */
+  isLoaded(): boolean {
+    return this._isLoaded;
+  }
+
+  /**
+   * Get current state
+   */
+  getState(): CosmeticsState {
+    return {
+      owned: [...this._state.owned],
+      equippedSkins: { ...this._state.equippedSkins },
+      equippedTrail: this._state.equippedTrail,
+      equippedBadge: this._state.equippedBadge,
+    };
+  }
+
+  /**
+   * Check if a cosmetic is owned
+   */
+  isOwned(id: string): boolean {
+    return this._state.owned.includes(id);
+  }
+
+  /**
+   * Give the player a cosmetic (returns false if unknown or already owned)
+   */
+  async grant(id: string): Promise<boolean> {
+    if (!getCosmeticType(id) || this.isOwned(id)) return false;
+
+    this._state.owned.push(id);
+    await this._save();
+    return true;
+  }
+
+  /**
+   * Buy a cosmetic with coins (returns false if it can't be bought or afforded)
+   */
+  async purchase(id: string): Promise<boolean> {
+    const price = getCosmeticPrice(id);
+    if (price === null || this.isOwned(id)) return false;
+
+    if (!(await getProgressionManager().spendCoins(price, 'cosmetic', id))) {
+      return false;
+    }
+    return this.grant(id);
+  }
+
+  /**
+   * Put an owned skin on its vehicle (null goes back to the vehicle's paint)
+   */
+  async equipSkin(vehicleId: VehicleId, skinId: string | null): Promise<boolean> {
+    if (skinId === null) {
+      delete this._state.equippedSkins[vehicleId];
+    } else {
+      if (!this.isOwned(skinId) || VEHICLE_SKINS[skinId]?.vehicleId !== vehicleId) {
+        return false;
+      }
+      this._state.equippedSkins[vehicleId] = skinId;
+    }
+    await this._save();
+    return true;
+  }
+
+  /**
+   * Equip an owned trail (null for none)
+   */
+  async equipTrail(trailId: string | null): Promise<boolean> {
+    if (trailId !== null && (!(trailId in TRAIL_EFFECTS) || !this.isOwned(trailId))) {
+      return false;
+    }
+    this._state.equippedTrail = trailId;
+    await this._save();
+    return true;
+  }
+
+  /**
+   * Equip an owned badge (null for none)
+   */
+  async equipBadge(badgeId: string | null): Promise<boolean> {
+    if (badgeId !== null && (!(badgeId in PROFILE_BADGES) || !this.isOwned(badgeId))) {
+      return false;
+    }
+    this._state.equippedBadge = badgeId;
+    await this._save();
+    return true;
+  }
+
+  /**
+   * Skin worn by a vehicle (null for its own paint)
+   */
+  getEquippedSkin(vehicleId: VehicleId): string | null {
+    return this._state.equippedSkins[vehicleId] ?? null;
+  }
+
+  /**
+   * Colours to draw a vehicle with
+   */
+  getPalette(vehicleId: VehicleId): VehiclePalette {
+    return getVehiclePalette(vehicleId, this.getEquippedSkin(vehicleId));
+  }
+
+  /**
+   * Equipped trail (null for none)
+   */
+  getEquippedTrail(): TrailEffect | null {
+    const trailId = this._state.equippedTrail;
+    return trailId ? TRAIL_EFFECTS[trailId] ?? null : null;
+  }
+
+  /**
+   * Equipped badge (null for none)
+   */
+  getEquippedBadge(): ProfileBadge | null {
+    const badgeId = this._state.equippedBadge;
+    return badgeId ? PROFILE_BADGES[badgeId] ?? null : null;
+  }
+
+  /**
+   * Reset for GDPR deletion
+   */
+  async reset(): Promise<void> {
+    this._state = this._createInitialState();
+    await AsyncStorage.removeItem(COSMETICS_KEY);
+  }
+}
+
+export const CosmeticsSystem = new CosmeticsSystemClass();
+export { CosmeticsSystemClass };
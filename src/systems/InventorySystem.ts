@@ -0,0 +1,212 @@
+/**
+ * Inventory System - Consumable items the player owns
+ *
+ * Features:
+ * - Persisted item stacks (super boosts, fuel canisters, mystery boxes, XP boosts)
+ * - Grant/consume APIs shared by every reward source
+ * - Pre-run loadout: equipped items are taken out when the run starts
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LoadoutItem } from '../game/simulation/loadout';
+
+const INVENTORY_KEY = '@summit_wheels_inventory';
+
+export type ItemId = LoadoutItem | 'mystery_box' | 'xp_boost';
+
+export type ItemDefinition = {
+  id: ItemId;
+  name: string;
+  description: string;
+  icon: string;
+  /** Most of this item a player can hold */
+  maxStack: number;
+};
+
+export const ITEMS: Record<ItemId, ItemDefinition> = {
+  super_boost: {
+    id: 'super_boost',
+    name: 'Super Boost',
+    description: 'Start a run with a full boost meter',
+    icon: '🔥',
+    maxStack: 99,
+  },
+  fuel_canister: {
+    id: 'fuel_canister',
+    name: 'Fuel Canister',
+    description: 'Start a run with a 25% bigger tank',
+    icon: '⛽',
+    maxStack: 99,
+  },
+  mystery_box: {
+    id: 'mystery_box',
+    name: 'Mystery Box',
+    description: 'Open for coins or items',
+    icon: '🎁',
+    maxStack: 20,
+  },
+  xp_boost: {
+    id: 'xp_boost',
+    name: 'XP Boost',
+    description: 'Double season XP for one hour',
+    icon: '⭐',
+    maxStack: 20,
+  },
+};
+
+export const ITEM_IDS = Object.keys(ITEMS) as ItemId[];
+
+/**
+ * Where items came from
+ */
+export type ItemSource = 'dailyReward' | 'luckySpin' | 'seasonPass' | 'mysteryBox';
+
+export type ItemStack = {
+  itemId: ItemId;
+  count: number;
+};
+
+export type InventoryState = {
+  /** Items held */
+  counts: Record<ItemId, number>;
+  /** Items received over time (for analytics) */
+  totalGranted: Record<ItemId, number>;
+};
+
+/**
+ * Inventory System singleton
+ */
+class InventorySystemClass {
+  private _state: InventoryState = this._createInitialState();
+  private _isLoaded = false;
+
+  /**
+   * Load state from storage
+   */
+  async load(): Promise<InventoryState> {
+    try {
+      const stored = await AsyncStorage.getItem(INVENTORY_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored) as Partial<InventoryState>;
+        const initial = this._createInitialState();
+        this._state = {
+          counts: { ...initial.counts, ...parsed.counts },
+          totalGranted: { ...initial.totalGranted, ...parsed.totalGranted },
+        };
+      }
+    } catch (error) {
+      console.warn('Failed to load inventory:', error);
+    }
+    this._isLoaded = true;
+    return this.getState();
+  }
+
+  /**
+   * Create initial state
+   */
+  private _createInitialState(): InventoryState {
+    const empty = Object.fromEntries(ITEM_IDS.map((id) => [id, 0])) as Record<ItemId, number>;
+    return { counts: { ...empty }, totalGranted: { ...empty } };
+  }
+
+  /**
+   * Save state
+   */
+  private async _save(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(INVENTORY_KEY, JSON.stringify(this._state));
+    } catch (error) {
+      console.warn('Failed to save inventory:', error);
+    }
+  }
+
+  /**
+   * Check if the inventory has been loaded
+   */
+  isLoaded(): boolean {
+    return this._isLoaded;
+  }
+
+  /**
+   * Get current state
+   */
+  getState(): InventoryState {
+    return {
+      counts: { ...this._state.counts },
+      totalGranted: { ...this._state.totalGranted },
+    };
+  }
+
+  /**
+   * Items held, in display order (empty stacks left out)
+   */
+  getStacks(): ItemStack[] {
+    return ITEM_IDS.filter((id) => this._state.counts[id] > 0).map((id) => ({
+      itemId: id,
+      count: this._state.counts[id],
+    }));
+  }
+
+  /**
+   * How many of an item are held
+   */
+  getCount(itemId: ItemId): number {
+    return this._state.counts[itemId] ?? 0;
+  }
+
+  /**
+   * Add items (returns how many fit under the stack limit)
+   */
+  async grant(itemId: ItemId, amount: number, source: ItemSource): Promise<number> {
+    const item = ITEMS[itemId];
+    if (!item || amount <= 0) return 0;
+
+    const held = this.getCount(itemId);
+    const granted = Math.min(Math.floor(amount), item.maxStack - held);
+    if (granted <= 0) {
+      console.warn(`Inventory: ${itemId} from ${source} dropped, stack is full`);
+      return 0;
+    }
+
+    this._state.counts[itemId] = held + granted;
+    this._state.totalGranted[itemId] = (this._state.totalGranted[itemId] ?? 0) + granted;
+    await this._save();
+    return granted;
+  }
+
+  /**
+   * Use items up (returns false if not enough are held)
+   */
+  async consume(itemId: ItemId, amount: number = 1): Promise<boolean> {
+    if (amount <= 0 || this.getCount(itemId) < amount) return false;
+
+    this._state.counts[itemId] -= amount;
+    await this._save();
+    return true;
+  }
+
+  /**
+   * Take one of each equipped item out for a run (returns the ones held)
+   */
+  async consumeLoadout(loadout: LoadoutItem[]): Promise<LoadoutItem[]> {
+    const equipped = [...new Set(loadout)].filter((item) => this.getCount(item) > 0);
+    if (equipped.length === 0) return [];
+
+    for (const item of equipped) {
+      this._state.counts[item]--;
+    }
+    await this._save();
+    return equipped;
+  }
+
+  /**
+   * Reset for GDPR deletion
+   */
+  async reset(): Promise<void> {
+    this._state = this._createInitialState();
+    await AsyncStorage.removeItem(INVENTORY_KEY);
+  }
+}
+
+export const InventorySystem = new InventorySystemClass();
+export { InventorySystemClass };
@@ -5,6 +5,7 @@
  * - Personal best records per stage/vehicle combination
  * - Local leaderboards with filtering
  * - Weekly/All-time rankings
+ * - Fastest time trial finishes per course
  * - Structure ready for online leaderboards
  */
 
@@ -25,6 +26,10 @@ export type LeaderboardEntry = {
   trickPoints: number;
   maxCombo: number;
   timeElapsed: number;
+  /** Course played (absent for endless runs) */
+  courseId?: string;
+  /** Time trial finish time in ms (absent unless a time trial reached the finish) */
+  finishTime?: number;
   date: string;
   isPersonalBest: boolean;
 };
@@ -32,10 +37,15 @@ export type LeaderboardEntry = {
 export type LeaderboardFilter = {
   stageId?: StageId;
   vehicleId?: VehicleId;
+  courseId?: string;
   timeframe?: 'daily' | 'weekly' | 'all-time';
 };
 
-export type LeaderboardCategory = 'distance' | 'coins' | 'tricks' | 'combo';
+/**
+ * Ranking order: 'time' ranks time trial finishes fastest first, the
+ * rest rank highest first
+ */
+export type LeaderboardCategory = 'distance' | 'coins' | 'tricks' | 'combo' | 'time';
 
 export type LeaderboardState = {
   entries: LeaderboardEntry[];
@@ -165,6 +175,8 @@ class LeaderboardSystemClass {
     trickPoints: number;
     maxCombo: number;
     timeElapsed: number;
+    courseId?: string;
+    finishTime?: number;
   }): Promise<{
     entry: LeaderboardEntry;
     isNewPersonalBest: boolean;
@@ -190,6 +202,8 @@ class LeaderboardSystemClass {
       trickPoints: result.trickPoints,
       maxCombo: result.maxCombo,
       timeElapsed: result.timeElapsed,
+      ...(result.courseId ? { courseId: result.courseId } : {}),
+      ...(result.finishTime !== undefined ? { finishTime: result.finishTime } : {}),
       date: new Date().toISOString(),
       isPersonalBest: isNewPersonalBest,
     };
@@ -237,8 +251,17 @@ class LeaderboardSystemClass {
     this._state.entries.sort((a, b) => b.distance - a.distance);
 
     if (this._state.entries.length > MAX_ENTRIES_PER_CATEGORY * 6) {
-      // Keep all personal bests
+      // Keep all personal bests and the fastest finish on each course
       const pbIds = new Set(Object.values(this._state.personalBests).map((e) => e.id));
+      const fastest = new Map<string, LeaderboardEntry>();
+      this._state.entries.forEach((entry) => {
+        if (!entry.courseId || entry.finishTime === undefined) return;
+        const best = fastest.get(entry.courseId);
+        if (!best || entry.finishTime < best.finishTime!) {
+          fastest.set(entry.courseId, entry);
+        }
+      });
+      fastest.forEach((entry) => pbIds.add(entry.id));
 
       // Keep top entries plus all personal bests
       const keepEntries = this._state.entries.filter(
@@ -269,6 +292,10 @@ class LeaderboardSystemClass {
       entries = entries.filter((e) => e.vehicleId === filter.vehicleId);
     }
 
+    if (filter.courseId) {
+      entries = entries.filter((e) => e.courseId === filter.courseId);
+    }
+
     if (filter.timeframe) {
       entries = entries.filter((e) => isWithinTimeframe(e.date, filter.timeframe!));
     }
@@ -287,6 +314,10 @@ class LeaderboardSystemClass {
       case 'combo':
         entries.sort((a, b) => b.maxCombo - a.maxCombo);
         break;
+      case 'time':
+        entries = entries.filter((e) => e.finishTime !== undefined);
+        entries.sort((a, b) => a.finishTime! - b.finishTime!);
+        break;
     }
 
     return entries;
@@ -0,0 +1,221 @@
+/**
+ * Quest Board System - The player's weekly quests
+ *
+ * Features:
+ * - A new board every week, the same for every player
+ * - Premium slots that only count with the premium season pass
+ * - Progress carried across runs; completed quests pay season XP and coins
+ * - A limited number of rerolls each week
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  generateQuestBoard,
+  getWeekId,
+  QUEST_BOARD_CONFIG,
+  WeeklyQuest,
+} from '../game/systems/weeklyQuests';
+import { getProgressionManager } from '../game/progression/upgrades';
+import { SeasonPassSystem } from './SeasonPassSystem';
+
+const QUEST_BOARD_KEY = '@summit_wheels_quest_board';
+
+export type QuestBoardState = {
+  /** Week the board belongs to */
+  weekId: string;
+  /** Times each slot has been rerolled this week */
+  slotRerolls: number[];
+  /** Progress by quest id */
+  progress: Record<string, number>;
+  /** Ids of completed (and paid) quests */
+  completed: string[];
+};
+
+export type QuestBoardEntry = {
+  quest: WeeklyQuest;
+  progress: number;
+  completed: boolean;
+  /** Premium quest without the premium pass */
+  locked: boolean;
+};
+
+/**
+ * Quest Board System singleton
+ */
+class QuestBoardSystemClass {
+  private _state: QuestBoardState = this._createInitialState();
+  private _isLoaded = false;
+
+  /**
+   * Load state from storage
+   */
+  async load(): Promise<QuestBoardState> {
+    try {
+      const stored = await AsyncStorage.getItem(QUEST_BOARD_KEY);
+      if (stored) {
+        this._state = { ...this._createInitialState(), ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.warn('Failed to load quest board:', error);
+    }
+
+    if (this._checkWeek()) {
+      await this._save();
+    }
+    this._isLoaded = true;
+    return this.getState();
+  }
+
+  /**
+   * Create initial state
+   */
+  private _createInitialState(): QuestBoardState {
+    return {
+      weekId: getWeekId(new Date(Date.now())),
+      slotRerolls: [],
+      progress: {},
+      completed: [],
+    };
+  }
+
+  /**
+   * Start a fresh board if the week has changed (returns true if it did)
+   */
+  private _checkWeek(): boolean {
+    if (this._state.weekId === getWeekId(new Date(Date.now()))) {
+      return false;
+    }
+    this._state = this._createInitialState();
+    return true;
+  }
+
+  /**
+   * Save state
+   */
+  private async _save(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(QUEST_BOARD_KEY, JSON.stringify(this._state));
+    } catch (error) {
+      console.warn('Failed to save quest board:', error);
+    }
+  }
+
+  /**
+   * Check if the quest board has been loaded
+   */
+  isLoaded(): boolean {
+    return this._isLoaded;
+  }
+
+  /**
+   * Get current state
+   */
+  getState(): QuestBoardState {
+    return {
+      weekId: this._state.weekId,
+      slotRerolls: [...this._state.slotRerolls],
+      progress: { ...this._state.progress },
+      completed: [...this._state.completed],
+    };
+  }
+
+  /**
+   * This week's quests
+   */
+  getQuests(): WeeklyQuest[] {
+    return generateQuestBoard(this._state.weekId, this._state.slotRerolls);
+  }
+
+  /**
+   * This week's quests with the player's progress
+   */
+  getBoard(): QuestBoardEntry[] {
+    const hasPremiumPass = SeasonPassSystem.getState()?.hasPremiumPass ?? false;
+
+    return this.getQuests().map((quest) => ({
+      quest,
+      progress: this._state.progress[quest.id] ?? 0,
+      completed: this._state.completed.includes(quest.id),
+      locked: quest.track === 'premium' && !hasPremiumPass,
+    }));
+  }
+
+  /**
+   * Quests a run can make progress on
+   */
+  getActiveQuests(): WeeklyQuest[] {
+    return this.getBoard()
+      .filter((entry) => !entry.completed && !entry.locked)
+      .map((entry) => entry.quest);
+  }
+
+  /**
+   * Rerolls left this week
+   */
+  getRerollsLeft(): number {
+    const used = this._state.slotRerolls.reduce((sum, count) => sum + (count ?? 0), 0);
+    return Math.max(0, QUEST_BOARD_CONFIG.rerollsPerWeek - used);
+  }
+
+  /**
+   * Swap the quest in a slot for a new one (returns false if it can't be rerolled)
+   *
+   * Completed and locked quests stay, and progress on the old quest is lost.
+   */
+  async reroll(slot: number): Promise<boolean> {
+    this._checkWeek();
+
+    const entry = this.getBoard().find((e) => e.quest.slot === slot);
+    if (!entry || entry.completed || entry.locked || this.getRerollsLeft() === 0) {
+      return false;
+    }
+
+    const slotRerolls = [...this._state.slotRerolls];
+    slotRerolls[slot] = (slotRerolls[slot] ?? 0) + 1;
+    delete this._state.progress[entry.quest.id];
+    this._state.slotRerolls = slotRerolls;
+    await this._save();
+    return true;
+  }
+
+  /**
+   * Add a run's progress and pay out the quests it completed
+   *
+   * Returns the quests completed by this run.
+   */
+  async recordRun(runProgress: Record<string, number>): Promise<WeeklyQuest[]> {
+    this._checkWeek();
+
+    const completed: WeeklyQuest[] = [];
+    for (const quest of this.getActiveQuests()) {
+      const amount = runProgress[quest.id] ?? 0;
+      if (amount <= 0) continue;
+
+      const progress = Math.min(quest.target, (this._state.progress[quest.id] ?? 0) + amount);
+      this._state.progress[quest.id] = progress;
+      if (progress >= quest.target) {
+        this._state.completed.push(quest.id);
+        completed.push(quest);
+      }
+    }
+    await this._save();
+
+    for (const quest of completed) {
+      await SeasonPassSystem.addXP('weekly_quest', quest.rewardXP);
+      await getProgressionManager().addCoins(quest.rewardCoins, 'quest', quest.id);
+    }
+
+    return completed;
+  }
+
+  /**
+   * Reset for GDPR deletion
+   */
+  async reset(): Promise<void> {
+    this._state = this._createInitialState();
+    await AsyncStorage.removeItem(QUEST_BOARD_KEY);
+  }
+}
+
+export const QuestBoardSystem = new QuestBoardSystemClass();
+export { QuestBoardSystemClass };
@@ -5,12 +5,15 @@
  * - 50-level season pass with free and premium tracks
  * - XP earned from gameplay activities
  * - Exclusive rewards for premium pass holders
- * - Seasonal themes and limited-time content
+ * - Global seasons from the season schedule, with their own themes
+ * - Unclaimed rewards are kept for payout when a season ends
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getCurrentSeason, SeasonDefinition } from '../game/config/seasons';
 
 const SEASON_PASS_KEY = '@summit_wheels_season_pass';
+const SEASON_SCHEDULE_KEY = '@summit_wheels_season_schedule';
 
 // Reward types
 export type SeasonRewardType =
@@ -42,7 +45,8 @@ export type XPSource =
   | 'daily_challenge'
   | 'achievement'
   | 'daily_login'
-  | 'first_win';
+  | 'first_win'
+  | 'weekly_quest';
 
 export const XP_VALUES: Record<XPSource, number> = {
   distance: 1, // per 100m
@@ -52,6 +56,7 @@ export const XP_VALUES: Record<XPSource, number> = {
   achievement: 50,
   daily_login: 25,
   first_win: 50, // first run of the day
+  weekly_quest: 1, // per quest XP point
 };
 
 // Season config
@@ -59,7 +64,6 @@ export const SEASON_CONFIG = {
   maxLevel: 50,
   xpPerLevel: 100,
   xpScaling: 1.05, // Each level requires 5% more XP
-  seasonDurationDays: 60,
 };
 
 /**
@@ -245,6 +249,24 @@ function generatePremiumReward(level: number): SeasonReward {
   };
 }
 
+/**
+ * A reward earned in an ended season but never claimed
+ */
+export type EndedSeasonReward = {
+  seasonId: string;
+  reward: SeasonReward;
+};
+
+/**
+ * Where the player finished a past season
+ */
+export type PastSeason = {
+  seasonId: string;
+  finalLevel: number;
+  totalXPEarned: number;
+  hadPremiumPass: boolean;
+};
+
 export type SeasonPassState = {
   // Season info
   seasonId: string;
@@ -270,6 +292,10 @@ export type SeasonPassState = {
   // First run today
   hasClaimedFirstRun: boolean;
   lastFirstRunDate: string;
+
+  // Season rollovers
+  endedSeasonRewards: EndedSeasonReward[];
+  pastSeasons: PastSeason[];
 };
 
 /**
@@ -290,11 +316,39 @@ function totalXPToLevel(level: number): number {
   return total;
 }
 
+/**
+ * Rewards a season pass has reached but not claimed
+ */
+function findUnclaimedRewards(state: SeasonPassState, rewards: SeasonReward[]): SeasonReward[] {
+  return rewards.filter((reward) => {
+    if (reward.level > state.currentLevel) return false;
+
+    if (reward.track === 'premium' && !state.hasPremiumPass) return false;
+
+    const claimedList =
+      reward.track === 'free' ? state.claimedFreeRewards : state.claimedPremiumRewards;
+
+    return !claimedList.includes(reward.level);
+  });
+}
+
+/**
+ * Check if a season id comes from before seasons were global
+ *
+ * Each device used to start its own season, named after the moment the
+ * app first loaded.
+ */
+function isDeviceSeasonId(seasonId: string): boolean {
+  return /^season_\d{13}$/.test(seasonId);
+}
+
 /**
  * Season Pass System singleton
  */
 class SeasonPassSystemClass {
   private _state: SeasonPassState | null = null;
+  private _schedule: SeasonDefinition[] = [];
+  private _season: SeasonDefinition = getCurrentSeason([], Date.now());
   private _rewards: SeasonReward[] = [];
   private _isLoaded = false;
 
@@ -307,17 +361,20 @@ class SeasonPassSystemClass {
    */
   async load(): Promise<SeasonPassState> {
     try {
+      const schedule = await AsyncStorage.getItem(SEASON_SCHEDULE_KEY);
+      if (schedule) {
+        this._schedule = JSON.parse(schedule);
+      }
+
       const stored = await AsyncStorage.getItem(SEASON_PASS_KEY);
       if (stored) {
-        this._state = JSON.parse(stored);
-
-        // Check if season is still active
-        await this._checkSeasonValidity();
-      } else {
-        this._state = this._createNewSeason();
-        await this._save();
+        this._state = { endedSeasonRewards: [], pastSeasons: [], ...JSON.parse(stored) };
       }
 
+      // Move onto the current season, rolling over if it has changed
+      this._syncSeason(Date.now());
+      await this._save();
+
       // Check for first run of day
       this._checkFirstRun();
 
@@ -325,24 +382,21 @@ class SeasonPassSystemClass {
       return this._state!;
     } catch (error) {
       console.error('Failed to load season pass:', error);
-      this._state = this._createNewSeason();
+      this._setSeason(getCurrentSeason(this._schedule, Date.now()));
+      this._state = this._createSeasonState(this._season);
       this._isLoaded = true;
       return this._state;
     }
   }
 
   /**
-   * Create a new season
+   * Create a fresh pass for a season
    */
-  private _createNewSeason(): SeasonPassState {
-    const startDate = new Date();
-    const endDate = new Date();
-    endDate.setDate(endDate.getDate() + SEASON_CONFIG.seasonDurationDays);
-
+  private _createSeasonState(season: SeasonDefinition): SeasonPassState {
     return {
-      seasonId: `season_${Date.now()}`,
-      seasonStartDate: startDate.toISOString(),
-      seasonEndDate: endDate.toISOString(),
+      seasonId: season.id,
+      seasonStartDate: season.startDate,
+      seasonEndDate: season.endDate,
       currentLevel: 1,
       currentXP: 0,
       totalXPEarned: 0,
@@ -353,22 +407,97 @@ class SeasonPassSystemClass {
       xpBoostMultiplier: 1,
       hasClaimedFirstRun: false,
       lastFirstRunDate: '',
+      endedSeasonRewards: [],
+      pastSeasons: [],
     };
   }
 
   /**
-   * Check season validity
+   * Make a season the current one
    */
-  private async _checkSeasonValidity(): Promise<void> {
-    if (!this._state) return;
+  private _setSeason(season: SeasonDefinition): void {
+    this._season = season;
+    this._rewards = season.rewards ?? generateSeasonRewards();
+  }
 
-    const now = new Date();
-    const endDate = new Date(this._state.seasonEndDate);
+  /**
+   * Reward track of a season in the schedule
+   */
+  private _getSeasonRewards(seasonId: string): SeasonReward[] {
+    const season = this._schedule.find((s) => s.id === seasonId);
+    return season?.rewards ?? generateSeasonRewards();
+  }
+
+  /**
+   * Bring the pass onto the season running now
+   */
+  private _syncSeason(now: number): void {
+    const season = getCurrentSeason(this._schedule, now);
+    const state = this._state;
+
+    if (!state) {
+      this._state = this._createSeasonState(season);
+    } else if (state.seasonId !== season.id && !isDeviceSeasonId(state.seasonId)) {
+      this._state = this._rollOver(state, season);
+    } else {
+      // Same season, whose dates the schedule may have moved. A season
+      // started on this device joins the global one with its progress.
+      state.seasonId = season.id;
+      state.seasonStartDate = season.startDate;
+      state.seasonEndDate = season.endDate;
+    }
+
+    this._setSeason(season);
+  }
+
+  /**
+   * Start a new season's pass from the previous one
+   *
+   * Level, XP, claims and the premium pass belong to a season and start
+   * over. Rewards reached but not claimed are kept for payout, and the
+   * final standing goes into the season history.
+   */
+  private _rollOver(previous: SeasonPassState, season: SeasonDefinition): SeasonPassState {
+    const unclaimed = findUnclaimedRewards(previous, this._getSeasonRewards(previous.seasonId));
 
-    if (now > endDate) {
-      // Season has ended, start new season
-      // Note: In production, you'd have proper season transitions
-      this._state = this._createNewSeason();
+    return {
+      ...this._createSeasonState(season),
+      xpBoostEndTime: previous.xpBoostEndTime,
+      xpBoostMultiplier: previous.xpBoostMultiplier,
+      hasClaimedFirstRun: previous.hasClaimedFirstRun,
+      lastFirstRunDate: previous.lastFirstRunDate,
+      endedSeasonRewards: [
+        ...previous.endedSeasonRewards,
+        ...unclaimed.map((reward) => ({ seasonId: previous.seasonId, reward })),
+      ],
+      pastSeasons: [
+        ...previous.pastSeasons,
+        {
+          seasonId: previous.seasonId,
+          finalLevel: previous.currentLevel,
+          totalXPEarned: previous.totalXPEarned,
+          hadPremiumPass: previous.hasPremiumPass,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Use a season schedule fetched from the server
+   *
+   * The schedule is kept for offline launches, and the pass rolls over
+   * if the schedule says a new season has started.
+   */
+  async applySchedule(schedule: SeasonDefinition[]): Promise<void> {
+    this._schedule = schedule;
+    try {
+      await AsyncStorage.setItem(SEASON_SCHEDULE_KEY, JSON.stringify(schedule));
+    } catch (error) {
+      console.warn('Failed to save season schedule:', error);
+    }
+
+    if (this._state) {
+      this._syncSeason(Date.now());
       await this._save();
     }
   }
@@ -401,6 +530,13 @@ class SeasonPassSystemClass {
     return this._state;
   }
 
+  /**
+   * Get the current season
+   */
+  getSeason(): SeasonDefinition {
+    return { ...this._season };
+  }
+
   /**
    * Get all rewards
    */
@@ -433,6 +569,9 @@ class SeasonPassSystemClass {
       return { xpAdded: 0, leveledUp: false, newLevel: 1 };
     }
 
+    // XP goes to the season running now, even if it started mid-session
+    this._syncSeason(Date.now());
+
     const baseXP = XP_VALUES[source] * amount;
 
     // Apply XP boost if active
@@ -540,16 +679,29 @@ class SeasonPassSystemClass {
   getUnclaimedRewards(): SeasonReward[] {
     if (!this._state) return [];
 
-    return this._rewards.filter((reward) => {
-      if (reward.level > this._state!.currentLevel) return false;
+    return findUnclaimedRewards(this._state, this._rewards);
+  }
 
-      if (reward.track === 'premium' && !this._state!.hasPremiumPass) return false;
+  /**
+   * Get unclaimed rewards of ended seasons, waiting to be paid out
+   */
+  getEndedSeasonRewards(): EndedSeasonReward[] {
+    return this._state ? [...this._state.endedSeasonRewards] : [];
+  }
 
-      const claimedList =
-        reward.track === 'free' ? this._state!.claimedFreeRewards : this._state!.claimedPremiumRewards;
+  /**
+   * Mark an ended season's reward as paid out
+   */
+  async settleEndedSeasonReward(seasonId: string, reward: SeasonReward): Promise<void> {
+    if (!this._state) return;
 
-      return !claimedList.includes(reward.level);
-    });
+    this._state.endedSeasonRewards = this._state.endedSeasonRewards.filter(
+      (entry) =>
+        entry.seasonId !== seasonId ||
+        entry.reward.track !== reward.track ||
+        entry.reward.level !== reward.level
+    );
+    await this._save();
   }
 
   /**
@@ -607,7 +759,8 @@ class SeasonPassSystemClass {
    * Reset for GDPR deletion
    */
   async reset(): Promise<void> {
-    this._state = this._createNewSeason();
+    this._setSeason(getCurrentSeason(this._schedule, Date.now()));
+    this._state = this._createSeasonState(this._season);
     await AsyncStorage.removeItem(SEASON_PASS_KEY);
   }
 }
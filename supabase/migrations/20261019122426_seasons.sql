@@ -0,0 +1,31 @@
+-- Seasons Migration
+-- Adds the global season schedule read by the app
+
+-- ============================================
+-- 1. ADD SEASONS TABLE
+-- ============================================
+-- Ids follow the bundled schedule (season_1, season_2, ...) so players
+-- who were offline land in the same season.
+CREATE TABLE IF NOT EXISTS seasons (
+  id VARCHAR(50) PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  theme JSONB DEFAULT '{}',
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  rewards JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+-- The app reads the schedule in start order
+CREATE INDEX IF NOT EXISTS idx_seasons_starts_at ON seasons(starts_at);
+
+-- ============================================
+-- 2. SECURITY POLICIES
+-- ============================================
+ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read the schedule; changes go through the service key
+DROP POLICY IF EXISTS "Allow select for all" ON seasons;
+CREATE POLICY "Allow select for all" ON seasons
+  FOR SELECT USING (true);